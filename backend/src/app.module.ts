@@ -9,6 +9,17 @@ import { CustomersModule } from './modules/customers/customers.module';
 import { InvoicesModule } from './modules/invoices/invoices.module';
 import { ProductionModule } from './modules/production/production.module';
 import { ReportingModule } from './modules/reporting/reporting.module';
+import { InventoryModule } from './modules/inventory/inventory.module';
+import { SuppliersModule } from './modules/suppliers/suppliers.module';
+import { PurchaseOrdersModule } from './modules/purchase-orders/purchase-orders.module';
+import { ReplenishmentModule } from './modules/replenishment/replenishment.module';
+import { LocationsModule } from './modules/locations/locations.module';
+import { TaxesModule } from './modules/taxes/taxes.module';
+import { PromotionsModule } from './modules/promotions/promotions.module';
+import { LoyaltyModule } from './modules/loyalty/loyalty.module';
+import { RegistersModule } from './modules/registers/registers.module';
+import { UsersModule } from './modules/users/users.module';
+import { AuditModule } from './modules/audit/audit.module';
 import { databaseConfig } from './config/database.config';
 import { StaticFilesMiddleware } from './common/middleware/static-files.middleware';
 
@@ -29,6 +40,17 @@ import { StaticFilesMiddleware } from './common/middleware/static-files.middlewa
     InvoicesModule,
     ProductionModule,
     ReportingModule,
+    InventoryModule,
+    SuppliersModule,
+    PurchaseOrdersModule,
+    ReplenishmentModule,
+    LocationsModule,
+    TaxesModule,
+    PromotionsModule,
+    LoyaltyModule,
+    RegistersModule,
+    UsersModule,
+    AuditModule,
   ],
 })
 export class AppModule implements NestModule {
@@ -6,12 +6,14 @@ import * as moment from 'moment';
 import { ReportingService, ReportFilters } from '../services/reporting.service';
 import { Sale, SaleDocument } from '../../modules/sales/schemas/sale.schema';
 import { JwtAuthGuard } from '../../modules/auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../../modules/auth/guards/roles.guard';
-import { Roles } from '../../modules/auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../../modules/auth/guards/permissions.guard';
+import { RequirePermissions } from '../../modules/auth/decorators/permissions.decorator';
+import { Permission } from '../../config/permissions.config';
 
 @ApiTags('reports')
 @Controller('reports')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.REPORTS_VIEW)
 @ApiBearerAuth()
 export class ReportingController {
   private readonly logger = new Logger(ReportingController.name);
@@ -24,7 +26,6 @@ export class ReportingController {
   // ==================== SALES REPORTS ====================
 
   @Get('sales/daily')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get daily sales summary' })
   @ApiResponse({ status: 200, description: 'Daily sales summary retrieved successfully' })
   @ApiQuery({ name: 'date', required: false, description: 'Date in YYYY-MM-DD format (defaults to today)' })
@@ -33,7 +34,6 @@ export class ReportingController {
   }
 
   @Get('sales/period')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get sales report by period' })
   @ApiResponse({ status: 200, description: 'Sales report by period retrieved successfully' })
   @ApiQuery({ name: 'startDate', required: false, description: 'Start date in YYYY-MM-DD format' })
@@ -46,7 +46,6 @@ export class ReportingController {
   }
 
   @Get('sales/top-products')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get top products report' })
   @ApiResponse({ status: 200, description: 'Top products report retrieved successfully' })
   @ApiQuery({ name: 'startDate', required: false, description: 'Start date in YYYY-MM-DD format' })
@@ -58,7 +57,6 @@ export class ReportingController {
   }
 
   @Get('sales/customers')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get customer sales report' })
   @ApiResponse({ status: 200, description: 'Customer sales report retrieved successfully' })
   @ApiQuery({ name: 'startDate', required: false, description: 'Start date in YYYY-MM-DD format' })
@@ -71,7 +69,6 @@ export class ReportingController {
   // ==================== INVENTORY REPORTS ====================
 
   @Get('inventory/stock-levels')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get stock level report' })
   @ApiResponse({ status: 200, description: 'Stock level report retrieved successfully' })
   async getStockLevelReport() {
@@ -79,23 +76,22 @@ export class ReportingController {
   }
 
   @Get('inventory/low-stock')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get low stock report' })
   @ApiResponse({ status: 200, description: 'Low stock report retrieved successfully' })
-  async getLowStockReport() {
-    return this.reportingService.getLowStockReport();
+  @ApiQuery({ name: 'location', required: false, description: 'Filter by location ID' })
+  async getLowStockReport(@Query() filters: ReportFilters) {
+    return this.reportingService.getLowStockReport(filters);
   }
 
   @Get('inventory/valuation')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get inventory valuation report' })
   @ApiResponse({ status: 200, description: 'Inventory valuation report retrieved successfully' })
-  async getInventoryValuationReport() {
-    return this.reportingService.getInventoryValuationReport();
+  @ApiQuery({ name: 'location', required: false, description: 'Filter by location ID' })
+  async getInventoryValuationReport(@Query() filters: ReportFilters) {
+    return this.reportingService.getInventoryValuationReport(filters);
   }
 
   @Get('inventory/movements')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get stock movement report' })
   @ApiResponse({ status: 200, description: 'Stock movement report retrieved successfully' })
   @ApiQuery({ name: 'startDate', required: false, description: 'Start date in YYYY-MM-DD format' })
@@ -108,7 +104,6 @@ export class ReportingController {
   // ==================== COMBINED REPORTS ====================
 
   @Get('dashboard')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get comprehensive dashboard report' })
   @ApiResponse({ status: 200, description: 'Dashboard report retrieved successfully' })
   async getDashboardReport() {
@@ -158,7 +153,6 @@ export class ReportingController {
   }
 
   @Get('summary')
-  @Roles('admin', 'manager')
   @ApiOperation({ summary: 'Get business summary report' })
   @ApiResponse({ status: 200, description: 'Business summary report retrieved successfully' })
   @ApiQuery({ name: 'period', required: false, description: 'Period: daily, weekly, monthly (defaults to monthly)' })
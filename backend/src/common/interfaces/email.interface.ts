@@ -21,6 +21,8 @@ export interface InvoiceEmailData {
     unitPrice: number;
     total: number;
   }>;
+  // The invoice PDF, when one is attached
+  pdfPath?: string;
 }
 
 export interface WelcomeEmailData {
@@ -34,6 +36,23 @@ export interface PasswordResetData {
   customerEmail: string;
   resetToken: string;
   resetUrl: string;
+  // Verification and invitation links are sent with the same template
+  purpose?: 'password_reset' | 'email_verification' | 'invitation';
+  // Shown in the email, e.g. '1 hour'
+  expiresIn?: string;
+}
+
+export interface InvoiceReminderData {
+  customerName: string;
+  customerEmail: string;
+  invoiceNumber: string;
+  // Rendered from the reminder template
+  subject: string;
+  message: string;
+  balanceDue: number;
+  dueDate: string;
+  // The invoice PDF, when one is attached
+  pdfPath?: string;
 }
 
 export interface OrderConfirmationData {
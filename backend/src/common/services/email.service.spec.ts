@@ -45,4 +45,27 @@ describe('EmailService', () => {
     const result = await service.testConnection();
     expect(typeof result).toBe('boolean');
   });
+
+  it('should send invoice reminders with the rendered subject and the invoice PDF attached', async () => {
+    const sendEmail = jest.spyOn(service, 'sendEmail').mockResolvedValue(true);
+
+    await service.sendInvoiceReminderEmail({
+      customerName: 'Jane Smith',
+      customerEmail: 'jane@example.com',
+      invoiceNumber: 'INV-2024-000007',
+      subject: 'Invoice INV-2024-000007 is overdue',
+      message: 'First paragraph.\n\nSecond paragraph.',
+      balanceDue: 150,
+      dueDate: '5/8/2024',
+      pdfPath: '/tmp/invoice.pdf',
+    });
+
+    const [options] = sendEmail.mock.calls[0];
+    expect(options.subject).toBe('Invoice INV-2024-000007 is overdue');
+    expect(options.html).toContain('<p>Second paragraph.</p>');
+    expect(options.html).toContain('$150.00');
+    expect(options.attachments).toEqual([
+      { filename: 'invoice-INV-2024-000007.pdf', path: '/tmp/invoice.pdf', contentType: 'application/pdf' },
+    ]);
+  });
 });
@@ -9,7 +9,8 @@ import {
   InvoiceEmailData, 
   WelcomeEmailData, 
   PasswordResetData, 
-  OrderConfirmationData 
+  OrderConfirmationData,
+  InvoiceReminderData
 } from '../interfaces/email.interface';
 
 @Injectable()
@@ -106,6 +107,9 @@ export class EmailService {
       to: data.customerEmail,
       subject: `Invoice #${data.invoiceNumber} - ${this.configService.get('COMPANY_NAME') || 'TechStore Pro'}`,
       html,
+      attachments: data.pdfPath
+        ? [{ filename: `invoice-${data.invoiceNumber}.pdf`, path: data.pdfPath, contentType: 'application/pdf' }]
+        : undefined,
     });
   }
 
@@ -122,7 +126,7 @@ export class EmailService {
     const html = this.generatePasswordResetTemplate(data);
     return this.sendEmail({
       to: data.customerEmail,
-      subject: `Password Reset Request - ${this.configService.get('COMPANY_NAME') || 'TechStore Pro'}`,
+      subject: `${this.getAccountEmailCopy(data).title} - ${this.configService.get('COMPANY_NAME') || 'TechStore Pro'}`,
       html,
     });
   }
@@ -136,6 +140,18 @@ export class EmailService {
     });
   }
 
+  async sendInvoiceReminderEmail(data: InvoiceReminderData): Promise<boolean> {
+    const html = this.generateInvoiceReminderTemplate(data);
+    return this.sendEmail({
+      to: data.customerEmail,
+      subject: data.subject,
+      html,
+      attachments: data.pdfPath
+        ? [{ filename: `invoice-${data.invoiceNumber}.pdf`, path: data.pdfPath, contentType: 'application/pdf' }]
+        : undefined,
+    });
+  }
+
   async testConnection(): Promise<boolean> {
     if (!this.isInitialized || !this.transporter) {
       this.logger.warn('📧 Email service not initialized');
@@ -297,8 +313,48 @@ export class EmailService {
     `;
   }
 
+  private getAccountEmailCopy(data: PasswordResetData) {
+    const companyName = this.configService.get('COMPANY_NAME') || 'TechStore Pro';
+    const expiresIn = data.expiresIn || '1 hour';
+
+    switch (data.purpose) {
+      case 'email_verification':
+        return {
+          title: 'Verify Your Email Address',
+          intro: `Please confirm this is the email address for your ${companyName} account.`,
+          action: 'Verify My Email',
+          notes: [
+            `This link will expire in ${expiresIn}`,
+            'If you did not expect this email, please ignore it',
+          ],
+        };
+      case 'invitation':
+        return {
+          title: 'You Have Been Invited',
+          intro: `You have been invited to join ${companyName}. Choose a password to activate your account.`,
+          action: 'Accept Invitation',
+          notes: [
+            `This invitation will expire in ${expiresIn}`,
+            'If you were not expecting an invitation, please ignore this email',
+          ],
+        };
+      default:
+        return {
+          title: 'Password Reset Request',
+          intro: `We received a request to reset your password for your ${companyName} account.`,
+          action: 'Reset My Password',
+          notes: [
+            `This link will expire in ${expiresIn} for security reasons`,
+            `If you didn't request this password reset, please ignore this email`,
+            'Your password will remain unchanged until you complete the reset process',
+          ],
+        };
+    }
+  }
+
   private generatePasswordResetTemplate(data: PasswordResetData): string {
     const companyName = this.configService.get('COMPANY_NAME') || 'TechStore Pro';
+    const copy = this.getAccountEmailCopy(data);
 
     return `
       <!DOCTYPE html>
@@ -306,7 +362,7 @@ export class EmailService {
       <head>
         <meta charset="utf-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Password Reset Request - ${companyName}</title>
+        <title>${copy.title} - ${companyName}</title>
         <style>
           body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
           .container { max-width: 600px; margin: 0 auto; padding: 20px; }
@@ -320,24 +376,22 @@ export class EmailService {
       <body>
         <div class="container">
           <div class="header">
-            <h1>🔐 Password Reset Request</h1>
+            <h1>🔐 ${copy.title}</h1>
             <p>${companyName} - Account Security</p>
           </div>
 
           <div class="content">
             <h2>Hello ${data.customerName},</h2>
-            <p>We received a request to reset your password for your ${companyName} account.</p>
+            <p>${copy.intro}</p>
             
             <div style="text-align: center; margin: 30px 0;">
-              <a href="${data.resetUrl}" class="button">Reset My Password</a>
+              <a href="${data.resetUrl}" class="button">${copy.action}</a>
             </div>
 
             <div class="warning">
               <p><strong>⚠️ Important:</strong></p>
               <ul>
-                <li>This link will expire in 1 hour for security reasons</li>
-                <li>If you didn't request this password reset, please ignore this email</li>
-                <li>Your password will remain unchanged until you complete the reset process</li>
+                ${copy.notes.map(note => `<li>${note}</li>`).join('')}
               </ul>
             </div>
 
@@ -430,4 +484,51 @@ export class EmailService {
       </html>
     `;
   }
+
+  private generateInvoiceReminderTemplate(data: InvoiceReminderData): string {
+    const companyName = this.configService.get('COMPANY_NAME') || 'TechStore Pro';
+    const companyPhone = this.configService.get('COMPANY_PHONE') || '+1-555-TECH';
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${data.subject}</title>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #f8f9fa; padding: 20px; border-radius: 8px; text-align: center; margin-bottom: 30px; }
+          .content { background: #fff; border: 1px solid #ddd; border-radius: 8px; padding: 30px; margin-bottom: 20px; }
+          .balance { background: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0; }
+          .footer { text-align: center; margin-top: 30px; color: #666; font-size: 14px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${companyName}</h1>
+            <p>Payment Reminder</p>
+          </div>
+
+          <div class="content">
+            <h2>Hello ${data.customerName},</h2>
+            ${data.message.split('\n\n').map(paragraph => `<p>${paragraph}</p>`).join('')}
+
+            <div class="balance">
+              <p><strong>Invoice:</strong> #${data.invoiceNumber}</p>
+              <p><strong>Balance Due:</strong> $${data.balanceDue.toFixed(2)}</p>
+              <p><strong>Due Date:</strong> ${data.dueDate}</p>
+            </div>
+          </div>
+
+          <div class="footer">
+            <p>If you have any questions, please contact us at ${companyPhone}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
 }
@@ -1,11 +1,12 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import * as moment from 'moment';
 import { Sale, SaleDocument } from '../../modules/sales/schemas/sale.schema';
 import { Product, ProductDocument } from '../../modules/products/schemas/product.schema';
 import { Customer, CustomerDocument } from '../../modules/customers/schemas/customer.schema';
 import { Invoice, InvoiceDocument } from '../../modules/invoices/schemas/invoice.schema';
+import { StockMovement, StockMovementDocument } from '../../modules/inventory/schemas/stock-movement.schema';
 
 export interface SalesReport {
   period: string;
@@ -75,6 +76,7 @@ export interface ReportFilters {
   category?: string;
   customer?: string;
   product?: string;
+  location?: string;
   limit?: number;
 }
 
@@ -87,6 +89,7 @@ export class ReportingService {
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     @InjectModel(Customer.name) private customerModel: Model<CustomerDocument>,
     @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
+    @InjectModel(StockMovement.name) private stockMovementModel: Model<StockMovementDocument>,
   ) {}
 
   // ==================== SALES REPORTS ====================
@@ -221,13 +224,26 @@ export class ReportingService {
         { $sort: { _id: 1 } },
       ]);
 
-      // Get payment method breakdown
+      // Get payment method breakdown by tender; sales from before split
+      // payments count their whole total against their single method
       const paymentMethods = await this.saleModel.aggregate([
         { $match: matchConditions },
+        {
+          $project: {
+            tenders: {
+              $cond: [
+                { $gt: [{ $size: { $ifNull: ['$payments', []] } }, 0] },
+                { $filter: { input: '$payments', cond: { $eq: ['$$this.status', 'completed'] } } },
+                [{ method: '$payment.method', amount: '$totals.total' }],
+              ],
+            },
+          },
+        },
+        { $unwind: '$tenders' },
         {
           $group: {
-            _id: '$payment.method',
-            total: { $sum: '$totals.total' },
+            _id: '$tenders.method',
+            total: { $sum: '$tenders.amount' },
             count: { $sum: 1 },
           },
         },
@@ -413,6 +429,7 @@ export class ReportingService {
           $project: {
             name: 1,
             sku: 1,
+            variant: 1,
             category: 1,
             currentStock: '$inventory.quantity',
             maxStock: '$inventory.maxStock',
@@ -459,12 +476,14 @@ export class ReportingService {
     }
   }
 
-  async getLowStockReport(): Promise<any> {
+  async getLowStockReport(filters: ReportFilters = {}): Promise<any> {
     try {
       const lowStockItems = await this.productModel.aggregate([
+        ...this.getStockUnitStages(),
+        ...this.getLocationStages(filters.location),
         {
           $match: {
-            'inventory.quantity': { $lte: '$inventory.minStock' },
+            $expr: { $lte: ['$inventory.quantity', '$inventory.minStock'] },
           },
         },
         {
@@ -482,6 +501,7 @@ export class ReportingService {
           $project: {
             name: 1,
             sku: 1,
+            variant: 1,
             category: 1,
             currentStock: '$inventory.quantity',
             minStock: '$inventory.minStock',
@@ -526,9 +546,11 @@ export class ReportingService {
     }
   }
 
-  async getInventoryValuationReport(): Promise<any> {
+  async getInventoryValuationReport(filters: ReportFilters = {}): Promise<any> {
     try {
       const valuation = await this.productModel.aggregate([
+        ...this.getStockUnitStages(),
+        ...this.getLocationStages(filters.location),
         {
           $addFields: {
             stockValue: { $multiply: ['$inventory.quantity', '$price.cost'] },
@@ -552,6 +574,7 @@ export class ReportingService {
               $push: {
                 name: '$name',
                 sku: '$sku',
+                variant: '$variant',
                 quantity: '$inventory.quantity',
                 costPrice: '$price.cost',
                 sellingPrice: '$price.selling',
@@ -609,17 +632,15 @@ export class ReportingService {
       };
 
       if (product) {
-        matchConditions['items.product'] = product;
+        matchConditions.product = new Types.ObjectId(product);
       }
 
-      // Get sales (stock out)
-      const stockOut = await this.saleModel.aggregate([
-        { $match: { ...matchConditions, status: 'completed' } },
-        { $unwind: '$items' },
+      const movements = await this.stockMovementModel.aggregate([
+        { $match: matchConditions },
         {
           $lookup: {
             from: 'products',
-            localField: 'items.product',
+            localField: 'product',
             foreignField: '_id',
             as: 'productDetails',
           },
@@ -627,31 +648,32 @@ export class ReportingService {
         {
           $group: {
             _id: {
-              product: '$items.product',
+              product: '$product',
               date: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
+              movementType: '$type',
+              direction: { $cond: [{ $gte: ['$quantity', 0] }, 'in', 'out'] },
             },
             productName: { $first: { $arrayElemAt: ['$productDetails.name', 0] } },
-            quantity: { $sum: '$items.quantity' },
-            revenue: { $sum: { $multiply: ['$items.quantity', '$items.unitPrice'] } },
-            type: { $first: 'out' },
-            reason: { $first: 'Sale' },
+            quantity: { $sum: { $abs: '$quantity' } },
+            movementCount: { $sum: 1 },
           },
         },
+        {
+          $project: {
+            _id: 1,
+            productName: 1,
+            quantity: 1,
+            movementCount: 1,
+            movementType: '$_id.movementType',
+            type: '$_id.direction',
+            reason: '$_id.movementType',
+          },
+        },
+        { $sort: { '_id.date': 1 } },
       ]);
 
-      // For now, we'll simulate stock in movements
-      // In a real system, you'd have purchase orders or stock receipts
-      const stockIn = stockOut.map(item => ({
-        ...item,
-        _id: { ...item._id, type: 'in' },
-        quantity: Math.floor(item.quantity * 0.8), // Simulate restocking
-        type: 'in',
-        reason: 'Restock',
-      }));
-
-      const movements = [...stockOut, ...stockIn].sort((a, b) => 
-        moment(a._id.date).diff(moment(b._id.date))
-      );
+      const stockIn = movements.filter(item => item.type === 'in');
+      const stockOut = movements.filter(item => item.type === 'out');
 
       const summary = {
         period: `${moment(start).format('MMM DD')} - ${moment(end).format('MMM DD, YYYY')}`,
@@ -675,6 +697,74 @@ export class ReportingService {
 
   // ==================== HELPER METHODS ====================
 
+  // Splits products with variants into one document per active variant,
+  // carrying the variant's name, SKU, prices and stock in the product fields
+  private getStockUnitStages(): any[] {
+    const forVariant = (variantValue: any, productValue: any) => ({
+      $cond: [{ $ifNull: ['$variants', false] }, variantValue, productValue],
+    });
+
+    return [
+      { $unwind: { path: '$variants', preserveNullAndEmptyArrays: true } },
+      { $match: { 'variants.isActive': { $ne: false } } },
+      {
+        $addFields: {
+          variant: forVariant('$variants._id', '$$REMOVE'),
+          name: forVariant({ $concat: ['$name', ' (', '$variants.name', ': ', '$variants.value', ')'] }, '$name'),
+          sku: forVariant({ $ifNull: ['$variants.sku', '$sku'] }, '$sku'),
+          'price.cost': forVariant({ $ifNull: ['$variants.price.cost', '$price.cost'] }, '$price.cost'),
+          'price.selling': forVariant(
+            {
+              $ifNull: [
+                '$variants.price.selling',
+                { $add: ['$price.selling', { $ifNull: ['$variants.priceModifier', 0] }] },
+              ],
+            },
+            '$price.selling'
+          ),
+          'inventory.quantity': forVariant('$variants.inventory.quantity', '$inventory.quantity'),
+          'inventory.minStock': forVariant('$variants.inventory.minStock', '$inventory.minStock'),
+          stockLevels: forVariant({ $ifNull: ['$variants.stockLevels', []] }, '$stockLevels'),
+        },
+      },
+      { $project: { variants: 0 } },
+    ];
+  }
+
+  // Restricts inventory reports to one location by replacing the product
+  // totals with the quantity and minimum stock held there
+  private getLocationStages(location?: string): any[] {
+    if (!location) {
+      return [];
+    }
+
+    if (!Types.ObjectId.isValid(location)) {
+      throw new BadRequestException('Invalid location ID');
+    }
+
+    const locationId = new Types.ObjectId(location);
+
+    return [
+      { $match: { 'stockLevels.location': locationId } },
+      {
+        $addFields: {
+          stockLevel: {
+            $arrayElemAt: [
+              { $filter: { input: '$stockLevels', as: 'level', cond: { $eq: ['$$level.location', locationId] } } },
+              0,
+            ],
+          },
+        },
+      },
+      {
+        $addFields: {
+          'inventory.quantity': '$stockLevel.quantity',
+          'inventory.minStock': '$stockLevel.minStock',
+        },
+      },
+    ];
+  }
+
   private async getTopProductsByPeriod(start: Date, end: Date, limit: number, category?: string): Promise<any[]> {
     const matchConditions: any = {
       createdAt: { $gte: start, $lte: end },
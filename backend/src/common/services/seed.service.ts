@@ -300,13 +300,20 @@ export class SeedService {
             total: products[0].price.selling,
           },
         ],
+        payments: [
+          {
+            method: 'card',
+            amount: products[0].price.selling * 1.1,
+            status: 'completed',
+            reference: 'CARD123456',
+            cardLast4: '1234',
+            cardBrand: 'Visa',
+          },
+        ],
         payment: {
           method: 'card',
-          amount: products[0].price.selling,
+          amount: products[0].price.selling * 1.1,
           status: 'completed',
-          reference: 'CARD123456',
-          cardLast4: '1234',
-          cardBrand: 'Visa',
         },
         totals: {
           subtotal: products[0].price.selling,
@@ -332,10 +339,25 @@ export class SeedService {
             total: (products[1].price.selling * 2) - 50,
           },
         ],
+        payments: [
+          {
+            method: 'card',
+            amount: ((products[1].price.selling * 2) * 1.1) - 100,
+            status: 'completed',
+          },
+          {
+            method: 'cash',
+            amount: 50,
+            tendered: 60,
+            change: 10,
+            status: 'completed',
+          },
+        ],
         payment: {
-          method: 'cash',
-          amount: (products[1].price.selling * 2) - 50,
+          method: 'split',
+          amount: ((products[1].price.selling * 2) * 1.1) - 50,
           status: 'completed',
+          change: 10,
         },
         totals: {
           subtotal: products[1].price.selling * 2,
@@ -394,11 +416,11 @@ export class SeedService {
           taxRate: 0.1,
         },
         payment: {
-          method: sales[0].payment.method,
+          method: sales[0].payments[0].method,
           status: 'paid',
           paidAmount: sales[0].payment.amount,
           paidDate: new Date(),
-          reference: sales[0].payment.reference,
+          reference: sales[0].payments[0].reference,
         },
         dates: {
           dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
@@ -430,7 +452,7 @@ export class SeedService {
         },
         notes: 'Thank you for your purchase!',
         terms: 'Payment due within 30 days. Late payments subject to 1.5% monthly interest.',
-        status: 'generated',
+        status: 'paid',
         pdfPath: '',
         isEmailSent: false,
       },
@@ -0,0 +1,11 @@
+export const accountConfig = {
+  // Signs password reset, email verification and invitation tokens
+  tokenSecret: process.env.ACCOUNT_TOKEN_SECRET || 'your-account-token-secret',
+  // Matches the expiry stated in the password reset email
+  passwordResetExpiresIn: process.env.PASSWORD_RESET_EXPIRES_IN || '1h',
+  emailVerificationExpiresIn: process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h',
+  invitationExpiresIn: process.env.INVITATION_EXPIRES_IN || '7d',
+  // Links in account emails point at these frontend pages
+  frontendUrl: process.env.FRONTEND_URL || 'http://localhost:4200',
+  minPasswordLength: 8,
+};
@@ -0,0 +1,10 @@
+export const idempotencyConfig = {
+  // Request header carrying the client-generated key
+  header: 'idempotency-key',
+  // How long a key and its stored response are kept
+  ttlHours: parseInt(process.env.IDEMPOTENCY_TTL_HOURS, 10) || 24,
+  // A request still processing after this long is assumed to have died,
+  // and a retry with the same key may take over
+  lockTimeoutSeconds: parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS, 10) || 60,
+  maxKeyLength: 255,
+};
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+
+export interface InvoiceReminderTemplate {
+  // Recorded on the invoice, so each stage is sent at most once
+  stage: string;
+  // Days relative to the due date: negative before it, positive after
+  daysFromDue: number;
+  // Subject and message may use {{customerName}}, {{invoiceNumber}},
+  // {{total}}, {{balanceDue}}, {{dueDate}}, {{daysOverdue}} and {{companyName}}
+  subject: string;
+  message: string;
+}
+
+const defaultTemplates: InvoiceReminderTemplate[] = [
+  {
+    stage: 'due_soon',
+    daysFromDue: -3,
+    subject: 'Invoice {{invoiceNumber}} is due on {{dueDate}}',
+    message: 'This is a friendly reminder that invoice {{invoiceNumber}} has a balance of {{balanceDue}} due on {{dueDate}}.\n\n'
+      + 'If you have already paid, thank you, and please disregard this email.',
+  },
+  {
+    stage: 'due_today',
+    daysFromDue: 0,
+    subject: 'Invoice {{invoiceNumber}} is due today',
+    message: 'Invoice {{invoiceNumber}} is due today. The balance due is {{balanceDue}}.\n\n'
+      + 'If you have already paid, thank you, and please disregard this email.',
+  },
+  {
+    stage: 'overdue_7',
+    daysFromDue: 7,
+    subject: 'Invoice {{invoiceNumber}} is overdue',
+    message: 'Invoice {{invoiceNumber}} was due on {{dueDate}} and is now {{daysOverdue}} days overdue. '
+      + 'The balance due is {{balanceDue}}.\n\nPlease arrange payment at your earliest convenience.',
+  },
+  {
+    stage: 'overdue_30',
+    daysFromDue: 30,
+    subject: 'Final notice: invoice {{invoiceNumber}} is {{daysOverdue}} days overdue',
+    message: 'Invoice {{invoiceNumber}} was due on {{dueDate}} and remains unpaid after {{daysOverdue}} days. '
+      + 'The balance due is {{balanceDue}}.\n\nPlease pay immediately or contact us to discuss the account.',
+  },
+];
+
+export const invoiceRemindersConfig = {
+  // When the nightly job marks overdue invoices and sends reminders
+  cron: process.env.INVOICE_REMINDERS_CRON || '0 1 * * *',
+  // Overdue invoices are still marked when reminders are turned off
+  enabled: process.env.INVOICE_REMINDERS_ENABLED !== 'false',
+  // Attach the invoice PDF to reminder emails
+  attachPdf: process.env.INVOICE_REMINDERS_ATTACH_PDF !== 'false',
+  // A JSON file in the same shape replaces the default reminder templates
+  templates: (process.env.INVOICE_REMINDER_TEMPLATES_FILE
+    ? JSON.parse(fs.readFileSync(process.env.INVOICE_REMINDER_TEMPLATES_FILE, 'utf8'))
+    : defaultTemplates) as InvoiceReminderTemplate[],
+};
@@ -0,0 +1,27 @@
+// Tiers from lowest to highest
+export const LOYALTY_TIERS = ['bronze', 'silver', 'gold', 'platinum'];
+
+export const loyaltyConfig = {
+  // Points earned per currency unit paid, by tier
+  earnRates: {
+    bronze: parseFloat(process.env.LOYALTY_EARN_RATE_BRONZE) || 1,
+    silver: parseFloat(process.env.LOYALTY_EARN_RATE_SILVER) || 1.25,
+    gold: parseFloat(process.env.LOYALTY_EARN_RATE_GOLD) || 1.5,
+    platinum: parseFloat(process.env.LOYALTY_EARN_RATE_PLATINUM) || 2,
+  },
+  // Spend over the rolling window needed to reach each tier
+  tierThresholds: {
+    bronze: 0,
+    silver: parseFloat(process.env.LOYALTY_SILVER_SPEND) || 500,
+    gold: parseFloat(process.env.LOYALTY_GOLD_SPEND) || 2000,
+    platinum: parseFloat(process.env.LOYALTY_PLATINUM_SPEND) || 5000,
+  },
+  // Days of spend counted towards the tier
+  tierWindowDays: parseInt(process.env.LOYALTY_TIER_WINDOW_DAYS) || 365,
+  // Currency value of one point when redeemed
+  pointValue: parseFloat(process.env.LOYALTY_POINT_VALUE) || 0.01,
+  // Days before earned points expire
+  pointsExpiryDays: parseInt(process.env.LOYALTY_POINTS_EXPIRY_DAYS) || 365,
+  // Points expiring within this many days are shown on the account
+  expiryNoticeDays: parseInt(process.env.LOYALTY_EXPIRY_NOTICE_DAYS) || 30,
+};
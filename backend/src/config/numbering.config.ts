@@ -0,0 +1,77 @@
+export enum DocumentSequence {
+  SALE = 'sale',
+  POS_SALE = 'pos_sale',
+  INVOICE = 'invoice',
+  REFUND = 'refund',
+  CREDIT_NOTE = 'credit_note',
+  PURCHASE_ORDER = 'purchase_order',
+  TRANSFER = 'transfer',
+  REGISTER_SESSION = 'register_session',
+}
+
+export interface NumberingFormat {
+  prefix: string;
+  separator: string;
+  datePart: '' | 'YYYY' | 'YYYYMM' | 'YYYYMMDD';
+  padding: number;
+  reset: 'never' | 'yearly' | 'monthly' | 'daily';
+}
+
+// Coarsest to finest. A counter that resets must have a date part at least
+// as fine as its reset period, or numbers from earlier periods are issued again.
+const DATE_PARTS: NumberingFormat['datePart'][] = ['', 'YYYY', 'YYYYMM', 'YYYYMMDD'];
+const RESETS: NumberingFormat['reset'][] = ['never', 'yearly', 'monthly', 'daily'];
+
+const format = (envKey: string, defaults: NumberingFormat): NumberingFormat => {
+  const numberingFormat: NumberingFormat = {
+    prefix: process.env[`${envKey}_NUMBER_PREFIX`] ?? defaults.prefix,
+    separator: process.env[`${envKey}_NUMBER_SEPARATOR`] ?? defaults.separator,
+    datePart: (process.env[`${envKey}_NUMBER_DATE_PART`] ?? defaults.datePart) as NumberingFormat['datePart'],
+    padding: parseInt(process.env[`${envKey}_NUMBER_PADDING`]) || defaults.padding,
+    reset: (process.env[`${envKey}_NUMBER_RESET`] || defaults.reset) as NumberingFormat['reset'],
+  };
+
+  const datePart = DATE_PARTS.indexOf(numberingFormat.datePart);
+  const reset = RESETS.indexOf(numberingFormat.reset);
+  if (datePart === -1) {
+    throw new Error(`${envKey}_NUMBER_DATE_PART must be one of ${DATE_PARTS.map(part => `'${part}'`).join(', ')}`);
+  }
+  if (reset === -1) {
+    throw new Error(`${envKey}_NUMBER_RESET must be one of ${RESETS.join(', ')}`);
+  }
+  if (datePart < reset) {
+    throw new Error(
+      `${envKey}_NUMBER_DATE_PART '${numberingFormat.datePart}' cannot tell ${numberingFormat.reset} ` +
+      `counters apart; use '${DATE_PARTS[reset]}' or finer, or reset 'never'`
+    );
+  }
+
+  return numberingFormat;
+};
+
+export const numberingConfig: Record<DocumentSequence, NumberingFormat> = {
+  [DocumentSequence.SALE]: format('SALE', {
+    prefix: 'TXN', separator: '', datePart: 'YYYYMMDD', padding: 4, reset: 'daily',
+  }),
+  [DocumentSequence.POS_SALE]: format('POS_SALE', {
+    prefix: 'POS', separator: '', datePart: 'YYYYMMDD', padding: 4, reset: 'daily',
+  }),
+  [DocumentSequence.INVOICE]: format('INVOICE', {
+    prefix: 'INV', separator: '-', datePart: 'YYYY', padding: 6, reset: 'yearly',
+  }),
+  [DocumentSequence.REFUND]: format('REFUND', {
+    prefix: 'RFD', separator: '-', datePart: 'YYYY', padding: 6, reset: 'yearly',
+  }),
+  [DocumentSequence.CREDIT_NOTE]: format('CREDIT_NOTE', {
+    prefix: 'CN', separator: '-', datePart: 'YYYY', padding: 6, reset: 'yearly',
+  }),
+  [DocumentSequence.PURCHASE_ORDER]: format('PURCHASE_ORDER', {
+    prefix: 'PO', separator: '-', datePart: 'YYYY', padding: 5, reset: 'yearly',
+  }),
+  [DocumentSequence.TRANSFER]: format('TRANSFER', {
+    prefix: 'TRF', separator: '-', datePart: 'YYYY', padding: 5, reset: 'yearly',
+  }),
+  [DocumentSequence.REGISTER_SESSION]: format('REGISTER_SESSION', {
+    prefix: 'SES', separator: '-', datePart: 'YYYY', padding: 6, reset: 'yearly',
+  }),
+};
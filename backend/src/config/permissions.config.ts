@@ -0,0 +1,96 @@
+export enum Permission {
+  PRODUCTS_VIEW = 'products.view',
+  PRODUCTS_CREATE = 'products.create',
+  PRODUCTS_UPDATE = 'products.update',
+  PRODUCTS_DELETE = 'products.delete',
+  INVENTORY_ADJUST = 'inventory.adjust',
+  SALES_VIEW = 'sales.view',
+  SALES_CREATE = 'sales.create',
+  SALES_UPDATE = 'sales.update',
+  SALES_REFUND = 'sales.refund',
+  SALES_CANCEL = 'sales.cancel',
+  CUSTOMERS_VIEW = 'customers.view',
+  CUSTOMERS_CREATE = 'customers.create',
+  CUSTOMERS_UPDATE = 'customers.update',
+  CUSTOMERS_DELETE = 'customers.delete',
+  INVOICES_VIEW = 'invoices.view',
+  INVOICES_CREATE = 'invoices.create',
+  INVOICES_UPDATE = 'invoices.update',
+  INVOICES_ISSUE = 'invoices.issue',
+  INVOICES_RECORD_PAYMENT = 'invoices.record_payment',
+  INVOICES_CREDIT = 'invoices.credit',
+  INVOICES_VOID = 'invoices.void',
+  INVOICES_DELETE = 'invoices.delete',
+  REPORTS_VIEW = 'reports.view',
+  USERS_VIEW = 'users.view',
+  USERS_MANAGE = 'users.manage',
+  ROLES_MANAGE = 'roles.manage',
+  AUDIT_VIEW = 'audit.view',
+}
+
+export const permissionCatalogue: Record<Permission, string> = {
+  [Permission.PRODUCTS_VIEW]: 'View products, categories and stock levels',
+  [Permission.PRODUCTS_CREATE]: 'Create products',
+  [Permission.PRODUCTS_UPDATE]: 'Edit products and their variants',
+  [Permission.PRODUCTS_DELETE]: 'Delete products and variants',
+  [Permission.INVENTORY_ADJUST]: 'Adjust stock quantities',
+  [Permission.SALES_VIEW]: 'View sales and their refunds',
+  [Permission.SALES_CREATE]: 'Record sales and take payments',
+  [Permission.SALES_UPDATE]: 'Change the status of sales',
+  [Permission.SALES_REFUND]: 'Refund sales',
+  [Permission.SALES_CANCEL]: 'Cancel sales',
+  [Permission.CUSTOMERS_VIEW]: 'View customers',
+  [Permission.CUSTOMERS_CREATE]: 'Create customers',
+  [Permission.CUSTOMERS_UPDATE]: 'Edit customers',
+  [Permission.CUSTOMERS_DELETE]: 'Delete customers',
+  [Permission.INVOICES_VIEW]: 'View and download invoices',
+  [Permission.INVOICES_CREATE]: 'Create invoices',
+  [Permission.INVOICES_UPDATE]: 'Edit draft invoices',
+  [Permission.INVOICES_ISSUE]: 'Issue invoices and send them to customers',
+  [Permission.INVOICES_RECORD_PAYMENT]: 'Record invoice payments',
+  [Permission.INVOICES_CREDIT]: 'Issue credit notes against invoices',
+  [Permission.INVOICES_VOID]: 'Void issued invoices',
+  [Permission.INVOICES_DELETE]: 'Delete invoices',
+  [Permission.REPORTS_VIEW]: 'View business reports',
+  [Permission.USERS_VIEW]: 'View users',
+  [Permission.USERS_MANAGE]: 'Invite, deactivate and change the roles of users, and revoke their sessions',
+  [Permission.ROLES_MANAGE]: 'Change which permissions each role has',
+  [Permission.AUDIT_VIEW]: 'View the audit trail of changes made by users',
+};
+
+const sellerPermissions = [
+  Permission.PRODUCTS_VIEW,
+  Permission.SALES_VIEW,
+  Permission.SALES_CREATE,
+  Permission.SALES_REFUND,
+  Permission.CUSTOMERS_VIEW,
+  Permission.INVOICES_VIEW,
+];
+
+export const permissionsConfig = {
+  // Roles that hold every permission; their mapping cannot be edited, so
+  // nobody can lock the admins out
+  superuserRoles: ['admin'],
+  // How long a role's permissions are cached before being read again
+  cacheTtlSeconds: parseInt(process.env.PERMISSIONS_CACHE_TTL) || 60,
+  // Mappings stored for roles that have none in the database yet
+  defaultRolePermissions: {
+    manager: Object.values(Permission).filter(
+      permission => ![
+        Permission.CUSTOMERS_DELETE,
+        Permission.INVOICES_DELETE,
+        Permission.USERS_MANAGE,
+        Permission.ROLES_MANAGE,
+        Permission.AUDIT_VIEW,
+      ].includes(permission)
+    ),
+    sales_staff: sellerPermissions,
+    cashier: [...sellerPermissions, Permission.INVOICES_RECORD_PAYMENT],
+    inventory_clerk: [
+      Permission.PRODUCTS_VIEW,
+      Permission.PRODUCTS_CREATE,
+      Permission.PRODUCTS_UPDATE,
+      Permission.INVENTORY_ADJUST,
+    ],
+  } as Record<string, Permission[]>,
+};
@@ -0,0 +1,5 @@
+export const refundConfig = {
+  // Refunds above this amount can only be processed by the roles below
+  managerApprovalThreshold: parseFloat(process.env.REFUND_MANAGER_THRESHOLD) || 100,
+  managerRoles: ['admin', 'manager'],
+};
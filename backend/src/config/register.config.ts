@@ -0,0 +1,8 @@
+export const registerConfig = {
+  // /pos/sale refuses sales from cashiers without an open register session
+  requireOpenSession: process.env.POS_REQUIRE_OPEN_SESSION !== 'false',
+  // Cash variance at close beyond which the session is logged for review
+  varianceTolerance: parseFloat(process.env.REGISTER_VARIANCE_TOLERANCE) || 1,
+  // Roles that can manage and report on other cashiers' sessions
+  supervisorRoles: ['admin', 'manager'],
+};
@@ -0,0 +1,10 @@
+export const replenishmentConfig = {
+  // Days of sales history used to compute the average daily sales rate
+  salesWindowDays: parseInt(process.env.REORDER_SALES_WINDOW_DAYS) || 30,
+  // Days of demand kept as a buffer against late deliveries and demand spikes
+  safetyStockDays: parseInt(process.env.REORDER_SAFETY_STOCK_DAYS) || 7,
+  // Days of demand a reorder should cover once it arrives
+  coverageDays: parseInt(process.env.REORDER_COVERAGE_DAYS) || 14,
+  // Lead time assumed for products without a supplier lead time
+  defaultLeadTimeDays: parseInt(process.env.REORDER_DEFAULT_LEAD_TIME_DAYS) || 7,
+};
@@ -0,0 +1,6 @@
+export const taxConfig = {
+  // Selling prices already include tax; otherwise tax is added on top of them
+  pricesIncludeTax: process.env.TAX_PRICES_INCLUDE_TAX === 'true',
+  // Rate charged on lines without a tax class or a rate matching their location
+  defaultRate: process.env.TAX_DEFAULT_RATE !== undefined ? parseFloat(process.env.TAX_DEFAULT_RATE) : 0.1,
+};
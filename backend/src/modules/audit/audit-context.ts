@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+}
+
+export interface AuditChange {
+  action: AuditAction;
+  entity: string;
+  entityId: string;
+  // Only the changed fields for updates; the whole record for creates and deletes
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+  changedFields: string[];
+}
+
+export interface AuditContext {
+  actor?: {
+    id: string;
+    email?: string;
+    name?: string;
+    role?: string;
+  };
+  ip?: string;
+  userAgent?: string;
+  method: string;
+  path: string;
+  changes: AuditChange[];
+}
+
+/**
+ * Carries the request being audited down to the Mongoose hooks, which
+ * have no access to it otherwise. Writes made outside a request (seeding,
+ * scheduled jobs) run without a context and are not audited.
+ */
+export const auditStorage = new AsyncLocalStorage<AuditContext>();
@@ -0,0 +1,40 @@
+import { Controller, Get, Param, Query, UseGuards, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { AuditService } from './audit.service';
+import { AuditAction } from './audit-context';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from '../../config/permissions.config';
+
+@ApiTags('audit')
+@Controller('audit')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.AUDIT_VIEW)
+@ApiBearerAuth()
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Search the audit trail' })
+  @ApiQuery({ name: 'entity', required: false, description: 'e.g. Product, Sale, Customer, Invoice or User' })
+  @ApiQuery({ name: 'entityId', required: false })
+  @ApiQuery({ name: 'actor', required: false, description: 'ID of the user who made the change' })
+  @ApiQuery({ name: 'action', required: false, enum: AuditAction })
+  @ApiQuery({ name: 'startDate', required: false })
+  @ApiQuery({ name: 'endDate', required: false })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Audit entries retrieved successfully' })
+  findAll(@Query() query: any) {
+    return this.auditService.findAll(query);
+  }
+
+  @Get(':entity/:entityId')
+  @ApiOperation({ summary: 'Get the change history of a record' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'History retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid entity ID' })
+  getEntityHistory(@Param('entity') entity: string, @Param('entityId') entityId: string) {
+    return this.auditService.getEntityHistory(entity, entityId);
+  }
+}
@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, CallHandler, BadRequestException } from '@nestjs/common';
+import { lastValueFrom, defer, throwError } from 'rxjs';
+import { AuditInterceptor } from './audit.interceptor';
+import { AuditService } from './audit.service';
+import { auditStorage, AuditAction } from './audit-context';
+
+describe('AuditInterceptor', () => {
+  let interceptor: AuditInterceptor;
+
+  const mockAuditService = {
+    record: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const contextFor = (method: string) => ({
+    getType: () => 'http',
+    switchToHttp: () => ({
+      getRequest: () => ({
+        method,
+        originalUrl: '/api/v1/products/507f1f77bcf86cd799439011?expand=true',
+        ip: '10.0.0.7',
+        headers: { 'user-agent': 'jest' },
+        user: { id: '507f1f77bcf86cd799439015', email: 'admin@example.com', name: 'Admin', role: 'admin' },
+      }),
+    }),
+  }) as unknown as ExecutionContext;
+
+  // Stands in for a handler whose writes the audit plugin picks up
+  const changeProduct = () => {
+    auditStorage.getStore()?.changes.push({
+      action: AuditAction.UPDATE,
+      entity: 'Product',
+      entityId: '507f1f77bcf86cd799439011',
+      before: { name: 'Old' },
+      after: { name: 'New' },
+      changedFields: ['name'],
+    });
+    return { id: 'product' };
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditInterceptor,
+        { provide: AuditService, useValue: mockAuditService },
+      ],
+    }).compile();
+
+    interceptor = module.get<AuditInterceptor>(AuditInterceptor);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(interceptor).toBeDefined();
+  });
+
+  it('should store the changes a request made along with who made them', async () => {
+    const handler = { handle: jest.fn(() => defer(async () => changeProduct())) } as CallHandler;
+
+    await expect(lastValueFrom(interceptor.intercept(contextFor('PATCH'), handler))).resolves.toEqual({ id: 'product' });
+
+    expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+      actor: { id: '507f1f77bcf86cd799439015', email: 'admin@example.com', name: 'Admin', role: 'admin' },
+      ip: '10.0.0.7',
+      userAgent: 'jest',
+      method: 'PATCH',
+      path: '/api/v1/products/507f1f77bcf86cd799439011',
+      changes: [expect.objectContaining({ entity: 'Product', changedFields: ['name'] })],
+    }));
+  });
+
+  it('should store changes made before a request failed', async () => {
+    const handler = {
+      handle: jest.fn(() => defer(async () => {
+        changeProduct();
+        throw new BadRequestException('Not enough stock');
+      })),
+    } as CallHandler;
+
+    await expect(lastValueFrom(interceptor.intercept(contextFor('POST'), handler))).rejects.toThrow('Not enough stock');
+    expect(mockAuditService.record.mock.calls[0][0].changes).toHaveLength(1);
+  });
+
+  it('should not open an audit context for reads', async () => {
+    const handler = { handle: jest.fn(() => defer(async () => changeProduct())) } as CallHandler;
+
+    await lastValueFrom(interceptor.intercept(contextFor('GET'), handler));
+
+    expect(mockAuditService.record).not.toHaveBeenCalled();
+  });
+
+  it('should pass errors through', async () => {
+    const handler = { handle: jest.fn(() => throwError(() => new BadRequestException())) } as CallHandler;
+
+    await expect(lastValueFrom(interceptor.intercept(contextFor('DELETE'), handler))).rejects.toThrow(BadRequestException);
+  });
+});
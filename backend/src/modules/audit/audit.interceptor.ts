@@ -0,0 +1,55 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { finalize } from 'rxjs/operators';
+import { AuditService } from './audit.service';
+import { auditStorage, AuditContext } from './audit-context';
+
+const AUDITED_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Runs every data-changing request inside an audit context, so the audit
+ * plugin can attribute the writes it sees, and stores what was collected
+ * once the request has finished, whether or not it succeeded.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(private readonly auditService: AuditService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+    if (!AUDITED_METHODS.includes(request.method)) {
+      return next.handle();
+    }
+
+    const auditContext: AuditContext = {
+      actor: request.user && {
+        id: request.user.id,
+        email: request.user.email,
+        name: request.user.name,
+        role: request.user.role,
+      },
+      ip: request.ip,
+      userAgent: request.headers['user-agent'],
+      method: request.method,
+      path: request.originalUrl.split('?')[0],
+      changes: [],
+    };
+
+    return new Observable(subscriber =>
+      auditStorage.run(auditContext, () =>
+        next.handle()
+          .pipe(finalize(() => this.auditService.record(auditContext)))
+          .subscribe(subscriber)
+      )
+    );
+  }
+}
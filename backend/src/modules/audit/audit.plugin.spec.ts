@@ -0,0 +1,55 @@
+import { describeChange } from './audit.plugin';
+import { AuditAction } from './audit-context';
+
+describe('describeChange', () => {
+  it('should keep only the fields an update changed', () => {
+    const change = describeChange(
+      AuditAction.UPDATE,
+      { name: 'Widget', price: { cost: 5, selling: 10, currency: 'USD' }, tags: ['a'] },
+      { name: 'Widget', price: { currency: 'USD', cost: 5, selling: 12 }, tags: ['a'] },
+    );
+
+    expect(change).toEqual({
+      action: AuditAction.UPDATE,
+      before: { price: { cost: 5, selling: 10, currency: 'USD' } },
+      after: { price: { currency: 'USD', cost: 5, selling: 12 } },
+      changedFields: ['price'],
+    });
+  });
+
+  it('should record fields that were added or removed', () => {
+    const change = describeChange(AuditAction.UPDATE, { notes: 'call first' }, { email: 'jane@example.com' });
+
+    expect(change.changedFields).toEqual(['notes', 'email']);
+    expect(change.before).toEqual({ notes: 'call first' });
+    expect(change.after).toEqual({ email: 'jane@example.com' });
+  });
+
+  it('should keep the whole record of creates and deletes', () => {
+    const record = { name: 'Widget', sku: 'W-1' };
+
+    expect(describeChange(AuditAction.CREATE, {}, record)).toEqual({
+      action: AuditAction.CREATE,
+      after: record,
+      changedFields: ['name', 'sku'],
+    });
+    expect(describeChange(AuditAction.DELETE, record, {})).toEqual({
+      action: AuditAction.DELETE,
+      before: record,
+      changedFields: ['name', 'sku'],
+    });
+  });
+
+  it('should show that a redacted field changed without its values', () => {
+    const change = describeChange(
+      AuditAction.UPDATE,
+      { password: 'old-hash' },
+      { password: 'new-hash' },
+      new Set(['password']),
+    );
+
+    expect(change.changedFields).toEqual(['password']);
+    expect(change.before).toEqual({ password: '[redacted]' });
+    expect(change.after).toEqual({ password: '[redacted]' });
+  });
+});
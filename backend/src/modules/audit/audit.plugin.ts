@@ -0,0 +1,214 @@
+import { Schema, Query, Types } from 'mongoose';
+import { auditStorage, AuditAction, AuditChange } from './audit-context';
+
+export interface AuditPluginOptions {
+  // Name recorded as the entity of every change, usually the model name
+  entity: string;
+  // Fields whose changes are recorded without their values
+  redact?: string[];
+  // Fields whose changes are not worth recording on their own
+  ignore?: string[];
+}
+
+interface Snapshot {
+  id: string;
+  values: Record<string, any>;
+}
+
+const UPDATE_QUERIES = ['findOneAndUpdate', 'findOneAndReplace', 'updateOne', 'updateMany', 'replaceOne'];
+const DELETE_QUERIES = ['findOneAndDelete', 'findOneAndRemove', 'deleteOne', 'deleteMany'];
+const ALWAYS_IGNORED = ['_id', '__v', 'createdAt', 'updatedAt'];
+const REDACTED = '[redacted]';
+
+/**
+ * Records who created, changed or deleted documents of a schema. Changes
+ * are collected on the audit context of the current request and stored by
+ * the AuditInterceptor once the request has finished; writes made outside
+ * a request are not recorded.
+ */
+export function auditPlugin(schema: Schema, options: AuditPluginOptions): void {
+  const ignored = new Set([...ALWAYS_IGNORED, ...(options.ignore || [])]);
+  const redacted = new Set(options.redact || []);
+  // Documents matched by a query before it ran, keyed by the query
+  const pending = new WeakMap<Query<any, any>, Snapshot[]>();
+
+  const snapshot = (doc: any): Snapshot => ({
+    id: doc._id.toString(),
+    values: toPlain(typeof doc.toObject === 'function' ? doc.toObject({ depopulate: true }) : doc, ignored),
+  });
+
+  const record = (action: AuditAction, id: string, before?: Record<string, any>, after?: Record<string, any>) => {
+    const context = auditStorage.getStore();
+    if (!context) {
+      return;
+    }
+
+    const change = describeChange(action, before || {}, after || {}, redacted);
+    if (change.changedFields.length) {
+      context.changes.push({ ...change, entity: options.entity, entityId: id } as AuditChange);
+    }
+  };
+
+  // Remember how loaded documents looked, so later saves can be compared
+  schema.post('init', function (doc: any) {
+    if (auditStorage.getStore()) {
+      doc.$locals.auditSnapshot = snapshot(doc);
+    }
+  });
+
+  schema.pre('save', function (this: any) {
+    if (auditStorage.getStore()) {
+      this.$locals.auditIsNew = this.isNew;
+    }
+  });
+
+  schema.post('save', function (doc: any) {
+    if (!auditStorage.getStore()) {
+      return;
+    }
+
+    const current = snapshot(doc);
+    if (doc.$locals.auditIsNew) {
+      record(AuditAction.CREATE, current.id, undefined, current.values);
+    } else if (doc.$locals.auditSnapshot) {
+      record(AuditAction.UPDATE, current.id, doc.$locals.auditSnapshot.values, current.values);
+    }
+
+    doc.$locals.auditSnapshot = current;
+  });
+
+  schema.post('deleteOne', { document: true, query: false }, function (doc: any) {
+    if (auditStorage.getStore()) {
+      record(AuditAction.DELETE, doc._id.toString(), snapshot(doc).values);
+    }
+  });
+
+  schema.pre([...UPDATE_QUERIES, ...DELETE_QUERIES] as any, async function (this: Query<any, any>) {
+    if (!auditStorage.getStore()) {
+      return;
+    }
+
+    const finder = this.model.find(this.getFilter()).lean();
+    if (!(this as any).op.endsWith('Many')) {
+      finder.sort(this.getOptions().sort).limit(1);
+    }
+
+    pending.set(this, (await finder.exec()).map(snapshot));
+  });
+
+  schema.post(UPDATE_QUERIES as any, async function (this: Query<any, any>, result: any) {
+    const before = pending.get(this);
+    pending.delete(this);
+    if (!before?.length || !wasApplied(result)) {
+      return;
+    }
+
+    const after = await this.model
+      .find({ _id: { $in: before.map(doc => new Types.ObjectId(doc.id)) } })
+      .lean()
+      .exec();
+
+    for (const doc of after.map(snapshot)) {
+      const previous = before.find(candidate => candidate.id === doc.id);
+      record(AuditAction.UPDATE, doc.id, previous.values, doc.values);
+    }
+  });
+
+  schema.post(DELETE_QUERIES as any, async function (this: Query<any, any>, result: any) {
+    const before = pending.get(this);
+    pending.delete(this);
+    if (!before?.length || !wasApplied(result)) {
+      return;
+    }
+
+    // A deleteMany may have lost some documents to a concurrent request
+    const remaining = await this.model
+      .find({ _id: { $in: before.map(doc => new Types.ObjectId(doc.id)) } })
+      .select('_id')
+      .lean()
+      .exec();
+    const remainingIds = new Set(remaining.map((doc: any) => doc._id.toString()));
+
+    for (const doc of before.filter(candidate => !remainingIds.has(candidate.id))) {
+      record(AuditAction.DELETE, doc.id, doc.values);
+    }
+  });
+}
+
+/**
+ * Compares two snapshots field by field. Updates keep only the fields that
+ * changed; creates and deletes keep the whole record.
+ */
+export function describeChange(
+  action: AuditAction,
+  before: Record<string, any>,
+  after: Record<string, any>,
+  redacted: Set<string> = new Set(),
+): Omit<AuditChange, 'entity' | 'entityId'> {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  const changedFields = fields.filter(field => !isEqual(before[field], after[field]));
+
+  const pick = (values: Record<string, any>, keys: string[]) => keys.reduce((picked, key) => {
+    if (values[key] !== undefined) {
+      picked[key] = redacted.has(key) ? REDACTED : values[key];
+    }
+    return picked;
+  }, {} as Record<string, any>);
+
+  switch (action) {
+    case AuditAction.CREATE:
+      return { action, after: pick(after, changedFields), changedFields };
+    case AuditAction.DELETE:
+      return { action, before: pick(before, changedFields), changedFields };
+    default:
+      return {
+        action,
+        before: pick(before, changedFields),
+        after: pick(after, changedFields),
+        changedFields,
+      };
+  }
+}
+
+// Turns ObjectIds and dates into the strings they are shown as
+function toPlain(values: Record<string, any>, ignored: Set<string>): Record<string, any> {
+  const plain = JSON.parse(JSON.stringify(values));
+  for (const field of ignored) {
+    delete plain[field];
+  }
+  return plain;
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => isEqual(a[key], b[key]));
+}
+
+// Conditional writes that matched nothing changed nothing
+function wasApplied(result: any): boolean {
+  if (!result) {
+    return false;
+  }
+
+  if (typeof result.modifiedCount === 'number') {
+    return result.modifiedCount > 0;
+  }
+
+  if (typeof result.deletedCount === 'number') {
+    return result.deletedCount > 0;
+  }
+
+  return true;
+}
@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { AuditService } from './audit.service';
+import { AuditLog } from './schemas/audit-log.schema';
+import { AuditAction, AuditContext } from './audit-context';
+
+describe('AuditService', () => {
+  let service: AuditService;
+
+  const productId = '507f1f77bcf86cd799439011';
+  const adminId = '507f1f77bcf86cd799439015';
+
+  const chain = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    skip: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockAuditLogModel = {
+    insertMany: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const buildContext = (overrides: Partial<AuditContext> = {}): AuditContext => ({
+    actor: { id: adminId, email: 'admin@example.com', name: 'Admin', role: 'admin' },
+    ip: '10.0.0.7',
+    method: 'PATCH',
+    path: `/api/v1/products/${productId}`,
+    changes: [{
+      action: AuditAction.UPDATE,
+      entity: 'Product',
+      entityId: productId,
+      before: { price: { selling: 10 } },
+      after: { price: { selling: 12 } },
+      changedFields: ['price'],
+    }],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        { provide: getModelToken(AuditLog.name), useValue: mockAuditLogModel },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('record', () => {
+    it('should store one entry per change with the request details', async () => {
+      await service.record(buildContext());
+
+      const [[entry]] = mockAuditLogModel.insertMany.mock.calls[0];
+      expect(entry).toEqual(expect.objectContaining({
+        action: AuditAction.UPDATE,
+        entity: 'Product',
+        actorEmail: 'admin@example.com',
+        actorRole: 'admin',
+        ip: '10.0.0.7',
+        method: 'PATCH',
+        changedFields: ['price'],
+      }));
+      expect(entry.entityId).toEqual(new Types.ObjectId(productId));
+      expect(entry.actor).toEqual(new Types.ObjectId(adminId));
+    });
+
+    it('should store nothing for requests that changed nothing', async () => {
+      await service.record(buildContext({ changes: [] }));
+
+      expect(mockAuditLogModel.insertMany).not.toHaveBeenCalled();
+    });
+
+    it('should not fail the request when the entries cannot be stored', async () => {
+      mockAuditLogModel.insertMany.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(service.record(buildContext({ actor: undefined }))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should filter by entity, actor, action and date range', async () => {
+      mockAuditLogModel.find.mockReturnValue(chain([]));
+
+      await service.findAll({
+        entity: 'Invoice',
+        actor: adminId,
+        action: AuditAction.DELETE,
+        startDate: '2024-01-01',
+        endDate: '2024-01-31',
+      });
+
+      expect(mockAuditLogModel.find).toHaveBeenCalledWith({
+        entity: 'Invoice',
+        actor: new Types.ObjectId(adminId),
+        action: AuditAction.DELETE,
+        createdAt: { $gte: new Date('2024-01-01'), $lte: new Date('2024-01-31') },
+      });
+    });
+
+    it('should reject an invalid actor ID', async () => {
+      await expect(service.findAll({ actor: 'not-an-id' })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getEntityHistory', () => {
+    it('should list the changes of one record oldest first', async () => {
+      const query = chain([]);
+      mockAuditLogModel.find.mockReturnValue(query);
+
+      await service.getEntityHistory('Product', productId);
+
+      expect(mockAuditLogModel.find).toHaveBeenCalledWith({ entity: 'Product', entityId: new Types.ObjectId(productId) });
+      expect(query.sort).toHaveBeenCalledWith({ createdAt: 1 });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { AuditLog, AuditLogDocument } from './schemas/audit-log.schema';
+import { AuditContext } from './audit-context';
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectModel(AuditLog.name) private auditLogModel: Model<AuditLogDocument>,
+  ) {}
+
+  /**
+   * Stores the changes collected while a request ran. Failures are logged
+   * rather than thrown, as the changes themselves have already been made.
+   */
+  async record(context: AuditContext): Promise<void> {
+    if (!context.changes.length) {
+      return;
+    }
+
+    try {
+      await this.auditLogModel.insertMany(context.changes.map(change => ({
+        ...change,
+        entityId: new Types.ObjectId(change.entityId),
+        actor: context.actor ? new Types.ObjectId(context.actor.id) : undefined,
+        actorEmail: context.actor?.email,
+        actorName: context.actor?.name,
+        actorRole: context.actor?.role,
+        ip: context.ip,
+        userAgent: context.userAgent,
+        method: context.method,
+        path: context.path,
+      })));
+    } catch (error) {
+      this.logger.error(`Failed to store the audit trail of ${context.method} ${context.path}:`, error);
+    }
+  }
+
+  async findAll(query: any = {}): Promise<AuditLog[]> {
+    const { entity, entityId, actor, action, startDate, endDate, page = 1, limit = 50 } = query;
+
+    let filter: any = {};
+
+    // Filter by entity
+    if (entity) {
+      filter.entity = entity;
+    }
+
+    // Filter by record
+    if (entityId) {
+      filter.entityId = this.toObjectId(entityId, 'entity');
+    }
+
+    // Filter by the user who made the change
+    if (actor) {
+      filter.actor = this.toObjectId(actor, 'actor');
+    }
+
+    // Filter by action
+    if (action) {
+      filter.action = action;
+    }
+
+    // Date range filter
+    if (startDate || endDate) {
+      filter.createdAt = {};
+      if (startDate) {
+        filter.createdAt.$gte = new Date(startDate);
+      }
+      if (endDate) {
+        filter.createdAt.$lte = new Date(endDate);
+      }
+    }
+
+    return this.auditLogModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(Number(limit))
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Every recorded change of one record, oldest first
+   */
+  async getEntityHistory(entity: string, entityId: string): Promise<AuditLog[]> {
+    return this.auditLogModel
+      .find({ entity, entityId: this.toObjectId(entityId, 'entity') })
+      .sort({ createdAt: 1 })
+      .lean()
+      .exec();
+  }
+
+  private toObjectId(id: string, name: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException(`Invalid ${name} ID`);
+    }
+    return new Types.ObjectId(id);
+  }
+}
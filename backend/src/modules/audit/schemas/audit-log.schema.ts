@@ -0,0 +1,61 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { AuditAction } from '../audit-context';
+
+export type AuditLogDocument = AuditLog & Document;
+
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AuditLog {
+  // Unset for unauthenticated requests, such as password resets
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  actor: Types.ObjectId;
+
+  // Copied so the entry stays readable if the user is renamed or removed
+  @Prop()
+  actorEmail: string;
+
+  @Prop()
+  actorName: string;
+
+  @Prop()
+  actorRole: string;
+
+  @Prop({ required: true, enum: Object.values(AuditAction) })
+  action: string;
+
+  // Model name of the changed record, e.g. Product
+  @Prop({ required: true })
+  entity: string;
+
+  @Prop({ type: Types.ObjectId, required: true })
+  entityId: Types.ObjectId;
+
+  @Prop({ type: Object })
+  before: Record<string, any>;
+
+  @Prop({ type: Object })
+  after: Record<string, any>;
+
+  @Prop([String])
+  changedFields: string[];
+
+  @Prop()
+  ip: string;
+
+  @Prop()
+  userAgent: string;
+
+  @Prop({ required: true })
+  method: string;
+
+  @Prop({ required: true })
+  path: string;
+
+  createdAt: Date;
+}
+
+export const AuditLogSchema = SchemaFactory.createForClass(AuditLog);
+
+AuditLogSchema.index({ entity: 1, entityId: 1, createdAt: -1 });
+AuditLogSchema.index({ actor: 1, createdAt: -1 });
+AuditLogSchema.index({ createdAt: -1 });
@@ -1,12 +1,24 @@
-import { Controller, Post, Body, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Controller, Post, Get, Delete, Body, Param, UseGuards, Request, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
+import { AuthSessionService } from './services/auth-session.service';
+import { SessionDevice, SessionRevokeReason } from './schemas/auth-session.schema';
 import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { PermissionsService } from './services/permissions.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { RequirePermissions } from './decorators/permissions.decorator';
+import { Permission } from '../../config/permissions.config';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly authSessionService: AuthSessionService,
+    private readonly permissionsService: PermissionsService,
+  ) {}
 
   @Post('login')
   @ApiOperation({ summary: 'User login' })
@@ -17,6 +29,8 @@ export class AuthController {
       type: 'object',
       properties: {
         access_token: { type: 'string' },
+        refresh_token: { type: 'string' },
+        permissions: { type: 'array', items: { type: 'string' } },
         user: {
           type: 'object',
           properties: {
@@ -34,7 +48,77 @@ export class AuthController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Invalid credentials',
   })
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  async login(@Body() loginDto: LoginDto, @Request() req) {
+    return this.authService.login(loginDto, this.deviceOf(req));
+  }
+
+  @Post('refresh')
+  @ApiOperation({ summary: 'Exchange a refresh token for new access and refresh tokens' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Tokens rotated' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Refresh token invalid, expired, revoked or already used',
+  })
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto, @Request() req) {
+    return this.authService.refresh(refreshTokenDto.refresh_token, this.deviceOf(req));
+  }
+
+  @Post('logout')
+  @ApiOperation({ summary: 'End the session the refresh token belongs to' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Logged out successfully' })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.logout(refreshTokenDto.refresh_token);
+  }
+
+  @Get('permissions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the effective permissions of the current user' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Permissions retrieved successfully' })
+  async getPermissions(@Request() req) {
+    return this.permissionsService.getPermissionsForRole(req.user.role);
+  }
+
+  @Get('users/:userId/sessions')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @ApiBearerAuth()
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'List the active sessions of a user' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Active sessions retrieved successfully' })
+  async findUserSessions(@Param('userId') userId: string) {
+    return this.authSessionService.findActiveForUser(userId);
+  }
+
+  @Delete('users/:userId/sessions/:sessionId')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @ApiBearerAuth()
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'Revoke a session of a user' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Session revoked successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Active session not found' })
+  async revokeUserSession(
+    @Param('userId') userId: string,
+    @Param('sessionId') sessionId: string,
+    @Request() req,
+  ) {
+    return this.authSessionService.revokeForUser(userId, sessionId, req.user.id);
+  }
+
+  @Delete('users/:userId/sessions')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @ApiBearerAuth()
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'Revoke every session of a user' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Sessions revoked successfully' })
+  async revokeUserSessions(@Param('userId') userId: string, @Request() req) {
+    const revoked = await this.authSessionService.revokeAllForUser(userId, SessionRevokeReason.ADMIN, req.user.id);
+    return { revoked };
+  }
+
+  private deviceOf(req): Partial<SessionDevice> {
+    return {
+      userAgent: req.headers?.['user-agent'],
+      ip: req.ip,
+    };
   }
 }
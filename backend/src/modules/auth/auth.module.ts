@@ -5,21 +5,29 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { User, UserSchema } from './schemas/user.schema';
+import { AuthSession, AuthSessionSchema } from './schemas/auth-session.schema';
+import { AuthSessionService } from './services/auth-session.service';
+import { RolePermissions, RolePermissionsSchema } from './schemas/role-permissions.schema';
+import { PermissionsService } from './services/permissions.service';
+import { PermissionsController } from './permissions.controller';
 import { JwtStrategy } from './strategies/jwt.strategy';
+import { jwtConfig } from '../../config/jwt.config';
 
 @Module({
   imports: [
     PassportModule,
     JwtModule.register({
-      secret: process.env.JWT_SECRET || 'your-secret-key',
-      signOptions: { expiresIn: '24h' },
+      secret: jwtConfig.secret,
+      signOptions: jwtConfig.signOptions,
     }),
     MongooseModule.forFeature([
-      { name: User.name, schema: UserSchema }
+      { name: User.name, schema: UserSchema },
+      { name: AuthSession.name, schema: AuthSessionSchema },
+      { name: RolePermissions.name, schema: RolePermissionsSchema }
     ])
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService, JwtStrategy],
+  controllers: [AuthController, PermissionsController],
+  providers: [AuthService, AuthSessionService, PermissionsService, JwtStrategy],
+  exports: [AuthService, AuthSessionService, PermissionsService, JwtStrategy],
 })
 export class AuthModule {}
@@ -2,6 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { JwtService } from '@nestjs/jwt';
 import { getModelToken } from '@nestjs/mongoose';
 import { AuthService } from './auth.service';
+import { AuthSessionService } from './services/auth-session.service';
+import { PermissionsService } from './services/permissions.service';
 import { User } from './schemas/user.schema';
 import { LoginDto } from './dto/login.dto';
 import { Model } from 'mongoose';
@@ -36,6 +38,13 @@ describe('AuthService', () => {
     verify: jest.fn(),
   };
 
+  const mockAuthSessionService = {
+    start: jest.fn(),
+    rotate: jest.fn(),
+    revoke: jest.fn(),
+    endByRefreshToken: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -48,6 +57,14 @@ describe('AuthService', () => {
           provide: JwtService,
           useValue: mockJwtService,
         },
+        {
+          provide: AuthSessionService,
+          useValue: mockAuthSessionService,
+        },
+        {
+          provide: PermissionsService,
+          useValue: { getPermissionsForRole: jest.fn().mockResolvedValue([]) },
+        },
       ],
     }).compile();
 
@@ -5,12 +5,17 @@ import { Model } from 'mongoose';
 import * as bcrypt from 'bcryptjs';
 import { User, UserDocument } from './schemas/user.schema';
 import { LoginDto } from './dto/login.dto';
+import { AuthSessionService } from './services/auth-session.service';
+import { PermissionsService } from './services/permissions.service';
+import { SessionDevice, SessionRevokeReason } from './schemas/auth-session.schema';
 
 @Injectable()
 export class AuthService {
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private jwtService: JwtService,
+    private authSessionService: AuthSessionService,
+    private permissionsService: PermissionsService,
   ) {}
 
   async validateUser(email: string, password: string): Promise<any> {
@@ -23,7 +28,7 @@ export class AuthService {
     return null;
   }
 
-  async login(loginDto: LoginDto) {
+  async login(loginDto: LoginDto, device: Partial<SessionDevice> = {}) {
     const user = await this.validateUser(loginDto.email, loginDto.password);
     
     if (!user) {
@@ -33,15 +38,53 @@ export class AuthService {
     // Update last login
     await this.userModel.findByIdAndUpdate(user._id, { lastLoginAt: new Date() });
 
+    return this.createSession(user, { ...device, name: loginDto.deviceName || device.name });
+  }
+
+  /**
+   * Signs a user in on a device once they have proven who they are
+   */
+  async createSession(user: any, device: Partial<SessionDevice> = {}) {
+    const { sessionId, refreshToken } = await this.authSessionService.start(user._id.toString(), device);
+
+    return this.buildAuthResponse(user, sessionId, refreshToken);
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and a rotated
+   * refresh token
+   */
+  async refresh(refreshToken: string, device: Partial<SessionDevice> = {}) {
+    const rotated = await this.authSessionService.rotate(refreshToken, device);
+
+    const user = await this.userModel.findById(rotated.userId).select('-password').exec();
+    if (!user || !user.isActive) {
+      await this.authSessionService.revoke(rotated.sessionId, SessionRevokeReason.USER_INACTIVE);
+      throw new UnauthorizedException('User is no longer active');
+    }
+
+    return this.buildAuthResponse(user.toObject(), rotated.sessionId, rotated.refreshToken);
+  }
+
+  async logout(refreshToken: string) {
+    await this.authSessionService.endByRefreshToken(refreshToken);
+    return { message: 'Logged out successfully' };
+  }
+
+  private async buildAuthResponse(user: any, sessionId: string, refreshToken: string) {
+    // The session id lets JwtStrategy reject access tokens of revoked sessions
     const payload = { 
       email: user.email, 
       sub: user._id, 
       role: user.role,
-      name: user.name
+      name: user.name,
+      sid: sessionId
     };
 
     return {
       access_token: this.jwtService.sign(payload),
+      refresh_token: refreshToken,
+      permissions: await this.permissionsService.getPermissionsForRole(user.role),
       user: {
         id: user._id,
         name: user.name,
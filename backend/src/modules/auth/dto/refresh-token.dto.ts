@@ -0,0 +1,9 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({ description: 'Refresh token issued at login or by the last refresh' })
+  @IsString()
+  @IsNotEmpty()
+  refresh_token: string;
+}
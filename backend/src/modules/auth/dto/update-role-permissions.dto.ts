@@ -0,0 +1,10 @@
+import { IsArray, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission } from '../../../config/permissions.config';
+
+export class UpdateRolePermissionsDto {
+  @ApiProperty({ enum: Permission, isArray: true, description: 'Replaces the permissions of the role' })
+  @IsArray()
+  @IsEnum(Permission, { each: true })
+  permissions: Permission[];
+}
@@ -0,0 +1,43 @@
+import { Controller, Get, Put, Body, Param, UseGuards, Request, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { PermissionsService } from './services/permissions.service';
+import { UpdateRolePermissionsDto } from './dto/update-role-permissions.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { RequirePermissions } from './decorators/permissions.decorator';
+import { Permission } from '../../config/permissions.config';
+
+@ApiTags('permissions')
+@Controller('permissions')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.ROLES_MANAGE)
+@ApiBearerAuth()
+export class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the catalogue of permissions' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Permission catalogue retrieved successfully' })
+  getCatalogue() {
+    return this.permissionsService.getCatalogue();
+  }
+
+  @Get('roles')
+  @ApiOperation({ summary: 'Get the permissions of every role' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Role permissions retrieved successfully' })
+  findAll() {
+    return this.permissionsService.findAll();
+  }
+
+  @Put('roles/:role')
+  @ApiOperation({ summary: 'Replace the permissions of a role' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Role permissions updated successfully' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Unknown role or a role that cannot be edited' })
+  update(
+    @Param('role') role: string,
+    @Body() updateRolePermissionsDto: UpdateRolePermissionsDto,
+    @Request() req,
+  ) {
+    return this.permissionsService.updateRolePermissions(role, updateRolePermissionsDto.permissions, req.user.id);
+  }
+}
@@ -0,0 +1,71 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AuthSessionDocument = AuthSession & Document;
+
+export enum SessionRevokeReason {
+  LOGOUT = 'logout',
+  TOKEN_REUSE = 'token_reuse',
+  ADMIN = 'admin',
+  USER_INACTIVE = 'user_inactive',
+  PASSWORD_CHANGE = 'password_change',
+  ROLE_CHANGE = 'role_change',
+}
+
+@Schema({ _id: false })
+export class SessionDevice {
+  @Prop()
+  name: string;
+
+  @Prop()
+  userAgent: string;
+
+  @Prop()
+  ip: string;
+}
+
+export const SessionDeviceSchema = SchemaFactory.createForClass(SessionDevice);
+
+/**
+ * A signed-in device. Each refresh rotates the token, and only the hash
+ * of the latest one is kept, so presenting an older token means it was
+ * copied and the whole session is revoked.
+ */
+@Schema({ timestamps: true })
+export class AuthSession {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+
+  // SHA-256 of the refresh token currently valid for the session
+  @Prop({ required: true })
+  tokenHash: string;
+
+  // Number of times the refresh token has been rotated
+  @Prop({ default: 0 })
+  rotations: number;
+
+  @Prop({ type: SessionDeviceSchema, default: {} })
+  device: SessionDevice;
+
+  @Prop()
+  lastUsedAt: Date;
+
+  // Expiry of the current refresh token, pushed out on every rotation
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt: Date;
+
+  @Prop({ enum: SessionRevokeReason })
+  revokedReason: SessionRevokeReason;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  revokedBy: Types.ObjectId;
+}
+
+export const AuthSessionSchema = SchemaFactory.createForClass(AuthSession);
+
+AuthSessionSchema.index({ user: 1, revokedAt: 1 });
+// Sessions past their refresh expiry are removed by MongoDB's TTL monitor
+AuthSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
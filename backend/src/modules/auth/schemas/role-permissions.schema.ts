@@ -0,0 +1,23 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { Permission } from '../../../config/permissions.config';
+
+export type RolePermissionsDocument = RolePermissions & Document;
+
+/**
+ * The permissions granted to a role. Editable by admins; the defaults in
+ * permissionsConfig are stored for roles that have no mapping yet.
+ */
+@Schema({ timestamps: true })
+export class RolePermissions {
+  @Prop({ required: true, unique: true })
+  role: string;
+
+  @Prop({ type: [String], enum: Permission, default: [] })
+  permissions: Permission[];
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+}
+
+export const RolePermissionsSchema = SchemaFactory.createForClass(RolePermissions);
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
+import { auditPlugin } from '../../audit/audit.plugin';
 
 export type UserDocument = User & Document;
 
@@ -8,6 +9,7 @@ export enum UserRole {
   MANAGER = 'manager',
   SALES_STAFF = 'sales_staff',
   INVENTORY_CLERK = 'inventory_clerk',
+  CASHIER = 'cashier',
 }
 
 @Schema({ timestamps: true })
@@ -38,10 +40,28 @@ export class User {
 
   @Prop()
   lastLoginAt: Date;
+
+  @Prop()
+  passwordChangedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  invitedBy: Types.ObjectId;
+
+  @Prop()
+  invitedAt: Date;
+
+  // Unset until an invited user has chosen a password
+  @Prop()
+  invitationAcceptedAt: Date;
+
+  @Prop()
+  deactivatedAt: Date;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
 
+UserSchema.plugin(auditPlugin, { entity: User.name, redact: ['password'], ignore: ['lastLoginAt'] });
+
 // Indexes
 UserSchema.index({ email: 1 });
 UserSchema.index({ role: 1 });
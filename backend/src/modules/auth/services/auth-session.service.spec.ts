@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { createHash } from 'crypto';
+import { AuthSessionService } from './auth-session.service';
+import { AuthSession, SessionRevokeReason } from '../schemas/auth-session.schema';
+
+describe('AuthSessionService', () => {
+  let service: AuthSessionService;
+
+  const userId = '507f1f77bcf86cd799439011';
+  const sessionId = new Types.ObjectId('507f1f77bcf86cd799439060');
+  // Real signing, so rotated tokens and their hashes can be checked
+  const jwtService = new JwtService({ secret: 'test-secret' });
+  const hash = (token: string) => createHash('sha256').update(token).digest('hex');
+
+  const chain = (result: any) => ({
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockSessionModel = {
+    create: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+  };
+
+  // Starts a session and returns its refresh token and stored record
+  const givenSession = async (overrides: any = {}) => {
+    mockSessionModel.create.mockResolvedValue({});
+    const { refreshToken } = await service.start(userId, { userAgent: 'jest' });
+    const stored = mockSessionModel.create.mock.calls[0][0];
+    const session = { ...stored, ...overrides };
+    mockSessionModel.findById.mockReturnValue(chain(session));
+    return { refreshToken, session };
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthSessionService,
+        { provide: getModelToken(AuthSession.name), useValue: mockSessionModel },
+        { provide: JwtService, useValue: jwtService },
+      ],
+    }).compile();
+
+    service = module.get<AuthSessionService>(AuthSessionService);
+    mockSessionModel.updateOne.mockReturnValue(chain({ modifiedCount: 1 }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('start', () => {
+    it('should store only the hash of the refresh token with the device', async () => {
+      mockSessionModel.create.mockResolvedValue({});
+
+      const issued = await service.start(userId, { userAgent: 'jest', ip: '10.0.0.1' });
+
+      const stored = mockSessionModel.create.mock.calls[0][0];
+      expect(stored.tokenHash).toBe(hash(issued.refreshToken));
+      expect(stored.device).toEqual({ userAgent: 'jest', ip: '10.0.0.1' });
+      expect(stored._id.toString()).toBe(issued.sessionId);
+      expect(stored.expiresAt.getTime()).toBeGreaterThan(Date.now());
+      expect(JSON.stringify(stored)).not.toContain(issued.refreshToken);
+    });
+  });
+
+  describe('rotate', () => {
+    it('should swap the token guarded on the hash of the one presented', async () => {
+      const { refreshToken, session } = await givenSession();
+      mockSessionModel.findOneAndUpdate.mockReturnValue(chain(session));
+
+      const rotated = await service.rotate(refreshToken);
+
+      expect(rotated.userId).toBe(userId);
+      expect(rotated.refreshToken).not.toBe(refreshToken);
+      const [filter, update] = mockSessionModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: session._id, tokenHash: hash(refreshToken), revokedAt: null });
+      expect(update.$set.tokenHash).toBe(hash(rotated.refreshToken));
+      expect(update.$inc).toEqual({ rotations: 1 });
+    });
+
+    it('should revoke the whole session when an old token is reused', async () => {
+      const { refreshToken, session } = await givenSession({ tokenHash: 'hash-of-a-newer-token' });
+      mockSessionModel.findOneAndUpdate.mockReturnValue(chain(null));
+
+      await expect(service.rotate(refreshToken)).rejects.toThrow('already been used');
+      expect(mockSessionModel.updateOne).toHaveBeenCalledWith(
+        { _id: session._id, revokedAt: null },
+        { $set: expect.objectContaining({ revokedReason: SessionRevokeReason.TOKEN_REUSE }) }
+      );
+    });
+
+    it('should refuse tokens of a revoked session', async () => {
+      const { refreshToken } = await givenSession({ revokedAt: new Date() });
+
+      await expect(service.rotate(refreshToken)).rejects.toThrow('Session has been revoked');
+      expect(mockSessionModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse tokens not signed with the refresh secret', async () => {
+      const forged = jwtService.sign({ sub: userId, sid: sessionId.toString() });
+
+      await expect(service.rotate(forged)).rejects.toThrow(UnauthorizedException);
+      expect(mockSessionModel.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('endByRefreshToken', () => {
+    it('should revoke the session of the token on logout', async () => {
+      const { refreshToken, session } = await givenSession();
+
+      await service.endByRefreshToken(refreshToken);
+
+      expect(mockSessionModel.updateOne).toHaveBeenCalledWith(
+        { _id: session._id, user: new Types.ObjectId(userId), revokedAt: null },
+        { $set: expect.objectContaining({ revokedReason: SessionRevokeReason.LOGOUT }) }
+      );
+    });
+
+    it('should ignore tokens it cannot verify', async () => {
+      await service.endByRefreshToken('not-a-token');
+
+      expect(mockSessionModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isActive', () => {
+    it('should only accept unrevoked, unexpired sessions of the user', async () => {
+      mockSessionModel.findOne.mockReturnValue(chain(null));
+
+      await expect(service.isActive(sessionId.toString(), userId)).resolves.toBe(false);
+      expect(mockSessionModel.findOne).toHaveBeenCalledWith(expect.objectContaining({
+        _id: sessionId,
+        user: new Types.ObjectId(userId),
+        revokedAt: null,
+      }));
+    });
+
+    it('should reject access tokens issued without a session', async () => {
+      await expect(service.isActive(undefined, userId)).resolves.toBe(false);
+      expect(mockSessionModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeForUser', () => {
+    it('should record the admin who revoked the session', async () => {
+      const adminId = '507f1f77bcf86cd799439015';
+      mockSessionModel.findOneAndUpdate.mockReturnValue(chain({ _id: sessionId }));
+
+      await service.revokeForUser(userId, sessionId.toString(), adminId);
+
+      const [filter, update] = mockSessionModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: sessionId, user: new Types.ObjectId(userId), revokedAt: null });
+      expect(update.$set.revokedReason).toBe(SessionRevokeReason.ADMIN);
+      expect(update.$set.revokedBy.toString()).toBe(adminId);
+    });
+
+    it('should throw when the session is not active', async () => {
+      mockSessionModel.findOneAndUpdate.mockReturnValue(chain(null));
+
+      await expect(service.revokeForUser(userId, sessionId.toString())).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import {
+  AuthSession,
+  AuthSessionDocument,
+  SessionDevice,
+  SessionRevokeReason,
+} from '../schemas/auth-session.schema';
+import { jwtConfig } from '../../../config/jwt.config';
+
+export interface IssuedRefreshToken {
+  sessionId: string;
+  refreshToken: string;
+}
+
+export interface RotatedSession extends IssuedRefreshToken {
+  userId: string;
+}
+
+@Injectable()
+export class AuthSessionService {
+  private readonly logger = new Logger(AuthSessionService.name);
+
+  constructor(
+    @InjectModel(AuthSession.name) private sessionModel: Model<AuthSessionDocument>,
+    private jwtService: JwtService,
+  ) {}
+
+  /**
+   * Starts a session for a device and issues its first refresh token
+   */
+  async start(userId: string, device: Partial<SessionDevice>): Promise<IssuedRefreshToken> {
+    const sessionId = new Types.ObjectId();
+    const { token, expiresAt } = this.signRefreshToken(userId, sessionId.toString());
+
+    await this.sessionModel.create({
+      _id: sessionId,
+      user: new Types.ObjectId(userId),
+      tokenHash: this.hash(token),
+      device,
+      lastUsedAt: new Date(),
+      expiresAt,
+    });
+
+    return { sessionId: sessionId.toString(), refreshToken: token };
+  }
+
+  /**
+   * Swaps a refresh token for a new one. A token that is valid but no
+   * longer the latest for its session has been used before, so the
+   * session is revoked and every token descended from it stops working.
+   */
+  async rotate(refreshToken: string, device: Partial<SessionDevice> = {}): Promise<RotatedSession> {
+    const payload = this.verifyRefreshToken(refreshToken);
+    const session = await this.sessionModel.findById(payload.sid).exec();
+
+    if (!session || session.user.toString() !== payload.sub) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    if (session.revokedAt) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    const tokenHash = this.hash(refreshToken);
+    const { token, expiresAt } = this.signRefreshToken(payload.sub, payload.sid);
+
+    // Guard on the current hash so the same token cannot be rotated twice
+    const rotated = await this.sessionModel
+      .findOneAndUpdate(
+        { _id: session._id, tokenHash, revokedAt: null },
+        {
+          $set: {
+            tokenHash: this.hash(token),
+            lastUsedAt: new Date(),
+            expiresAt,
+            ...(device.ip && { 'device.ip': device.ip }),
+          },
+          $inc: { rotations: 1 },
+        },
+        { new: true }
+      )
+      .exec();
+
+    if (!rotated) {
+      await this.revoke(payload.sid, SessionRevokeReason.TOKEN_REUSE);
+      this.logger.warn(
+        `Refresh token reuse detected for session ${payload.sid} of user ${payload.sub}; session revoked`
+      );
+      throw new UnauthorizedException('Refresh token has already been used; please sign in again');
+    }
+
+    return { sessionId: payload.sid, userId: payload.sub, refreshToken: token };
+  }
+
+  /**
+   * Ends the session a refresh token belongs to. An expired or unknown
+   * token has nothing left to end.
+   */
+  async endByRefreshToken(refreshToken: string): Promise<void> {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(refreshToken, {
+        secret: jwtConfig.refreshSecret,
+        ignoreExpiration: true,
+      });
+    } catch {
+      return;
+    }
+
+    if (payload?.sid && Types.ObjectId.isValid(payload.sid)) {
+      await this.sessionModel
+        .updateOne(
+          { _id: new Types.ObjectId(payload.sid), user: new Types.ObjectId(payload.sub), revokedAt: null },
+          { $set: { revokedAt: new Date(), revokedReason: SessionRevokeReason.LOGOUT } }
+        )
+        .exec();
+    }
+  }
+
+  /**
+   * Whether access tokens of the session may still be used
+   */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    if (!sessionId || !Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+
+    const session = await this.sessionModel
+      .findOne({
+        _id: new Types.ObjectId(sessionId),
+        user: new Types.ObjectId(userId),
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .select('_id')
+      .lean()
+      .exec();
+
+    return !!session;
+  }
+
+  async findActiveForUser(userId: string): Promise<AuthSession[]> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new BadRequestException('Invalid user ID');
+    }
+
+    return this.sessionModel
+      .find({ user: new Types.ObjectId(userId), revokedAt: null, expiresAt: { $gt: new Date() } })
+      .select('-tokenHash')
+      .sort({ lastUsedAt: -1 })
+      .exec();
+  }
+
+  async revokeForUser(userId: string, sessionId: string, revokedBy?: string): Promise<AuthSession> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new BadRequestException('Invalid user ID');
+    }
+
+    if (!Types.ObjectId.isValid(sessionId)) {
+      throw new BadRequestException('Invalid session ID');
+    }
+
+    const session = await this.sessionModel
+      .findOneAndUpdate(
+        { _id: new Types.ObjectId(sessionId), user: new Types.ObjectId(userId), revokedAt: null },
+        {
+          $set: {
+            revokedAt: new Date(),
+            revokedReason: SessionRevokeReason.ADMIN,
+            ...(revokedBy && { revokedBy: new Types.ObjectId(revokedBy) }),
+          },
+        },
+        { new: true }
+      )
+      .select('-tokenHash')
+      .exec();
+
+    if (!session) {
+      throw new NotFoundException('Active session not found');
+    }
+
+    return session;
+  }
+
+  /**
+   * Signs a user out everywhere, optionally apart from the session making
+   * the request. Returns the number of sessions revoked.
+   */
+  async revokeAllForUser(
+    userId: string,
+    reason: SessionRevokeReason = SessionRevokeReason.ADMIN,
+    revokedBy?: string,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new BadRequestException('Invalid user ID');
+    }
+
+    const result = await this.sessionModel
+      .updateMany(
+        {
+          user: new Types.ObjectId(userId),
+          revokedAt: null,
+          ...(exceptSessionId && { _id: { $ne: new Types.ObjectId(exceptSessionId) } }),
+        },
+        {
+          $set: {
+            revokedAt: new Date(),
+            revokedReason: reason,
+            ...(revokedBy && { revokedBy: new Types.ObjectId(revokedBy) }),
+          },
+        }
+      )
+      .exec();
+
+    return result.modifiedCount;
+  }
+
+  async revoke(sessionId: string, reason: SessionRevokeReason): Promise<void> {
+    await this.sessionModel
+      .updateOne(
+        { _id: new Types.ObjectId(sessionId), revokedAt: null },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+      )
+      .exec();
+  }
+
+  private verifyRefreshToken(refreshToken: string): { sub: string; sid: string } {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(refreshToken, { secret: jwtConfig.refreshSecret });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    if (!payload?.sid || !Types.ObjectId.isValid(payload.sid)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return payload;
+  }
+
+  private signRefreshToken(userId: string, sessionId: string): { token: string; expiresAt: Date } {
+    // The random jti makes every rotation produce a distinct token
+    const token = this.jwtService.sign(
+      { sub: userId, sid: sessionId, jti: randomBytes(16).toString('hex') },
+      { secret: jwtConfig.refreshSecret, expiresIn: jwtConfig.refreshExpiresIn }
+    );
+    const { exp } = this.jwtService.decode(token) as { exp: number };
+
+    return { token, expiresAt: new Date(exp * 1000) };
+  }
+
+  private hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
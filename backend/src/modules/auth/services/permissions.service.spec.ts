@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { PermissionsService } from './permissions.service';
+import { RolePermissions } from '../schemas/role-permissions.schema';
+import { Permission, permissionsConfig } from '../../../config/permissions.config';
+
+describe('PermissionsService', () => {
+  let service: PermissionsService;
+
+  const adminId = '507f1f77bcf86cd799439015';
+
+  const chain = (result: any) => ({
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockRolePermissionsModel = {
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsService,
+        { provide: getModelToken(RolePermissions.name), useValue: mockRolePermissionsModel },
+      ],
+    }).compile();
+
+    service = module.get<PermissionsService>(PermissionsService);
+    mockRolePermissionsModel.updateOne.mockReturnValue(chain({}));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('onModuleInit', () => {
+    it('should store default mappings without overwriting edited ones', async () => {
+      await service.onModuleInit();
+
+      expect(mockRolePermissionsModel.updateOne).toHaveBeenCalledWith(
+        { role: 'sales_staff' },
+        { $setOnInsert: { role: 'sales_staff', permissions: permissionsConfig.defaultRolePermissions.sales_staff } },
+        { upsert: true }
+      );
+      expect(mockRolePermissionsModel.updateOne)
+        .toHaveBeenCalledTimes(Object.keys(permissionsConfig.defaultRolePermissions).length);
+    });
+  });
+
+  describe('getPermissionsForRole', () => {
+    it('should give admins every permission without reading the database', async () => {
+      const permissions = await service.getPermissionsForRole('admin');
+
+      expect(permissions).toEqual(Object.values(Permission));
+      expect(mockRolePermissionsModel.findOne).not.toHaveBeenCalled();
+    });
+
+    it('should read the mapping stored for the role and cache it', async () => {
+      mockRolePermissionsModel.findOne.mockReturnValue(chain({
+        role: 'sales_staff',
+        permissions: [Permission.SALES_VIEW, Permission.SALES_CREATE],
+      }));
+
+      await service.getPermissionsForRole('sales_staff');
+      const permissions = await service.getPermissionsForRole('sales_staff');
+
+      expect(permissions).toEqual([Permission.SALES_VIEW, Permission.SALES_CREATE]);
+      expect(mockRolePermissionsModel.findOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not let sales staff delete products or invoices by default', async () => {
+      mockRolePermissionsModel.findOne.mockReturnValue(chain(null));
+
+      const permissions = await service.getPermissionsForRole('sales_staff');
+
+      expect(permissions).toContain(Permission.SALES_REFUND);
+      expect(permissions).not.toContain(Permission.PRODUCTS_DELETE);
+      expect(permissions).not.toContain(Permission.INVOICES_DELETE);
+    });
+
+    it('should grant nothing to unknown roles', async () => {
+      mockRolePermissionsModel.findOne.mockReturnValue(chain(null));
+
+      await expect(service.getPermissionsForRole('guest')).resolves.toEqual([]);
+      await expect(service.getPermissionsForRole(undefined)).resolves.toEqual([]);
+    });
+  });
+
+  describe('updateRolePermissions', () => {
+    it('should replace the mapping and drop the cached one', async () => {
+      mockRolePermissionsModel.findOne.mockReturnValue(chain({ permissions: [Permission.SALES_VIEW] }));
+      await service.getPermissionsForRole('cashier');
+
+      await service.updateRolePermissions(
+        'cashier',
+        [Permission.SALES_CREATE, Permission.SALES_CREATE, Permission.SALES_VIEW],
+        adminId
+      );
+
+      const [filter, update] = mockRolePermissionsModel.updateOne.mock.calls[0];
+      expect(filter).toEqual({ role: 'cashier' });
+      expect(update.$set.permissions).toEqual([Permission.SALES_CREATE, Permission.SALES_VIEW]);
+
+      await service.getPermissionsForRole('cashier');
+      expect(mockRolePermissionsModel.findOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse to edit the admin role or unknown roles', async () => {
+      await expect(service.updateRolePermissions('admin', [], adminId)).rejects.toThrow(BadRequestException);
+      await expect(service.updateRolePermissions('guest', [], adminId)).rejects.toThrow('Unknown role guest');
+      expect(mockRolePermissionsModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { Injectable, Logger, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { RolePermissions, RolePermissionsDocument } from '../schemas/role-permissions.schema';
+import { UserRole } from '../schemas/user.schema';
+import { Permission, permissionCatalogue, permissionsConfig } from '../../../config/permissions.config';
+
+export interface RolePermissionsView {
+  role: string;
+  permissions: Permission[];
+  editable: boolean;
+}
+
+@Injectable()
+export class PermissionsService implements OnModuleInit {
+  private readonly logger = new Logger(PermissionsService.name);
+  private cache = new Map<string, { permissions: Permission[]; expiresAt: number }>();
+
+  constructor(
+    @InjectModel(RolePermissions.name) private rolePermissionsModel: Model<RolePermissionsDocument>,
+  ) {}
+
+  /**
+   * Stores the default mapping of every role that has none yet; mappings
+   * edited by admins are left alone.
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await Promise.all(
+        Object.entries(permissionsConfig.defaultRolePermissions).map(([role, permissions]) =>
+          this.rolePermissionsModel
+            .updateOne({ role }, { $setOnInsert: { role, permissions } }, { upsert: true })
+            .exec()
+        )
+      );
+    } catch (error) {
+      this.logger.error('Failed to store the default role permissions:', error);
+    }
+  }
+
+  getCatalogue(): { permission: Permission; description: string }[] {
+    return Object.values(Permission).map(permission => ({
+      permission,
+      description: permissionCatalogue[permission],
+    }));
+  }
+
+  async findAll(): Promise<RolePermissionsView[]> {
+    return Promise.all(
+      Object.values(UserRole).map(async role => ({
+        role,
+        permissions: await this.getPermissionsForRole(role),
+        editable: !this.isSuperuser(role),
+      }))
+    );
+  }
+
+  /**
+   * The effective permissions of a role, cached for a short while as they
+   * are checked on every guarded request
+   */
+  async getPermissionsForRole(role: string): Promise<Permission[]> {
+    if (!role) {
+      return [];
+    }
+
+    if (this.isSuperuser(role)) {
+      return Object.values(Permission);
+    }
+
+    const cached = this.cache.get(role);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.permissions;
+    }
+
+    const mapping = await this.rolePermissionsModel.findOne({ role }).lean().exec();
+    const permissions = mapping
+      ? mapping.permissions
+      : permissionsConfig.defaultRolePermissions[role] || [];
+
+    this.cache.set(role, {
+      permissions,
+      expiresAt: Date.now() + permissionsConfig.cacheTtlSeconds * 1000,
+    });
+
+    return permissions;
+  }
+
+  async updateRolePermissions(role: string, permissions: Permission[], userId: string): Promise<RolePermissionsView> {
+    if (!Object.values(UserRole).includes(role as UserRole)) {
+      throw new BadRequestException(`Unknown role ${role}`);
+    }
+
+    if (this.isSuperuser(role)) {
+      throw new BadRequestException(`The ${role} role always has every permission`);
+    }
+
+    const unique = [...new Set(permissions)];
+
+    await this.rolePermissionsModel
+      .updateOne(
+        { role },
+        { $set: { permissions: unique, updatedBy: new Types.ObjectId(userId) } },
+        { upsert: true, runValidators: true }
+      )
+      .exec();
+
+    this.cache.delete(role);
+
+    return { role, permissions: unique, editable: true };
+  }
+
+  private isSuperuser(role: string): boolean {
+    return permissionsConfig.superuserRoles.includes(role);
+  }
+}
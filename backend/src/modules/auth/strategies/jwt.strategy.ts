@@ -1,23 +1,31 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { AuthSessionService } from '../services/auth-session.service';
+import { jwtConfig } from '../../../config/jwt.config';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor() {
+  constructor(private authSessionService: AuthSessionService) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: process.env.JWT_SECRET || 'your-secret-key',
+      secretOrKey: jwtConfig.secret,
     });
   }
 
   async validate(payload: any) {
+    // Access tokens stop working as soon as their session is revoked
+    if (!await this.authSessionService.isActive(payload.sid, payload.sub)) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
     return { 
       id: payload.sub, 
       email: payload.email, 
       role: payload.role,
-      name: payload.name
+      name: payload.name,
+      sessionId: payload.sid
     };
   }
 }
@@ -15,18 +15,20 @@ import { CustomersService } from './customers.service';
 import { CreateCustomerDto } from './dto/create-customer.dto';
 import { UpdateCustomerDto } from './dto/update-customer.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from '../../config/permissions.config';
 
 @ApiTags('customers')
 @Controller('customers')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.CUSTOMERS_VIEW)
 @ApiBearerAuth()
 export class CustomersController {
   constructor(private readonly customersService: CustomersService) {}
 
   @Post()
-  @Roles('admin', 'manager')
+  @RequirePermissions(Permission.CUSTOMERS_CREATE)
   @ApiOperation({ summary: 'Create a new customer' })
   @ApiResponse({ status: 201, description: 'Customer created successfully' })
   @ApiResponse({ status: 400, description: 'Bad request - customer already exists' })
@@ -88,7 +90,7 @@ export class CustomersController {
   }
 
   @Patch(':id')
-  @Roles('admin', 'manager')
+  @RequirePermissions(Permission.CUSTOMERS_UPDATE)
   @ApiOperation({ summary: 'Update a customer' })
   @ApiResponse({ status: 200, description: 'Customer updated successfully' })
   @ApiResponse({ status: 404, description: 'Customer not found' })
@@ -98,7 +100,7 @@ export class CustomersController {
   }
 
   @Delete(':id')
-  @Roles('admin')
+  @RequirePermissions(Permission.CUSTOMERS_DELETE)
   @ApiOperation({ summary: 'Delete a customer' })
   @ApiResponse({ status: 200, description: 'Customer deleted successfully' })
   @ApiResponse({ status: 404, description: 'Customer not found' })
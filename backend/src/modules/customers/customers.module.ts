@@ -3,12 +3,14 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { CustomersService } from './customers.service';
 import { CustomersController } from './customers.controller';
 import { Customer, CustomerSchema } from './schemas/customer.schema';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Customer.name, schema: CustomerSchema }
-    ])
+    ]),
+    AuthModule,
   ],
   controllers: [CustomersController],
   providers: [CustomersService],
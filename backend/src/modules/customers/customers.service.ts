@@ -200,7 +200,61 @@ export class CustomersService {
       'statistics.totalOrders': newTotalOrders,
       'statistics.averageOrderValue': newAverageOrderValue,
       'statistics.lastPurchaseDate': new Date(),
-      'loyalty.loyaltyPoints': Math.floor(orderTotal * 0.1), // 10% of order value as loyalty points
+    }).exec();
+  }
+
+  async reverseStatistics(id: string, refundAmount: number, isOrderReversed: boolean): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid customer ID');
+    }
+
+    const customer = await this.customerModel.findById(id).exec();
+    if (!customer) {
+      throw new NotFoundException('Customer not found');
+    }
+
+    const currentStats = customer.statistics || {
+      totalSpent: 0,
+      totalOrders: 0,
+      averageOrderValue: 0
+    };
+
+    const newTotalSpent = Math.max(0, currentStats.totalSpent - refundAmount);
+    const newTotalOrders = Math.max(0, currentStats.totalOrders - (isOrderReversed ? 1 : 0));
+    const newAverageOrderValue = newTotalOrders > 0 ? newTotalSpent / newTotalOrders : 0;
+
+    await this.customerModel.findByIdAndUpdate(id, {
+      'statistics.totalSpent': newTotalSpent,
+      'statistics.totalOrders': newTotalOrders,
+      'statistics.averageOrderValue': newAverageOrderValue,
+    }).exec();
+  }
+
+  // Undoes reverseStatistics when the refund or cancellation behind it fails
+  async restoreStatistics(id: string, amount: number, isOrderRestored: boolean): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid customer ID');
+    }
+
+    const customer = await this.customerModel.findById(id).exec();
+    if (!customer) {
+      throw new NotFoundException('Customer not found');
+    }
+
+    const currentStats = customer.statistics || {
+      totalSpent: 0,
+      totalOrders: 0,
+      averageOrderValue: 0
+    };
+
+    const newTotalSpent = currentStats.totalSpent + amount;
+    const newTotalOrders = currentStats.totalOrders + (isOrderRestored ? 1 : 0);
+    const newAverageOrderValue = newTotalOrders > 0 ? newTotalSpent / newTotalOrders : 0;
+
+    await this.customerModel.findByIdAndUpdate(id, {
+      'statistics.totalSpent': newTotalSpent,
+      'statistics.totalOrders': newTotalOrders,
+      'statistics.averageOrderValue': newAverageOrderValue,
     }).exec();
   }
 
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { auditPlugin } from '../../audit/audit.plugin';
 
 export type CustomerDocument = Customer & Document;
 
@@ -68,13 +69,18 @@ export class Customer {
     type: {
       loyaltyPoints: { type: Number, default: 0 },
       tier: { type: String, enum: ['bronze', 'silver', 'gold', 'platinum'], default: 'bronze' },
-      memberSince: { type: Date, default: Date.now }
+      memberSince: { type: Date, default: Date.now },
+      // Spend over the loyalty tier window, refreshed with the tier
+      rollingSpend: { type: Number, default: 0 },
+      tierUpdatedAt: { type: Date }
     }
   })
   loyalty: {
     loyaltyPoints: number;
     tier: string;
     memberSince: Date;
+    rollingSpend: number;
+    tierUpdatedAt?: Date;
   };
 
   @Prop({
@@ -102,6 +108,8 @@ export class Customer {
 
 export const CustomerSchema = SchemaFactory.createForClass(Customer);
 
+CustomerSchema.plugin(auditPlugin, { entity: Customer.name });
+
 // Indexes for better query performance
 CustomerSchema.index({ email: 1 });
 CustomerSchema.index({ phone: 1 });
@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, CallHandler, BadRequestException } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyInterceptor', () => {
+  let interceptor: IdempotencyInterceptor;
+
+  const mockIdempotencyService = {
+    begin: jest.fn(),
+    complete: jest.fn().mockResolvedValue(undefined),
+    release: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const response = {
+    statusCode: 201,
+    status: jest.fn(),
+    setHeader: jest.fn(),
+  };
+
+  const contextFor = (headers: any) => ({
+    switchToHttp: () => ({
+      getRequest: () => ({
+        method: 'POST',
+        originalUrl: '/api/v1/sales?source=pos',
+        headers,
+        body: { total: 10 },
+        user: { id: '507f1f77bcf86cd799439014' },
+      }),
+      getResponse: () => response,
+    }),
+  }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyInterceptor,
+        { provide: IdempotencyService, useValue: mockIdempotencyService },
+      ],
+    }).compile();
+
+    interceptor = module.get<IdempotencyInterceptor>(IdempotencyInterceptor);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(interceptor).toBeDefined();
+  });
+
+  it('should process requests without a key as usual', async () => {
+    const handler = { handle: jest.fn(() => of({ id: 'sale' })) } as CallHandler;
+
+    await expect(lastValueFrom(interceptor.intercept(contextFor({}), handler))).resolves.toEqual({ id: 'sale' });
+    expect(mockIdempotencyService.begin).not.toHaveBeenCalled();
+  });
+
+  it('should store the response of a first request', async () => {
+    mockIdempotencyService.begin.mockResolvedValueOnce(null);
+    const handler = { handle: jest.fn(() => of({ id: 'sale' })) } as CallHandler;
+
+    await lastValueFrom(interceptor.intercept(contextFor({ 'idempotency-key': 'key-1' }), handler));
+
+    expect(mockIdempotencyService.begin).toHaveBeenCalledWith(expect.objectContaining({
+      key: 'key-1',
+      path: '/api/v1/sales',
+      userId: '507f1f77bcf86cd799439014',
+    }));
+    expect(mockIdempotencyService.complete).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'key-1' }),
+      { status: 201, body: { id: 'sale' } }
+    );
+  });
+
+  it('should replay the stored response without running the handler', async () => {
+    mockIdempotencyService.begin.mockResolvedValueOnce({ status: 201, body: { id: 'sale' } });
+    const handler = { handle: jest.fn() } as CallHandler;
+
+    const result = await lastValueFrom(interceptor.intercept(contextFor({ 'idempotency-key': 'key-1' }), handler));
+
+    expect(result).toEqual({ id: 'sale' });
+    expect(handler.handle).not.toHaveBeenCalled();
+    expect(response.status).toHaveBeenCalledWith(201);
+    expect(response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('should release the key when the request fails', async () => {
+    mockIdempotencyService.begin.mockResolvedValueOnce(null);
+    const handler = { handle: () => throwError(() => new BadRequestException('Insufficient stock')) } as CallHandler;
+
+    await expect(lastValueFrom(interceptor.intercept(contextFor({ 'idempotency-key': 'key-1' }), handler)))
+      .rejects.toThrow('Insufficient stock');
+    expect(mockIdempotencyService.release).toHaveBeenCalled();
+    expect(mockIdempotencyService.complete).not.toHaveBeenCalled();
+  });
+});
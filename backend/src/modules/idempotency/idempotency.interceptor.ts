@@ -0,0 +1,61 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+} from '@nestjs/common';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { IdempotencyService, IdempotentRequest } from './idempotency.service';
+import { idempotencyConfig } from '../../config/idempotency.config';
+
+/**
+ * Makes a route safe to retry: a request carrying an Idempotency-Key is
+ * processed once, and repeats of it get the original response back.
+ * Requests without the header are processed as usual.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const http = context.switchToHttp();
+    const request = http.getRequest();
+    const response = http.getResponse();
+    const key = request.headers[idempotencyConfig.header];
+
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    const idempotentRequest: IdempotentRequest = {
+      key: String(key),
+      userId: request.user?.id,
+      method: request.method,
+      path: request.originalUrl.split('?')[0],
+      body: request.body,
+    };
+
+    return from(this.idempotencyService.begin(idempotentRequest)).pipe(
+      mergeMap(stored => {
+        if (stored) {
+          response.status(stored.status);
+          response.setHeader('Idempotent-Replayed', 'true');
+          return of(stored.body);
+        }
+
+        return next.handle().pipe(
+          mergeMap(body => from(
+            this.idempotencyService
+              .complete(idempotentRequest, { status: response.statusCode, body })
+              .then(() => body)
+          )),
+          // A failed request is not stored, so the client can retry it
+          catchError(error => from(this.idempotencyService.release(idempotentRequest)).pipe(
+            mergeMap(() => throwError(() => error))
+          ))
+        );
+      })
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyKey, IdempotencyKeySchema } from './schemas/idempotency-key.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: IdempotencyKey.name, schema: IdempotencyKeySchema }
+    ])
+  ],
+  providers: [IdempotencyService, IdempotencyInterceptor],
+  exports: [IdempotencyService, IdempotencyInterceptor],
+})
+export class IdempotencyModule {}
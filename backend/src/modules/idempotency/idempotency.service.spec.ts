@@ -0,0 +1,140 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { IdempotencyService, IdempotentRequest } from './idempotency.service';
+import { IdempotencyKey } from './schemas/idempotency-key.schema';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+
+  const userId = '507f1f77bcf86cd799439014';
+  const request: IdempotentRequest = {
+    key: 'b7c4c1a2-0a53-4a35-9d1e-6f3d2c1b0a99',
+    userId,
+    method: 'POST',
+    path: '/api/v1/pos/sale',
+    body: { items: [{ product: 'abc', quantity: 2 }], paymentMethod: 'cash' },
+  };
+
+  const exec = (result: any) => ({ exec: jest.fn().mockResolvedValue(result) });
+
+  const mockIdempotencyKeyModel = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn().mockReturnValue(exec({})),
+    deleteOne: jest.fn().mockReturnValue(exec({})),
+  };
+
+  // The first call claims the key; its hash is what a stored record holds
+  const claimedHash = async (claimed: IdempotentRequest = request) => {
+    mockIdempotencyKeyModel.create.mockResolvedValueOnce({});
+    await service.begin(claimed);
+    return mockIdempotencyKeyModel.create.mock.calls[mockIdempotencyKeyModel.create.mock.calls.length - 1][0].requestHash;
+  };
+
+  const givenStored = (record: any) => {
+    mockIdempotencyKeyModel.create.mockRejectedValueOnce({ code: 11000 });
+    mockIdempotencyKeyModel.findOne.mockReturnValueOnce(exec({
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      lockedAt: new Date(),
+      ...record,
+    }));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        { provide: getModelToken(IdempotencyKey.name), useValue: mockIdempotencyKeyModel },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should claim an unused key for processing', async () => {
+    mockIdempotencyKeyModel.create.mockResolvedValueOnce({});
+
+    await expect(service.begin(request)).resolves.toBeNull();
+
+    expect(mockIdempotencyKeyModel.create).toHaveBeenCalledWith(expect.objectContaining({
+      key: request.key,
+      status: 'processing',
+      method: 'POST',
+      path: '/api/v1/pos/sale',
+    }));
+  });
+
+  it('should hash bodies independently of property order', async () => {
+    const hash = await claimedHash();
+    const reordered = await claimedHash({
+      ...request,
+      body: { paymentMethod: 'cash', items: [{ quantity: 2, product: 'abc' }] },
+    });
+
+    expect(reordered).toBe(hash);
+  });
+
+  it('should return the stored response for a repeated request', async () => {
+    const requestHash = await claimedHash();
+    givenStored({ requestHash, status: 'completed', responseStatus: 201, responseBody: { transactionNumber: 'POS-1' } });
+
+    await expect(service.begin(request)).resolves.toEqual({ status: 201, body: { transactionNumber: 'POS-1' } });
+  });
+
+  it('should reject a reused key with a different body', async () => {
+    const requestHash = await claimedHash();
+    givenStored({ requestHash, status: 'completed', responseStatus: 201 });
+
+    await expect(service.begin({ ...request, body: { ...request.body, paymentMethod: 'card' } }))
+      .rejects.toThrow('Idempotency-Key was already used for a different request');
+  });
+
+  it('should reject a repeat while the first request is still processing', async () => {
+    const requestHash = await claimedHash();
+    givenStored({ requestHash, status: 'processing' });
+
+    await expect(service.begin(request)).rejects.toThrow(ConflictException);
+    expect(mockIdempotencyKeyModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should take over a key whose request died while processing', async () => {
+    const requestHash = await claimedHash();
+    const lockedAt = new Date(Date.now() - 10 * 60 * 1000);
+    givenStored({ _id: 'key-id', requestHash, status: 'processing', lockedAt });
+    mockIdempotencyKeyModel.findOneAndUpdate.mockReturnValueOnce(exec({ _id: 'key-id' }));
+
+    await expect(service.begin(request)).resolves.toBeNull();
+    expect(mockIdempotencyKeyModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'key-id', status: 'processing', lockedAt },
+      expect.anything()
+    );
+  });
+
+  it('should reject empty and overlong keys', async () => {
+    await expect(service.begin({ ...request, key: '' })).rejects.toThrow(BadRequestException);
+    await expect(service.begin({ ...request, key: 'k'.repeat(256) })).rejects.toThrow(BadRequestException);
+  });
+
+  it('should store the response as plain JSON and release failed requests', async () => {
+    await service.complete(request, { status: 201, body: { total: 10, toJSON: () => ({ total: 10 }) } });
+    await service.release(request);
+
+    expect(mockIdempotencyKeyModel.updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ key: request.key, status: 'processing' }),
+      { $set: { status: 'completed', responseStatus: 201, responseBody: { total: 10 } } }
+    );
+    expect(mockIdempotencyKeyModel.deleteOne).toHaveBeenCalledWith(
+      expect.objectContaining({ key: request.key, status: 'processing' })
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import { Injectable, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import { IdempotencyKey, IdempotencyKeyDocument } from './schemas/idempotency-key.schema';
+import { idempotencyConfig } from '../../config/idempotency.config';
+
+export interface IdempotentRequest {
+  key: string;
+  userId?: string;
+  method: string;
+  path: string;
+  body: any;
+}
+
+export interface StoredResponse {
+  status: number;
+  body: any;
+}
+
+@Injectable()
+export class IdempotencyService {
+  constructor(
+    @InjectModel(IdempotencyKey.name) private idempotencyKeyModel: Model<IdempotencyKeyDocument>,
+  ) {}
+
+  /**
+   * Claims the key for a request. Returns the stored response when the
+   * same request was already completed, or null when the caller should
+   * process it and then call complete() or release().
+   */
+  async begin(request: IdempotentRequest): Promise<StoredResponse | null> {
+    if (!request.key || request.key.length > idempotencyConfig.maxKeyLength) {
+      throw new BadRequestException(
+        `Idempotency-Key must be between 1 and ${idempotencyConfig.maxKeyLength} characters`
+      );
+    }
+
+    const now = new Date();
+    const requestHash = this.hash(request);
+    const scope = this.scope(request);
+
+    try {
+      await this.idempotencyKeyModel.create({
+        ...scope,
+        method: request.method,
+        path: request.path,
+        requestHash,
+        status: 'processing',
+        lockedAt: now,
+        expiresAt: new Date(now.getTime() + idempotencyConfig.ttlHours * 60 * 60 * 1000),
+      });
+      return null;
+    } catch (error) {
+      if (error?.code !== 11000) {
+        throw error;
+      }
+    }
+
+    const existing = await this.idempotencyKeyModel.findOne(scope).exec();
+
+    // Expired but not yet removed by the TTL monitor: start afresh
+    if (!existing || existing.expiresAt <= now) {
+      await this.idempotencyKeyModel.deleteOne({ ...scope, expiresAt: { $lte: now } }).exec();
+      return this.begin(request);
+    }
+
+    if (existing.requestHash !== requestHash) {
+      throw new ConflictException('Idempotency-Key was already used for a different request');
+    }
+
+    if (existing.status === 'completed') {
+      return { status: existing.responseStatus, body: existing.responseBody };
+    }
+
+    // Take over a request whose process died before finishing
+    const staleBefore = new Date(now.getTime() - idempotencyConfig.lockTimeoutSeconds * 1000);
+    if (existing.lockedAt < staleBefore) {
+      const reclaimed = await this.idempotencyKeyModel
+        .findOneAndUpdate(
+          { _id: existing._id, status: 'processing', lockedAt: existing.lockedAt },
+          { $set: { lockedAt: now } }
+        )
+        .exec();
+
+      if (reclaimed) {
+        return null;
+      }
+    }
+
+    throw new ConflictException('A request with this Idempotency-Key is still being processed');
+  }
+
+  /**
+   * Stores the response so repeats of the request get it back
+   */
+  async complete(request: IdempotentRequest, response: StoredResponse): Promise<void> {
+    await this.idempotencyKeyModel
+      .updateOne(
+        { ...this.scope(request), status: 'processing' },
+        {
+          $set: {
+            status: 'completed',
+            responseStatus: response.status,
+            // Stored as plain JSON, exactly as the first response was sent
+            responseBody: response.body === undefined ? undefined : JSON.parse(JSON.stringify(response.body)),
+          },
+        }
+      )
+      .exec();
+  }
+
+  /**
+   * Frees the key after a failed request so it can be retried
+   */
+  async release(request: IdempotentRequest): Promise<void> {
+    await this.idempotencyKeyModel
+      .deleteOne({ ...this.scope(request), status: 'processing' })
+      .exec();
+  }
+
+  private scope(request: IdempotentRequest) {
+    return {
+      key: request.key,
+      user: request.userId ? new Types.ObjectId(request.userId) : null,
+    };
+  }
+
+  private hash(request: IdempotentRequest): string {
+    return createHash('sha256')
+      .update(`${request.method} ${request.path} ${this.canonicalJson(request.body ?? {})}`)
+      .digest('hex');
+  }
+
+  // Property order does not change the hash of a body
+  private canonicalJson(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.canonicalJson(item)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value)
+        .sort()
+        .filter(key => value[key] !== undefined)
+        .map(key => `${JSON.stringify(key)}:${this.canonicalJson(value[key])}`)
+        .join(',')}}`;
+    }
+
+    return JSON.stringify(value);
+  }
+}
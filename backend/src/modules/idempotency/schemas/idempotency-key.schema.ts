@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type IdempotencyKeyDocument = IdempotencyKey & Document;
+
+@Schema({ timestamps: true })
+export class IdempotencyKey {
+  @Prop({ required: true })
+  key: string;
+
+  // Keys are scoped to the user that sent them
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  user: Types.ObjectId;
+
+  @Prop({ required: true })
+  method: string;
+
+  @Prop({ required: true })
+  path: string;
+
+  // Hash of the method, path and body the key was first used with
+  @Prop({ required: true })
+  requestHash: string;
+
+  @Prop({ required: true, enum: ['processing', 'completed'], default: 'processing' })
+  status: string;
+
+  // When the current request claimed the key
+  @Prop({ required: true })
+  lockedAt: Date;
+
+  @Prop()
+  responseStatus: number;
+
+  @Prop({ type: Object })
+  responseBody: any;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const IdempotencyKeySchema = SchemaFactory.createForClass(IdempotencyKey);
+
+IdempotencyKeySchema.index({ key: 1, user: 1 }, { unique: true });
+// Expired keys are removed by MongoDB's TTL monitor
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
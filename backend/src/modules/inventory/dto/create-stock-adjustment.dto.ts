@@ -0,0 +1,33 @@
+import { IsString, IsNumber, IsOptional, IsIn, NotEquals } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { StockMovementType } from '../schemas/stock-movement.schema';
+
+export class CreateStockAdjustmentDto {
+  @ApiProperty()
+  @IsString()
+  product: string;
+
+  @ApiPropertyOptional({ description: 'Variant ID, required for products with variants' })
+  @IsOptional()
+  @IsString()
+  variant?: string;
+
+  @ApiProperty({ description: 'Signed quantity delta (negative to remove stock)' })
+  @IsNumber()
+  @NotEquals(0)
+  quantity: number;
+
+  @ApiPropertyOptional({ enum: [StockMovementType.ADJUSTMENT, StockMovementType.WRITE_OFF] })
+  @IsOptional()
+  @IsIn([StockMovementType.ADJUSTMENT, StockMovementType.WRITE_OFF])
+  type?: StockMovementType;
+
+  @ApiPropertyOptional({ description: 'Location to adjust; defaults to the default location' })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiProperty()
+  @IsString()
+  reason: string;
+}
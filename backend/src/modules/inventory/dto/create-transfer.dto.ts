@@ -0,0 +1,56 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class TransferLineDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsString()
+  product: string;
+
+  @ApiPropertyOptional({ description: 'Variant ID, required for products with variants' })
+  @IsOptional()
+  @IsString()
+  variant?: string;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateTransferDto {
+  @ApiProperty({ description: 'Source location ID' })
+  @IsString()
+  fromLocation: string;
+
+  @ApiProperty({ description: 'Destination location ID' })
+  @IsString()
+  toLocation: string;
+
+  @ApiProperty({ type: [TransferLineDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => TransferLineDto)
+  lines: TransferLineDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class CancelTransferDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -0,0 +1,18 @@
+import { IsString, IsNumber, IsOptional, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SetMinStockDto {
+  @ApiProperty()
+  @IsString()
+  location: string;
+
+  @ApiPropertyOptional({ description: 'Variant ID, to set the minimum for one variant' })
+  @IsOptional()
+  @IsString()
+  variant?: string;
+
+  @ApiProperty({ description: 'Minimum stock to hold at the location' })
+  @IsNumber()
+  @Min(0)
+  minStock: number;
+}
@@ -1,10 +1,140 @@
-import { Controller } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { InventoryService } from './inventory.service';
+import { TransferService } from './services/transfer.service';
+import { CreateStockAdjustmentDto } from './dto/create-stock-adjustment.dto';
+import { SetMinStockDto } from './dto/set-min-stock.dto';
+import { CreateTransferDto, CancelTransferDto } from './dto/create-transfer.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
 
+@ApiTags('inventory')
 @Controller('inventory')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
 export class InventoryController {
-  constructor(private readonly inventoryService: InventoryService) {}
-  
-  // Basic inventory controller implementation
-  // Will be expanded in future versions
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly transferService: TransferService,
+  ) {}
+
+  @Get('movements')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Get stock movements with filtering and pagination' })
+  @ApiResponse({ status: 200, description: 'Stock movements retrieved successfully' })
+  @ApiQuery({ name: 'product', required: false, description: 'Filter by product ID' })
+  @ApiQuery({ name: 'type', required: false, description: 'Filter by movement type' })
+  @ApiQuery({ name: 'location', required: false, description: 'Filter by location ID' })
+  @ApiQuery({ name: 'variant', required: false, description: 'Filter by product variant ID' })
+  @ApiQuery({ name: 'user', required: false, description: 'Filter by user ID' })
+  @ApiQuery({ name: 'documentId', required: false, description: 'Filter by reference document ID' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Filter by start date' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'Filter by end date' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page' })
+  @ApiQuery({ name: 'sortOrder', required: false, description: 'Sort order by date (asc/desc)' })
+  findMovements(@Query() query: any) {
+    return this.inventoryService.findMovements(query);
+  }
+
+  @Get('movements/product/:productId')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Get stock movement history for a product' })
+  @ApiResponse({ status: 200, description: 'Product stock movements retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid product ID' })
+  getProductMovements(@Param('productId') productId: string, @Query() query: any) {
+    return this.inventoryService.getProductMovements(productId, query);
+  }
+
+  @Get('movements/:id')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Get a stock movement by ID' })
+  @ApiResponse({ status: 200, description: 'Stock movement retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Stock movement not found' })
+  findMovement(@Param('id') id: string) {
+    return this.inventoryService.findMovement(id);
+  }
+
+  @Post('adjustments')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Record a manual stock adjustment or write-off' })
+  @ApiResponse({ status: 201, description: 'Stock adjustment recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input or insufficient stock' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  createAdjustment(@Body() adjustmentDto: CreateStockAdjustmentDto, @Request() req) {
+    return this.inventoryService.createAdjustment(adjustmentDto, req.user.id);
+  }
+
+  @Patch('products/:productId/min-stock')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Set the minimum stock of a product at a location' })
+  @ApiResponse({ status: 200, description: 'Minimum stock updated successfully' })
+  @ApiResponse({ status: 404, description: 'Product or location not found' })
+  setMinStock(@Param('productId') productId: string, @Body() setMinStockDto: SetMinStockDto) {
+    return this.inventoryService.setMinStock(productId, setMinStockDto);
+  }
+
+  @Post('transfers')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Dispatch stock from one location to another' })
+  @ApiResponse({ status: 201, description: 'Transfer dispatched successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid input or insufficient stock at the source location' })
+  createTransfer(@Body() createTransferDto: CreateTransferDto, @Request() req) {
+    return this.transferService.create(createTransferDto, req.user.id);
+  }
+
+  @Get('transfers')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Get stock transfers with filtering and pagination' })
+  @ApiResponse({ status: 200, description: 'Transfers retrieved successfully' })
+  @ApiQuery({ name: 'status', required: false, description: 'Filter by status (in_transit/received/cancelled)' })
+  @ApiQuery({ name: 'fromLocation', required: false, description: 'Filter by source location ID' })
+  @ApiQuery({ name: 'toLocation', required: false, description: 'Filter by destination location ID' })
+  @ApiQuery({ name: 'location', required: false, description: 'Filter by source or destination location ID' })
+  @ApiQuery({ name: 'product', required: false, description: 'Filter by product ID' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page' })
+  findTransfers(@Query() query: any) {
+    return this.transferService.findAll(query);
+  }
+
+  @Get('transfers/:id')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Get a stock transfer by ID' })
+  @ApiResponse({ status: 200, description: 'Transfer retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  findTransfer(@Param('id') id: string) {
+    return this.transferService.findOne(id);
+  }
+
+  @Post('transfers/:id/receive')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Receive an in-transit transfer at its destination' })
+  @ApiResponse({ status: 201, description: 'Transfer received successfully' })
+  @ApiResponse({ status: 400, description: 'Transfer is not in transit' })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  receiveTransfer(@Param('id') id: string, @Request() req) {
+    return this.transferService.receive(id, req.user.id);
+  }
+
+  @Post('transfers/:id/cancel')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Cancel an in-transit transfer and return its stock to the source' })
+  @ApiResponse({ status: 201, description: 'Transfer cancelled successfully' })
+  @ApiResponse({ status: 400, description: 'Transfer is not in transit' })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  cancelTransfer(@Param('id') id: string, @Body() cancelTransferDto: CancelTransferDto, @Request() req) {
+    return this.transferService.cancel(id, cancelTransferDto, req.user.id);
+  }
 }
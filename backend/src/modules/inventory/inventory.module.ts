@@ -1,10 +1,26 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { InventoryController } from './inventory.controller';
 import { InventoryService } from './inventory.service';
+import { TransferService } from './services/transfer.service';
+import { StockMovement, StockMovementSchema } from './schemas/stock-movement.schema';
+import { TransferOrder, TransferOrderSchema } from './schemas/transfer-order.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { LocationsModule } from '../locations/locations.module';
+import { NumberingModule } from '../numbering/numbering.module';
 
 @Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: StockMovement.name, schema: StockMovementSchema },
+      { name: TransferOrder.name, schema: TransferOrderSchema },
+      { name: Product.name, schema: ProductSchema }
+    ]),
+    LocationsModule,
+    NumberingModule
+  ],
   controllers: [InventoryController],
-  providers: [InventoryService],
+  providers: [InventoryService, TransferService],
   exports: [InventoryService],
 })
 export class InventoryModule {}
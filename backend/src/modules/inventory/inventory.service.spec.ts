@@ -0,0 +1,302 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { InventoryService } from './inventory.service';
+import { StockMovement, StockMovementType } from './schemas/stock-movement.schema';
+import { Product } from '../products/schemas/product.schema';
+import { LocationsService } from '../locations/locations.service';
+
+describe('InventoryService', () => {
+  let service: InventoryService;
+
+  const productId = '507f1f77bcf86cd799439011';
+  const userId = '507f1f77bcf86cd799439013';
+  const mainStore = { _id: new Types.ObjectId('507f1f77bcf86cd799439040'), name: 'Main Store' };
+  const warehouse = { _id: new Types.ObjectId('507f1f77bcf86cd799439041'), name: 'Warehouse' };
+
+  const mockProductModel = {
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue({}) }),
+    findById: jest.fn(),
+  };
+
+  const mockLocationsService = {
+    resolve: jest.fn(),
+    initialiseStockLevels: jest.fn(),
+  };
+
+  const mockStockMovementModel = {
+    create: jest.fn(),
+    find: jest.fn(),
+    findById: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InventoryService,
+        {
+          provide: getModelToken(Product.name),
+          useValue: mockProductModel,
+        },
+        {
+          provide: getModelToken(StockMovement.name),
+          useValue: mockStockMovementModel,
+        },
+        {
+          provide: LocationsService,
+          useValue: mockLocationsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<InventoryService>(InventoryService);
+    mockLocationsService.resolve.mockImplementation(async (location) =>
+      location?.toString() === warehouse._id.toString() ? warehouse : mainStore
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('applyStockChange', () => {
+    it('should decrement stock conditionally and record before and after levels', async () => {
+      mockProductModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          _id: new Types.ObjectId(productId),
+          inventory: { quantity: 7 },
+          stockLevels: [{ location: mainStore._id, quantity: 4 }],
+        }),
+      });
+      mockStockMovementModel.create.mockImplementation(async (data) => data);
+
+      const result = await service.applyStockChange(productId, -3, {
+        type: StockMovementType.SALE,
+        userId,
+        reference: { documentType: 'Sale', documentNumber: 'TXN202401010001' },
+      });
+
+      expect(mockProductModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: productId,
+          'variants.0': { $exists: false },
+          stockLevels: { $elemMatch: { location: mainStore._id, quantity: { $gte: 3 } } },
+        },
+        { $inc: { 'inventory.quantity': -3, 'stockLevels.$.quantity': -3 } },
+        { new: true }
+      );
+      expect(result.quantity).toBe(-3);
+      expect(result.location).toBe(mainStore._id);
+      expect(result.locationQuantityAfter).toBe(4);
+      expect(result.quantityBefore).toBe(10);
+      expect(result.quantityAfter).toBe(7);
+      expect(result.type).toBe(StockMovementType.SALE);
+      expect(result.reference.documentNumber).toBe('TXN202401010001');
+    });
+
+    it('should not add a stock condition when increasing stock', async () => {
+      mockProductModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          _id: new Types.ObjectId(productId),
+          inventory: { quantity: 15 },
+          stockLevels: [{ location: mainStore._id, quantity: 15 }],
+        }),
+      });
+      mockStockMovementModel.create.mockImplementation(async (data) => data);
+
+      const result = await service.applyStockChange(productId, 5, {
+        type: StockMovementType.RECEIPT,
+      });
+
+      expect(mockProductModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: productId, 'variants.0': { $exists: false }, 'stockLevels.location': mainStore._id },
+        { $inc: { 'inventory.quantity': 5, 'stockLevels.$.quantity': 5 } },
+        { new: true }
+      );
+      expect(result.quantityBefore).toBe(10);
+    });
+
+    it('should add a stock level the first time a location receives the product', async () => {
+      mockProductModel.findOneAndUpdate
+        .mockReturnValueOnce({ exec: jest.fn().mockResolvedValue(null) })
+        .mockReturnValueOnce({
+          exec: jest.fn().mockResolvedValue({
+            _id: new Types.ObjectId(productId),
+            inventory: { quantity: 12 },
+            stockLevels: [{ location: mainStore._id, quantity: 10 }, { location: warehouse._id, quantity: 2 }],
+          }),
+        });
+      mockStockMovementModel.create.mockImplementation(async (data) => data);
+
+      const result = await service.applyStockChange(productId, 2, {
+        type: StockMovementType.TRANSFER,
+        location: warehouse._id,
+      });
+
+      expect(mockProductModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        {
+          _id: productId,
+          'variants.0': { $exists: false },
+          'stockLevels.0': { $exists: true },
+          'stockLevels.location': { $ne: warehouse._id },
+        },
+        {
+          $inc: { 'inventory.quantity': 2 },
+          $push: { stockLevels: { location: warehouse._id, quantity: 2, minStock: 0 } },
+        },
+        { new: true }
+      );
+      expect(result.location).toBe(warehouse._id);
+      expect(result.locationQuantityAfter).toBe(2);
+    });
+
+    it('should throw BadRequestException when stock is insufficient', async () => {
+      mockProductModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+      mockProductModel.findById.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue({
+          name: 'Test Product',
+          inventory: { quantity: 30 },
+          stockLevels: [{ location: mainStore._id, quantity: 1 }, { location: warehouse._id, quantity: 29 }],
+        }),
+      });
+
+      await expect(
+        service.applyStockChange(productId, -100, { type: StockMovementType.SALE })
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.applyStockChange(productId, -100, { type: StockMovementType.SALE })
+      ).rejects.toThrow('Insufficient stock for product Test Product at Main Store. Available: 1, Requested: 100');
+      expect(mockLocationsService.initialiseStockLevels).toHaveBeenCalledWith(productId);
+      expect(mockStockMovementModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException when product does not exist', async () => {
+      mockProductModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+      mockProductModel.findById.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      await expect(
+        service.applyStockChange(productId, 5, { type: StockMovementType.RECEIPT })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('applyStockChange with variants', () => {
+    const variantId = new Types.ObjectId('507f1f77bcf86cd799439060');
+    const variantProduct = (variantQuantity: number) => ({
+      _id: new Types.ObjectId(productId),
+      name: 'T-Shirt',
+      inventory: { quantity: 12 },
+      stockLevels: [{ location: mainStore._id, quantity: 12 }],
+      variants: [{
+        _id: variantId,
+        name: 'Size',
+        value: 'M',
+        inventory: { quantity: variantQuantity },
+        stockLevels: [{ location: mainStore._id, quantity: variantQuantity }],
+      }],
+    });
+
+    it('should change the variant and the product totals in one update', async () => {
+      mockProductModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(variantProduct(2)),
+      });
+      mockStockMovementModel.create.mockImplementation(async (data) => data);
+
+      const result: any = await service.applyStockChange(productId, -2, {
+        type: StockMovementType.SALE,
+        variant: variantId.toString(),
+      });
+
+      const [filter, update, options] = mockProductModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.variants).toEqual({
+        $elemMatch: {
+          _id: variantId,
+          stockLevels: { $elemMatch: { location: mainStore._id, quantity: { $gte: 2 } } },
+        },
+      });
+      expect(update.$inc).toEqual({
+        'inventory.quantity': -2,
+        'stockLevels.$[level].quantity': -2,
+        'variants.$[variant].inventory.quantity': -2,
+        'variants.$[variant].stockLevels.$[variantLevel].quantity': -2,
+      });
+      expect(options.arrayFilters).toContainEqual({ 'variant._id': variantId });
+      expect(result.variant).toEqual(variantId);
+      expect(result.locationQuantityAfter).toBe(2);
+    });
+
+    it('should name the variant when its stock is insufficient', async () => {
+      mockProductModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+      mockProductModel.findById.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(variantProduct(1)),
+      });
+
+      await expect(
+        service.applyStockChange(productId, -3, { type: StockMovementType.SALE, variant: variantId })
+      ).rejects.toThrow('Insufficient stock for product T-Shirt (Size: M) at Main Store. Available: 1, Requested: 3');
+    });
+
+    it('should require a variant for products with variants', async () => {
+      mockProductModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+      mockProductModel.findById.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(variantProduct(5)),
+      });
+
+      await expect(
+        service.applyStockChange(productId, -1, { type: StockMovementType.SALE })
+      ).rejects.toThrow('Product T-Shirt has variants');
+    });
+  });
+
+  describe('createAdjustment', () => {
+    it('should reject a write-off with a positive quantity', async () => {
+      await expect(
+        service.createAdjustment(
+          { product: productId, quantity: 2, type: StockMovementType.WRITE_OFF, reason: 'Damaged' },
+          userId
+        )
+      ).rejects.toThrow('Write-offs must have a negative quantity');
+    });
+  });
+
+  describe('findMovements', () => {
+    it('should filter movements by product and type', async () => {
+      const mockQuery = {
+        sort: jest.fn().mockReturnThis(),
+        skip: jest.fn().mockReturnThis(),
+        limit: jest.fn().mockReturnThis(),
+        populate: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([]),
+      };
+      mockStockMovementModel.find.mockReturnValue(mockQuery);
+
+      await service.findMovements({ product: productId, type: 'sale' });
+
+      expect(mockStockMovementModel.find).toHaveBeenCalledWith({
+        product: new Types.ObjectId(productId),
+        type: 'sale',
+      });
+      expect(mockQuery.sort).toHaveBeenCalledWith({ createdAt: -1 });
+    });
+  });
+});
@@ -1,7 +1,462 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Product, ProductDocument } from '../products/schemas/product.schema';
+import {
+  StockMovement,
+  StockMovementDocument,
+  StockMovementType,
+} from './schemas/stock-movement.schema';
+import { CreateStockAdjustmentDto } from './dto/create-stock-adjustment.dto';
+import { SetMinStockDto } from './dto/set-min-stock.dto';
+import { LocationsService } from '../locations/locations.service';
+import { LocationDocument } from '../locations/schemas/location.schema';
+
+export interface StockChange {
+  type: StockMovementType;
+  reference?: {
+    documentType?: string;
+    documentId?: string | Types.ObjectId;
+    documentNumber?: string;
+  };
+  // Required for products with variants, which hold their stock per variant
+  variant?: string | Types.ObjectId;
+  // Defaults to the default location
+  location?: string | Types.ObjectId;
+  userId?: string;
+  reason?: string;
+}
 
 @Injectable()
 export class InventoryService {
-  // Basic inventory service implementation
-  // Will be expanded in future versions
+  constructor(
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(StockMovement.name) private stockMovementModel: Model<StockMovementDocument>,
+    private locationsService: LocationsService,
+  ) {}
+
+  /**
+   * Applies a signed quantity delta to a product (or one of its variants) at a
+   * location and records it in the ledger. The decrement is conditional on
+   * sufficient stock at that location, so concurrent requests can never drive
+   * it below zero.
+   */
+  async applyStockChange(productId: string, quantity: number, change: StockChange): Promise<StockMovement> {
+    if (!Types.ObjectId.isValid(productId)) {
+      throw new BadRequestException('Invalid product ID');
+    }
+
+    if (change.variant && !Types.ObjectId.isValid(change.variant.toString())) {
+      throw new BadRequestException('Invalid variant ID');
+    }
+
+    const location = await this.locationsService.resolve(change.location);
+    const variantId = change.variant ? new Types.ObjectId(change.variant.toString()) : undefined;
+    const update = () => variantId
+      ? this.updateVariantStockLevel(productId, variantId, location._id, quantity)
+      : this.updateStockLevel(productId, location._id, quantity);
+
+    let product = await update();
+
+    if (!product) {
+      // Products stocked before locations existed get their stock assigned
+      // to the default location; a first receipt may also have raced another
+      await this.locationsService.initialiseStockLevels(productId);
+      product = await update();
+    }
+
+    if (!product) {
+      throw await this.describeFailure(productId, variantId, location, quantity);
+    }
+
+    const quantityAfter = product.inventory.quantity;
+    const stocked = variantId ? this.findVariant(product, variantId) : product;
+
+    return this.stockMovementModel.create({
+      product: product._id,
+      variant: variantId,
+      type: change.type,
+      quantity,
+      location: location._id,
+      quantityBefore: quantityAfter - quantity,
+      quantityAfter,
+      locationQuantityAfter: this.findStockLevel(stocked, location._id)?.quantity,
+      reference: change.reference
+        ? {
+            ...change.reference,
+            documentId: change.reference.documentId
+              ? new Types.ObjectId(change.reference.documentId)
+              : undefined,
+          }
+        : undefined,
+      user: change.userId ? new Types.ObjectId(change.userId) : undefined,
+      reason: change.reason,
+    });
+  }
+
+  async setMinStock(productId: string, setMinStockDto: SetMinStockDto): Promise<Product> {
+    if (!Types.ObjectId.isValid(productId)) {
+      throw new BadRequestException('Invalid product ID');
+    }
+
+    const location = await this.locationsService.resolve(setMinStockDto.location);
+    await this.locationsService.initialiseStockLevels(productId);
+
+    if (setMinStockDto.variant) {
+      return this.setVariantMinStock(productId, setMinStockDto.variant, location._id, setMinStockDto.minStock);
+    }
+
+    const product =
+      await this.productModel
+        .findOneAndUpdate(
+          { _id: productId, 'stockLevels.location': location._id },
+          { $set: { 'stockLevels.$.minStock': setMinStockDto.minStock } },
+          { new: true }
+        )
+        .exec() ??
+      await this.productModel
+        .findOneAndUpdate(
+          { _id: productId, 'stockLevels.location': { $ne: location._id } },
+          { $push: { stockLevels: { location: location._id, quantity: 0, minStock: setMinStockDto.minStock } } },
+          { new: true }
+        )
+        .exec();
+
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    return product;
+  }
+
+  async initialiseStockLevels(productId: string | Types.ObjectId): Promise<void> {
+    await this.locationsService.initialiseStockLevels(productId);
+  }
+
+  async createAdjustment(adjustmentDto: CreateStockAdjustmentDto, userId: string): Promise<StockMovement> {
+    const type = adjustmentDto.type || StockMovementType.ADJUSTMENT;
+
+    if (type === StockMovementType.WRITE_OFF && adjustmentDto.quantity > 0) {
+      throw new BadRequestException('Write-offs must have a negative quantity');
+    }
+
+    const movement = await this.applyStockChange(adjustmentDto.product, adjustmentDto.quantity, {
+      type,
+      variant: adjustmentDto.variant,
+      location: adjustmentDto.location,
+      userId,
+      reason: adjustmentDto.reason,
+    });
+
+    return this.findMovement((movement as StockMovementDocument)._id.toString());
+  }
+
+  async findMovements(query: any = {}): Promise<StockMovement[]> {
+    const {
+      product,
+      variant,
+      type,
+      location,
+      user,
+      documentId,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 50,
+      sortOrder = 'desc'
+    } = query;
+
+    let filter: any = {};
+
+    // Product filter
+    if (product) {
+      filter.product = new Types.ObjectId(product);
+    }
+
+    // Variant filter
+    if (variant) {
+      filter.variant = new Types.ObjectId(variant);
+    }
+
+    // Movement type filter
+    if (type) {
+      filter.type = type;
+    }
+
+    // Location filter
+    if (location) {
+      filter.location = new Types.ObjectId(location);
+    }
+
+    // User filter
+    if (user) {
+      filter.user = new Types.ObjectId(user);
+    }
+
+    // Reference document filter
+    if (documentId) {
+      filter['reference.documentId'] = new Types.ObjectId(documentId);
+    }
+
+    // Date range filter
+    if (startDate || endDate) {
+      filter.createdAt = {};
+      if (startDate) filter.createdAt.$gte = new Date(startDate);
+      if (endDate) filter.createdAt.$lte = new Date(endDate);
+    }
+
+    // Pagination
+    const skip = (page - 1) * limit;
+
+    return this.stockMovementModel
+      .find(filter)
+      .sort({ createdAt: sortOrder === 'asc' ? 1 : -1 })
+      .skip(skip)
+      .limit(Number(limit))
+      .populate([
+        { path: 'product', select: 'name sku' },
+        { path: 'location', select: 'name code' },
+        { path: 'user', select: 'name email' },
+      ])
+      .exec();
+  }
+
+  async findMovement(id: string): Promise<StockMovement> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid stock movement ID');
+    }
+
+    const movement = await this.stockMovementModel
+      .findById(id)
+      .populate([
+        { path: 'product', select: 'name sku' },
+        { path: 'location', select: 'name code' },
+        { path: 'user', select: 'name email' },
+      ])
+      .exec();
+
+    if (!movement) {
+      throw new NotFoundException('Stock movement not found');
+    }
+
+    return movement;
+  }
+
+  async getProductMovements(productId: string, query: any = {}): Promise<StockMovement[]> {
+    if (!Types.ObjectId.isValid(productId)) {
+      throw new BadRequestException('Invalid product ID');
+    }
+
+    return this.findMovements({ ...query, product: productId });
+  }
+
+  private async updateStockLevel(
+    productId: string,
+    locationId: Types.ObjectId,
+    quantity: number,
+  ): Promise<ProductDocument | null> {
+    const increment = { 'inventory.quantity': quantity, 'stockLevels.$.quantity': quantity };
+
+    // Products with variants only change stock through their variants
+    const withoutVariants = { 'variants.0': { $exists: false } };
+
+    if (quantity < 0) {
+      return this.productModel
+        .findOneAndUpdate(
+          {
+            _id: productId,
+            ...withoutVariants,
+            stockLevels: { $elemMatch: { location: locationId, quantity: { $gte: -quantity } } },
+          },
+          { $inc: increment },
+          { new: true }
+        )
+        .exec();
+    }
+
+    const product = await this.productModel
+      .findOneAndUpdate(
+        { _id: productId, ...withoutVariants, 'stockLevels.location': locationId },
+        { $inc: increment },
+        { new: true }
+      )
+      .exec();
+
+    if (product) {
+      return product;
+    }
+
+    // First stock at this location; products without any stock levels yet
+    // are left to be initialised so their existing quantity is not lost
+    return this.productModel
+      .findOneAndUpdate(
+        {
+          _id: productId,
+          ...withoutVariants,
+          'stockLevels.0': { $exists: true },
+          'stockLevels.location': { $ne: locationId },
+        },
+        {
+          $inc: { 'inventory.quantity': quantity },
+          $push: { stockLevels: { location: locationId, quantity, minStock: 0 } },
+        },
+        { new: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Changes a variant's stock at a location together with the product totals
+   * in a single update, so the product always equals the sum of its variants.
+   */
+  private async updateVariantStockLevel(
+    productId: string,
+    variantId: Types.ObjectId,
+    locationId: Types.ObjectId,
+    quantity: number,
+  ): Promise<ProductDocument | null> {
+    const options = {
+      new: true,
+      arrayFilters: [
+        { 'level.location': locationId },
+        { 'variant._id': variantId },
+        { 'variantLevel.location': locationId },
+      ],
+    };
+    const update = {
+      $inc: {
+        'inventory.quantity': quantity,
+        'stockLevels.$[level].quantity': quantity,
+        'variants.$[variant].inventory.quantity': quantity,
+        'variants.$[variant].stockLevels.$[variantLevel].quantity': quantity,
+      },
+    };
+
+    if (quantity < 0) {
+      return this.productModel
+        .findOneAndUpdate(
+          {
+            _id: productId,
+            'stockLevels.location': locationId,
+            variants: {
+              $elemMatch: {
+                _id: variantId,
+                stockLevels: { $elemMatch: { location: locationId, quantity: { $gte: -quantity } } },
+              },
+            },
+          },
+          update,
+          options
+        )
+        .exec();
+    }
+
+    // First stock at this location: open empty stock levels on the product
+    // and the variant; both pushes are no-ops once the levels exist
+    await this.productModel
+      .updateOne(
+        { _id: productId, 'stockLevels.0': { $exists: true }, 'stockLevels.location': { $ne: locationId } },
+        { $push: { stockLevels: { location: locationId, quantity: 0, minStock: 0 } } }
+      )
+      .exec();
+    await this.productModel
+      .updateOne(
+        { _id: productId, variants: { $elemMatch: { _id: variantId, 'stockLevels.location': { $ne: locationId } } } },
+        { $push: { 'variants.$.stockLevels': { location: locationId, quantity: 0, minStock: 0 } } }
+      )
+      .exec();
+
+    return this.productModel
+      .findOneAndUpdate(
+        {
+          _id: productId,
+          'stockLevels.location': locationId,
+          variants: { $elemMatch: { _id: variantId, 'stockLevels.location': locationId } },
+        },
+        update,
+        options
+      )
+      .exec();
+  }
+
+  private async setVariantMinStock(
+    productId: string,
+    variant: string,
+    locationId: Types.ObjectId,
+    minStock: number,
+  ): Promise<Product> {
+    if (!Types.ObjectId.isValid(variant)) {
+      throw new BadRequestException('Invalid variant ID');
+    }
+
+    const variantId = new Types.ObjectId(variant);
+
+    await this.productModel
+      .updateOne(
+        { _id: productId, variants: { $elemMatch: { _id: variantId, 'stockLevels.location': { $ne: locationId } } } },
+        { $push: { 'variants.$.stockLevels': { location: locationId, quantity: 0, minStock } } }
+      )
+      .exec();
+
+    const product = await this.productModel
+      .findOneAndUpdate(
+        { _id: productId, 'variants._id': variantId },
+        { $set: { 'variants.$[variant].stockLevels.$[level].minStock': minStock } },
+        { new: true, arrayFilters: [{ 'variant._id': variantId }, { 'level.location': locationId }] }
+      )
+      .exec();
+
+    if (!product) {
+      throw new NotFoundException('Product variant not found');
+    }
+
+    return product;
+  }
+
+  private async describeFailure(
+    productId: string,
+    variantId: Types.ObjectId | undefined,
+    location: LocationDocument,
+    quantity: number,
+  ): Promise<Error> {
+    const current = await this.productModel
+      .findById(productId)
+      .select('name inventory stockLevels variants')
+      .exec();
+
+    if (!current) {
+      return new NotFoundException('Product not found');
+    }
+
+    let stocked: { stockLevels?: Array<{ location: Types.ObjectId; quantity: number }> } = current;
+    let name = current.name;
+
+    if (variantId) {
+      const variant = this.findVariant(current, variantId);
+      if (!variant) {
+        return new NotFoundException('Product variant not found');
+      }
+      stocked = variant;
+      name = `${current.name} (${variant.name}: ${variant.value})`;
+    } else if (current.variants?.length) {
+      return new BadRequestException(`Product ${current.name} has variants; specify the variant to change stock for`);
+    }
+
+    const level = this.findStockLevel(stocked, location._id);
+    return new BadRequestException(
+      `Insufficient stock for product ${name} at ${location.name}. ` +
+      `Available: ${level?.quantity ?? 0}, Requested: ${-quantity}`
+    );
+  }
+
+  private findVariant(product: Product, variantId: Types.ObjectId) {
+    return (product.variants || []).find(variant => variant._id.toString() === variantId.toString());
+  }
+
+  private findStockLevel(
+    stocked: { stockLevels?: Array<{ location: Types.ObjectId; quantity: number }> },
+    locationId: Types.ObjectId,
+  ) {
+    return (stocked.stockLevels || []).find(level => level.location.toString() === locationId.toString());
+  }
 }
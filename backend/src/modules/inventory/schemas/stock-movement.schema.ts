@@ -0,0 +1,73 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type StockMovementDocument = StockMovement & Document;
+
+export enum StockMovementType {
+  SALE = 'sale',
+  RECEIPT = 'receipt',
+  ADJUSTMENT = 'adjustment',
+  RETURN = 'return',
+  TRANSFER = 'transfer',
+  WRITE_OFF = 'write_off',
+}
+
+@Schema({ timestamps: true })
+export class StockMovement {
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  // Variant of the product, for products with variants
+  @Prop({ type: Types.ObjectId })
+  variant: Types.ObjectId;
+
+  @Prop({ required: true, enum: StockMovementType })
+  type: StockMovementType;
+
+  // Signed quantity delta: positive for stock in, negative for stock out
+  @Prop({ required: true })
+  quantity: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId;
+
+  // Product totals across all locations
+  @Prop({ required: true })
+  quantityBefore: number;
+
+  @Prop({ required: true })
+  quantityAfter: number;
+
+  // Quantity held at the movement's location after the change
+  @Prop()
+  locationQuantityAfter: number;
+
+  @Prop({
+    type: {
+      documentType: String,
+      documentId: { type: Types.ObjectId },
+      documentNumber: String
+    }
+  })
+  reference: {
+    documentType?: string;
+    documentId?: Types.ObjectId;
+    documentNumber?: string;
+  };
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  user: Types.ObjectId;
+
+  @Prop()
+  reason: string;
+}
+
+export const StockMovementSchema = SchemaFactory.createForClass(StockMovement);
+
+// Indexes for better query performance
+StockMovementSchema.index({ product: 1, createdAt: -1 });
+StockMovementSchema.index({ type: 1 });
+StockMovementSchema.index({ location: 1, createdAt: -1 });
+StockMovementSchema.index({ 'reference.documentId': 1 });
+StockMovementSchema.index({ user: 1 });
+StockMovementSchema.index({ createdAt: -1 });
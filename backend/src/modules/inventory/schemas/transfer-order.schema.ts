@@ -0,0 +1,75 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type TransferOrderDocument = TransferOrder & Document;
+
+export enum TransferOrderStatus {
+  IN_TRANSIT = 'in_transit',
+  RECEIVED = 'received',
+  CANCELLED = 'cancelled',
+}
+
+@Schema({ _id: false })
+export class TransferOrderLine {
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId })
+  variant: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+}
+
+@Schema({ timestamps: true })
+export class TransferOrder {
+  @Prop({ required: true, unique: true })
+  transferNumber: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Location', required: true })
+  fromLocation: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Location', required: true })
+  toLocation: Types.ObjectId;
+
+  // Stock leaves the source when the transfer is dispatched and only arrives
+  // at the destination once it is received
+  @Prop({
+    required: true,
+    enum: Object.values(TransferOrderStatus),
+    default: TransferOrderStatus.IN_TRANSIT
+  })
+  status: string;
+
+  @Prop([TransferOrderLine])
+  lines: TransferOrderLine[];
+
+  @Prop()
+  notes: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  dispatchedBy: Types.ObjectId;
+
+  @Prop()
+  dispatchedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  receivedBy: Types.ObjectId;
+
+  @Prop()
+  receivedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  cancelledBy: Types.ObjectId;
+
+  @Prop()
+  cancelledAt: Date;
+}
+
+export const TransferOrderSchema = SchemaFactory.createForClass(TransferOrder);
+
+// Indexes for better query performance
+TransferOrderSchema.index({ status: 1 });
+TransferOrderSchema.index({ fromLocation: 1, createdAt: -1 });
+TransferOrderSchema.index({ toLocation: 1, createdAt: -1 });
+TransferOrderSchema.index({ 'lines.product': 1 });
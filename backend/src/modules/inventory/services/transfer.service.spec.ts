@@ -0,0 +1,236 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { TransferService } from './transfer.service';
+import { TransferOrder, TransferOrderStatus } from '../schemas/transfer-order.schema';
+import { InventoryService } from '../inventory.service';
+import { LocationsService } from '../../locations/locations.service';
+import { NumberingService } from '../../numbering/numbering.service';
+import { StockMovementType } from '../schemas/stock-movement.schema';
+
+describe('TransferService', () => {
+  let service: TransferService;
+
+  const transferId = new Types.ObjectId('507f1f77bcf86cd799439050');
+  const productA = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const productB = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const userId = '507f1f77bcf86cd799439014';
+  const warehouse = { _id: new Types.ObjectId('507f1f77bcf86cd799439040'), name: 'Warehouse' };
+  const shop = { _id: new Types.ObjectId('507f1f77bcf86cd799439041'), name: 'High Street' };
+
+  const buildTransfer = (overrides: any = {}) => ({
+    _id: transferId,
+    transferNumber: 'TRF-2024-00001',
+    fromLocation: warehouse._id,
+    toLocation: shop._id,
+    status: TransferOrderStatus.IN_TRANSIT,
+    lines: [
+      { product: productA, quantity: 4 },
+      { product: productB, quantity: 2 },
+    ],
+    ...overrides,
+  });
+
+  const chain = (result: any) => ({
+    populate: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  let savedTransfer: any;
+
+  // Mimics a Mongoose model constructor returning a transfer document
+  const mockTransferOrderModel: any = jest.fn().mockImplementation((data) => {
+    savedTransfer = {
+      ...data,
+      _id: transferId,
+      validate: jest.fn().mockResolvedValue(undefined),
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    return savedTransfer;
+  });
+  mockTransferOrderModel.findById = jest.fn();
+  mockTransferOrderModel.findOneAndUpdate = jest.fn();
+  mockTransferOrderModel.updateOne = jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue({}) });
+
+  const mockInventoryService = {
+    applyStockChange: jest.fn(),
+  };
+
+  const mockLocationsService = {
+    resolve: jest.fn(),
+  };
+
+  const mockNumberingService = {
+    next: jest.fn().mockResolvedValue('TRF-2024-00001'),
+  };
+
+  const givenTransfer = (transfer: any) => {
+    mockTransferOrderModel.findById.mockReturnValue(chain(transfer));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransferService,
+        { provide: getModelToken(TransferOrder.name), useValue: mockTransferOrderModel },
+        { provide: InventoryService, useValue: mockInventoryService },
+        { provide: LocationsService, useValue: mockLocationsService },
+        { provide: NumberingService, useValue: mockNumberingService },
+      ],
+    }).compile();
+
+    service = module.get<TransferService>(TransferService);
+
+    mockLocationsService.resolve.mockImplementation(async (id) =>
+      id.toString() === warehouse._id.toString() ? warehouse : shop
+    );
+    mockTransferOrderModel.findOneAndUpdate.mockReturnValue(chain(buildTransfer()));
+    mockInventoryService.applyStockChange.mockImplementation(async (product, quantity, change) => ({
+      product,
+      quantity,
+      location: change.location,
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should dispatch stock out of the source location', async () => {
+      givenTransfer(buildTransfer());
+
+      await service.create(
+        {
+          fromLocation: warehouse._id.toString(),
+          toLocation: shop._id.toString(),
+          lines: [
+            { product: productA.toString(), quantity: 3 },
+            { product: productA.toString(), quantity: 1 },
+          ],
+        },
+        userId
+      );
+
+      expect(savedTransfer.status).toBe(TransferOrderStatus.IN_TRANSIT);
+      expect(savedTransfer.lines).toEqual([{ product: productA, quantity: 4 }]);
+      expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+        productA.toString(),
+        -4,
+        expect.objectContaining({
+          type: StockMovementType.TRANSFER,
+          location: warehouse._id,
+          reference: expect.objectContaining({ documentType: 'TransferOrder', documentNumber: 'TRF-2024-00001' }),
+        })
+      );
+      expect(savedTransfer.save).toHaveBeenCalled();
+    });
+
+    it('should reject a transfer to the same location', async () => {
+      await expect(
+        service.create(
+          {
+            fromLocation: warehouse._id.toString(),
+            toLocation: warehouse._id.toString(),
+            lines: [{ product: productA.toString(), quantity: 1 }],
+          },
+          userId
+        )
+      ).rejects.toThrow(BadRequestException);
+      expect(mockInventoryService.applyStockChange).not.toHaveBeenCalled();
+    });
+
+    it('should return dispatched stock when a later line has insufficient stock', async () => {
+      mockInventoryService.applyStockChange
+        .mockResolvedValueOnce({ product: productA, quantity: -4, location: warehouse._id })
+        .mockRejectedValueOnce(new BadRequestException('Insufficient stock'))
+        .mockResolvedValue({});
+
+      await expect(
+        service.create(
+          {
+            fromLocation: warehouse._id.toString(),
+            toLocation: shop._id.toString(),
+            lines: [
+              { product: productA.toString(), quantity: 4 },
+              { product: productB.toString(), quantity: 2 },
+            ],
+          },
+          userId
+        )
+      ).rejects.toThrow('Insufficient stock');
+
+      expect(savedTransfer.save).not.toHaveBeenCalled();
+      expect(mockInventoryService.applyStockChange).toHaveBeenLastCalledWith(
+        productA.toString(),
+        4,
+        expect.objectContaining({ type: StockMovementType.ADJUSTMENT, location: warehouse._id })
+      );
+    });
+  });
+
+  describe('receive', () => {
+    it('should add the stock at the destination location', async () => {
+      givenTransfer(buildTransfer());
+
+      await service.receive(transferId.toString(), userId);
+
+      const [filter, update] = mockTransferOrderModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: transferId, status: TransferOrderStatus.IN_TRANSIT });
+      expect(update.status).toBe(TransferOrderStatus.RECEIVED);
+      expect(mockInventoryService.applyStockChange).toHaveBeenCalledTimes(2);
+      expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+        productB.toString(),
+        2,
+        expect.objectContaining({ type: StockMovementType.TRANSFER, location: shop._id })
+      );
+    });
+
+    it('should not receive a transfer twice', async () => {
+      givenTransfer(buildTransfer({ status: TransferOrderStatus.RECEIVED }));
+
+      await expect(service.receive(transferId.toString(), userId)).rejects.toThrow(BadRequestException);
+      expect(mockInventoryService.applyStockChange).not.toHaveBeenCalled();
+    });
+
+    it('should reject a concurrent receipt of the same transfer', async () => {
+      givenTransfer(buildTransfer());
+      mockTransferOrderModel.findOneAndUpdate.mockReturnValue(chain(null));
+
+      await expect(service.receive(transferId.toString(), userId)).rejects.toThrow(ConflictException);
+      expect(mockInventoryService.applyStockChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should return in-transit stock to the source location', async () => {
+      givenTransfer(buildTransfer());
+
+      await service.cancel(transferId.toString(), { reason: 'Wrong shop' }, userId);
+
+      expect(mockTransferOrderModel.findOneAndUpdate.mock.calls[0][1].status).toBe(TransferOrderStatus.CANCELLED);
+      expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+        productA.toString(),
+        4,
+        expect.objectContaining({ location: warehouse._id, reason: 'Wrong shop' })
+      );
+    });
+
+    it('should put the transfer back in transit when the stock cannot be returned', async () => {
+      givenTransfer(buildTransfer());
+      mockInventoryService.applyStockChange.mockRejectedValueOnce(new Error('Location Warehouse is inactive'));
+
+      await expect(service.cancel(transferId.toString(), {}, userId)).rejects.toThrow('inactive');
+
+      expect(mockTransferOrderModel.updateOne).toHaveBeenCalledWith(
+        { _id: transferId },
+        expect.objectContaining({ $set: { status: TransferOrderStatus.IN_TRANSIT } })
+      );
+    });
+  });
+});
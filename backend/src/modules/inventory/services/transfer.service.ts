@@ -0,0 +1,334 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  TransferOrder,
+  TransferOrderDocument,
+  TransferOrderStatus,
+} from '../schemas/transfer-order.schema';
+import { CreateTransferDto, CancelTransferDto } from '../dto/create-transfer.dto';
+import { InventoryService } from '../inventory.service';
+import { LocationsService } from '../../locations/locations.service';
+import { NumberingService } from '../../numbering/numbering.service';
+import { StockMovement, StockMovementType } from '../schemas/stock-movement.schema';
+import { DocumentSequence } from '../../../config/numbering.config';
+
+@Injectable()
+export class TransferService {
+  private readonly logger = new Logger(TransferService.name);
+
+  constructor(
+    @InjectModel(TransferOrder.name) private transferOrderModel: Model<TransferOrderDocument>,
+    private inventoryService: InventoryService,
+    private locationsService: LocationsService,
+    private numberingService: NumberingService,
+  ) {}
+
+  /**
+   * Creates a transfer and dispatches it: the stock leaves the source
+   * location immediately and is in transit until the transfer is received.
+   */
+  async create(createTransferDto: CreateTransferDto, userId: string): Promise<TransferOrder> {
+    const [fromLocation, toLocation] = await Promise.all([
+      this.locationsService.resolve(createTransferDto.fromLocation),
+      this.locationsService.resolve(createTransferDto.toLocation),
+    ]);
+
+    if (fromLocation._id.equals(toLocation._id)) {
+      throw new BadRequestException('Source and destination locations must differ');
+    }
+
+    // Merge repeated products (or variants) into a single line
+    const lines = new Map<string, { product: Types.ObjectId; variant?: Types.ObjectId; quantity: number }>();
+    for (const line of createTransferDto.lines) {
+      if (!Types.ObjectId.isValid(line.product)) {
+        throw new BadRequestException(`Invalid product ID ${line.product}`);
+      }
+      if (line.variant && !Types.ObjectId.isValid(line.variant)) {
+        throw new BadRequestException(`Invalid variant ID ${line.variant}`);
+      }
+
+      const key = `${line.product}:${line.variant || ''}`;
+      const merged = lines.get(key) || {
+        product: new Types.ObjectId(line.product),
+        ...(line.variant && { variant: new Types.ObjectId(line.variant) }),
+        quantity: 0,
+      };
+      merged.quantity += line.quantity;
+      lines.set(key, merged);
+    }
+
+    const transfer = new this.transferOrderModel({
+      transferNumber: await this.numberingService.next(DocumentSequence.TRANSFER),
+      fromLocation: fromLocation._id,
+      toLocation: toLocation._id,
+      status: TransferOrderStatus.IN_TRANSIT,
+      lines: [...lines.values()],
+      notes: createTransferDto.notes,
+      dispatchedBy: new Types.ObjectId(userId),
+      dispatchedAt: new Date(),
+    });
+
+    await transfer.validate();
+
+    const movements = await this.moveStock(
+      transfer, fromLocation._id, -1, userId, `Dispatched to ${toLocation.name}`
+    );
+
+    try {
+      await transfer.save();
+    } catch (error) {
+      await this.reverseMovements(transfer, movements, userId);
+      throw error;
+    }
+
+    return this.findOne(transfer._id.toString());
+  }
+
+  async receive(id: string, userId: string): Promise<TransferOrder> {
+    const transfer = await this.findTransfer(id);
+    this.assertInTransit(transfer, 'receive');
+
+    const claimed = await this.claim(transfer, {
+      status: TransferOrderStatus.RECEIVED,
+      receivedBy: new Types.ObjectId(userId),
+      receivedAt: new Date(),
+    });
+
+    try {
+      await this.moveStock(transfer, transfer.toLocation, 1, userId, 'Transfer received');
+    } catch (error) {
+      await this.restoreInTransit(transfer);
+      throw error;
+    }
+
+    return this.findOne(claimed._id.toString());
+  }
+
+  /**
+   * Cancels a transfer that is still in transit, returning its stock to the
+   * source location.
+   */
+  async cancel(id: string, cancelTransferDto: CancelTransferDto, userId: string): Promise<TransferOrder> {
+    const transfer = await this.findTransfer(id);
+    this.assertInTransit(transfer, 'cancel');
+
+    const claimed = await this.claim(transfer, {
+      status: TransferOrderStatus.CANCELLED,
+      cancelledBy: new Types.ObjectId(userId),
+      cancelledAt: new Date(),
+    });
+
+    try {
+      await this.moveStock(
+        transfer, transfer.fromLocation, 1, userId, cancelTransferDto.reason || 'Transfer cancelled'
+      );
+    } catch (error) {
+      await this.restoreInTransit(transfer);
+      throw error;
+    }
+
+    return this.findOne(claimed._id.toString());
+  }
+
+  async findAll(query: any = {}): Promise<TransferOrder[]> {
+    const {
+      status,
+      fromLocation,
+      toLocation,
+      location,
+      product,
+      page = 1,
+      limit = 20,
+      sortOrder = 'desc'
+    } = query;
+
+    let filter: any = {};
+
+    // Status filter
+    if (status) {
+      filter.status = status;
+    }
+
+    // Location filters
+    if (fromLocation) {
+      filter.fromLocation = this.toObjectId(fromLocation, 'location');
+    }
+
+    if (toLocation) {
+      filter.toLocation = this.toObjectId(toLocation, 'location');
+    }
+
+    if (location) {
+      const locationId = this.toObjectId(location, 'location');
+      filter.$or = [{ fromLocation: locationId }, { toLocation: locationId }];
+    }
+
+    // Product filter
+    if (product) {
+      filter['lines.product'] = this.toObjectId(product, 'product');
+    }
+
+    // Pagination
+    const skip = (page - 1) * limit;
+
+    return this.transferOrderModel
+      .find(filter)
+      .sort({ createdAt: sortOrder === 'asc' ? 1 : -1 })
+      .skip(skip)
+      .limit(Number(limit))
+      .populate([
+        { path: 'fromLocation', select: 'name code' },
+        { path: 'toLocation', select: 'name code' },
+      ])
+      .exec();
+  }
+
+  async findOne(id: string): Promise<TransferOrder> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid transfer ID');
+    }
+
+    const transfer = await this.transferOrderModel
+      .findById(id)
+      .populate([
+        { path: 'fromLocation', select: 'name code' },
+        { path: 'toLocation', select: 'name code' },
+        { path: 'lines.product', select: 'name sku' },
+        { path: 'dispatchedBy', select: 'name email' },
+        { path: 'receivedBy', select: 'name email' },
+        { path: 'cancelledBy', select: 'name email' },
+      ])
+      .exec();
+
+    if (!transfer) {
+      throw new NotFoundException('Transfer not found');
+    }
+
+    return transfer;
+  }
+
+  private async findTransfer(id: string): Promise<TransferOrderDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid transfer ID');
+    }
+
+    const transfer = await this.transferOrderModel.findById(id).exec();
+    if (!transfer) {
+      throw new NotFoundException('Transfer not found');
+    }
+
+    return transfer;
+  }
+
+  private assertInTransit(transfer: TransferOrderDocument, action: string): void {
+    if (transfer.status !== TransferOrderStatus.IN_TRANSIT) {
+      throw new BadRequestException(`Cannot ${action} a transfer with status '${transfer.status}'`);
+    }
+  }
+
+  // The status guard rejects a concurrent receive or cancel of the same transfer
+  private async claim(transfer: TransferOrderDocument, update: any): Promise<TransferOrderDocument> {
+    const claimed = await this.transferOrderModel
+      .findOneAndUpdate({ _id: transfer._id, status: TransferOrderStatus.IN_TRANSIT }, update, { new: true })
+      .exec();
+
+    if (!claimed) {
+      throw new ConflictException('Transfer was modified by another request, please retry');
+    }
+
+    return claimed;
+  }
+
+  private async restoreInTransit(transfer: TransferOrderDocument): Promise<void> {
+    try {
+      await this.transferOrderModel
+        .updateOne(
+          { _id: transfer._id },
+          {
+            $set: { status: TransferOrderStatus.IN_TRANSIT },
+            $unset: { receivedBy: 1, receivedAt: 1, cancelledBy: 1, cancelledAt: 1 },
+          }
+        )
+        .exec();
+    } catch (error) {
+      this.logger.error(`Failed to restore transfer ${transfer.transferNumber} to in transit:`, error);
+    }
+  }
+
+  /**
+   * Moves every line of the transfer in or out of a location. If a line
+   * fails, the lines already moved are reversed before rethrowing.
+   */
+  private async moveStock(
+    transfer: TransferOrderDocument,
+    locationId: Types.ObjectId,
+    direction: 1 | -1,
+    userId: string,
+    reason: string,
+  ): Promise<StockMovement[]> {
+    const movements: StockMovement[] = [];
+
+    try {
+      for (const line of transfer.lines) {
+        movements.push(
+          await this.inventoryService.applyStockChange(line.product.toString(), direction * line.quantity, {
+            type: StockMovementType.TRANSFER,
+            variant: line.variant,
+            location: locationId,
+            reference: this.reference(transfer),
+            userId,
+            reason,
+          })
+        );
+      }
+    } catch (error) {
+      await this.reverseMovements(transfer, movements, userId);
+      throw error;
+    }
+
+    return movements;
+  }
+
+  private async reverseMovements(
+    transfer: TransferOrderDocument,
+    movements: StockMovement[],
+    userId: string,
+  ): Promise<void> {
+    for (const movement of [...movements].reverse()) {
+      try {
+        await this.inventoryService.applyStockChange(movement.product.toString(), -movement.quantity, {
+          type: StockMovementType.ADJUSTMENT,
+          variant: movement.variant,
+          location: movement.location,
+          reference: this.reference(transfer),
+          userId,
+          reason: `Transfer rollback for ${transfer.transferNumber}`,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to reverse stock movement for product ${movement.product}:`, error);
+      }
+    }
+  }
+
+  private reference(transfer: TransferOrderDocument) {
+    return {
+      documentType: 'TransferOrder',
+      documentId: transfer._id,
+      documentNumber: transfer.transferNumber,
+    };
+  }
+
+  private toObjectId(id: string, name: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException(`Invalid ${name} ID`);
+    }
+    return new Types.ObjectId(id);
+  }
+}
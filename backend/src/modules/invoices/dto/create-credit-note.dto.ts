@@ -0,0 +1,31 @@
+import { IsString, IsNumber, IsOptional, IsArray, IsMongoId, IsNotEmpty, ValidateNested, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreditNoteItemDto {
+  @ApiProperty({ description: 'ID of the invoice line to credit' })
+  @IsMongoId()
+  line: string;
+
+  @ApiProperty({ description: 'Quantity to credit, at most what is left uncredited on the line' })
+  @IsNumber()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateCreditNoteDto {
+  @ApiPropertyOptional({
+    type: [CreditNoteItemDto],
+    description: 'Lines to credit; when omitted, everything left on the invoice is credited',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CreditNoteItemDto)
+  items?: CreditNoteItemDto[];
+
+  @ApiProperty({ description: 'Why the invoice is being credited, e.g. returned or damaged goods' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
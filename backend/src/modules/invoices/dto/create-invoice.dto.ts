@@ -7,6 +7,11 @@ export class InvoiceItemDto {
   @IsString()
   product: string;
 
+  @ApiPropertyOptional({ description: 'Variant ID, for products with variants' })
+  @IsOptional()
+  @IsString()
+  variant?: string;
+
   @ApiProperty()
   @IsNumber()
   quantity: number;
@@ -0,0 +1,29 @@
+import { IsString, IsNumber, IsOptional, IsEnum, IsDateString, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TENDER_METHODS } from '../../sales/schemas/payment-tender.schema';
+
+export class RecordPaymentDto {
+  @ApiProperty({ description: 'Amount received; anything beyond the balance due becomes a credit' })
+  @IsNumber()
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({ enum: TENDER_METHODS })
+  @IsEnum(TENDER_METHODS)
+  method: string;
+
+  @ApiPropertyOptional({ description: 'When the payment was received; defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  paidAt?: string;
+
+  @ApiPropertyOptional({ description: 'Bank, card or cheque reference' })
+  @IsOptional()
+  @IsString()
+  reference?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
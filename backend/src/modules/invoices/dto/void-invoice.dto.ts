@@ -0,0 +1,9 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class VoidInvoiceDto {
+  @ApiProperty({ description: 'Why the invoice is being voided' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
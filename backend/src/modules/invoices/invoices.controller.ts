@@ -11,29 +11,43 @@ import {
   Request,
   Res,
   Header,
+  UseInterceptors,
 } from '@nestjs/common';
 import { Response } from 'express';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery, ApiHeader } from '@nestjs/swagger';
 import { InvoicesService } from './invoices.service';
 import { CreateInvoiceDto } from './dto/create-invoice.dto';
 import { UpdateInvoiceDto } from './dto/update-invoice.dto';
+import { RecordPaymentDto } from './dto/record-payment.dto';
+import { VoidInvoiceDto } from './dto/void-invoice.dto';
+import { CreateCreditNoteDto } from './dto/create-credit-note.dto';
+import { CreditNotesService } from './services/credit-notes.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
-import { Roles } from '../auth/decorators/roles.decorator';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from '../../config/permissions.config';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 import * as fs from 'fs';
 
 @ApiTags('invoices')
 @Controller('invoices')
-@UseGuards(JwtAuthGuard, RolesGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.INVOICES_VIEW)
 @ApiBearerAuth()
 export class InvoicesController {
-  constructor(private readonly invoicesService: InvoicesService) {}
+  constructor(
+    private readonly invoicesService: InvoicesService,
+    private readonly creditNotesService: CreditNotesService,
+  ) {}
 
   @Post()
-  @Roles('admin', 'manager')
-  @ApiOperation({ summary: 'Create a new invoice' })
+  @RequirePermissions(Permission.INVOICES_CREATE)
+  @ApiOperation({ summary: 'Create a draft invoice' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiResponse({ status: 201, description: 'Invoice created successfully' })
   @ApiResponse({ status: 400, description: 'Bad request - sale not found or invalid data' })
+  @ApiResponse({ status: 409, description: 'Idempotency-Key reused with a different request' })
   create(@Body() createInvoiceDto: CreateInvoiceDto, @Request() req) {
     return this.invoicesService.create(createInvoiceDto, req.user.id);
   }
@@ -110,32 +124,140 @@ export class InvoicesController {
     }
   }
 
+  @Get('credit-notes/:creditNoteId/download')
+  @ApiOperation({ summary: 'Download PDF for a credit note' })
+  @ApiResponse({ status: 200, description: 'PDF downloaded successfully' })
+  @ApiResponse({ status: 404, description: 'Credit note not found' })
+  @Header('Content-Type', 'application/pdf')
+  @Header('Content-Disposition', 'attachment')
+  async downloadCreditNotePDF(@Param('creditNoteId') creditNoteId: string, @Res() res: Response) {
+    try {
+      const { path: pdfPath, filename } = await this.creditNotesService.downloadPDF(creditNoteId);
+
+      if (!fs.existsSync(pdfPath)) {
+        return res.status(404).json({ message: 'PDF file not found' });
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('Content-Type', 'application/pdf');
+
+      const fileStream = fs.createReadStream(pdfPath);
+      fileStream.pipe(res);
+    } catch (error) {
+      res.status(500).json({ message: 'Error downloading PDF', error: error.message });
+    }
+  }
+
   @Patch(':id')
-  @Roles('admin', 'manager')
-  @ApiOperation({ summary: 'Update an invoice' })
+  @RequirePermissions(Permission.INVOICES_UPDATE)
+  @ApiOperation({ summary: 'Update a draft invoice' })
   @ApiResponse({ status: 200, description: 'Invoice updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invoice has been issued; issue a credit note instead' })
   @ApiResponse({ status: 404, description: 'Invoice not found' })
   update(@Param('id') id: string, @Body() updateInvoiceDto: UpdateInvoiceDto, @Request() req) {
     return this.invoicesService.update(id, updateInvoiceDto, req.user.id);
   }
 
+  @Post(':id/issue')
+  @RequirePermissions(Permission.INVOICES_ISSUE)
+  @ApiOperation({ summary: 'Issue a draft invoice, assigning its number and generating its PDF' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiResponse({ status: 201, description: 'Invoice issued successfully' })
+  @ApiResponse({ status: 400, description: 'Invoice is not a draft' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  @ApiResponse({ status: 409, description: 'Invoice was modified at the same time' })
+  issue(@Param('id') id: string, @Request() req) {
+    return this.invoicesService.issue(id, req.user.id);
+  }
+
+  @Post(':id/send')
+  @RequirePermissions(Permission.INVOICES_ISSUE)
+  @ApiOperation({ summary: 'Email an issued invoice to the customer' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiResponse({ status: 201, description: 'Invoice sent successfully' })
+  @ApiResponse({ status: 400, description: 'Invoice is not issued, the customer has no email address, or the email failed' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  @ApiResponse({ status: 409, description: 'Invoice was modified at the same time' })
+  send(@Param('id') id: string, @Request() req) {
+    return this.invoicesService.send(id, req.user.id);
+  }
+
+  @Post(':id/void')
+  @RequirePermissions(Permission.INVOICES_VOID)
+  @ApiOperation({ summary: 'Void an issued invoice that nothing has been paid against' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiResponse({ status: 201, description: 'Invoice voided successfully' })
+  @ApiResponse({ status: 400, description: 'Invoice is a draft, paid or partially paid, or already void' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  @ApiResponse({ status: 409, description: 'Invoice was modified at the same time' })
+  void(@Param('id') id: string, @Body() voidInvoiceDto: VoidInvoiceDto, @Request() req) {
+    return this.invoicesService.void(id, voidInvoiceDto, req.user.id);
+  }
+
+  @Get(':id/payments')
+  @ApiOperation({ summary: 'Get the payments recorded against an invoice and its balance' })
+  @ApiResponse({ status: 200, description: 'Payments retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  getPayments(@Param('id') id: string) {
+    return this.invoicesService.getPayments(id);
+  }
+
+  @Post(':id/payments')
+  @RequirePermissions(Permission.INVOICES_RECORD_PAYMENT)
+  @ApiOperation({ summary: 'Record a payment, deposit or installment against an invoice' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiResponse({ status: 201, description: 'Payment recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Invoice is cancelled or already paid' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  @ApiResponse({ status: 409, description: 'Another payment was recorded at the same time' })
+  recordPayment(@Param('id') id: string, @Body() recordPaymentDto: RecordPaymentDto, @Request() req) {
+    return this.invoicesService.recordPayment(id, recordPaymentDto, req.user.id);
+  }
+
+  @Get(':id/credit-notes')
+  @ApiOperation({ summary: 'Get the credit notes issued against an invoice' })
+  @ApiResponse({ status: 200, description: 'Credit notes retrieved successfully' })
+  findCreditNotes(@Param('id') id: string) {
+    return this.creditNotesService.findByInvoice(id);
+  }
+
+  @Post(':id/credit-notes')
+  @RequirePermissions(Permission.INVOICES_CREDIT)
+  @ApiOperation({ summary: 'Issue a credit note against lines of an invoice' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiResponse({ status: 201, description: 'Credit note issued successfully' })
+  @ApiResponse({ status: 400, description: 'Invoice is a draft or cancelled, or the lines exceed what is left to credit' })
+  @ApiResponse({ status: 404, description: 'Invoice not found' })
+  @ApiResponse({ status: 409, description: 'Invoice was credited or paid at the same time' })
+  createCreditNote(@Param('id') id: string, @Body() createCreditNoteDto: CreateCreditNoteDto, @Request() req) {
+    return this.creditNotesService.create(id, createCreditNoteDto, req.user.id);
+  }
+
   @Patch(':id/payment-status')
-  @Roles('admin', 'manager', 'cashier')
-  @ApiOperation({ summary: 'Update invoice payment status' })
+  @RequirePermissions(Permission.INVOICES_RECORD_PAYMENT)
+  @ApiOperation({ summary: 'Mark an issued invoice overdue' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiResponse({ status: 200, description: 'Payment status updated successfully' })
-  @ApiResponse({ status: 400, description: 'Invalid payment status' })
+  @ApiResponse({ status: 400, description: 'Invalid payment status, or one that follows from payments or voiding' })
   @ApiResponse({ status: 404, description: 'Invoice not found' })
   updatePaymentStatus(
     @Param('id') id: string,
-    @Body() body: { status: string; paidAmount?: number }
+    @Body() body: { status: string }
   ) {
-    return this.invoicesService.updatePaymentStatus(id, body.status, body.paidAmount);
+    return this.invoicesService.updatePaymentStatus(id, body.status);
   }
 
   @Delete(':id')
-  @Roles('admin')
-  @ApiOperation({ summary: 'Delete an invoice' })
+  @RequirePermissions(Permission.INVOICES_DELETE)
+  @ApiOperation({ summary: 'Delete a draft invoice' })
   @ApiResponse({ status: 200, description: 'Invoice deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Invoice has been issued; issue a credit note instead' })
   @ApiResponse({ status: 404, description: 'Invoice not found' })
   remove(@Param('id') id: string) {
     return this.invoicesService.remove(id);
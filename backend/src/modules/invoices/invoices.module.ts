@@ -3,20 +3,34 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { InvoicesService } from './invoices.service';
 import { InvoicesController } from './invoices.controller';
 import { PdfGeneratorService } from './services/pdf-generator.service';
+import { InvoiceRemindersService } from './services/invoice-reminders.service';
+import { CreditNotesService } from './services/credit-notes.service';
 import { Invoice, InvoiceSchema } from './schemas/invoice.schema';
+import { CreditNote, CreditNoteSchema } from './schemas/credit-note.schema';
 import { SalesModule } from '../sales/sales.module';
 import { CustomersModule } from '../customers/customers.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import { TaxesModule } from '../taxes/taxes.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { AuthModule } from '../auth/auth.module';
+import { CommonModule } from '../../common/common.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
-      { name: Invoice.name, schema: InvoiceSchema }
+      { name: Invoice.name, schema: InvoiceSchema },
+      { name: CreditNote.name, schema: CreditNoteSchema },
     ]),
     SalesModule,
-    CustomersModule
+    CustomersModule,
+    NumberingModule,
+    TaxesModule,
+    IdempotencyModule,
+    AuthModule,
+    CommonModule,
   ],
   controllers: [InvoicesController],
-  providers: [InvoicesService, PdfGeneratorService],
+  providers: [InvoicesService, PdfGeneratorService, InvoiceRemindersService, CreditNotesService],
   exports: [InvoicesService, PdfGeneratorService],
 })
 export class InvoicesModule {}
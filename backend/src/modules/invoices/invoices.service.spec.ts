@@ -1,21 +1,42 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import * as fs from 'fs';
 import { InvoicesService } from './invoices.service';
 import { PdfGeneratorService } from './services/pdf-generator.service';
-import { Invoice } from './schemas/invoice.schema';
+import { Invoice, InvoicePaymentStatus, InvoiceStatus } from './schemas/invoice.schema';
+import { SalesService } from '../sales/sales.service';
+import { CustomersService } from '../customers/customers.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { TaxesService } from '../taxes/taxes.service';
+import { EmailService } from '../../common/services/email.service';
+import { DocumentSequence } from '../../config/numbering.config';
 
 describe('InvoicesService', () => {
   let service: InvoicesService;
 
+  const invoiceId = '507f1f77bcf86cd799439031';
+  const userId = '507f1f77bcf86cd799439014';
+
   const mockInvoiceModel = {
     find: jest.fn(),
     findById: jest.fn(),
     findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
     create: jest.fn(),
     findByIdAndUpdate: jest.fn(),
     findByIdAndDelete: jest.fn(),
     countDocuments: jest.fn(),
     aggregate: jest.fn(),
+    exists: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+    collection: {
+      indexes: jest.fn(),
+      dropIndex: jest.fn(),
+      createIndex: jest.fn(),
+    },
   };
 
   const mockPdfGeneratorService = {
@@ -31,6 +52,53 @@ describe('InvoicesService', () => {
     findOne: jest.fn(),
   };
 
+  const mockNumberingService = {
+    next: jest.fn().mockResolvedValue('INV-2024-000002'),
+  };
+
+  const mockTaxesService = {
+    calculate: jest.fn(),
+  };
+
+  const mockEmailService = {
+    sendInvoiceEmail: jest.fn(),
+  };
+
+  const chain = (result: any) => ({
+    populate: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const buildInvoice = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(invoiceId),
+    invoiceNumber: 'INV-2024-000001',
+    status: InvoiceStatus.ISSUED,
+    items: [{ description: 'Laptop', quantity: 1, unitPrice: 100, total: 100 }],
+    totals: { total: 100 },
+    dates: { issueDate: new Date('2024-01-01'), dueDate: new Date('2024-01-31') },
+    customer: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com' },
+    payment: { method: 'bank_transfer', status: InvoicePaymentStatus.PENDING, paidAmount: 0, balanceDue: 100, credit: 0 },
+    payments: [],
+    ...overrides,
+  });
+
+  // Loads the invoice, applies the payment, then reads it back
+  const givenInvoice = (invoice: any) => {
+    mockInvoiceModel.findById
+      .mockReturnValueOnce(chain(invoice))
+      .mockReturnValueOnce(chain(invoice));
+    mockInvoiceModel.findOneAndUpdate.mockReturnValue(chain(invoice));
+  };
+
+  // Keeps PDF generation from creating an invoices directory
+  beforeAll(() => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -44,20 +112,390 @@ describe('InvoicesService', () => {
           useValue: mockPdfGeneratorService,
         },
         {
-          provide: 'SalesService',
+          provide: SalesService,
           useValue: mockSalesService,
         },
         {
-          provide: 'CustomersService',
+          provide: CustomersService,
           useValue: mockCustomersService,
         },
+        {
+          provide: NumberingService,
+          useValue: mockNumberingService,
+        },
+        {
+          provide: TaxesService,
+          useValue: mockTaxesService,
+        },
+        {
+          provide: EmailService,
+          useValue: mockEmailService,
+        },
       ],
     }).compile();
 
     service = module.get<InvoicesService>(InvoicesService);
+    mockInvoiceModel.findByIdAndUpdate.mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('onModuleInit', () => {
+    beforeEach(() => {
+      mockInvoiceModel.updateMany.mockReturnValue({ exec: jest.fn().mockResolvedValue({ modifiedCount: 0 }) });
+    });
+
+    it('should replace a plain invoice number index with a sparse one', async () => {
+      mockInvoiceModel.collection.indexes.mockResolvedValue([
+        { name: '_id_', key: { _id: 1 } },
+        { name: 'invoiceNumber_1', key: { invoiceNumber: 1 }, unique: true },
+      ]);
+
+      await service.onModuleInit();
+
+      expect(mockInvoiceModel.collection.dropIndex).toHaveBeenCalledWith('invoiceNumber_1');
+      expect(mockInvoiceModel.collection.createIndex).toHaveBeenCalledWith(
+        { invoiceNumber: 1 },
+        { unique: true, sparse: true },
+      );
+    });
+
+    it('should leave a sparse invoice number index alone', async () => {
+      mockInvoiceModel.collection.indexes.mockResolvedValue([
+        { name: 'invoiceNumber_1', key: { invoiceNumber: 1 }, unique: true, sparse: true },
+      ]);
+
+      await service.onModuleInit();
+
+      expect(mockInvoiceModel.collection.dropIndex).not.toHaveBeenCalled();
+      expect(mockInvoiceModel.collection.createIndex).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordPayment', () => {
+    it('should mark the invoice partially paid after a deposit', async () => {
+      givenInvoice(buildInvoice());
+
+      await service.recordPayment(invoiceId, { amount: 40, method: 'bank_transfer', reference: 'DEP-1' }, userId);
+
+      const [filter, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({
+        _id: new Types.ObjectId(invoiceId),
+        status: InvoiceStatus.ISSUED,
+        'payments.0': { $exists: false },
+        creditedAmount: { $in: [0, null] },
+      });
+      expect(update.$push.payments).toEqual(expect.objectContaining({ amount: 40, reference: 'DEP-1' }));
+      expect(update.$set).toEqual(expect.objectContaining({
+        status: InvoiceStatus.PARTIALLY_PAID,
+        'payment.status': InvoicePaymentStatus.PARTIALLY_PAID,
+        'payment.paidAmount': 40,
+        'payment.balanceDue': 60,
+        'payment.credit': 0,
+      }));
+      expect(update.$set['payment.paidDate']).toBeUndefined();
+      expect(mockPdfGeneratorService.generateInvoicePDF).toHaveBeenCalled();
+    });
+
+    it('should keep a recorded payment when the PDF cannot be rendered', async () => {
+      const invoice = buildInvoice();
+      givenInvoice(invoice);
+      mockPdfGeneratorService.generateInvoicePDF.mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(service.recordPayment(invoiceId, { amount: 40, method: 'cash' }, userId))
+        .resolves.toBe(invoice);
+      expect(mockInvoiceModel.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should mark the invoice paid once the installments cover the total', async () => {
+      const paidAt = new Date('2024-03-01');
+      givenInvoice(buildInvoice({
+        payment: { method: 'cash', status: InvoicePaymentStatus.PARTIALLY_PAID, paidAmount: 40, balanceDue: 60 },
+        payments: [{ amount: 40, method: 'cash', paidAt: new Date('2024-02-01') }],
+      }));
+
+      await service.recordPayment(invoiceId, { amount: 60, method: 'card', paidAt: paidAt.toISOString() }, userId);
+
+      const [filter, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.payments).toEqual({ $size: 1 });
+      expect(update.$set).toEqual(expect.objectContaining({
+        status: InvoiceStatus.PAID,
+        'payment.status': InvoicePaymentStatus.PAID,
+        'payment.paidAmount': 100,
+        'payment.balanceDue': 0,
+        'payment.paidDate': paidAt,
+      }));
+    });
+
+    it('should keep an overpayment as a credit', async () => {
+      givenInvoice(buildInvoice());
+
+      await service.recordPayment(invoiceId, { amount: 120.5, method: 'cash' }, userId);
+
+      const [, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(update.$set).toEqual(expect.objectContaining({
+        'payment.status': InvoicePaymentStatus.PAID,
+        'payment.balanceDue': 0,
+        'payment.credit': 20.5,
+      }));
+    });
+
+    it('should take credit notes off the balance due', async () => {
+      givenInvoice(buildInvoice({ creditedAmount: 30 }));
+
+      await service.recordPayment(invoiceId, { amount: 70, method: 'cash' }, userId);
+
+      const [filter, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.creditedAmount).toBe(30);
+      expect(update.$set).toEqual(expect.objectContaining({
+        'payment.status': InvoicePaymentStatus.PAID,
+        'payment.balanceDue': 0,
+        'payment.credit': 0,
+      }));
+    });
+
+    it('should leave an overdue invoice overdue until it is settled', async () => {
+      givenInvoice(buildInvoice({
+        payment: { method: 'cash', status: InvoicePaymentStatus.OVERDUE, paidAmount: 0, balanceDue: 100 },
+      }));
+
+      await service.recordPayment(invoiceId, { amount: 30, method: 'cash' }, userId);
+
+      const [, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(update.$set['payment.status']).toBe(InvoicePaymentStatus.OVERDUE);
+    });
+
+    it('should refuse payments against paid or cancelled invoices', async () => {
+      mockInvoiceModel.findById.mockReturnValueOnce(chain(buildInvoice({
+        payment: { status: InvoicePaymentStatus.CANCELLED },
+      })));
+      await expect(service.recordPayment(invoiceId, { amount: 10, method: 'cash' }, userId))
+        .rejects.toThrow(BadRequestException);
+
+      mockInvoiceModel.findById.mockReturnValueOnce(chain(buildInvoice({
+        payment: { status: InvoicePaymentStatus.PAID },
+      })));
+      await expect(service.recordPayment(invoiceId, { amount: 10, method: 'cash' }, userId))
+        .rejects.toThrow('Invoice is already paid');
+
+      expect(mockInvoiceModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse payments against drafts and void invoices', async () => {
+      mockInvoiceModel.findById.mockReturnValueOnce(chain(buildInvoice({ status: InvoiceStatus.DRAFT })));
+
+      await expect(service.recordPayment(invoiceId, { amount: 10, method: 'cash' }, userId))
+        .rejects.toThrow("Cannot record a payment against an invoice with status 'draft'");
+      expect(mockInvoiceModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a payment when another one was recorded concurrently', async () => {
+      mockInvoiceModel.findById.mockReturnValueOnce(chain(buildInvoice()));
+      mockInvoiceModel.findOneAndUpdate.mockReturnValue(chain(null));
+
+      await expect(service.recordPayment(invoiceId, { amount: 10, method: 'cash' }, userId))
+        .rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('issue', () => {
+    it('should number a draft when it is issued and keep its payment term', async () => {
+      const draft = buildInvoice({ invoiceNumber: undefined, status: InvoiceStatus.DRAFT });
+      givenInvoice(draft);
+
+      await service.issue(invoiceId, userId);
+
+      expect(mockNumberingService.next).toHaveBeenCalledWith(DocumentSequence.INVOICE, expect.any(Date));
+      const [filter, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: draft._id, status: InvoiceStatus.DRAFT });
+      expect(update).toEqual(expect.objectContaining({ invoiceNumber: 'INV-2024-000002', status: InvoiceStatus.ISSUED }));
+      expect(update['dates.dueDate'].getTime() - update['dates.issueDate'].getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+      expect(mockPdfGeneratorService.generateInvoicePDF).toHaveBeenCalled();
+    });
+
+    it('should refuse to issue an invoice twice', async () => {
+      mockInvoiceModel.findById.mockReturnValue(chain(buildInvoice()));
+
+      await expect(service.issue(invoiceId, userId)).rejects.toThrow("Cannot move an invoice from 'issued' to 'issued'");
+      expect(mockNumberingService.next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('send', () => {
+    it('should email an issued invoice with its PDF and mark it sent', async () => {
+      const invoice = buildInvoice({ pdfPath: '/tmp/invoice.pdf' });
+      mockInvoiceModel.findById.mockReturnValueOnce(chain(invoice));
+      mockInvoiceModel.findOneAndUpdate.mockReturnValue(chain({ ...invoice, populate: jest.fn() }));
+      mockEmailService.sendInvoiceEmail.mockResolvedValue(true);
+
+      await service.send(invoiceId, userId);
+
+      const [filter, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: invoice._id, status: InvoiceStatus.ISSUED });
+      expect(update).toEqual(expect.objectContaining({ status: InvoiceStatus.SENT, isEmailSent: true }));
+      expect(mockEmailService.sendInvoiceEmail).toHaveBeenCalledWith(expect.objectContaining({
+        customerEmail: 'ada@example.com',
+        pdfPath: '/tmp/invoice.pdf',
+      }));
+    });
+
+    it('should put the invoice back when the email fails', async () => {
+      const invoice = buildInvoice({ pdfPath: '/tmp/invoice.pdf' });
+      mockInvoiceModel.findById.mockReturnValueOnce(chain(invoice));
+      mockInvoiceModel.findOneAndUpdate.mockReturnValue(chain(invoice));
+      mockInvoiceModel.updateOne.mockReturnValue(chain({}));
+      mockEmailService.sendInvoiceEmail.mockResolvedValue(false);
+
+      await expect(service.send(invoiceId, userId)).rejects.toThrow('Failed to send invoice email');
+      expect(mockInvoiceModel.updateOne).toHaveBeenCalledWith(
+        { _id: invoice._id, status: InvoiceStatus.SENT },
+        expect.objectContaining({ status: InvoiceStatus.ISSUED, isEmailSent: false })
+      );
+    });
+  });
+
+  describe('void', () => {
+    it('should void an unpaid invoice and cancel what is owed', async () => {
+      givenInvoice(buildInvoice({ status: InvoiceStatus.SENT }));
+
+      await service.void(invoiceId, { reason: 'Raised in error' }, userId);
+
+      const [filter, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.status).toBe(InvoiceStatus.SENT);
+      expect(update).toEqual(expect.objectContaining({
+        status: InvoiceStatus.VOID,
+        'payment.status': InvoicePaymentStatus.CANCELLED,
+        'payment.balanceDue': 0,
+      }));
+      expect(update.voided.reason).toBe('Raised in error');
+    });
+
+    it('should refuse to void an invoice with payments against it', async () => {
+      mockInvoiceModel.findById.mockReturnValue(chain(buildInvoice({ status: InvoiceStatus.PARTIALLY_PAID })));
+
+      await expect(service.void(invoiceId, { reason: 'Raised in error' }, userId))
+        .rejects.toThrow(BadRequestException);
+      expect(mockInvoiceModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should price a draft again when its lines change', async () => {
+      const saleLocation = new Types.ObjectId();
+      const product = new Types.ObjectId().toString();
+      mockInvoiceModel.findById.mockReturnValueOnce(chain(buildInvoice({
+        status: InvoiceStatus.DRAFT,
+        sale: new Types.ObjectId(),
+      })));
+      mockSalesService.findOne.mockResolvedValue({ location: saleLocation, customer: null });
+      mockTaxesService.calculate.mockResolvedValue({
+        items: [{ total: 150, tax: { amount: 15 } }],
+        totals: { subtotal: 150, tax: 15, discount: 0, total: 165 },
+      });
+      mockInvoiceModel.findOneAndUpdate.mockReturnValue(chain(buildInvoice({ status: InvoiceStatus.DRAFT })));
+
+      await service.update(invoiceId, { items: [{ product, quantity: 3, unitPrice: 50 }] }, userId);
+
+      expect(mockTaxesService.calculate).toHaveBeenCalledWith(expect.objectContaining({
+        items: [{ product, quantity: 3, unitPrice: 50 }],
+        location: saleLocation,
+      }));
+      const [filter, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: invoiceId, status: InvoiceStatus.DRAFT });
+      expect(update).toEqual(expect.objectContaining({
+        items: [{ product, quantity: 3, unitPrice: 50, total: 150, tax: { amount: 15 } }],
+        totals: expect.objectContaining({ total: 165 }),
+        'payment.balanceDue': 165,
+      }));
+    });
+
+    it('should leave the totals alone when only the notes change', async () => {
+      mockInvoiceModel.findOneAndUpdate.mockReturnValue(chain(buildInvoice({ status: InvoiceStatus.DRAFT })));
+
+      await service.update(invoiceId, { notes: 'Deliver to the back door' }, userId);
+
+      expect(mockTaxesService.calculate).not.toHaveBeenCalled();
+      expect(mockInvoiceModel.findOneAndUpdate.mock.calls[0][1].totals).toBeUndefined();
+    });
+
+    it('should refuse to edit an issued invoice', async () => {
+      mockInvoiceModel.findOneAndUpdate.mockReturnValue(chain(null));
+      mockInvoiceModel.exists.mockResolvedValue({ _id: invoiceId });
+
+      await expect(service.update(invoiceId, { notes: 'Changed' }, userId))
+        .rejects.toThrow('issue a credit note instead');
+      expect(mockInvoiceModel.findOneAndUpdate.mock.calls[0][0]).toEqual({ _id: invoiceId, status: InvoiceStatus.DRAFT });
+      expect(mockPdfGeneratorService.generateInvoicePDF).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse to delete an issued invoice', async () => {
+      mockInvoiceModel.findById.mockReturnValue(chain(buildInvoice()));
+
+      await expect(service.remove(invoiceId)).rejects.toThrow(BadRequestException);
+      expect(mockInvoiceModel.findByIdAndDelete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updatePaymentStatus', () => {
+    it('should refuse statuses that follow from the recorded payments', async () => {
+      await expect(service.updatePaymentStatus(invoiceId, InvoicePaymentStatus.PAID))
+        .rejects.toThrow('record a payment instead');
+      expect(mockInvoiceModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to cancel an invoice other than by voiding it', async () => {
+      await expect(service.updatePaymentStatus(invoiceId, InvoicePaymentStatus.CANCELLED))
+        .rejects.toThrow('void it instead');
+      expect(mockInvoiceModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should mark an issued, unpaid invoice overdue', async () => {
+      mockInvoiceModel.findOneAndUpdate.mockReturnValue(chain(buildInvoice()));
+
+      await service.updatePaymentStatus(invoiceId, InvoicePaymentStatus.OVERDUE);
+
+      expect(mockInvoiceModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: invoiceId,
+          status: { $in: [InvoiceStatus.ISSUED, InvoiceStatus.SENT, InvoiceStatus.PARTIALLY_PAID] },
+          'payment.status': { $ne: InvoicePaymentStatus.PAID },
+        },
+        { 'payment.status': InvoicePaymentStatus.OVERDUE },
+        { new: true }
+      );
+    });
+  });
+
+  describe('getInvoiceStats', () => {
+    it('should report the outstanding amount from the balances of uncancelled invoices', async () => {
+      mockInvoiceModel.countDocuments.mockResolvedValue(1);
+      mockInvoiceModel.aggregate.mockResolvedValue([
+        { totalAmount: 300, paidAmount: 160, outstandingAmount: 150, creditAmount: 10 },
+      ]);
+
+      const stats = await service.getInvoiceStats();
+
+      const [[match]] = mockInvoiceModel.aggregate.mock.calls[0];
+      expect(match).toEqual({
+        $match: {
+          status: { $nin: [InvoiceStatus.DRAFT, InvoiceStatus.VOID] },
+          'payment.status': { $ne: InvoicePaymentStatus.CANCELLED },
+        },
+      });
+      expect(stats).toEqual(expect.objectContaining({
+        partiallyPaid: 1,
+        paidAmount: 160,
+        outstandingAmount: 150,
+        creditAmount: 10,
+      }));
+    });
+  });
 });
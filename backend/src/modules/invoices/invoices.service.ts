@@ -1,24 +1,85 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Invoice, InvoiceDocument } from './schemas/invoice.schema';
+import { Invoice, InvoiceDocument, InvoicePaymentStatus, InvoiceStatus } from './schemas/invoice.schema';
+import { InvoicePayment } from './schemas/invoice-payment.schema';
 import { CreateInvoiceDto } from './dto/create-invoice.dto';
 import { UpdateInvoiceDto } from './dto/update-invoice.dto';
+import { RecordPaymentDto } from './dto/record-payment.dto';
+import { VoidInvoiceDto } from './dto/void-invoice.dto';
 import { PdfGeneratorService } from './services/pdf-generator.service';
 import { SalesService } from '../sales/sales.service';
 import { CustomersService } from '../customers/customers.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { TaxesService } from '../taxes/taxes.service';
+import { EmailService } from '../../common/services/email.service';
+import { DocumentSequence } from '../../config/numbering.config';
 import * as fs from 'fs';
 import * as path from 'path';
 
+// Statuses an invoice can move to from each status. Payments and credit
+// notes move it on to partially paid and paid; the others have their own
+// endpoints.
+const INVOICE_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  [InvoiceStatus.DRAFT]: [InvoiceStatus.ISSUED],
+  [InvoiceStatus.ISSUED]: [InvoiceStatus.SENT, InvoiceStatus.PARTIALLY_PAID, InvoiceStatus.PAID, InvoiceStatus.VOID],
+  [InvoiceStatus.SENT]: [InvoiceStatus.PARTIALLY_PAID, InvoiceStatus.PAID, InvoiceStatus.VOID],
+  [InvoiceStatus.PARTIALLY_PAID]: [InvoiceStatus.PAID],
+  [InvoiceStatus.PAID]: [],
+  [InvoiceStatus.VOID]: [],
+};
+
+// Issued invoices still waiting to be paid in full
+const PAYABLE_STATUSES: string[] = [InvoiceStatus.ISSUED, InvoiceStatus.SENT, InvoiceStatus.PARTIALLY_PAID];
+
 @Injectable()
-export class InvoicesService {
+export class InvoicesService implements OnModuleInit {
+  private readonly logger = new Logger(InvoicesService.name);
+
   constructor(
     @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
     private pdfGeneratorService: PdfGeneratorService,
     private salesService: SalesService,
     private customersService: CustomersService,
+    private numberingService: NumberingService,
+    private taxesService: TaxesService,
+    private emailService: EmailService,
   ) {}
 
+  // Invoices from before the lifecycle were marked 'generated' as soon as
+  // their PDF was, whatever had happened to them since
+  async onModuleInit(): Promise<void> {
+    try {
+      const result = await this.invoiceModel
+        .updateMany({ status: 'generated' }, [
+          {
+            $set: {
+              status: {
+                $switch: {
+                  branches: [
+                    { case: { $eq: ['$payment.status', InvoicePaymentStatus.CANCELLED] }, then: InvoiceStatus.VOID },
+                    { case: { $eq: ['$payment.status', InvoicePaymentStatus.PAID] }, then: InvoiceStatus.PAID },
+                    { case: { $gt: ['$payment.paidAmount', 0] }, then: InvoiceStatus.PARTIALLY_PAID },
+                    { case: { $eq: ['$isEmailSent', true] }, then: InvoiceStatus.SENT },
+                  ],
+                  default: InvoiceStatus.ISSUED,
+                },
+              },
+            },
+          },
+        ])
+        .exec();
+
+      if (result.modifiedCount > 0) {
+        this.logger.log(`Moved ${result.modifiedCount} invoices onto the invoice lifecycle`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to move invoices onto the invoice lifecycle:', error);
+    }
+
+    await this.migrateInvoiceNumberIndex();
+  }
+
   async create(createInvoiceDto: CreateInvoiceDto, userId: string): Promise<Invoice> {
     // Validate sale exists
     const sale = await this.salesService.findOne(createInvoiceDto.sale);
@@ -26,48 +87,39 @@ export class InvoicesService {
       throw new BadRequestException('Sale not found');
     }
 
-    // Generate invoice number
-    const invoiceNumber = await this.pdfGeneratorService.generateInvoiceNumber();
-
-    // Calculate totals
-    const subtotal = createInvoiceDto.items.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0);
-    const totalDiscount = createInvoiceDto.items.reduce((sum, item) => sum + (item.discount || 0), 0);
-    const tax = (subtotal - totalDiscount) * 0.1; // 10% tax
-    const total = subtotal + tax - totalDiscount;
+    // Calculate totals with the same tax rules as the sale
+    const { items: taxedItems, totals } = await this.taxesService.calculate({
+      items: createInvoiceDto.items,
+      location: sale.location,
+      customer: createInvoiceDto.customer || (sale.customer as any)?._id,
+    });
 
     // Set due date (default to 30 days from now)
     const dueDate = createInvoiceDto.dueDate ? new Date(createInvoiceDto.dueDate) : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
 
-    // Create invoice
+    // Invoices start as drafts; the number is assigned when they are issued
     const invoice = new this.invoiceModel({
       ...createInvoiceDto,
-      invoiceNumber,
       issuedBy: new Types.ObjectId(userId),
-      totals: {
-        subtotal,
-        tax,
-        discount: totalDiscount,
-        total,
-        taxRate: 0.1,
-      },
+      items: createInvoiceDto.items.map((item, index) => ({ ...item, ...taxedItems[index] })),
+      totals,
       payment: {
         method: createInvoiceDto.paymentMethod || 'pending',
-        status: 'pending',
+        status: InvoicePaymentStatus.PENDING,
         paidAmount: 0,
+        balanceDue: totals.total,
+        credit: 0,
       },
       dates: {
         dueDate,
         issueDate: new Date(),
         terms: createInvoiceDto.terms || 'Net 30',
       },
-      status: 'draft',
+      status: InvoiceStatus.DRAFT,
     });
 
     const savedInvoice = await invoice.save();
 
-    // Generate PDF
-    await this.generateAndSavePDF(savedInvoice);
-
     return savedInvoice.populate([
       { path: 'sale', select: 'transactionNumber status' },
       { path: 'customer', select: 'firstName lastName email phone' },
@@ -170,18 +222,30 @@ export class InvoicesService {
     return invoice;
   }
 
+  /**
+   * Edits a draft invoice. Issued invoices cannot be edited; they are
+   * corrected with credit notes instead.
+   */
   async update(id: string, updateInvoiceDto: UpdateInvoiceDto, userId: string): Promise<Invoice> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid invoice ID');
     }
 
+    const update: any = {
+      ...updateInvoiceDto,
+      updatedBy: new Types.ObjectId(userId),
+    };
+
+    // The lines, customer and sale decide the tax, so a draft whose lines
+    // or customer change is priced again the way it was created
+    if (updateInvoiceDto.items || updateInvoiceDto.customer || updateInvoiceDto.sale) {
+      Object.assign(update, await this.repriceDraft(id, updateInvoiceDto));
+    }
+
     const updatedInvoice = await this.invoiceModel
-      .findByIdAndUpdate(
-        id,
-        {
-          ...updateInvoiceDto,
-          updatedBy: new Types.ObjectId(userId),
-        },
+      .findOneAndUpdate(
+        { _id: id, status: InvoiceStatus.DRAFT },
+        update,
         { new: true, runValidators: true }
       )
       .populate([
@@ -192,12 +256,13 @@ export class InvoicesService {
       .exec();
 
     if (!updatedInvoice) {
-      throw new NotFoundException('Invoice not found');
+      const exists = await this.invoiceModel.exists({ _id: id });
+      if (!exists) {
+        throw new NotFoundException('Invoice not found');
+      }
+      throw new BadRequestException('Issued invoices cannot be edited; issue a credit note instead');
     }
 
-    // Regenerate PDF if invoice was updated
-    await this.generateAndSavePDF(updatedInvoice);
-
     return updatedInvoice;
   }
 
@@ -211,12 +276,16 @@ export class InvoicesService {
       throw new NotFoundException('Invoice not found');
     }
 
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new BadRequestException('Issued invoices cannot be deleted; issue a credit note instead');
+    }
+
     // Delete PDF file if exists
     if (invoice.pdfPath && fs.existsSync(invoice.pdfPath)) {
       fs.unlinkSync(invoice.pdfPath);
     }
 
-    const result = await this.invoiceModel.findByIdAndDelete(id).exec();
+    const result = await this.invoiceModel.findOneAndDelete({ _id: id, status: InvoiceStatus.DRAFT }).exec();
     if (!result) {
       throw new NotFoundException('Invoice not found');
     }
@@ -224,7 +293,8 @@ export class InvoicesService {
 
   async generatePDF(id: string): Promise<string> {
     const invoice = await this.findOne(id);
-    
+    this.assertHasPdf(invoice);
+
     // Generate new PDF
     const pdfPath = await this.generateAndSavePDF(invoice as InvoiceDocument);
     
@@ -233,41 +303,259 @@ export class InvoicesService {
 
   async downloadPDF(id: string): Promise<{ path: string; filename: string }> {
     const invoice = await this.findOne(id);
-    
-    if (!invoice.pdfPath || !fs.existsSync(invoice.pdfPath)) {
+    this.assertHasPdf(invoice);
+
+    let pdfPath = invoice.pdfPath;
+    if (!pdfPath || !fs.existsSync(pdfPath)) {
       // Generate PDF if it doesn't exist
-      await this.generateAndSavePDF(invoice as InvoiceDocument);
+      pdfPath = await this.generateAndSavePDF(invoice as InvoiceDocument);
     }
 
     const filename = `invoice-${invoice.invoiceNumber}.pdf`;
     
     return {
-      path: invoice.pdfPath,
+      path: pdfPath,
       filename,
     };
   }
 
-  async updatePaymentStatus(id: string, paymentStatus: string, paidAmount?: number): Promise<Invoice> {
+  /**
+   * Issues a draft: it is given its invoice number and PDF, and from then on
+   * can only be corrected with credit notes.
+   */
+  async issue(id: string, userId: string): Promise<Invoice> {
+    const invoice = await this.findDocument(id);
+    this.assertTransition(invoice, InvoiceStatus.ISSUED);
+
+    // The draft's payment term runs from the day it is issued
+    const issueDate = new Date();
+    const term = new Date(invoice.dates.dueDate).getTime() - new Date(invoice.dates.issueDate || issueDate).getTime();
+    const invoiceNumber = await this.numberingService.next(DocumentSequence.INVOICE, issueDate);
+
+    const issued = await this.transition(invoice, {
+      invoiceNumber,
+      status: InvoiceStatus.ISSUED,
+      'dates.issueDate': issueDate,
+      'dates.dueDate': new Date(issueDate.getTime() + Math.max(term, 0)),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    await this.refreshPDF(issued);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Emails an issued invoice, with its PDF, to the customer
+   */
+  async send(id: string, userId: string): Promise<Invoice> {
+    const invoice = await this.findOne(id) as InvoiceDocument;
+    this.assertTransition(invoice, InvoiceStatus.SENT);
+
+    const customer: any = invoice.customer;
+    if (!customer?.email) {
+      throw new BadRequestException('Invoice customer has no email address');
+    }
+
+    const pdfPath = invoice.pdfPath && fs.existsSync(invoice.pdfPath)
+      ? invoice.pdfPath
+      : await this.generateAndSavePDF(invoice);
+
+    // Marked sent before the email goes out, so it is never sent twice
+    const sent = await this.transition(invoice, {
+      status: InvoiceStatus.SENT,
+      isEmailSent: true,
+      emailSentAt: new Date(),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    const delivered = await this.emailService.sendInvoiceEmail({
+      customerName: `${customer.firstName} ${customer.lastName}`,
+      customerEmail: customer.email,
+      invoiceNumber: invoice.invoiceNumber,
+      totalAmount: invoice.totals.total,
+      dueDate: new Date(invoice.dates.dueDate).toLocaleDateString(),
+      items: invoice.items.map(item => ({
+        name: item.description || 'Product',
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        total: item.total,
+      })),
+      pdfPath,
+    });
+
+    if (!delivered) {
+      await this.invoiceModel
+        .updateOne(
+          { _id: invoice._id, status: InvoiceStatus.SENT },
+          { status: invoice.status, isEmailSent: invoice.isEmailSent || false, emailSentAt: invoice.emailSentAt }
+        )
+        .exec();
+      throw new BadRequestException('Failed to send invoice email');
+    }
+
+    return sent.populate([
+      { path: 'sale', select: 'transactionNumber status' },
+      { path: 'customer', select: 'firstName lastName email phone' },
+      { path: 'issuedBy', select: 'username firstName lastName' },
+    ]);
+  }
+
+  /**
+   * Voids an issued invoice that nothing has been paid against; nothing is
+   * owed on it any more. Its number stays used, so the sequence has no gaps.
+   */
+  async void(id: string, voidInvoiceDto: VoidInvoiceDto, userId: string): Promise<Invoice> {
+    const invoice = await this.findDocument(id);
+    this.assertTransition(invoice, InvoiceStatus.VOID);
+
+    const voided = await this.transition(invoice, {
+      status: InvoiceStatus.VOID,
+      'payment.status': InvoicePaymentStatus.CANCELLED,
+      'payment.balanceDue': 0,
+      voided: {
+        reason: voidInvoiceDto.reason,
+        voidedBy: new Types.ObjectId(userId),
+        voidedAt: new Date(),
+      },
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    // The PDF shows the invoice as void
+    await this.refreshPDF(voided);
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Adds a payment, such as a deposit or an installment, to the invoice's
+   * ledger and derives its payment status and balance from the ledger.
+   * Paying more than the balance due leaves a credit for the customer.
+   */
+  async recordPayment(id: string, recordPaymentDto: RecordPaymentDto, userId: string): Promise<Invoice> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid invoice ID');
     }
 
-    const validStatuses = ['pending', 'paid', 'overdue', 'cancelled'];
-    if (!validStatuses.includes(paymentStatus)) {
-      throw new BadRequestException('Invalid payment status');
+    const invoice = await this.invoiceModel.findById(id).exec();
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    if (invoice.payment.status === InvoicePaymentStatus.CANCELLED) {
+      throw new BadRequestException('Cannot record a payment against a cancelled invoice');
+    }
+
+    if (invoice.payment.status === InvoicePaymentStatus.PAID) {
+      throw new BadRequestException('Invoice is already paid');
     }
 
-    const updateData: any = {
-      'payment.status': paymentStatus,
+    if (!PAYABLE_STATUSES.includes(invoice.status)) {
+      throw new BadRequestException(`Cannot record a payment against an invoice with status '${invoice.status}'`);
+    }
+
+    const payment: InvoicePayment = {
+      amount: this.round(recordPaymentDto.amount),
+      method: recordPaymentDto.method,
+      paidAt: recordPaymentDto.paidAt ? new Date(recordPaymentDto.paidAt) : new Date(),
+      reference: recordPaymentDto.reference,
+      notes: recordPaymentDto.notes,
+      recordedBy: new Types.ObjectId(userId),
     };
+    const recorded = invoice.payments || [];
+
+    // Only applies if no other payment or credit note was recorded since
+    // the invoice was read
+    const unchanged = recorded.length
+      ? { payments: { $size: recorded.length } }
+      : { 'payments.0': { $exists: false } };
+    const creditedAmount = invoice.creditedAmount || 0;
 
-    if (paymentStatus === 'paid' && paidAmount) {
-      updateData['payment.paidAmount'] = paidAmount;
-      updateData['payment.paidDate'] = new Date();
+    const updatedInvoice = await this.invoiceModel
+      .findOneAndUpdate(
+        {
+          _id: invoice._id,
+          status: invoice.status,
+          ...unchanged,
+          creditedAmount: creditedAmount || { $in: [0, null] },
+        },
+        {
+          $push: { payments: payment },
+          $set: {
+            ...this.summariseBalance(invoice, [...recorded, payment], creditedAmount),
+            updatedBy: new Types.ObjectId(userId),
+          },
+        },
+        { new: true, runValidators: true }
+      )
+      .exec();
+
+    if (!updatedInvoice) {
+      throw new ConflictException('Invoice was modified by another request, please retry');
+    }
+
+    // The PDF shows the payment history
+    await this.refreshPDF(updatedInvoice);
+
+    return this.findOne(id);
+  }
+
+  async getPayments(id: string): Promise<{
+    payments: InvoicePayment[];
+    status: string;
+    total: number;
+    creditedAmount: number;
+    paidAmount: number;
+    balanceDue: number;
+    credit: number;
+  }> {
+    const invoice = await this.findOne(id);
+
+    return {
+      payments: invoice.payments || [],
+      status: invoice.payment.status,
+      total: invoice.totals.total,
+      creditedAmount: invoice.creditedAmount || 0,
+      paidAmount: invoice.payment.paidAmount || 0,
+      balanceDue: invoice.payment.balanceDue ?? Math.max(this.round(invoice.totals.total - (invoice.payment.paidAmount || 0)), 0),
+      credit: invoice.payment.credit || 0,
+    };
+  }
+
+  /**
+   * Marks an issued invoice overdue. Whether it is pending, partially paid
+   * or paid follows from its recorded payments, and it is cancelled by
+   * voiding it.
+   */
+  async updatePaymentStatus(id: string, paymentStatus: string): Promise<Invoice> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid invoice ID');
+    }
+
+    if (!Object.values(InvoicePaymentStatus).includes(paymentStatus as InvoicePaymentStatus)) {
+      throw new BadRequestException('Invalid payment status');
+    }
+
+    if (paymentStatus === InvoicePaymentStatus.CANCELLED) {
+      throw new BadRequestException(`Payment status '${paymentStatus}' follows from voiding the invoice; void it instead`);
+    }
+
+    if (paymentStatus !== InvoicePaymentStatus.OVERDUE) {
+      throw new BadRequestException(
+        `Payment status '${paymentStatus}' follows from the recorded payments; record a payment instead`
+      );
     }
 
     const invoice = await this.invoiceModel
-      .findByIdAndUpdate(id, updateData, { new: true })
+      .findOneAndUpdate(
+        {
+          _id: id,
+          status: { $in: PAYABLE_STATUSES },
+          'payment.status': { $ne: InvoicePaymentStatus.PAID },
+        },
+        { 'payment.status': paymentStatus },
+        { new: true }
+      )
       .populate([
         { path: 'sale', select: 'transactionNumber status' },
         { path: 'customer', select: 'firstName lastName email phone' },
@@ -276,39 +564,68 @@ export class InvoicesService {
       .exec();
 
     if (!invoice) {
-      throw new NotFoundException('Invoice not found');
+      const exists = await this.invoiceModel.exists({ _id: id });
+      if (!exists) {
+        throw new NotFoundException('Invoice not found');
+      }
+      throw new BadRequestException('Only issued invoices that are not yet paid can be marked overdue');
     }
 
     return invoice;
   }
 
   async getInvoiceStats(): Promise<any> {
-    const [total, draft, pending, paid, overdue] = await Promise.all([
+    const [total, draft, voided, pending, partiallyPaid, paid, overdue] = await Promise.all([
       this.invoiceModel.countDocuments(),
-      this.invoiceModel.countDocuments({ status: 'draft' }),
-      this.invoiceModel.countDocuments({ 'payment.status': 'pending' }),
-      this.invoiceModel.countDocuments({ 'payment.status': 'paid' }),
-      this.invoiceModel.countDocuments({ 'payment.status': 'overdue' }),
-    ]);
-
-    const totalAmount = await this.invoiceModel.aggregate([
-      { $group: { _id: null, total: { $sum: '$totals.total' } } }
+      this.invoiceModel.countDocuments({ status: InvoiceStatus.DRAFT }),
+      this.invoiceModel.countDocuments({ status: InvoiceStatus.VOID }),
+      this.invoiceModel.countDocuments({ status: { $in: PAYABLE_STATUSES }, 'payment.status': InvoicePaymentStatus.PENDING }),
+      this.invoiceModel.countDocuments({ 'payment.status': InvoicePaymentStatus.PARTIALLY_PAID }),
+      this.invoiceModel.countDocuments({ 'payment.status': InvoicePaymentStatus.PAID }),
+      this.invoiceModel.countDocuments({ 'payment.status': InvoicePaymentStatus.OVERDUE }),
     ]);
 
-    const paidAmount = await this.invoiceModel.aggregate([
-      { $match: { 'payment.status': 'paid' } },
-      { $group: { _id: null, total: { $sum: '$payment.paidAmount' } } }
+    const [amounts] = await this.invoiceModel.aggregate([
+      // Drafts are not owed yet and void invoices never will be
+      {
+        $match: {
+          status: { $nin: [InvoiceStatus.DRAFT, InvoiceStatus.VOID] },
+          'payment.status': { $ne: InvoicePaymentStatus.CANCELLED },
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          totalAmount: { $sum: '$totals.total' },
+          paidAmount: { $sum: '$payment.paidAmount' },
+          // Invoices from before the payments ledger have no balance stored
+          outstandingAmount: {
+            $sum: {
+              $ifNull: [
+                '$payment.balanceDue',
+                { $max: [0, { $subtract: ['$totals.total', { $ifNull: ['$payment.paidAmount', 0] }] }] },
+              ],
+            },
+          },
+          creditAmount: { $sum: '$payment.credit' },
+          creditedAmount: { $sum: '$creditedAmount' },
+        },
+      },
     ]);
 
     return {
       total,
       draft,
+      void: voided,
       pending,
+      partiallyPaid,
       paid,
       overdue,
-      totalAmount: totalAmount[0]?.total || 0,
-      paidAmount: paidAmount[0]?.total || 0,
-      outstandingAmount: (totalAmount[0]?.total || 0) - (paidAmount[0]?.total || 0),
+      totalAmount: this.round(amounts?.totalAmount || 0),
+      paidAmount: this.round(amounts?.paidAmount || 0),
+      outstandingAmount: this.round(amounts?.outstandingAmount || 0),
+      creditAmount: this.round(amounts?.creditAmount || 0),
+      creditedAmount: this.round(amounts?.creditedAmount || 0),
     };
   }
 
@@ -328,14 +645,156 @@ export class InvoicesService {
       await this.pdfGeneratorService.generateInvoicePDF(invoice, pdfPath);
 
       // Update invoice with PDF path
-      await this.invoiceModel.findByIdAndUpdate(invoice._id, {
-        pdfPath,
-        status: 'generated',
-      });
+      await this.invoiceModel.findByIdAndUpdate(invoice._id, { pdfPath });
 
       return pdfPath;
     } catch (error) {
       throw new BadRequestException(`Failed to generate PDF: ${error.message}`);
     }
   }
+
+  // Renders the PDF again after a change that is already committed. A
+  // rendering failure is only logged: failing the request would invite a
+  // retry of the change itself, and downloads render missing PDFs on demand.
+  private async refreshPDF(invoice: InvoiceDocument): Promise<void> {
+    try {
+      await this.generateAndSavePDF(invoice);
+    } catch (error) {
+      this.logger.error(`Failed to render the PDF for invoice ${invoice.invoiceNumber}:`, error);
+    }
+  }
+
+  private async repriceDraft(id: string, updateInvoiceDto: UpdateInvoiceDto): Promise<Record<string, any>> {
+    const invoice = await this.findDocument(id);
+    if (invoice.status !== InvoiceStatus.DRAFT) {
+      throw new BadRequestException('Issued invoices cannot be edited; issue a credit note instead');
+    }
+
+    const sale = await this.salesService.findOne((updateInvoiceDto.sale || invoice.sale).toString());
+    if (!sale) {
+      throw new BadRequestException('Sale not found');
+    }
+
+    const items = updateInvoiceDto.items || invoice.items.map(item => ({
+      product: item.product,
+      variant: item.variant,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount: item.discount,
+      description: item.description,
+    }));
+    const { items: taxedItems, totals } = await this.taxesService.calculate({
+      items,
+      location: sale.location,
+      customer: updateInvoiceDto.customer || invoice.customer || (sale.customer as any)?._id,
+    });
+
+    // Nothing is paid or credited against a draft, so all of it is due
+    return {
+      items: items.map((item, index) => ({ ...item, ...taxedItems[index] })),
+      totals,
+      'payment.balanceDue': totals.total,
+    };
+  }
+
+  private async findDocument(id: string): Promise<InvoiceDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid invoice ID');
+    }
+
+    const invoice = await this.invoiceModel.findById(id).exec();
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  private assertTransition(invoice: Invoice, to: InvoiceStatus): void {
+    if (!INVOICE_TRANSITIONS[invoice.status as InvoiceStatus]?.includes(to)) {
+      throw new BadRequestException(`Cannot move an invoice from '${invoice.status}' to '${to}'`);
+    }
+  }
+
+  private assertHasPdf(invoice: Invoice): void {
+    if (invoice.status === InvoiceStatus.DRAFT) {
+      throw new BadRequestException('Draft invoices have no PDF until they are issued');
+    }
+  }
+
+  // Applies an update only if the invoice is still in the status it was read
+  // in, so two concurrent transitions cannot both succeed
+  private async transition(invoice: InvoiceDocument, update: any): Promise<InvoiceDocument> {
+    const updated = await this.invoiceModel
+      .findOneAndUpdate({ _id: invoice._id, status: invoice.status }, update, { new: true })
+      .exec();
+
+    if (!updated) {
+      throw new ConflictException('Invoice was modified by another request, please retry');
+    }
+
+    return updated;
+  }
+
+  /**
+   * The payment summary for a ledger and the amount credited so far: paid
+   * once payments and credit notes cover the total, with anything paid
+   * beyond it kept as a credit for the customer.
+   */
+  summariseBalance(invoice: InvoiceDocument, payments: InvoicePayment[], creditedAmount: number): Record<string, any> {
+    const paidAmount = this.round(payments.reduce((sum, payment) => sum + payment.amount, 0));
+    const balance = this.round(invoice.totals.total - creditedAmount - paidAmount);
+
+    let status: string;
+    if (balance <= 0) {
+      status = InvoicePaymentStatus.PAID;
+    } else if (invoice.payment.status === InvoicePaymentStatus.OVERDUE) {
+      // A payment that leaves a balance does not make a late invoice current
+      status = InvoicePaymentStatus.OVERDUE;
+    } else {
+      status = paidAmount > 0 ? InvoicePaymentStatus.PARTIALLY_PAID : InvoicePaymentStatus.PENDING;
+    }
+
+    const summary: Record<string, any> = {
+      // Payments and credit notes move an issued invoice on, never back
+      status: status === InvoicePaymentStatus.PAID
+        ? InvoiceStatus.PAID
+        : paidAmount > 0 ? InvoiceStatus.PARTIALLY_PAID : invoice.status,
+      'payment.status': status,
+      'payment.paidAmount': paidAmount,
+      'payment.balanceDue': Math.max(balance, 0),
+      'payment.credit': Math.max(-balance, 0),
+    };
+
+    // Settled by the last payment, or by a credit note when nothing was paid
+    if (status === InvoicePaymentStatus.PAID) {
+      summary['payment.paidDate'] = payments.length
+        ? new Date(Math.max(...payments.map(payment => new Date(payment.paidAt).getTime())))
+        : new Date();
+    }
+
+    return summary;
+  }
+
+  // Drafts have no number, so the unique index on invoiceNumber must be
+  // sparse; databases created before drafts existed still hold a plain one
+  private async migrateInvoiceNumberIndex(): Promise<void> {
+    try {
+      const indexes = await this.invoiceModel.collection.indexes();
+      const index = indexes.find(candidate => candidate.name === 'invoiceNumber_1');
+      if (!index || index.sparse) {
+        return;
+      }
+
+      await this.invoiceModel.collection.dropIndex('invoiceNumber_1');
+      await this.invoiceModel.collection.createIndex({ invoiceNumber: 1 }, { unique: true, sparse: true });
+      this.logger.log('Made the invoice number index sparse so drafts can be saved without a number');
+    } catch (error) {
+      this.logger.error('Failed to migrate the invoice number index:', error);
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
 }
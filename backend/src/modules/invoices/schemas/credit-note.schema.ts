@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { auditPlugin } from '../../audit/audit.plugin';
+
+export type CreditNoteDocument = CreditNote & Document;
+
+@Schema({ timestamps: true })
+export class CreditNoteItem {
+  // Invoice line being credited
+  @Prop({ type: Types.ObjectId, required: true })
+  line: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId })
+  variant: Types.ObjectId;
+
+  @Prop()
+  description: string;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+
+  @Prop({ required: true, min: 0 })
+  unitPrice: number;
+
+  // Share of the line's tax given back
+  @Prop({ default: 0, min: 0 })
+  tax: number;
+
+  // Credited amount, including tax
+  @Prop({ required: true, min: 0 })
+  amount: number;
+}
+
+@Schema({ timestamps: true })
+export class CreditNote {
+  @Prop({ required: true, unique: true })
+  creditNoteNumber: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Invoice', required: true })
+  invoice: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Customer' })
+  customer: Types.ObjectId;
+
+  @Prop([CreditNoteItem])
+  items: CreditNoteItem[];
+
+  @Prop({ default: 0, min: 0 })
+  tax: number;
+
+  // Taken off the invoice's balance, including tax
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ required: true })
+  reason: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  issuedBy: Types.ObjectId;
+
+  @Prop()
+  pdfPath: string;
+}
+
+export const CreditNoteSchema = SchemaFactory.createForClass(CreditNote);
+
+CreditNoteSchema.plugin(auditPlugin, { entity: CreditNote.name });
+
+// Indexes for better query performance
+CreditNoteSchema.index({ creditNoteNumber: 1 });
+CreditNoteSchema.index({ invoice: 1 });
+CreditNoteSchema.index({ customer: 1 });
+CreditNoteSchema.index({ createdAt: -1 });
@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { TENDER_METHODS } from '../../sales/schemas/payment-tender.schema';
+
+/**
+ * One payment received against an invoice, such as a deposit or an
+ * installment. The invoice's payment status and balance are derived from
+ * the sum of these.
+ */
+@Schema({ timestamps: true })
+export class InvoicePayment {
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ required: true, enum: TENDER_METHODS })
+  method: string;
+
+  // When the money was received, which may be before it was recorded
+  @Prop({ required: true })
+  paidAt: Date;
+
+  @Prop()
+  reference: string;
+
+  @Prop()
+  notes: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  recordedBy: Types.ObjectId;
+}
+
+export const InvoicePaymentSchema = SchemaFactory.createForClass(InvoicePayment);
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+export enum InvoiceReminderStatus {
+  SENDING = 'sending',
+  SENT = 'sent',
+  FAILED = 'failed',
+  // No email address to send it to
+  SKIPPED = 'skipped',
+}
+
+/**
+ * A payment reminder sent, or attempted, for an invoice
+ */
+@Schema({ _id: false })
+export class InvoiceReminder {
+  // Stage of the reminder template, e.g. overdue_7
+  @Prop({ required: true })
+  stage: string;
+
+  @Prop({ required: true, enum: Object.values(InvoiceReminderStatus) })
+  status: string;
+
+  @Prop({ required: true })
+  sentAt: Date;
+
+  @Prop()
+  email: string;
+
+  @Prop()
+  subject: string;
+}
+
+export const InvoiceReminderSchema = SchemaFactory.createForClass(InvoiceReminder);
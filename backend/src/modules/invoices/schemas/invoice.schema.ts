@@ -1,13 +1,40 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { LineTax, LineTaxSchema } from '../../taxes/schemas/line-tax.schema';
+import { InvoicePayment, InvoicePaymentSchema } from './invoice-payment.schema';
+import { InvoiceReminder, InvoiceReminderSchema } from './invoice-reminder.schema';
+import { auditPlugin } from '../../audit/audit.plugin';
 
 export type InvoiceDocument = Invoice & Document;
 
+// Lifecycle of an invoice: drafts can be edited, issued invoices only
+// corrected with credit notes
+export enum InvoiceStatus {
+  DRAFT = 'draft',
+  ISSUED = 'issued',
+  SENT = 'sent',
+  PARTIALLY_PAID = 'partially_paid',
+  PAID = 'paid',
+  VOID = 'void',
+}
+
+export enum InvoicePaymentStatus {
+  PENDING = 'pending',
+  PARTIALLY_PAID = 'partially_paid',
+  PAID = 'paid',
+  OVERDUE = 'overdue',
+  CANCELLED = 'cancelled',
+}
+
 @Schema({ timestamps: true })
 export class InvoiceItem {
   @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
   product: Types.ObjectId;
 
+  // Variant invoiced, for products with variants
+  @Prop({ type: Types.ObjectId })
+  variant: Types.ObjectId;
+
   @Prop({ required: true, min: 1 })
   quantity: number;
 
@@ -17,16 +44,25 @@ export class InvoiceItem {
   @Prop({ default: 0, min: 0 })
   discount: number;
 
+  // Taxable amount of the line after its discount, excluding tax
   @Prop({ required: true, min: 0 })
   total: number;
 
+  @Prop({ type: LineTaxSchema })
+  tax: LineTax;
+
   @Prop()
   description: string;
+
+  // Quantity taken back by credit notes
+  @Prop({ default: 0, min: 0 })
+  creditedQuantity: number;
 }
 
 @Schema({ timestamps: true })
 export class Invoice {
-  @Prop({ required: true, unique: true })
+  // Assigned when the invoice is issued; drafts have none
+  @Prop({ unique: true, sparse: true })
   invoiceNumber: string;
 
   @Prop({ type: Types.ObjectId, ref: 'Sale', required: true })
@@ -38,6 +74,10 @@ export class Invoice {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   issuedBy: Types.ObjectId;
 
+  // Last user to edit the invoice; the audit trail has the full history
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+
   @Prop([InvoiceItem])
   items: InvoiceItem[];
 
@@ -47,7 +87,9 @@ export class Invoice {
       tax: { type: Number, required: true, min: 0 },
       discount: { type: Number, required: true, min: 0 },
       total: { type: Number, required: true, min: 0 },
-      taxRate: { type: Number, default: 0.1 }
+      taxRate: { type: Number, default: 0 },
+      taxInclusive: { type: Boolean, default: false },
+      taxExempt: { type: Boolean, default: false }
     },
     required: true
   })
@@ -56,14 +98,20 @@ export class Invoice {
     tax: number;
     discount: number;
     total: number;
+    // Effective rate across the invoice lines
     taxRate: number;
+    taxInclusive?: boolean;
+    taxExempt?: boolean;
   };
 
+  // Summary of the payments ledger below, kept in step with it
   @Prop({
     type: {
       method: { type: String, required: true, enum: ['cash', 'card', 'digital', 'bank_transfer'] },
-      status: { type: String, required: true, enum: ['pending', 'paid', 'overdue', 'cancelled'] },
+      status: { type: String, required: true, enum: Object.values(InvoicePaymentStatus) },
       paidAmount: { type: Number, default: 0 },
+      balanceDue: { type: Number, min: 0 },
+      credit: { type: Number, default: 0, min: 0 },
       paidDate: Date,
       reference: String
     },
@@ -72,11 +120,29 @@ export class Invoice {
   payment: {
     method: string;
     status: string;
+    // Sum of the recorded payments
     paidAmount: number;
+    // What the customer still owes after payments and credit notes; never
+    // negative
+    balanceDue: number;
+    // Paid beyond what is owed, owed back to the customer
+    credit: number;
+    // Set once the invoice is fully paid
     paidDate?: Date;
     reference?: string;
   };
 
+  @Prop({ type: [InvoicePaymentSchema], default: [] })
+  payments: InvoicePayment[];
+
+  // Total of the credit notes issued against the invoice; it no longer
+  // needs to be paid
+  @Prop({ default: 0, min: 0 })
+  creditedAmount: number;
+
+  @Prop([{ type: Types.ObjectId, ref: 'CreditNote' }])
+  creditNotes: Types.ObjectId[];
+
   @Prop({
     type: {
       dueDate: { type: Date, required: true },
@@ -164,7 +230,11 @@ export class Invoice {
   @Prop()
   terms: string;
 
-  @Prop({ default: 'draft' })
+  @Prop({
+    type: String,
+    enum: Object.values(InvoiceStatus),
+    default: InvoiceStatus.DRAFT
+  })
   status: string;
 
   @Prop()
@@ -175,22 +245,41 @@ export class Invoice {
 
   @Prop()
   emailSentAt: Date;
+
+  @Prop({
+    type: {
+      reason: String,
+      voidedBy: { type: Types.ObjectId, ref: 'User' },
+      voidedAt: Date
+    }
+  })
+  voided: {
+    reason: string;
+    voidedBy: Types.ObjectId;
+    voidedAt: Date;
+  };
+
+  // Payment reminders, at most one per stage
+  @Prop({ type: [InvoiceReminderSchema], default: [] })
+  reminders: InvoiceReminder[];
 }
 
 export const InvoiceSchema = SchemaFactory.createForClass(Invoice);
 
+InvoiceSchema.plugin(auditPlugin, { entity: Invoice.name });
+
 // Indexes for better query performance
-InvoiceSchema.index({ invoiceNumber: 1 });
 InvoiceSchema.index({ sale: 1 });
 InvoiceSchema.index({ customer: 1 });
 InvoiceSchema.index({ status: 1 });
 InvoiceSchema.index({ 'payment.status': 1 });
 InvoiceSchema.index({ 'dates.dueDate': 1 });
+InvoiceSchema.index({ 'payment.status': 1, 'dates.dueDate': 1 });
 InvoiceSchema.index({ createdAt: -1 });
 
 // Virtual for invoice status
 InvoiceSchema.virtual('isOverdue').get(function() {
-  if (this.payment.status === 'paid') return false;
+  if (this.payment.status === InvoicePaymentStatus.PAID) return false;
   return new Date() > this.dates.dueDate;
 });
 
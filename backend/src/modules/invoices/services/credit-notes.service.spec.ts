@@ -0,0 +1,234 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import * as fs from 'fs';
+import { CreditNotesService } from './credit-notes.service';
+import { PdfGeneratorService } from './pdf-generator.service';
+import { InvoicesService } from '../invoices.service';
+import { Invoice, InvoicePaymentStatus, InvoiceStatus } from '../schemas/invoice.schema';
+import { CreditNote } from '../schemas/credit-note.schema';
+import { NumberingService } from '../../numbering/numbering.service';
+import { DocumentSequence } from '../../../config/numbering.config';
+
+describe('CreditNotesService', () => {
+  let service: CreditNotesService;
+
+  const invoiceId = new Types.ObjectId('507f1f77bcf86cd799439031');
+  const lineA = new Types.ObjectId('507f1f77bcf86cd799439032');
+  const lineB = new Types.ObjectId('507f1f77bcf86cd799439033');
+  const userId = '507f1f77bcf86cd799439014';
+
+  let creditNoteDoc: any;
+
+  const buildInvoice = (overrides: any = {}) => ({
+    _id: invoiceId,
+    invoiceNumber: 'INV-2024-000001',
+    status: InvoiceStatus.ISSUED,
+    items: [
+      { _id: lineA, product: new Types.ObjectId(), quantity: 2, unitPrice: 40, total: 80, tax: { amount: 8 }, creditedQuantity: 0 },
+      { _id: lineB, product: new Types.ObjectId(), quantity: 1, unitPrice: 20, total: 20, tax: { amount: 2 }, creditedQuantity: 0 },
+    ],
+    totals: { total: 110 },
+    payment: { method: 'cash', status: InvoicePaymentStatus.PENDING, paidAmount: 0, balanceDue: 110, credit: 0 },
+    payments: [],
+    creditedAmount: 0,
+    toObject: () => ({ payment: { status: InvoicePaymentStatus.PENDING, balanceDue: 110 } }),
+    ...overrides,
+  });
+
+  // Mimics a Mongoose model constructor returning a credit note document
+  const mockCreditNoteModel: any = jest.fn().mockImplementation((data) => {
+    creditNoteDoc = {
+      ...data,
+      _id: new Types.ObjectId(),
+      validate: jest.fn().mockResolvedValue(undefined),
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    return creditNoteDoc;
+  });
+  mockCreditNoteModel.updateOne = jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue({}) });
+
+  const mockInvoiceModel = {
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue({}) }),
+  };
+
+  const mockInvoicesService = {
+    findOne: jest.fn(),
+    generatePDF: jest.fn(),
+    summariseBalance: jest.fn().mockReturnValue({ 'payment.status': InvoicePaymentStatus.PARTIALLY_PAID }),
+  };
+
+  const mockPdfGeneratorService = {
+    generateCreditNotePDF: jest.fn(),
+  };
+
+  const mockNumberingService = {
+    next: jest.fn().mockResolvedValue('CN-2024-000001'),
+  };
+
+  const givenInvoice = (invoice: any) => {
+    mockInvoiceModel.findById.mockReturnValue({ exec: jest.fn().mockResolvedValue(invoice) });
+    mockInvoiceModel.findOneAndUpdate.mockReturnValue({ exec: jest.fn().mockResolvedValue(invoice) });
+    mockInvoicesService.findOne.mockResolvedValue(invoice);
+  };
+
+  // Keeps PDF generation from creating an invoices directory
+  beforeAll(() => {
+    jest.spyOn(fs, 'existsSync').mockReturnValue(true);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CreditNotesService,
+        { provide: getModelToken(Invoice.name), useValue: mockInvoiceModel },
+        { provide: getModelToken(CreditNote.name), useValue: mockCreditNoteModel },
+        { provide: InvoicesService, useValue: mockInvoicesService },
+        { provide: PdfGeneratorService, useValue: mockPdfGeneratorService },
+        { provide: NumberingService, useValue: mockNumberingService },
+      ],
+    }).compile();
+
+    service = module.get<CreditNotesService>(CreditNotesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should credit part of a line with its share of the tax', async () => {
+      givenInvoice(buildInvoice());
+
+      await service.create(invoiceId.toString(), {
+        items: [{ line: lineA.toString(), quantity: 1 }],
+        reason: 'Returned damaged',
+      }, userId);
+
+      expect(mockNumberingService.next).toHaveBeenCalledWith(DocumentSequence.CREDIT_NOTE);
+      expect(creditNoteDoc).toEqual(expect.objectContaining({
+        creditNoteNumber: 'CN-2024-000001',
+        invoice: invoiceId,
+        amount: 44,
+        tax: 4,
+      }));
+      expect(creditNoteDoc.items).toEqual([
+        expect.objectContaining({ line: lineA, quantity: 1, unitPrice: 40, tax: 4, amount: 44 }),
+      ]);
+
+      const [filter, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({
+        _id: invoiceId,
+        status: InvoiceStatus.ISSUED,
+        creditedAmount: { $in: [0, null] },
+        'payments.0': { $exists: false },
+      });
+      expect(update.$set).toEqual(expect.objectContaining({ creditedAmount: 44, 'items.0.creditedQuantity': 1 }));
+      expect(update.$push).toEqual({ creditNotes: creditNoteDoc._id });
+      expect(mockInvoicesService.summariseBalance).toHaveBeenCalledWith(expect.anything(), [], 44);
+      expect(creditNoteDoc.save).toHaveBeenCalled();
+      expect(mockPdfGeneratorService.generateCreditNotePDF).toHaveBeenCalled();
+      expect(mockInvoicesService.generatePDF).toHaveBeenCalledWith(invoiceId.toString());
+    });
+
+    it('should credit whatever is left when no lines are given', async () => {
+      givenInvoice(buildInvoice({
+        items: [
+          { _id: lineA, product: new Types.ObjectId(), quantity: 2, unitPrice: 40, total: 80, tax: { amount: 8 }, creditedQuantity: 1 },
+          { _id: lineB, product: new Types.ObjectId(), quantity: 1, unitPrice: 20, total: 20, tax: { amount: 2 }, creditedQuantity: 0 },
+        ],
+        creditedAmount: 44,
+      }));
+
+      await service.create(invoiceId.toString(), { reason: 'Order cancelled' }, userId);
+
+      expect(creditNoteDoc.amount).toBe(66);
+      const [filter, update] = mockInvoiceModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.creditedAmount).toBe(44);
+      expect(update.$set).toEqual(expect.objectContaining({
+        creditedAmount: 110,
+        'items.0.creditedQuantity': 2,
+        'items.1.creditedQuantity': 1,
+      }));
+    });
+
+    it('should refuse to credit more than is left on a line', async () => {
+      givenInvoice(buildInvoice());
+
+      await expect(service.create(invoiceId.toString(), {
+        items: [{ line: lineB.toString(), quantity: 2 }],
+        reason: 'Returned',
+      }, userId)).rejects.toThrow('only 1 left to credit');
+      expect(mockNumberingService.next).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to credit draft or void invoices', async () => {
+      givenInvoice(buildInvoice({ status: InvoiceStatus.DRAFT }));
+      await expect(service.create(invoiceId.toString(), { reason: 'Wrong price' }, userId))
+        .rejects.toThrow(BadRequestException);
+
+      givenInvoice(buildInvoice({ status: InvoiceStatus.VOID, payment: { status: InvoicePaymentStatus.CANCELLED } }));
+      await expect(service.create(invoiceId.toString(), { reason: 'Wrong price' }, userId))
+        .rejects.toThrow('Cannot credit a void invoice');
+
+      expect(mockInvoiceModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a credit note when the invoice changed concurrently', async () => {
+      givenInvoice(buildInvoice());
+      mockInvoiceModel.findOneAndUpdate.mockReturnValue({ exec: jest.fn().mockResolvedValue(null) });
+
+      await expect(service.create(invoiceId.toString(), { reason: 'Returned' }, userId))
+        .rejects.toThrow(ConflictException);
+      expect(creditNoteDoc.save).not.toHaveBeenCalled();
+    });
+
+    it('should keep the committed credit note when its PDF cannot be rendered', async () => {
+      givenInvoice(buildInvoice());
+      mockPdfGeneratorService.generateCreditNotePDF.mockRejectedValueOnce(new Error('disk full'));
+
+      const creditNote = await service.create(invoiceId.toString(), { reason: 'Returned' }, userId);
+
+      expect(creditNote).toBe(creditNoteDoc);
+      expect(creditNoteDoc.save).toHaveBeenCalled();
+      expect(mockInvoiceModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should restore the invoice when the credit note cannot be saved', async () => {
+      givenInvoice(buildInvoice());
+      mockCreditNoteModel.mockImplementationOnce((data) => {
+        creditNoteDoc = {
+          ...data,
+          _id: new Types.ObjectId(),
+          validate: jest.fn().mockResolvedValue(undefined),
+          save: jest.fn().mockRejectedValue(new Error('duplicate key')),
+        };
+        return creditNoteDoc;
+      });
+
+      await expect(service.create(invoiceId.toString(), { reason: 'Returned' }, userId))
+        .rejects.toThrow('duplicate key');
+
+      const [filter, update] = mockInvoiceModel.updateOne.mock.calls[0];
+      expect(filter).toEqual({ _id: invoiceId });
+      expect(update.$set).toEqual(expect.objectContaining({
+        status: InvoiceStatus.ISSUED,
+        creditedAmount: 0,
+        'items.0.creditedQuantity': 0,
+        'items.1.creditedQuantity': 0,
+      }));
+      expect(update.$pull).toEqual({ creditNotes: creditNoteDoc._id });
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Invoice, InvoiceDocument, InvoiceStatus } from '../schemas/invoice.schema';
+import { CreditNote, CreditNoteDocument } from '../schemas/credit-note.schema';
+import { CreateCreditNoteDto } from '../dto/create-credit-note.dto';
+import { InvoicesService } from '../invoices.service';
+import { PdfGeneratorService } from './pdf-generator.service';
+import { NumberingService } from '../../numbering/numbering.service';
+import { DocumentSequence } from '../../../config/numbering.config';
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface CreditNoteLine {
+  index: number;
+  quantity: number;
+  tax: number;
+  amount: number;
+}
+
+@Injectable()
+export class CreditNotesService {
+  private readonly logger = new Logger(CreditNotesService.name);
+
+  constructor(
+    @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
+    @InjectModel(CreditNote.name) private creditNoteModel: Model<CreditNoteDocument>,
+    private invoicesService: InvoicesService,
+    private pdfGeneratorService: PdfGeneratorService,
+    private numberingService: NumberingService,
+  ) {}
+
+  /**
+   * Credits lines of an issued invoice, taking the amount off what the
+   * customer owes. Crediting an invoice that was already paid leaves a
+   * credit for the customer.
+   */
+  async create(invoiceId: string, createCreditNoteDto: CreateCreditNoteDto, userId: string): Promise<CreditNote> {
+    const invoice = await this.findInvoice(invoiceId);
+
+    if (invoice.status === InvoiceStatus.DRAFT) {
+      throw new BadRequestException('Draft invoices are edited rather than credited');
+    }
+
+    if (invoice.status === InvoiceStatus.VOID) {
+      throw new BadRequestException('Cannot credit a void invoice');
+    }
+
+    const lines = this.resolveLines(invoice, createCreditNoteDto);
+    const previousCredited = invoice.creditedAmount || 0;
+    const isFullCredit = invoice.items.every((item, index) => {
+      const credited = lines
+        .filter(line => line.index === index)
+        .reduce((sum, line) => sum + line.quantity, 0);
+      return (item.creditedQuantity || 0) + credited >= item.quantity;
+    });
+
+    // Crediting everything that is left settles any rounding on the lines
+    const remainingAmount = this.round(invoice.totals.total - previousCredited);
+    const amount = isFullCredit
+      ? remainingAmount
+      : Math.min(remainingAmount, this.round(lines.reduce((sum, line) => sum + line.amount, 0)));
+
+    const creditNoteNumber = await this.numberingService.next(DocumentSequence.CREDIT_NOTE);
+    const creditNote = new this.creditNoteModel({
+      creditNoteNumber,
+      invoice: invoice._id,
+      customer: invoice.customer,
+      items: lines.map(line => {
+        const item: any = invoice.items[line.index];
+        return {
+          line: item._id,
+          product: item.product,
+          variant: item.variant,
+          description: item.description,
+          quantity: line.quantity,
+          unitPrice: item.unitPrice,
+          tax: line.tax,
+          amount: line.amount,
+        };
+      }),
+      tax: this.round(lines.reduce((sum, line) => sum + line.tax, 0)),
+      amount,
+      reason: createCreditNoteDto.reason,
+      issuedBy: new Types.ObjectId(userId),
+    });
+
+    await creditNote.validate();
+
+    // Claim the credit on the invoice first; the guards reject a concurrent
+    // credit note or payment instead of losing it from the balance
+    const payments = invoice.payments || [];
+    const creditedAmount = this.round(previousCredited + amount);
+    const update: any = {
+      $set: {
+        ...this.invoicesService.summariseBalance(invoice, payments, creditedAmount),
+        creditedAmount,
+        updatedBy: new Types.ObjectId(userId),
+      },
+      $push: { creditNotes: creditNote._id },
+    };
+    lines.forEach(line => {
+      update.$set[`items.${line.index}.creditedQuantity`] =
+        (update.$set[`items.${line.index}.creditedQuantity`] ?? (invoice.items[line.index].creditedQuantity || 0)) + line.quantity;
+    });
+
+    const claimed = await this.invoiceModel
+      .findOneAndUpdate(
+        {
+          _id: invoice._id,
+          status: invoice.status,
+          creditedAmount: previousCredited || { $in: [0, null] },
+          ...(payments.length ? { payments: { $size: payments.length } } : { 'payments.0': { $exists: false } }),
+        },
+        update,
+        { new: true }
+      )
+      .exec();
+
+    if (!claimed) {
+      throw new ConflictException('Invoice was modified by another request, please retry');
+    }
+
+    try {
+      await creditNote.save();
+    } catch (error) {
+      await this.rollback(invoice, creditNote);
+      throw error;
+    }
+
+    // Both documents are rendered again: the invoice PDF shows what was
+    // credited. The credit is already committed, so a rendering failure must
+    // not fail the request and invite a retry; downloads render on demand.
+    try {
+      await this.generateAndSavePDF(creditNote);
+      await this.invoicesService.generatePDF(invoiceId);
+    } catch (error) {
+      this.logger.error(`Failed to render PDFs for credit note ${creditNote.creditNoteNumber}:`, error);
+    }
+
+    return creditNote;
+  }
+
+  async findByInvoice(invoiceId: string): Promise<CreditNote[]> {
+    if (!Types.ObjectId.isValid(invoiceId)) {
+      throw new BadRequestException('Invalid invoice ID');
+    }
+
+    return this.creditNoteModel
+      .find({ invoice: new Types.ObjectId(invoiceId) })
+      .sort({ createdAt: -1 })
+      .populate([
+        { path: 'items.product', select: 'name sku' },
+        { path: 'issuedBy', select: 'username firstName lastName' },
+      ])
+      .exec();
+  }
+
+  async findOne(id: string): Promise<CreditNoteDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid credit note ID');
+    }
+
+    const creditNote = await this.creditNoteModel.findById(id).exec();
+    if (!creditNote) {
+      throw new NotFoundException('Credit note not found');
+    }
+
+    return creditNote;
+  }
+
+  async downloadPDF(id: string): Promise<{ path: string; filename: string }> {
+    const creditNote = await this.findOne(id);
+
+    if (!creditNote.pdfPath || !fs.existsSync(creditNote.pdfPath)) {
+      // Generate PDF if it doesn't exist
+      await this.generateAndSavePDF(creditNote);
+    }
+
+    return {
+      path: creditNote.pdfPath,
+      filename: `credit-note-${creditNote.creditNoteNumber}.pdf`,
+    };
+  }
+
+  private async findInvoice(invoiceId: string): Promise<InvoiceDocument> {
+    if (!Types.ObjectId.isValid(invoiceId)) {
+      throw new BadRequestException('Invalid invoice ID');
+    }
+
+    const invoice = await this.invoiceModel.findById(invoiceId).exec();
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    return invoice;
+  }
+
+  private resolveLines(invoice: InvoiceDocument, createCreditNoteDto: CreateCreditNoteDto): CreditNoteLine[] {
+    // Share of the invoice total carried by each line, so tax and
+    // invoice-level discounts are credited proportionally
+    const itemsTotal = invoice.items.reduce((sum, item) => sum + item.total + (item.tax?.amount || 0), 0);
+    const ratio = itemsTotal > 0 ? invoice.totals.total / itemsTotal : 0;
+    const remaining = invoice.items.map(item => item.quantity - (item.creditedQuantity || 0));
+
+    const requested = createCreditNoteDto.items?.length
+      ? createCreditNoteDto.items
+      : invoice.items
+          .map((item: any, index) => ({ line: item._id.toString(), quantity: remaining[index] }))
+          .filter(item => item.quantity > 0);
+
+    if (requested.length === 0) {
+      throw new BadRequestException('Invoice has already been fully credited');
+    }
+
+    return requested.map(request => {
+      const index = invoice.items.findIndex((item: any) => item._id?.toString() === request.line);
+      if (index === -1) {
+        throw new BadRequestException(`Invoice has no line ${request.line}`);
+      }
+
+      if (request.quantity > remaining[index]) {
+        throw new BadRequestException(
+          `Cannot credit ${request.quantity} of line ${request.line}: only ${remaining[index]} left to credit`
+        );
+      }
+      remaining[index] -= request.quantity;
+
+      const item = invoice.items[index];
+      const share = request.quantity / item.quantity;
+      const tax = this.round((item.tax?.amount || 0) * share * ratio);
+
+      return {
+        index,
+        quantity: request.quantity,
+        tax,
+        amount: this.round((item.total + (item.tax?.amount || 0)) * share * ratio),
+      };
+    });
+  }
+
+  private async generateAndSavePDF(creditNote: CreditNoteDocument): Promise<string> {
+    try {
+      // Credit notes are kept alongside the invoices they correct
+      const invoicesDir = path.join(process.cwd(), 'invoices');
+      if (!fs.existsSync(invoicesDir)) {
+        fs.mkdirSync(invoicesDir, { recursive: true });
+      }
+
+      const pdfPath = path.join(invoicesDir, `credit-note-${creditNote.creditNoteNumber}-${Date.now()}.pdf`);
+      const invoice = await this.invoicesService.findOne(creditNote.invoice.toString());
+
+      await this.pdfGeneratorService.generateCreditNotePDF(creditNote, invoice, pdfPath);
+
+      await this.creditNoteModel.updateOne({ _id: creditNote._id }, { pdfPath }).exec();
+      creditNote.pdfPath = pdfPath;
+
+      return pdfPath;
+    } catch (error) {
+      throw new BadRequestException(`Failed to generate PDF: ${error.message}`);
+    }
+  }
+
+  private async rollback(invoice: InvoiceDocument, creditNote: CreditNoteDocument): Promise<void> {
+    try {
+      const restore: any = {
+        status: invoice.status,
+        creditedAmount: invoice.creditedAmount || 0,
+        payment: invoice.toObject().payment,
+      };
+      invoice.items.forEach((item, index) => {
+        restore[`items.${index}.creditedQuantity`] = item.creditedQuantity || 0;
+      });
+
+      await this.invoiceModel
+        .updateOne({ _id: invoice._id }, { $set: restore, $pull: { creditNotes: creditNote._id } })
+        .exec();
+    } catch (error) {
+      this.logger.error(`Failed to restore invoice ${invoice.invoiceNumber} during credit note rollback:`, error);
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { InvoiceRemindersService } from './invoice-reminders.service';
+import { Invoice, InvoicePaymentStatus, InvoiceStatus } from '../schemas/invoice.schema';
+import { InvoiceReminderStatus } from '../schemas/invoice-reminder.schema';
+import { EmailService } from '../../../common/services/email.service';
+
+describe('InvoiceRemindersService', () => {
+  let service: InvoiceRemindersService;
+
+  const now = new Date(2024, 4, 20, 1, 0);
+  const daysFromNow = (days: number) => new Date(2024, 4, 20 + days, 15, 30);
+
+  const chain = (result: any) => ({
+    populate: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockInvoiceModel = {
+    find: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+  };
+
+  const mockEmailService = {
+    sendInvoiceReminderEmail: jest.fn().mockResolvedValue(true),
+  };
+
+  const buildInvoice = (dueDate: Date, overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    invoiceNumber: 'INV-2024-000007',
+    customer: { firstName: 'Jane', lastName: 'Smith', email: 'jane@example.com' },
+    totals: { total: 250 },
+    payment: { status: InvoicePaymentStatus.PARTIALLY_PAID, paidAmount: 100, balanceDue: 150 },
+    dates: { dueDate },
+    reminders: [],
+    ...overrides,
+  });
+
+  const givenInvoices = (...invoices: any[]) => {
+    mockInvoiceModel.find.mockReturnValue(chain(invoices));
+  };
+
+  const claimedReminders = () => mockInvoiceModel.updateOne.mock.calls
+    .filter(([, update]) => update.$push)
+    .map(([, update]) => update.$push.reminders);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvoiceRemindersService,
+        { provide: getModelToken(Invoice.name), useValue: mockInvoiceModel },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<InvoiceRemindersService>(InvoiceRemindersService);
+    mockInvoiceModel.updateOne.mockReturnValue(chain({ modifiedCount: 1 }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('markOverdue', () => {
+    it('should mark issued, unpaid invoices due before today as overdue', async () => {
+      mockInvoiceModel.updateMany.mockReturnValue(chain({ modifiedCount: 3 }));
+
+      await expect(service.markOverdue(now)).resolves.toBe(3);
+
+      expect(mockInvoiceModel.updateMany).toHaveBeenCalledWith(
+        {
+          status: { $in: [InvoiceStatus.ISSUED, InvoiceStatus.SENT, InvoiceStatus.PARTIALLY_PAID] },
+          'payment.status': { $in: [InvoicePaymentStatus.PENDING, InvoicePaymentStatus.PARTIALLY_PAID] },
+          'dates.dueDate': { $lt: new Date(2024, 4, 20) },
+        },
+        { $set: { 'payment.status': InvoicePaymentStatus.OVERDUE } }
+      );
+    });
+  });
+
+  describe('sendReminders', () => {
+    it('should send the reminder for the stage an invoice has reached and log it', async () => {
+      givenInvoices(buildInvoice(daysFromNow(3)));
+
+      await expect(service.sendReminders(now)).resolves.toBe(1);
+
+      expect(claimedReminders()).toEqual([expect.objectContaining({
+        stage: 'due_soon',
+        status: InvoiceReminderStatus.SENDING,
+        email: 'jane@example.com',
+      })]);
+      expect(mockEmailService.sendInvoiceReminderEmail).toHaveBeenCalledWith(expect.objectContaining({
+        customerName: 'Jane Smith',
+        subject: expect.stringContaining('INV-2024-000007'),
+        message: expect.stringContaining('$150.00'),
+        balanceDue: 150,
+      }));
+      expect(mockInvoiceModel.updateOne).toHaveBeenLastCalledWith(
+        expect.objectContaining({ 'reminders.stage': 'due_soon' }),
+        { $set: { 'reminders.$.status': InvoiceReminderStatus.SENT } }
+      );
+    });
+
+    it('should escalate to the latest stage reached without sending the ones passed over', async () => {
+      givenInvoices(buildInvoice(daysFromNow(-12), {
+        payment: { status: InvoicePaymentStatus.OVERDUE, paidAmount: 0, balanceDue: 250 },
+        reminders: [{ stage: 'due_soon' }],
+      }));
+
+      await service.sendReminders(now);
+
+      expect(claimedReminders()).toEqual([expect.objectContaining({ stage: 'overdue_7' })]);
+      expect(mockEmailService.sendInvoiceReminderEmail).toHaveBeenCalledWith(expect.objectContaining({
+        subject: 'Invoice INV-2024-000007 is overdue',
+        message: expect.stringContaining('12 days overdue'),
+      }));
+    });
+
+    it('should not send a stage twice', async () => {
+      givenInvoices(buildInvoice(daysFromNow(-8), { reminders: [{ stage: 'overdue_7' }] }));
+
+      await expect(service.sendReminders(now)).resolves.toBe(0);
+
+      expect(mockInvoiceModel.updateOne).not.toHaveBeenCalled();
+      expect(mockEmailService.sendInvoiceReminderEmail).not.toHaveBeenCalled();
+    });
+
+    it('should log a skipped reminder when the customer has no email address', async () => {
+      givenInvoices(buildInvoice(daysFromNow(0), { customer: undefined }));
+
+      await expect(service.sendReminders(now)).resolves.toBe(0);
+
+      expect(claimedReminders()).toEqual([expect.objectContaining({
+        stage: 'due_today',
+        status: InvoiceReminderStatus.SKIPPED,
+      })]);
+      expect(mockEmailService.sendInvoiceReminderEmail).not.toHaveBeenCalled();
+    });
+
+    it('should record a reminder that could not be delivered as failed', async () => {
+      givenInvoices(buildInvoice(daysFromNow(-30)));
+      mockEmailService.sendInvoiceReminderEmail.mockResolvedValueOnce(false);
+
+      await expect(service.sendReminders(now)).resolves.toBe(0);
+
+      expect(claimedReminders()).toEqual([expect.objectContaining({ stage: 'overdue_30' })]);
+      expect(mockInvoiceModel.updateOne).toHaveBeenLastCalledWith(
+        expect.anything(),
+        { $set: { 'reminders.$.status': InvoiceReminderStatus.FAILED } }
+      );
+    });
+
+    it('should not send when another run claimed the stage first', async () => {
+      givenInvoices(buildInvoice(daysFromNow(0)));
+      mockInvoiceModel.updateOne.mockReturnValueOnce(chain({ modifiedCount: 0 }));
+
+      await service.sendReminders(now);
+
+      expect(mockEmailService.sendInvoiceReminderEmail).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import { Invoice, InvoiceDocument, InvoicePaymentStatus, InvoiceStatus } from '../schemas/invoice.schema';
+import { InvoiceReminderStatus } from '../schemas/invoice-reminder.schema';
+import { EmailService } from '../../../common/services/email.service';
+import { invoiceRemindersConfig, InvoiceReminderTemplate } from '../../../config/invoice-reminders.config';
+import * as fs from 'fs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Drafts are not owed yet, and void or paid invoices never will be
+const ISSUED_STATUSES = [InvoiceStatus.ISSUED, InvoiceStatus.SENT, InvoiceStatus.PARTIALLY_PAID];
+
+const UNPAID_STATUSES = [
+  InvoicePaymentStatus.PENDING,
+  InvoicePaymentStatus.PARTIALLY_PAID,
+  InvoicePaymentStatus.OVERDUE,
+];
+
+@Injectable()
+export class InvoiceRemindersService {
+  private readonly logger = new Logger(InvoiceRemindersService.name);
+
+  constructor(
+    @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
+    private emailService: EmailService,
+    private configService: ConfigService,
+  ) {}
+
+  @Cron(invoiceRemindersConfig.cron)
+  async handleNightlyRun(): Promise<void> {
+    try {
+      const marked = await this.markOverdue();
+      if (marked > 0) {
+        this.logger.log(`Marked ${marked} invoices overdue`);
+      }
+
+      if (invoiceRemindersConfig.enabled) {
+        const sent = await this.sendReminders();
+        if (sent > 0) {
+          this.logger.log(`Sent ${sent} invoice payment reminders`);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to run the invoice reminders job:', error);
+    }
+  }
+
+  /**
+   * Marks unpaid invoices overdue once the day they were due has passed
+   */
+  async markOverdue(now: Date = new Date()): Promise<number> {
+    const result = await this.invoiceModel
+      .updateMany(
+        {
+          status: { $in: ISSUED_STATUSES },
+          'payment.status': { $in: [InvoicePaymentStatus.PENDING, InvoicePaymentStatus.PARTIALLY_PAID] },
+          'dates.dueDate': { $lt: this.startOfDay(now) },
+        },
+        { $set: { 'payment.status': InvoicePaymentStatus.OVERDUE } }
+      )
+      .exec();
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Sends each unpaid invoice the latest reminder stage it has reached and
+   * not been sent yet. Stages passed over while the job was not running
+   * are skipped, so customers never get several reminders at once.
+   */
+  async sendReminders(now: Date = new Date()): Promise<number> {
+    const templates = [...invoiceRemindersConfig.templates].sort((a, b) => a.daysFromDue - b.daysFromDue);
+    if (!templates.length) {
+      return 0;
+    }
+
+    const today = this.startOfDay(now);
+    const invoices = await this.invoiceModel
+      .find({
+        status: { $in: ISSUED_STATUSES },
+        'payment.status': { $in: UNPAID_STATUSES },
+        // Due no later than the earliest reminder looks ahead
+        'dates.dueDate': { $lt: new Date(today.getTime() + (1 - templates[0].daysFromDue) * DAY_MS) },
+      })
+      .populate('customer', 'firstName lastName email')
+      .exec();
+
+    let sent = 0;
+    for (const invoice of invoices) {
+      const daysFromDue = Math.round((today.getTime() - this.startOfDay(invoice.dates.dueDate).getTime()) / DAY_MS);
+      const template = templates.filter(candidate => candidate.daysFromDue <= daysFromDue).pop();
+      const sentStages = (invoice.reminders || []).map(reminder => reminder.stage);
+
+      // Nothing due yet, or this stage or a later one was already sent
+      if (!template || templates.some(candidate =>
+        candidate.daysFromDue >= template.daysFromDue && sentStages.includes(candidate.stage)
+      )) {
+        continue;
+      }
+
+      try {
+        if (await this.sendReminder(invoice, template, daysFromDue)) {
+          sent++;
+        }
+      } catch (error) {
+        this.logger.error(`Failed to send the ${template.stage} reminder for invoice ${invoice.invoiceNumber}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  private async sendReminder(
+    invoice: InvoiceDocument,
+    template: InvoiceReminderTemplate,
+    daysFromDue: number,
+  ): Promise<boolean> {
+    const customer: any = invoice.customer;
+    const email = customer?.email;
+    const balanceDue = invoice.payment.balanceDue
+      ?? Math.max(invoice.totals.total - (invoice.payment.paidAmount || 0), 0);
+    const values = {
+      customerName: customer ? `${customer.firstName} ${customer.lastName}` : 'Customer',
+      invoiceNumber: invoice.invoiceNumber,
+      total: `$${invoice.totals.total.toFixed(2)}`,
+      balanceDue: `$${balanceDue.toFixed(2)}`,
+      dueDate: new Date(invoice.dates.dueDate).toLocaleDateString(),
+      daysOverdue: String(Math.max(daysFromDue, 0)),
+      companyName: this.configService.get('COMPANY_NAME') || 'TechStore Pro',
+    };
+    const subject = this.render(template.subject, values);
+
+    // The stage is logged before sending, so a reminder is never sent twice
+    const claimed = await this.invoiceModel
+      .updateOne(
+        { _id: invoice._id, 'reminders.stage': { $ne: template.stage } },
+        {
+          $push: {
+            reminders: {
+              stage: template.stage,
+              status: email ? InvoiceReminderStatus.SENDING : InvoiceReminderStatus.SKIPPED,
+              sentAt: new Date(),
+              email,
+              subject,
+            },
+          },
+        }
+      )
+      .exec();
+
+    if (!claimed.modifiedCount || !email) {
+      return false;
+    }
+
+    const delivered = await this.emailService.sendInvoiceReminderEmail({
+      customerName: values.customerName,
+      customerEmail: email,
+      invoiceNumber: invoice.invoiceNumber,
+      subject,
+      message: this.render(template.message, values),
+      balanceDue,
+      dueDate: values.dueDate,
+      pdfPath: invoiceRemindersConfig.attachPdf && invoice.pdfPath && fs.existsSync(invoice.pdfPath)
+        ? invoice.pdfPath
+        : undefined,
+    });
+
+    await this.invoiceModel
+      .updateOne(
+        { _id: invoice._id, 'reminders.stage': template.stage },
+        { $set: { 'reminders.$.status': delivered ? InvoiceReminderStatus.SENT : InvoiceReminderStatus.FAILED } }
+      )
+      .exec();
+
+    return delivered;
+  }
+
+  // Replaces {{placeholders}}; unknown ones are left as they are
+  private render(template: string, values: Record<string, string>): string {
+    return template.replace(/{{\s*(\w+)\s*}}/g, (placeholder, key) => values[key] ?? placeholder);
+  }
+
+  private startOfDay(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    return start;
+  }
+}
@@ -3,6 +3,7 @@ import * as PDFDocument from 'pdfkit';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Invoice, InvoiceDocument } from '../schemas/invoice.schema';
+import { CreditNote } from '../schemas/credit-note.schema';
 
 @Injectable()
 export class PdfGeneratorService {
@@ -10,6 +11,50 @@ export class PdfGeneratorService {
   static readonly className = 'PdfGeneratorService';
 
   async generateInvoicePDF(invoice: InvoiceDocument, outputPath: string): Promise<string> {
+    return this.render(outputPath, 'Invoice', doc => {
+      // Add company header
+      this.addCompanyHeader(doc, invoice.company);
+
+      // Add invoice details
+      this.addInvoiceDetails(doc, invoice);
+
+      // Add customer information
+      if (invoice.customer) {
+        this.addCustomerInfo(doc, invoice.customer);
+      }
+
+      // Add items table
+      this.addItemsTable(doc, invoice.items);
+
+      // Add totals
+      this.addTotals(doc, invoice.totals, invoice.items);
+
+      // Add payment information
+      this.addPaymentInfo(doc, invoice.payment, invoice.payments || [], invoice.totals.total, invoice.creditedAmount || 0);
+
+      // Add terms and notes
+      this.addTermsAndNotes(doc, invoice.terms, invoice.notes);
+
+      // Add footer
+      this.addFooter(doc, invoice.company);
+    });
+  }
+
+  async generateCreditNotePDF(creditNote: CreditNote, invoice: Invoice, outputPath: string): Promise<string> {
+    return this.render(outputPath, 'Credit note', doc => {
+      this.addCompanyHeader(doc, invoice.company);
+      this.addCreditNoteDetails(doc, creditNote, invoice);
+
+      if (invoice.customer) {
+        this.addCustomerInfo(doc, invoice.customer);
+      }
+
+      this.addCreditNoteItems(doc, creditNote);
+      this.addFooter(doc, invoice.company);
+    });
+  }
+
+  private render(outputPath: string, label: string, draw: (doc: PDFKit.PDFDocument) => void): Promise<string> {
     return new Promise((resolve, reject) => {
       try {
         // Create a new PDF document
@@ -23,37 +68,13 @@ export class PdfGeneratorService {
         const stream = fs.createWriteStream(outputPath);
         doc.pipe(stream);
 
-        // Add company header
-        this.addCompanyHeader(doc, invoice.company);
-
-        // Add invoice details
-        this.addInvoiceDetails(doc, invoice);
-
-        // Add customer information
-        if (invoice.customer) {
-          this.addCustomerInfo(doc, invoice.customer);
-        }
-
-        // Add items table
-        this.addItemsTable(doc, invoice.items);
-
-        // Add totals
-        this.addTotals(doc, invoice.totals);
-
-        // Add payment information
-        this.addPaymentInfo(doc, invoice.payment);
-
-        // Add terms and notes
-        this.addTermsAndNotes(doc, invoice.terms, invoice.notes);
-
-        // Add footer
-        this.addFooter(doc, invoice.company);
+        draw(doc);
 
         // Finalize PDF
         doc.end();
 
         stream.on('finish', () => {
-          this.logger.log(`✅ Invoice PDF generated successfully: ${outputPath}`);
+          this.logger.log(`✅ ${label} PDF generated successfully: ${outputPath}`);
           resolve(outputPath);
         });
 
@@ -127,7 +148,7 @@ export class PdfGeneratorService {
        .text(invoice.invoiceNumber, 200, startY)
        .text(new Date(invoice.dates.issueDate).toLocaleDateString(), 200, startY + 20)
        .text(new Date(invoice.dates.dueDate).toLocaleDateString(), 200, startY + 40)
-       .text(invoice.status.toUpperCase(), 200, startY + 60);
+       .text(invoice.status.replace('_', ' ').toUpperCase(), 200, startY + 60);
 
     doc.moveDown(3);
   }
@@ -155,15 +176,15 @@ export class PdfGeneratorService {
   private addItemsTable(doc: PDFKit.PDFDocument, items: any[]): void {
     // Table header
     const startY = doc.y;
-    const colWidths = [50, 200, 80, 80, 80, 80];
-    const headers = ['#', 'Item', 'Qty', 'Price', 'Discount', 'Total'];
+    const columns = [50, 80, 260, 300, 360, 420, 480];
+    const headers = ['#', 'Item', 'Qty', 'Price', 'Discount', 'Tax', 'Total'];
 
     doc.fontSize(10)
        .font('Helvetica-Bold');
 
     let currentY = startY;
     headers.forEach((header, index) => {
-      doc.text(header, 50 + colWidths.slice(0, index).reduce((a, b) => a + b, 0), currentY);
+      doc.text(header, columns[index], currentY);
     });
 
     doc.moveDown(0.5);
@@ -174,22 +195,25 @@ export class PdfGeneratorService {
       currentY = doc.y;
       
       // Row number
-      doc.text((index + 1).toString(), 50, currentY);
+      doc.text((index + 1).toString(), columns[0], currentY);
       
       // Item name
-      doc.text(item.description || 'Product', 100, currentY);
+      doc.text(item.description || 'Product', columns[1], currentY, { width: 170 });
       
       // Quantity
-      doc.text(item.quantity.toString(), 300, currentY);
+      doc.text(item.quantity.toString(), columns[2], currentY);
       
       // Unit price
-      doc.text(`$${item.unitPrice.toFixed(2)}`, 380, currentY);
+      doc.text(`$${item.unitPrice.toFixed(2)}`, columns[3], currentY);
       
       // Discount
-      doc.text(`$${item.discount.toFixed(2)}`, 460, currentY);
+      doc.text(`$${(item.discount || 0).toFixed(2)}`, columns[4], currentY);
+
+      // Tax
+      doc.text(item.tax?.exempt ? 'Exempt' : `$${(item.tax?.amount || 0).toFixed(2)}`, columns[5], currentY);
       
       // Total
-      doc.text(`$${item.total.toFixed(2)}`, 540, currentY);
+      doc.text(`$${item.total.toFixed(2)}`, columns[6], currentY);
 
       doc.moveDown(0.3);
     });
@@ -197,37 +221,69 @@ export class PdfGeneratorService {
     doc.moveDown(1);
   }
 
-  private addTotals(doc: PDFKit.PDFDocument, totals: any): void {
-    const startY = doc.y;
-    const rightAlign = 500;
+  private addTotals(doc: PDFKit.PDFDocument, totals: any, items: any[]): void {
+    const rightAlign = 380;
+    let currentY = doc.y;
 
     doc.fontSize(10)
        .font('Helvetica');
 
     // Subtotal
-    doc.text('Subtotal:', rightAlign, startY)
-       .text(`$${totals.subtotal.toFixed(2)}`, rightAlign + 100, startY);
-
-    // Tax
-    doc.text('Tax:', rightAlign, startY + 20)
-       .text(`$${totals.tax.toFixed(2)}`, rightAlign + 100, startY + 20);
+    doc.text('Subtotal:', rightAlign, currentY)
+       .text(`$${totals.subtotal.toFixed(2)}`, rightAlign + 100, currentY);
+    currentY += 20;
 
     // Discount
     if (totals.discount > 0) {
-      doc.text('Discount:', rightAlign, startY + 40)
-         .text(`-$${totals.discount.toFixed(2)}`, rightAlign + 100, startY + 40);
+      doc.text('Discount:', rightAlign, currentY)
+         .text(`-$${totals.discount.toFixed(2)}`, rightAlign + 100, currentY);
+      currentY += 20;
+    }
+
+    // Tax, broken down by tax class and rate
+    if (totals.taxExempt) {
+      doc.text('Tax (exempt):', rightAlign, currentY)
+         .text('$0.00', rightAlign + 100, currentY);
+      currentY += 20;
+    } else {
+      this.groupTaxes(items).forEach(group => {
+        const rate = Math.round(group.rate * 10000) / 100;
+        doc.text(`Tax ${group.taxClass ? `${group.taxClass} ` : ''}${rate}%:`, rightAlign, currentY)
+           .text(`$${group.amount.toFixed(2)}`, rightAlign + 100, currentY);
+        currentY += 20;
+      });
     }
 
     // Total
     doc.fontSize(12)
        .font('Helvetica-Bold')
-       .text('Total:', rightAlign, startY + 60)
-       .text(`$${totals.total.toFixed(2)}`, rightAlign + 100, startY + 60);
+       .text('Total:', rightAlign, currentY)
+       .text(`$${totals.total.toFixed(2)}`, rightAlign + 100, currentY);
+
+    if (totals.taxInclusive) {
+      doc.fontSize(8)
+         .font('Helvetica')
+         .text('Prices include tax', rightAlign, currentY + 20);
+    }
 
     doc.moveDown(2);
   }
 
-  private addPaymentInfo(doc: PDFKit.PDFDocument, payment: any): void {
+  private groupTaxes(items: any[]): { taxClass?: string; rate: number; amount: number }[] {
+    const groups = new Map<string, { taxClass?: string; rate: number; amount: number }>();
+
+    items.forEach(item => {
+      const rate = item.tax?.rate || 0;
+      const key = `${item.tax?.taxClass || ''}:${rate}`;
+      const group = groups.get(key) || { taxClass: item.tax?.taxClass, rate, amount: 0 };
+      group.amount = Math.round((group.amount + (item.tax?.amount || 0)) * 100) / 100;
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values());
+  }
+
+  private addPaymentInfo(doc: PDFKit.PDFDocument, payment: any, payments: any[], total: number, credited: number): void {
     doc.fontSize(12)
        .font('Helvetica-Bold')
        .text('Payment Information:', 50);
@@ -235,17 +291,131 @@ export class PdfGeneratorService {
     doc.fontSize(10)
        .font('Helvetica')
        .text(`Method: ${payment.method.toUpperCase()}`, 50)
-       .text(`Status: ${payment.status.toUpperCase()}`, 50);
+       .text(`Status: ${payment.status.replace('_', ' ').toUpperCase()}`, 50);
 
     if (payment.reference) {
       doc.text(`Reference: ${payment.reference}`, 50);
     }
 
-    if (payment.paidAmount > 0) {
-      doc.text(`Paid Amount: $${payment.paidAmount.toFixed(2)}`, 50);
+    if (payments.length) {
+      this.addPaymentHistory(doc, payments);
+    }
+
+    if (credited > 0) {
+      doc.text(`Credited: -$${credited.toFixed(2)}`, 50);
+    }
+
+    const paidAmount = payment.paidAmount || 0;
+    if (paidAmount > 0) {
+      doc.text(`Paid Amount: $${paidAmount.toFixed(2)}`, 50);
+    }
+
+    if (payment.paidDate) {
       doc.text(`Paid Date: ${new Date(payment.paidDate).toLocaleDateString()}`, 50);
     }
 
+    // Invoices from before the payments ledger have no balance stored
+    const balanceDue = payment.balanceDue ?? Math.max(total - credited - paidAmount, 0);
+    doc.font('Helvetica-Bold')
+       .text(`Balance Due: $${balanceDue.toFixed(2)}`, 50)
+       .font('Helvetica');
+
+    if (payment.credit > 0) {
+      doc.text(`Credit: $${payment.credit.toFixed(2)}`, 50);
+    }
+
+    doc.moveDown(2);
+  }
+
+  private addPaymentHistory(doc: PDFKit.PDFDocument, payments: any[]): void {
+    const columns = [50, 150, 250, 400];
+    const headers = ['Date', 'Method', 'Reference', 'Amount'];
+
+    doc.moveDown(0.5)
+       .font('Helvetica-Bold');
+
+    let currentY = doc.y;
+    headers.forEach((header, index) => {
+      doc.text(header, columns[index], currentY);
+    });
+
+    doc.moveDown(0.3)
+       .font('Helvetica');
+
+    payments.forEach(payment => {
+      currentY = doc.y;
+      doc.text(new Date(payment.paidAt).toLocaleDateString(), columns[0], currentY)
+         .text(payment.method.replace('_', ' '), columns[1], currentY)
+         .text(payment.reference || '-', columns[2], currentY, { width: 140 })
+         .text(`$${payment.amount.toFixed(2)}`, columns[3], currentY);
+      doc.moveDown(0.3);
+    });
+
+    doc.moveDown(0.5);
+  }
+
+  private addCreditNoteDetails(doc: PDFKit.PDFDocument, creditNote: CreditNote, invoice: Invoice): void {
+    doc.fontSize(20)
+       .font('Helvetica-Bold')
+       .text('CREDIT NOTE', { align: 'center' });
+
+    doc.moveDown(1);
+
+    const startY = doc.y;
+    doc.fontSize(12)
+       .font('Helvetica-Bold')
+       .text('Credit Note Number:', 50, startY)
+       .text('Issue Date:', 50, startY + 20)
+       .text('Original Invoice:', 50, startY + 40)
+       .text('Reason:', 50, startY + 60);
+
+    doc.font('Helvetica')
+       .text(creditNote.creditNoteNumber, 200, startY)
+       .text(new Date((creditNote as any).createdAt || Date.now()).toLocaleDateString(), 200, startY + 20)
+       .text(invoice.invoiceNumber, 200, startY + 40)
+       .text(creditNote.reason, 200, startY + 60, { width: 300 });
+
+    doc.moveDown(3);
+  }
+
+  private addCreditNoteItems(doc: PDFKit.PDFDocument, creditNote: CreditNote): void {
+    const columns = [50, 80, 280, 330, 400, 480];
+    const headers = ['#', 'Item', 'Qty', 'Price', 'Tax', 'Credited'];
+
+    doc.fontSize(10)
+       .font('Helvetica-Bold');
+
+    let currentY = doc.y;
+    headers.forEach((header, index) => {
+      doc.text(header, columns[index], currentY);
+    });
+
+    doc.moveDown(0.5)
+       .font('Helvetica');
+
+    creditNote.items.forEach((item, index) => {
+      currentY = doc.y;
+      doc.text((index + 1).toString(), columns[0], currentY)
+         .text(item.description || 'Product', columns[1], currentY, { width: 190 })
+         .text(item.quantity.toString(), columns[2], currentY)
+         .text(`$${item.unitPrice.toFixed(2)}`, columns[3], currentY)
+         .text(`$${(item.tax || 0).toFixed(2)}`, columns[4], currentY)
+         .text(`$${item.amount.toFixed(2)}`, columns[5], currentY);
+      doc.moveDown(0.3);
+    });
+
+    doc.moveDown(1);
+
+    const rightAlign = 380;
+    currentY = doc.y;
+    doc.text('Tax credited:', rightAlign, currentY)
+       .text(`$${(creditNote.tax || 0).toFixed(2)}`, rightAlign + 100, currentY);
+
+    doc.fontSize(12)
+       .font('Helvetica-Bold')
+       .text('Total credited:', rightAlign, currentY + 20)
+       .text(`$${creditNote.amount.toFixed(2)}`, rightAlign + 100, currentY + 20);
+
     doc.moveDown(2);
   }
 
@@ -286,12 +456,4 @@ export class PdfGeneratorService {
        .text(`${company.companyName} - ${company.address.city}, ${company.address.state}`, { align: 'center' })
        .text(`Generated on ${new Date().toLocaleDateString()}`, { align: 'center' });
   }
-
-  async generateInvoiceNumber(): Promise<string> {
-    const today = new Date();
-    const year = today.getFullYear();
-    const month = (today.getMonth() + 1).toString().padStart(2, '0');
-    
-    return `INV-${year}${month}-${Date.now().toString().slice(-6)}`;
-  }
 }
@@ -0,0 +1,40 @@
+import { IsString, IsOptional, IsEnum, IsBoolean, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AddressDto } from '../../customers/dto/create-customer.dto';
+
+export class CreateLocationDto {
+  @ApiProperty()
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Short unique code, e.g. WH1' })
+  @IsString()
+  code: string;
+
+  @ApiPropertyOptional({ enum: ['store', 'warehouse', 'back_room'] })
+  @IsOptional()
+  @IsEnum(['store', 'warehouse', 'back_room'])
+  type?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AddressDto)
+  address?: AddressDto;
+
+  @ApiPropertyOptional({ description: 'Tax jurisdiction whose rates apply to sales here, e.g. US-CA' })
+  @IsOptional()
+  @IsString()
+  taxJurisdiction?: string;
+
+  @ApiPropertyOptional({ description: 'Make this the default location for stock changes' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
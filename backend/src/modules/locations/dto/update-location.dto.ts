@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateLocationDto } from './create-location.dto';
+
+export class UpdateLocationDto extends PartialType(CreateLocationDto) {}
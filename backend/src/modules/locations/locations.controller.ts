@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { LocationsService } from './locations.service';
+import { CreateLocationDto } from './dto/create-location.dto';
+import { UpdateLocationDto } from './dto/update-location.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('locations')
+@Controller('locations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class LocationsController {
+  constructor(private readonly locationsService: LocationsService) {}
+
+  @Post()
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Create a new stock location' })
+  @ApiResponse({ status: 201, description: 'Location created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - location already exists' })
+  create(@Body() createLocationDto: CreateLocationDto, @Request() req) {
+    return this.locationsService.create(createLocationDto, req.user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all stock locations' })
+  @ApiResponse({ status: 200, description: 'Locations retrieved successfully' })
+  @ApiQuery({ name: 'type', required: false, description: 'Filter by location type' })
+  @ApiQuery({ name: 'isActive', required: false, description: 'Filter by active status' })
+  findAll(@Query() query: any) {
+    return this.locationsService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a location by ID' })
+  @ApiResponse({ status: 200, description: 'Location retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Location not found' })
+  findOne(@Param('id') id: string) {
+    return this.locationsService.findOne(id);
+  }
+
+  @Get(':id/stock')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Get the stock held at a location' })
+  @ApiResponse({ status: 200, description: 'Location stock retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Location not found' })
+  @ApiQuery({ name: 'lowStock', required: false, description: 'Only products at or below their minimum stock here' })
+  getStock(@Param('id') id: string, @Query() query: any) {
+    return this.locationsService.getStock(id, query);
+  }
+
+  @Patch(':id')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Update a location' })
+  @ApiResponse({ status: 200, description: 'Location updated successfully' })
+  @ApiResponse({ status: 404, description: 'Location not found' })
+  @ApiResponse({ status: 400, description: 'Bad request - name or code already exists' })
+  update(@Param('id') id: string, @Body() updateLocationDto: UpdateLocationDto, @Request() req) {
+    return this.locationsService.update(id, updateLocationDto, req.user.id);
+  }
+
+  @Delete(':id')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Delete a location' })
+  @ApiResponse({ status: 200, description: 'Location deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Location is the default or still holds stock' })
+  @ApiResponse({ status: 404, description: 'Location not found' })
+  remove(@Param('id') id: string) {
+    return this.locationsService.remove(id);
+  }
+}
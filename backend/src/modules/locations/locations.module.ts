@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LocationsService } from './locations.service';
+import { LocationsController } from './locations.controller';
+import { Location, LocationSchema } from './schemas/location.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Location.name, schema: LocationSchema },
+      { name: Product.name, schema: ProductSchema }
+    ])
+  ],
+  controllers: [LocationsController],
+  providers: [LocationsService],
+  exports: [LocationsService],
+})
+export class LocationsModule {}
@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { LocationsService } from './locations.service';
+import { Location } from './schemas/location.schema';
+import { Product } from '../products/schemas/product.schema';
+
+describe('LocationsService', () => {
+  let service: LocationsService;
+
+  const mainStore = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439040'),
+    name: 'Main Store',
+    code: 'MAIN',
+    isDefault: true,
+    isActive: true,
+  };
+  const backRoom = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439041'),
+    name: 'Back Room',
+    code: 'BR',
+    isDefault: false,
+    isActive: false,
+  };
+
+  const chain = (result: any) => ({
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockLocationModel = {
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    findByIdAndDelete: jest.fn(),
+  };
+
+  const mockProductModel = {
+    countDocuments: jest.fn(),
+    updateMany: jest.fn().mockReturnValue(chain({})),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LocationsService,
+        { provide: getModelToken(Location.name), useValue: mockLocationModel },
+        { provide: getModelToken(Product.name), useValue: mockProductModel },
+      ],
+    }).compile();
+
+    service = module.get<LocationsService>(LocationsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('resolve', () => {
+    it('should fall back to the default location', async () => {
+      mockLocationModel.findOne.mockReturnValue(chain(mainStore));
+
+      await expect(service.resolve()).resolves.toBe(mainStore);
+      expect(mockLocationModel.findOne).toHaveBeenCalledWith({ isDefault: true });
+    });
+
+    it('should create the default location when none exists', async () => {
+      mockLocationModel.findOne.mockReturnValue(chain(null));
+      mockLocationModel.findOneAndUpdate.mockReturnValue(chain(mainStore));
+
+      await service.resolve();
+
+      expect(mockLocationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { code: 'MAIN' },
+        expect.objectContaining({ $setOnInsert: expect.objectContaining({ name: 'Main Store' }) }),
+        { new: true, upsert: true }
+      );
+    });
+
+    it('should reject inactive locations', async () => {
+      mockLocationModel.findById.mockReturnValue(chain(backRoom));
+
+      await expect(service.resolve(backRoom._id.toString())).rejects.toThrow('Location Back Room is inactive');
+    });
+  });
+
+  describe('initialiseStockLevels', () => {
+    it('should assign the total quantity of unassigned products to the default location', async () => {
+      mockLocationModel.findOne.mockReturnValue(chain(mainStore));
+
+      await service.initialiseStockLevels();
+
+      const [filter, pipeline] = mockProductModel.updateMany.mock.calls[0];
+      expect(filter).toEqual({ 'stockLevels.0': { $exists: false } });
+      expect(pipeline[0].$set.stockLevels[0]).toEqual(expect.objectContaining({
+        location: mainStore._id,
+        quantity: { $ifNull: ['$inventory.quantity', 0] },
+      }));
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse to delete the default location', async () => {
+      mockLocationModel.findById.mockReturnValue(chain(mainStore));
+
+      await expect(service.remove(mainStore._id.toString())).rejects.toThrow(BadRequestException);
+      expect(mockLocationModel.findByIdAndDelete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete a location that still holds stock', async () => {
+      mockLocationModel.findById.mockReturnValue(chain(backRoom));
+      mockProductModel.countDocuments.mockResolvedValue(2);
+
+      await expect(service.remove(backRoom._id.toString())).rejects.toThrow(BadRequestException);
+      expect(mockLocationModel.findByIdAndDelete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Location, LocationDocument } from './schemas/location.schema';
+import { Product, ProductDocument } from '../products/schemas/product.schema';
+import { CreateLocationDto } from './dto/create-location.dto';
+import { UpdateLocationDto } from './dto/update-location.dto';
+
+const DEFAULT_LOCATION = { name: 'Main Store', code: 'MAIN', type: 'store' };
+
+@Injectable()
+export class LocationsService implements OnModuleInit {
+  private readonly logger = new Logger(LocationsService.name);
+
+  constructor(
+    @InjectModel(Location.name) private locationModel: Model<LocationDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+  ) {}
+
+  /**
+   * Products created before locations existed only have a total quantity;
+   * their stock is assigned to the default location on startup.
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.initialiseStockLevels();
+    } catch (error) {
+      this.logger.error('Failed to assign existing stock to the default location:', error);
+    }
+  }
+
+  async create(createLocationDto: CreateLocationDto, userId: string): Promise<Location> {
+    await this.assertUnique(createLocationDto);
+
+    const createdLocation = new this.locationModel({
+      ...createLocationDto,
+      createdBy: new Types.ObjectId(userId),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    await createdLocation.save();
+
+    if (createLocationDto.isDefault) {
+      await this.clearOtherDefaults(createdLocation._id);
+    }
+
+    return createdLocation;
+  }
+
+  async findAll(query: any = {}): Promise<Location[]> {
+    const { type, isActive } = query;
+
+    let filter: any = {};
+
+    // Filter by location type
+    if (type) {
+      filter.type = type;
+    }
+
+    // Filter by active status
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+
+    return this.locationModel.find(filter).sort({ isDefault: -1, name: 1 }).exec();
+  }
+
+  async findOne(id: string): Promise<Location> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid location ID');
+    }
+
+    const location = await this.locationModel.findById(id).exec();
+    if (!location) {
+      throw new NotFoundException('Location not found');
+    }
+
+    return location;
+  }
+
+  async update(id: string, updateLocationDto: UpdateLocationDto, userId: string): Promise<Location> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid location ID');
+    }
+
+    await this.assertUnique(updateLocationDto, id);
+
+    const current = await this.findOne(id);
+    if (current.isDefault && (updateLocationDto.isDefault === false || updateLocationDto.isActive === false)) {
+      throw new BadRequestException('Make another location the default first');
+    }
+
+    const updatedLocation = await this.locationModel
+      .findByIdAndUpdate(
+        id,
+        {
+          ...updateLocationDto,
+          updatedBy: new Types.ObjectId(userId),
+        },
+        { new: true, runValidators: true }
+      )
+      .exec();
+
+    if (updateLocationDto.isDefault) {
+      await this.clearOtherDefaults(updatedLocation._id);
+    }
+
+    return updatedLocation;
+  }
+
+  async remove(id: string): Promise<void> {
+    const location = await this.findOne(id);
+
+    if (location.isDefault) {
+      throw new BadRequestException('Cannot delete the default location');
+    }
+
+    const stocked = await this.productModel.countDocuments({
+      stockLevels: { $elemMatch: { location: new Types.ObjectId(id), quantity: { $gt: 0 } } },
+    });
+
+    if (stocked > 0) {
+      throw new BadRequestException('Location still holds stock; transfer it out or deactivate the location');
+    }
+
+    await this.productModel
+      .updateMany({}, { $pull: { stockLevels: { location: new Types.ObjectId(id) } } })
+      .exec();
+    await this.locationModel.findByIdAndDelete(id).exec();
+  }
+
+  /**
+   * Returns the default location, creating 'Main Store' if none exists yet.
+   */
+  async getDefault(): Promise<LocationDocument> {
+    const location = await this.locationModel.findOne({ isDefault: true }).exec();
+    if (location) {
+      return location;
+    }
+
+    return this.locationModel
+      .findOneAndUpdate(
+        { code: DEFAULT_LOCATION.code },
+        { $set: { isDefault: true, isActive: true }, $setOnInsert: { name: DEFAULT_LOCATION.name, type: DEFAULT_LOCATION.type } },
+        { new: true, upsert: true }
+      )
+      .exec();
+  }
+
+  /**
+   * Resolves the location a stock change applies to: the given one, which
+   * must be active, or the default location.
+   */
+  async resolve(locationId?: string | Types.ObjectId): Promise<LocationDocument> {
+    if (!locationId) {
+      return this.getDefault();
+    }
+
+    if (!Types.ObjectId.isValid(locationId.toString())) {
+      throw new BadRequestException('Invalid location ID');
+    }
+
+    const location = await this.locationModel.findById(locationId).exec();
+    if (!location) {
+      throw new NotFoundException('Location not found');
+    }
+
+    if (!location.isActive) {
+      throw new BadRequestException(`Location ${location.name} is inactive`);
+    }
+
+    return location;
+  }
+
+  /**
+   * Assigns the total quantity of products (and of their variants) without
+   * any stock levels to the default location, either for one product or for
+   * the whole catalogue.
+   */
+  async initialiseStockLevels(productId?: string | Types.ObjectId): Promise<void> {
+    const location = await this.getDefault();
+    const filter: any = { 'stockLevels.0': { $exists: false } };
+
+    if (productId) {
+      filter._id = new Types.ObjectId(productId.toString());
+    }
+
+    await this.productModel
+      .updateMany(filter, [
+        {
+          $set: {
+            stockLevels: [
+              {
+                location: location._id,
+                quantity: { $ifNull: ['$inventory.quantity', 0] },
+                minStock: { $ifNull: ['$inventory.minStock', 0] },
+              },
+            ],
+            variants: {
+              $map: {
+                input: { $ifNull: ['$variants', []] },
+                as: 'variant',
+                in: {
+                  $mergeObjects: [
+                    '$$variant',
+                    {
+                      stockLevels: [
+                        {
+                          location: location._id,
+                          quantity: { $ifNull: ['$$variant.inventory.quantity', 0] },
+                          minStock: { $ifNull: ['$$variant.inventory.minStock', 0] },
+                        },
+                      ],
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      ])
+      .exec();
+  }
+
+  async getStock(id: string, query: any = {}): Promise<any[]> {
+    const location = await this.findOne(id);
+    const locationId = (location as LocationDocument)._id;
+    const { lowStock } = query;
+
+    const products = await this.productModel
+      .find({ 'stockLevels.location': locationId })
+      .select('name sku category price stockLevels')
+      .sort({ name: 1 })
+      .exec();
+
+    return products
+      .map(product => {
+        const level = product.stockLevels.find(entry => entry.location.toString() === id);
+        return {
+          product: { _id: product._id, name: product.name, sku: product.sku, category: product.category },
+          quantity: level.quantity,
+          minStock: level.minStock,
+          stockValue: Math.round(level.quantity * product.price.cost * 100) / 100,
+        };
+      })
+      .filter(entry => lowStock !== 'true' || entry.quantity <= entry.minStock);
+  }
+
+  private async clearOtherDefaults(locationId: Types.ObjectId): Promise<void> {
+    await this.locationModel
+      .updateMany({ _id: { $ne: locationId }, isDefault: true }, { isDefault: false })
+      .exec();
+  }
+
+  private async assertUnique(locationDto: Partial<CreateLocationDto>, excludeId?: string): Promise<void> {
+    const conditions = [
+      ...(locationDto.name ? [{ name: locationDto.name }] : []),
+      ...(locationDto.code ? [{ code: locationDto.code.toUpperCase() }] : []),
+    ];
+
+    if (conditions.length === 0) {
+      return;
+    }
+
+    const existingLocation = await this.locationModel.findOne({
+      ...(excludeId && { _id: { $ne: new Types.ObjectId(excludeId) } }),
+      $or: conditions,
+    });
+
+    if (existingLocation) {
+      throw new BadRequestException('Location with this name or code already exists');
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LocationDocument = Location & Document;
+
+@Schema({ timestamps: true })
+export class Location {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop({ required: true, unique: true, uppercase: true })
+  code: string;
+
+  @Prop({ enum: ['store', 'warehouse', 'back_room'], default: 'store' })
+  type: string;
+
+  @Prop({
+    type: {
+      street: { type: String },
+      city: { type: String },
+      state: { type: String },
+      zipCode: { type: String },
+      country: { type: String }
+    }
+  })
+  address: {
+    street: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    country: string;
+  };
+
+  // Tax jurisdiction whose rates apply to sales here, e.g. US-CA
+  @Prop({ uppercase: true })
+  taxJurisdiction: string;
+
+  // Stock changes that do not name a location use the default one
+  @Prop({ default: false })
+  isDefault: boolean;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+}
+
+export const LocationSchema = SchemaFactory.createForClass(Location);
+
+// Indexes for better query performance
+LocationSchema.index({ isDefault: 1 });
+LocationSchema.index({ isActive: 1 });
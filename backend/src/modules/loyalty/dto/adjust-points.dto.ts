@@ -0,0 +1,13 @@
+import { IsString, IsInt, NotEquals } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AdjustPointsDto {
+  @ApiProperty({ description: 'Points to add, or remove when negative' })
+  @IsInt()
+  @NotEquals(0)
+  points: number;
+
+  @ApiProperty()
+  @IsString()
+  reason: string;
+}
@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { LoyaltyService } from './loyalty.service';
+import { AdjustPointsDto } from './dto/adjust-points.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('loyalty')
+@Controller('loyalty')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class LoyaltyController {
+  constructor(private readonly loyaltyService: LoyaltyService) {}
+
+  @Get('tiers')
+  @ApiOperation({ summary: 'Get the loyalty tiers with their spend thresholds and earn rates' })
+  @ApiResponse({ status: 200, description: 'Tiers retrieved successfully' })
+  getTiers() {
+    return this.loyaltyService.getTiers();
+  }
+
+  @Get('customers/:customerId')
+  @ApiOperation({ summary: 'Get a customer\'s points balance, tier and expiring points' })
+  @ApiResponse({ status: 200, description: 'Loyalty account retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Customer not found' })
+  getAccount(@Param('customerId') customerId: string) {
+    return this.loyaltyService.getAccount(customerId);
+  }
+
+  @Get('customers/:customerId/transactions')
+  @ApiOperation({ summary: 'Get a customer\'s points ledger' })
+  @ApiResponse({ status: 200, description: 'Transactions retrieved successfully' })
+  @ApiQuery({ name: 'type', required: false, description: 'Filter by transaction type' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  findTransactions(@Param('customerId') customerId: string, @Query() query: any) {
+    return this.loyaltyService.findTransactions(customerId, query);
+  }
+
+  @Post('customers/:customerId/adjust')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Manually add or remove points' })
+  @ApiResponse({ status: 201, description: 'Points adjusted successfully' })
+  @ApiResponse({ status: 400, description: 'Insufficient loyalty points' })
+  adjust(@Param('customerId') customerId: string, @Body() adjustPointsDto: AdjustPointsDto, @Request() req) {
+    return this.loyaltyService.adjust(customerId, adjustPointsDto, req.user.id);
+  }
+
+  @Post('expire')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Expire due points and recheck tiers now instead of waiting for the nightly run' })
+  @ApiResponse({ status: 201, description: 'Maintenance run completed' })
+  async runMaintenance() {
+    const expired = await this.loyaltyService.expirePoints();
+    await this.loyaltyService.recalculateTiers();
+    return { expired };
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LoyaltyService } from './loyalty.service';
+import { LoyaltyController } from './loyalty.controller';
+import { LoyaltyTransaction, LoyaltyTransactionSchema } from './schemas/loyalty-transaction.schema';
+import { Customer, CustomerSchema } from '../customers/schemas/customer.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LoyaltyTransaction.name, schema: LoyaltyTransactionSchema },
+      { name: Customer.name, schema: CustomerSchema }
+    ])
+  ],
+  controllers: [LoyaltyController],
+  providers: [LoyaltyService],
+  exports: [LoyaltyService],
+})
+export class LoyaltyModule {}
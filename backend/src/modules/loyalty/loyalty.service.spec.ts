@@ -0,0 +1,230 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { LoyaltyService } from './loyalty.service';
+import { LoyaltyTransaction, LoyaltyTransactionType } from './schemas/loyalty-transaction.schema';
+import { Customer } from '../customers/schemas/customer.schema';
+
+describe('LoyaltyService', () => {
+  let service: LoyaltyService;
+
+  const customerId = new Types.ObjectId('507f1f77bcf86cd799439013');
+  const saleId = new Types.ObjectId('507f1f77bcf86cd799439010');
+
+  const buildCustomer = (loyalty: any = {}) => ({
+    _id: customerId,
+    loyalty: { loyaltyPoints: 0, tier: 'bronze', rollingSpend: 0, ...loyalty },
+  });
+
+  const exec = (result: any) => ({ exec: jest.fn().mockResolvedValue(result) });
+
+  const chain = (result: any) => ({
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const savedTransactions: any[] = [];
+
+  // Mimics a Mongoose model constructor returning a ledger entry
+  const mockTransactionModel: any = jest.fn().mockImplementation((data) => {
+    const transaction = { ...data, save: jest.fn().mockResolvedValue(undefined) };
+    savedTransactions.push(transaction);
+    return transaction;
+  });
+  mockTransactionModel.find = jest.fn();
+  mockTransactionModel.findOneAndUpdate = jest.fn();
+  mockTransactionModel.updateOne = jest.fn();
+  mockTransactionModel.aggregate = jest.fn();
+
+  const mockCustomerModel = {
+    findById: jest.fn(),
+    findByIdAndUpdate: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const givenRollingSpend = (spend: number) => {
+    mockTransactionModel.aggregate.mockResolvedValue(spend ? [{ _id: null, spend }] : []);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoyaltyService,
+        { provide: getModelToken(LoyaltyTransaction.name), useValue: mockTransactionModel },
+        { provide: getModelToken(Customer.name), useValue: mockCustomerModel },
+      ],
+    }).compile();
+
+    service = module.get<LoyaltyService>(LoyaltyService);
+
+    savedTransactions.length = 0;
+    mockCustomerModel.updateOne.mockReturnValue(exec({}));
+    mockTransactionModel.updateOne.mockReturnValue(exec({ modifiedCount: 1 }));
+    mockTransactionModel.find.mockReturnValue(chain([]));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('calculatePoints', () => {
+    it('should earn at the rate of the customer\'s tier', async () => {
+      mockCustomerModel.findById.mockReturnValue(exec(buildCustomer({ tier: 'gold' })));
+
+      await expect(service.calculatePoints(customerId.toString(), 100.8)).resolves.toBe(151);
+    });
+  });
+
+  describe('earn', () => {
+    it('should add to the balance instead of overwriting it and record an expiring lot', async () => {
+      mockCustomerModel.findByIdAndUpdate.mockReturnValue(exec(buildCustomer({ loyaltyPoints: 150 })));
+      mockCustomerModel.findById.mockReturnValue(exec(buildCustomer({ loyaltyPoints: 150 })));
+      givenRollingSpend(50);
+
+      await service.earn(customerId.toString(), 50, 50, {
+        reference: { documentType: 'Sale', documentId: saleId },
+      });
+
+      expect(mockCustomerModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        customerId.toString(),
+        { $inc: { 'loyalty.loyaltyPoints': 50 } },
+        { new: true }
+      );
+      expect(savedTransactions[0]).toEqual(expect.objectContaining({
+        type: LoyaltyTransactionType.EARN,
+        points: 50,
+        balance: 150,
+        spend: 50,
+        remaining: 50,
+        expiresAt: expect.any(Date),
+      }));
+    });
+
+    it('should upgrade the tier once rolling spend crosses a threshold', async () => {
+      mockCustomerModel.findByIdAndUpdate.mockReturnValue(exec(buildCustomer({ loyaltyPoints: 600 })));
+      mockCustomerModel.findById.mockReturnValue(exec(buildCustomer({ loyaltyPoints: 600 })));
+      givenRollingSpend(600);
+
+      await service.earn(customerId.toString(), 100, 100);
+
+      expect(mockCustomerModel.updateOne).toHaveBeenCalledWith(
+        { _id: customerId },
+        expect.objectContaining({ 'loyalty.tier': 'silver', 'loyalty.rollingSpend': 600 })
+      );
+    });
+  });
+
+  describe('redeem', () => {
+    it('should refuse to spend more points than the balance', async () => {
+      mockCustomerModel.findById.mockReturnValue(exec(buildCustomer({ loyaltyPoints: 100 })));
+      mockCustomerModel.findOneAndUpdate.mockReturnValue(exec(null));
+
+      await expect(service.redeem(customerId.toString(), 500))
+        .rejects.toThrow('Insufficient loyalty points. Available: 100, Requested: 500');
+      expect(savedTransactions).toHaveLength(0);
+    });
+
+    it('should use the lots closest to expiry first and return the points value', async () => {
+      mockCustomerModel.findById.mockReturnValue(exec(buildCustomer({ loyaltyPoints: 500 })));
+      mockCustomerModel.findOneAndUpdate.mockReturnValue(exec(buildCustomer({ loyaltyPoints: 200 })));
+      const oldLot = { _id: new Types.ObjectId(), remaining: 100 };
+      const newLot = { _id: new Types.ObjectId(), remaining: 400 };
+      mockTransactionModel.find.mockReturnValue(chain([oldLot, newLot]));
+
+      const value = await service.redeem(customerId.toString(), 300);
+
+      expect(value).toBe(3);
+      expect(mockTransactionModel.updateOne).toHaveBeenNthCalledWith(
+        1, { _id: oldLot._id, remaining: { $gte: 100 } }, { $inc: { remaining: -100 } }
+      );
+      expect(mockTransactionModel.updateOne).toHaveBeenNthCalledWith(
+        2, { _id: newLot._id, remaining: { $gte: 200 } }, { $inc: { remaining: -200 } }
+      );
+      expect(savedTransactions[0]).toEqual(expect.objectContaining({
+        type: LoyaltyTransactionType.REDEEM,
+        points: -300,
+        balance: 200,
+      }));
+    });
+
+    it('should reject fractional points', async () => {
+      await expect(service.redeem(customerId.toString(), 2.5)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('recalculateTier', () => {
+    it('should downgrade when spend drops out of the window', async () => {
+      mockCustomerModel.findById.mockReturnValue(exec(buildCustomer({ tier: 'gold', rollingSpend: 2500 })));
+      givenRollingSpend(800);
+
+      await expect(service.recalculateTier(customerId.toString())).resolves.toBe('silver');
+      expect(mockCustomerModel.updateOne).toHaveBeenCalledWith(
+        { _id: customerId },
+        expect.objectContaining({ 'loyalty.tier': 'silver', 'loyalty.tierUpdatedAt': expect.any(Date) })
+      );
+    });
+  });
+
+  describe('expirePoints', () => {
+    it('should expire what is left of overdue lots, skipping lots claimed by another run', async () => {
+      const expiresAt = new Date('2024-01-01');
+      const lot = { _id: new Types.ObjectId(), customer: customerId, remaining: 40, expiresAt };
+      const claimedElsewhere = { _id: new Types.ObjectId(), customer: customerId, remaining: 10, expiresAt };
+      mockTransactionModel.find.mockReturnValueOnce(chain([lot, claimedElsewhere]));
+      mockTransactionModel.findOneAndUpdate
+        .mockReturnValueOnce(exec(lot))
+        .mockReturnValueOnce(exec(null));
+      mockCustomerModel.findOneAndUpdate.mockReturnValue(exec(buildCustomer({ loyaltyPoints: 100 })));
+
+      const expired = await service.expirePoints();
+
+      expect(expired).toBe(40);
+      expect(savedTransactions).toHaveLength(1);
+      expect(savedTransactions[0]).toEqual(expect.objectContaining({
+        type: LoyaltyTransactionType.EXPIRE,
+        points: -40,
+        balance: 60,
+      }));
+    });
+
+    it('should leave the customer\'s unexpired lots untouched', async () => {
+      const expiredLot = { _id: new Types.ObjectId(), customer: customerId, remaining: 40, expiresAt: new Date('2024-01-01') };
+      const currentLot = { _id: new Types.ObjectId(), customer: customerId, remaining: 60, expiresAt: new Date('2099-01-01') };
+      const lots = [expiredLot, currentLot];
+      const byId = (id: Types.ObjectId) => lots.find(lot => lot._id.equals(id));
+
+      // A small lot store, so lots consumed by the expiry actually change
+      mockTransactionModel.find.mockImplementation((filter: any) => chain(lots.filter(lot =>
+        lot.remaining > 0 &&
+        (!filter.expiresAt || lot.expiresAt <= filter.expiresAt.$lte)
+      ).map(lot => ({ ...lot }))));
+      mockTransactionModel.findOneAndUpdate.mockImplementation((filter: any, update: any) => {
+        const lot = byId(filter._id);
+        if (lot.remaining !== filter.remaining) {
+          return exec(null);
+        }
+        const before = { ...lot };
+        lot.remaining = update.remaining;
+        return exec(before);
+      });
+      mockTransactionModel.updateOne.mockImplementation((filter: any, update: any) => {
+        const lot = byId(filter._id);
+        lot.remaining += update.$inc.remaining;
+        return exec({ modifiedCount: 1 });
+      });
+      mockCustomerModel.findOneAndUpdate.mockReturnValue(exec(buildCustomer({ loyaltyPoints: 100 })));
+
+      await expect(service.expirePoints()).resolves.toBe(40);
+
+      expect(expiredLot.remaining).toBe(0);
+      expect(currentLot.remaining).toBe(60);
+    });
+  });
+});
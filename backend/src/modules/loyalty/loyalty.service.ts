@@ -0,0 +1,412 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import {
+  LoyaltyTransaction,
+  LoyaltyTransactionDocument,
+  LoyaltyTransactionType,
+} from './schemas/loyalty-transaction.schema';
+import { Customer, CustomerDocument } from '../customers/schemas/customer.schema';
+import { AdjustPointsDto } from './dto/adjust-points.dto';
+import { loyaltyConfig, LOYALTY_TIERS } from '../../config/loyalty.config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoyaltyOptions {
+  reference?: {
+    documentType: string;
+    documentId: Types.ObjectId;
+    documentNumber?: string;
+  };
+  userId?: string;
+  reason?: string;
+}
+
+/**
+ * Keeps the loyalty points ledger. Customer.loyalty.loyaltyPoints is the
+ * cached balance and only moves together with a ledger entry; points are
+ * added in lots that are used oldest-expiry first and expire on their own.
+ * Tiers follow the customer's spend over a rolling window.
+ */
+@Injectable()
+export class LoyaltyService {
+  private readonly logger = new Logger(LoyaltyService.name);
+
+  constructor(
+    @InjectModel(LoyaltyTransaction.name) private transactionModel: Model<LoyaltyTransactionDocument>,
+    @InjectModel(Customer.name) private customerModel: Model<CustomerDocument>,
+  ) {}
+
+  async getAccount(customerId: string): Promise<any> {
+    const customer = await this.findCustomer(customerId);
+    const points = customer.loyalty?.loyaltyPoints || 0;
+    const tier = customer.loyalty?.tier || LOYALTY_TIERS[0];
+    const rollingSpend = customer.loyalty?.rollingSpend || 0;
+    const nextTier = LOYALTY_TIERS[LOYALTY_TIERS.indexOf(tier) + 1];
+
+    const [expiring] = await this.transactionModel.aggregate([
+      {
+        $match: {
+          customer: customer._id,
+          remaining: { $gt: 0 },
+          expiresAt: { $lte: new Date(Date.now() + loyaltyConfig.expiryNoticeDays * DAY_MS) },
+        },
+      },
+      { $group: { _id: null, points: { $sum: '$remaining' }, nextExpiry: { $min: '$expiresAt' } } },
+    ]);
+
+    return {
+      customer: customer._id,
+      points,
+      pointsValue: this.pointsValue(points),
+      tier,
+      earnRate: loyaltyConfig.earnRates[tier],
+      rollingSpend,
+      nextTier: nextTier || null,
+      spendToNextTier: nextTier
+        ? this.round(Math.max(0, loyaltyConfig.tierThresholds[nextTier] - rollingSpend))
+        : 0,
+      expiringPoints: expiring?.points || 0,
+      nextExpiry: expiring?.nextExpiry || null,
+    };
+  }
+
+  async findTransactions(customerId: string, query: any = {}): Promise<LoyaltyTransaction[]> {
+    const { type, page = 1, limit = 20 } = query;
+    const customer = await this.findCustomer(customerId);
+
+    let filter: any = { customer: customer._id };
+
+    // Filter by transaction type
+    if (type) {
+      filter.type = type;
+    }
+
+    return this.transactionModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(Number(limit))
+      .populate('createdBy', 'name email')
+      .exec();
+  }
+
+  getTiers(): any[] {
+    return LOYALTY_TIERS.map(tier => ({
+      tier,
+      minimumSpend: loyaltyConfig.tierThresholds[tier],
+      earnRate: loyaltyConfig.earnRates[tier],
+    }));
+  }
+
+  // Currency value of a number of points when redeemed
+  pointsValue(points: number): number {
+    return this.round(points * loyaltyConfig.pointValue);
+  }
+
+  // Points a customer earns on an amount paid, at their current tier's rate
+  async calculatePoints(customerId: string, amount: number): Promise<number> {
+    if (amount <= 0) {
+      return 0;
+    }
+
+    const customer = await this.findCustomer(customerId);
+    const rate = loyaltyConfig.earnRates[customer.loyalty?.tier] ?? loyaltyConfig.earnRates.bronze;
+
+    return Math.floor(amount * rate);
+  }
+
+  /**
+   * Credits points earned on a purchase and counts the spend towards the
+   * customer's tier. An entry is written even when no points are earned so
+   * the spend still counts.
+   */
+  async earn(customerId: string, points: number, spend: number, options: LoyaltyOptions = {}): Promise<void> {
+    const customer = await this.changeBalance(customerId, points);
+
+    await this.record(customer, LoyaltyTransactionType.EARN, points, {
+      ...options,
+      spend,
+      isLot: true,
+    });
+    await this.recalculateTier(customerId);
+  }
+
+  /**
+   * Spends points, returning their currency value. The balance check and
+   * the deduction are a single conditional update, so two checkouts cannot
+   * spend the same points.
+   */
+  async redeem(customerId: string, points: number, options: LoyaltyOptions = {}): Promise<number> {
+    if (!Number.isInteger(points) || points <= 0) {
+      throw new BadRequestException('Points to redeem must be a positive whole number');
+    }
+
+    const customer = await this.deduct(customerId, points);
+    await this.record(customer, LoyaltyTransactionType.REDEEM, -points, options);
+
+    return this.pointsValue(points);
+  }
+
+  /**
+   * Takes back points earned on a refunded or cancelled purchase together
+   * with its spend. Points the customer has already spent cannot be taken
+   * back, so the balance never goes below zero. Returns the points taken.
+   */
+  async reverse(customerId: string, points: number, spend: number, options: LoyaltyOptions = {}): Promise<number> {
+    const customer = await this.findCustomer(customerId);
+    const { customer: updated, deducted } = await this.deductAvailable(customer._id, points);
+
+    await this.record(updated, LoyaltyTransactionType.REVERSAL, -deducted, { ...options, spend: -spend });
+    await this.recalculateTier(customerId);
+
+    return deducted;
+  }
+
+  // Gives back redeemed points; they start a fresh expiry period
+  async restore(customerId: string, points: number, options: LoyaltyOptions = {}): Promise<void> {
+    const customer = await this.changeBalance(customerId, points);
+
+    await this.record(customer, LoyaltyTransactionType.REVERSAL, points, { ...options, isLot: true });
+  }
+
+  async adjust(customerId: string, adjustPointsDto: AdjustPointsDto, userId: string): Promise<any> {
+    const { points, reason } = adjustPointsDto;
+
+    const customer = points > 0
+      ? await this.changeBalance(customerId, points)
+      : await this.deduct(customerId, -points);
+
+    await this.record(customer, LoyaltyTransactionType.ADJUSTMENT, points, {
+      userId,
+      reason,
+      isLot: points > 0,
+    });
+
+    return this.getAccount(customerId);
+  }
+
+  /**
+   * Expires lots past their expiry date. Each lot is claimed with a
+   * conditional update so overlapping runs cannot expire it twice.
+   */
+  async expirePoints(): Promise<number> {
+    const now = new Date();
+    const lots = await this.transactionModel
+      .find({ remaining: { $gt: 0 }, expiresAt: { $lte: now } })
+      .sort({ expiresAt: 1 })
+      .exec();
+
+    let expired = 0;
+    for (const lot of lots) {
+      const claimed = await this.transactionModel
+        .findOneAndUpdate({ _id: lot._id, remaining: lot.remaining }, { remaining: 0 })
+        .exec();
+      if (!claimed) {
+        continue;
+      }
+
+      // The lot was emptied above, so no other lots are consumed
+      const { customer, deducted } = await this.deductAvailable(lot.customer, lot.remaining, false);
+      if (!customer) {
+        continue;
+      }
+
+      await this.record(customer, LoyaltyTransactionType.EXPIRE, -deducted, {
+        reason: `Points expired on ${lot.expiresAt.toISOString().slice(0, 10)}`,
+      });
+      expired += deducted;
+    }
+
+    return expired;
+  }
+
+  /**
+   * Sets the customer's tier from their spend over the rolling window,
+   * upgrading or downgrading as needed.
+   */
+  async recalculateTier(customerId: string): Promise<string> {
+    const customer = await this.findCustomer(customerId);
+    const since = new Date(Date.now() - loyaltyConfig.tierWindowDays * DAY_MS);
+
+    const [result] = await this.transactionModel.aggregate([
+      { $match: { customer: customer._id, createdAt: { $gte: since }, spend: { $ne: 0 } } },
+      { $group: { _id: null, spend: { $sum: '$spend' } } },
+    ]);
+
+    const rollingSpend = this.round(Math.max(0, result?.spend || 0));
+    const tier = [...LOYALTY_TIERS]
+      .reverse()
+      .find(candidate => rollingSpend >= loyaltyConfig.tierThresholds[candidate]);
+    const currentTier = customer.loyalty?.tier || LOYALTY_TIERS[0];
+
+    await this.customerModel
+      .updateOne(
+        { _id: customer._id },
+        {
+          'loyalty.rollingSpend': rollingSpend,
+          ...(tier !== currentTier && { 'loyalty.tier': tier, 'loyalty.tierUpdatedAt': new Date() }),
+        }
+      )
+      .exec();
+
+    if (tier !== currentTier) {
+      this.logger.log(`Customer ${customer._id} moved from ${currentTier} to ${tier}`);
+    }
+
+    return tier;
+  }
+
+  // Spend drops out of the window over time, so tiers are rechecked nightly
+  async recalculateTiers(): Promise<void> {
+    const customers = await this.customerModel
+      .find({ $or: [{ 'loyalty.tier': { $ne: LOYALTY_TIERS[0] } }, { 'loyalty.rollingSpend': { $gt: 0 } }] })
+      .select('_id')
+      .exec();
+
+    for (const customer of customers) {
+      await this.recalculateTier(customer._id.toString());
+    }
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async handleNightlyMaintenance(): Promise<void> {
+    try {
+      const expired = await this.expirePoints();
+      if (expired > 0) {
+        this.logger.log(`Expired ${expired} loyalty points`);
+      }
+
+      await this.recalculateTiers();
+    } catch (error) {
+      this.logger.error('Failed to run loyalty maintenance:', error);
+    }
+  }
+
+  private async findCustomer(customerId: string): Promise<CustomerDocument> {
+    if (!Types.ObjectId.isValid(customerId)) {
+      throw new BadRequestException('Invalid customer ID');
+    }
+
+    const customer = await this.customerModel.findById(customerId).exec();
+    if (!customer) {
+      throw new NotFoundException('Customer not found');
+    }
+
+    return customer;
+  }
+
+  private async changeBalance(customerId: string, points: number): Promise<CustomerDocument> {
+    if (!Types.ObjectId.isValid(customerId)) {
+      throw new BadRequestException('Invalid customer ID');
+    }
+
+    const customer = await this.customerModel
+      .findByIdAndUpdate(customerId, { $inc: { 'loyalty.loyaltyPoints': points } }, { new: true })
+      .exec();
+    if (!customer) {
+      throw new NotFoundException('Customer not found');
+    }
+
+    return customer;
+  }
+
+  // Deducts exactly the given points, refusing when the balance is too low
+  private async deduct(customerId: string, points: number): Promise<CustomerDocument> {
+    const current = await this.findCustomer(customerId);
+
+    const customer = await this.customerModel
+      .findOneAndUpdate(
+        { _id: current._id, 'loyalty.loyaltyPoints': { $gte: points } },
+        { $inc: { 'loyalty.loyaltyPoints': -points } },
+        { new: true }
+      )
+      .exec();
+
+    if (!customer) {
+      throw new BadRequestException(
+        `Insufficient loyalty points. Available: ${current.loyalty?.loyaltyPoints || 0}, Requested: ${points}`
+      );
+    }
+
+    await this.consumeLots(customer._id, points);
+    return customer;
+  }
+
+  // Deducts up to the given points without taking the balance below zero,
+  // consuming lots oldest first unless the caller has already done so
+  private async deductAvailable(
+    customerId: Types.ObjectId,
+    points: number,
+    consumeLots = true,
+  ): Promise<{ customer: CustomerDocument; deducted: number }> {
+    const before = await this.customerModel
+      .findOneAndUpdate(
+        { _id: customerId },
+        [{ $set: { 'loyalty.loyaltyPoints': { $max: [0, { $subtract: ['$loyalty.loyaltyPoints', points] }] } } }]
+      )
+      .exec();
+    if (!before) {
+      return { customer: null, deducted: 0 };
+    }
+
+    const deducted = Math.min(points, before.loyalty?.loyaltyPoints || 0);
+    before.loyalty.loyaltyPoints -= deducted;
+    if (consumeLots) {
+      await this.consumeLots(customerId, deducted);
+    }
+
+    return { customer: before, deducted };
+  }
+
+  private async consumeLots(customerId: Types.ObjectId, points: number): Promise<void> {
+    let left = points;
+    const lots = await this.transactionModel
+      .find({ customer: customerId, remaining: { $gt: 0 } })
+      .sort({ expiresAt: 1, createdAt: 1 })
+      .exec();
+
+    for (const lot of lots) {
+      if (left <= 0) {
+        break;
+      }
+
+      const used = Math.min(left, lot.remaining);
+      const consumed = await this.transactionModel
+        .updateOne({ _id: lot._id, remaining: { $gte: used } }, { $inc: { remaining: -used } })
+        .exec();
+      if (consumed.modifiedCount > 0) {
+        left -= used;
+      }
+    }
+  }
+
+  private async record(
+    customer: CustomerDocument,
+    type: LoyaltyTransactionType,
+    points: number,
+    options: LoyaltyOptions & { spend?: number; isLot?: boolean },
+  ): Promise<void> {
+    const isLot = options.isLot && points > 0;
+
+    const transaction = new this.transactionModel({
+      customer: customer._id,
+      type,
+      points,
+      balance: customer.loyalty?.loyaltyPoints || 0,
+      spend: this.round(options.spend || 0),
+      remaining: isLot ? points : 0,
+      expiresAt: isLot ? new Date(Date.now() + loyaltyConfig.pointsExpiryDays * DAY_MS) : undefined,
+      reference: options.reference,
+      reason: options.reason,
+      createdBy: options.userId ? new Types.ObjectId(options.userId) : undefined,
+    });
+
+    await transaction.save();
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,69 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type LoyaltyTransactionDocument = LoyaltyTransaction & Document;
+
+export enum LoyaltyTransactionType {
+  EARN = 'earn',
+  REDEEM = 'redeem',
+  EXPIRE = 'expire',
+  // Points clawed back or given back when a sale is refunded or cancelled
+  REVERSAL = 'reversal',
+  ADJUSTMENT = 'adjustment',
+}
+
+@Schema({ timestamps: true })
+export class LoyaltyTransaction {
+  @Prop({ type: Types.ObjectId, ref: 'Customer', required: true })
+  customer: Types.ObjectId;
+
+  @Prop({ required: true, enum: Object.values(LoyaltyTransactionType) })
+  type: string;
+
+  // Signed: positive adds points, negative removes them
+  @Prop({ required: true })
+  points: number;
+
+  // Customer balance after the transaction
+  @Prop({ required: true, min: 0 })
+  balance: number;
+
+  // Signed spend counted towards the customer's tier
+  @Prop({ default: 0 })
+  spend: number;
+
+  // Points added by this transaction not yet redeemed or expired; they are
+  // used oldest-expiry first
+  @Prop({ default: 0, min: 0 })
+  remaining: number;
+
+  @Prop()
+  expiresAt: Date;
+
+  @Prop({
+    type: {
+      documentType: { type: String },
+      documentId: { type: Types.ObjectId },
+      documentNumber: { type: String }
+    }
+  })
+  reference: {
+    documentType: string;
+    documentId: Types.ObjectId;
+    documentNumber?: string;
+  };
+
+  @Prop()
+  reason: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+}
+
+export const LoyaltyTransactionSchema = SchemaFactory.createForClass(LoyaltyTransaction);
+
+// Indexes for better query performance
+LoyaltyTransactionSchema.index({ customer: 1, createdAt: -1 });
+LoyaltyTransactionSchema.index({ customer: 1, remaining: 1, expiresAt: 1 });
+LoyaltyTransactionSchema.index({ remaining: 1, expiresAt: 1 });
+LoyaltyTransactionSchema.index({ 'reference.documentId': 1 });
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { NumberingService } from './numbering.service';
+import { Counter, CounterSchema } from './schemas/counter.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Counter.name, schema: CounterSchema }
+    ])
+  ],
+  providers: [NumberingService],
+  exports: [NumberingService],
+})
+export class NumberingModule {}
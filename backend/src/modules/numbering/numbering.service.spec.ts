@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { NumberingService } from './numbering.service';
+import { Counter } from './schemas/counter.schema';
+import { DocumentSequence } from '../../config/numbering.config';
+
+describe('NumberingService', () => {
+  let service: NumberingService;
+
+  const mockCounterModel = {
+    findOneAndUpdate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NumberingService,
+        {
+          provide: getModelToken(Counter.name),
+          useValue: mockCounterModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<NumberingService>(NumberingService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('next', () => {
+    it('should increment a daily counter and format a sale number', async () => {
+      mockCounterModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ key: 'sale:20240115', sequence: 7 }),
+      });
+
+      const result = await service.next(DocumentSequence.SALE, new Date(2024, 0, 15, 10, 30));
+
+      expect(mockCounterModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { key: 'sale:20240115' },
+        { $inc: { sequence: 1 } },
+        { new: true, upsert: true }
+      );
+      expect(result).toBe('TXN202401150007');
+    });
+
+    it('should use a yearly counter for invoices', async () => {
+      mockCounterModel.findOneAndUpdate.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({ key: 'invoice:2024', sequence: 42 }),
+      });
+
+      const result = await service.next(DocumentSequence.INVOICE, new Date(2024, 5, 1));
+
+      expect(mockCounterModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { key: 'invoice:2024' },
+        { $inc: { sequence: 1 } },
+        { new: true, upsert: true }
+      );
+      expect(result).toBe('INV-2024-000042');
+    });
+
+    it('should retry without upsert when a concurrent upsert wins the race', async () => {
+      mockCounterModel.findOneAndUpdate
+        .mockReturnValueOnce({
+          exec: jest.fn().mockRejectedValue({ code: 11000 }),
+        })
+        .mockReturnValueOnce({
+          exec: jest.fn().mockResolvedValue({ key: 'refund:2024', sequence: 2 }),
+        });
+
+      const result = await service.next(DocumentSequence.REFUND, new Date(2024, 2, 3));
+
+      expect(mockCounterModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { key: 'refund:2024' },
+        { $inc: { sequence: 1 } },
+        { new: true }
+      );
+      expect(result).toBe('RFD-2024-000002');
+    });
+  });
+
+  describe('formatNumber', () => {
+    it('should omit the date part when not configured', () => {
+      const result = service.formatNumber(
+        { prefix: 'PO', separator: '-', datePart: '', padding: 5, reset: 'never' },
+        new Date(2024, 0, 1),
+        12
+      );
+
+      expect(result).toBe('PO-00012');
+    });
+  });
+
+  describe('numberingConfig', () => {
+    const loadConfig = (env: Record<string, string>) => {
+      const previous = { ...process.env };
+      Object.assign(process.env, env);
+      try {
+        jest.isolateModules(() => require('../../config/numbering.config'));
+      } finally {
+        process.env = previous;
+      }
+    };
+
+    it('should refuse a date part coarser than the reset period', () => {
+      expect(() => loadConfig({ INVOICE_NUMBER_DATE_PART: '' }))
+        .toThrow("INVOICE_NUMBER_DATE_PART '' cannot tell yearly counters apart");
+      expect(() => loadConfig({ SALE_NUMBER_DATE_PART: 'YYYYMM' }))
+        .toThrow("use 'YYYYMMDD' or finer");
+    });
+
+    it('should accept any date part for a counter that never resets', () => {
+      expect(() => loadConfig({ INVOICE_NUMBER_DATE_PART: '', INVOICE_NUMBER_RESET: 'never' })).not.toThrow();
+      expect(() => loadConfig({ INVOICE_NUMBER_DATE_PART: 'YYYYMMDD' })).not.toThrow();
+    });
+
+    it('should refuse an unknown reset period', () => {
+      expect(() => loadConfig({ REFUND_NUMBER_RESET: 'weekly' })).toThrow('REFUND_NUMBER_RESET must be one of');
+    });
+  });
+});
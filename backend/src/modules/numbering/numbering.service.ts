@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as moment from 'moment';
+import { Counter, CounterDocument } from './schemas/counter.schema';
+import { DocumentSequence, NumberingFormat, numberingConfig } from '../../config/numbering.config';
+
+const RESET_PERIOD_FORMATS: Record<NumberingFormat['reset'], string> = {
+  never: '',
+  yearly: 'YYYY',
+  monthly: 'YYYYMM',
+  daily: 'YYYYMMDD',
+};
+
+@Injectable()
+export class NumberingService {
+  private readonly formats: Record<DocumentSequence, NumberingFormat> = numberingConfig;
+
+  constructor(
+    @InjectModel(Counter.name) private counterModel: Model<CounterDocument>,
+  ) {}
+
+  /**
+   * Atomically reserves the next number of a sequence for the period containing `date`.
+   * Every call returns a distinct number, even under concurrent requests.
+   */
+  async next(sequence: DocumentSequence, date: Date = new Date()): Promise<string> {
+    const format = this.formats[sequence];
+    const key = this.getCounterKey(sequence, format, date);
+    const value = await this.increment(key);
+
+    return this.formatNumber(format, date, value);
+  }
+
+  formatNumber(format: NumberingFormat, date: Date, value: number): string {
+    const parts = [format.prefix];
+
+    if (format.datePart) {
+      parts.push(moment(date).format(format.datePart));
+    }
+
+    parts.push(value.toString().padStart(format.padding, '0'));
+
+    return parts.filter(Boolean).join(format.separator);
+  }
+
+  private getCounterKey(sequence: DocumentSequence, format: NumberingFormat, date: Date): string {
+    const periodFormat = RESET_PERIOD_FORMATS[format.reset];
+    return periodFormat ? `${sequence}:${moment(date).format(periodFormat)}` : sequence;
+  }
+
+  private async increment(key: string): Promise<number> {
+    try {
+      const counter = await this.counterModel
+        .findOneAndUpdate({ key }, { $inc: { sequence: 1 } }, { new: true, upsert: true })
+        .exec();
+      return counter.sequence;
+    } catch (error) {
+      // Two concurrent upserts of a brand new period can race on the unique key;
+      // the loser retries against the counter the winner created.
+      if (error?.code === 11000) {
+        const counter = await this.counterModel
+          .findOneAndUpdate({ key }, { $inc: { sequence: 1 } }, { new: true })
+          .exec();
+        return counter.sequence;
+      }
+      throw error;
+    }
+  }
+}
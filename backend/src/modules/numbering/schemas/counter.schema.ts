@@ -0,0 +1,16 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type CounterDocument = Counter & Document;
+
+@Schema({ timestamps: true })
+export class Counter {
+  // Sequence name plus period, e.g. "invoice:2024" or "sale:20240115"
+  @Prop({ required: true, unique: true })
+  key: string;
+
+  @Prop({ required: true, default: 0 })
+  sequence: number;
+}
+
+export const CounterSchema = SchemaFactory.createForClass(Counter);
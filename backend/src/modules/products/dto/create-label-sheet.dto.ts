@@ -0,0 +1,50 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  ArrayNotEmpty,
+  ValidateNested,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class LabelItemDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsString()
+  product: string;
+
+  @ApiPropertyOptional({ description: 'Variant ID; every active variant is labelled when omitted' })
+  @IsOptional()
+  @IsString()
+  variant?: string;
+
+  @ApiPropertyOptional({ description: 'Labels to print for each item', default: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  copies?: number;
+}
+
+export class CreateLabelSheetDto {
+  @ApiProperty({ type: [LabelItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => LabelItemDto)
+  items: LabelItemDto[];
+
+  @ApiPropertyOptional({ description: 'Print the selling price on each label', default: true })
+  @IsOptional()
+  @IsBoolean()
+  showPrice?: boolean;
+
+  @ApiPropertyOptional({ description: 'Currency symbol for the price', default: '$' })
+  @IsOptional()
+  @IsString()
+  currency?: string;
+}
@@ -1,5 +1,6 @@
-import { IsString, IsNumber, IsOptional, IsArray, IsBoolean, ValidateNested, Min } from 'class-validator';
+import { IsString, IsNumber, IsOptional, IsArray, IsBoolean, IsEnum, ValidateNested, Min } from 'class-validator';
 import { Type } from 'class-transformer';
+import { BarcodeFormat } from '../schemas/product.schema';
 
 export class PriceDto {
   @IsNumber()
@@ -29,6 +30,18 @@ export class InventoryDto {
   location?: string;
 }
 
+export class VariantPriceDto {
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  cost?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  selling?: number;
+}
+
 export class VariantDto {
   @IsString()
   name: string;
@@ -36,9 +49,43 @@ export class VariantDto {
   @IsString()
   value: string;
 
+  @IsString()
+  @IsOptional()
+  sku?: string;
+
+  @IsString()
+  @IsOptional()
+  barcode?: string;
+
+  // Detected from the barcode when omitted
+  @IsEnum(BarcodeFormat)
+  @IsOptional()
+  barcodeFormat?: BarcodeFormat;
+
+  // Overrides the product price; priceModifier applies otherwise
+  @ValidateNested()
+  @Type(() => VariantPriceDto)
+  @IsOptional()
+  price?: VariantPriceDto;
+
   @IsNumber()
   @IsOptional()
   priceModifier?: number;
+
+  // Opening stock, only accepted when the product is created
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  quantity?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  minStock?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  isActive?: boolean;
 }
 
 export class DimensionsDto {
@@ -62,6 +109,16 @@ export class CreateProductDto {
   @IsString()
   sku: string;
 
+  // EAN-13, UPC-A or Code 128; checked against its check digit
+  @IsString()
+  @IsOptional()
+  barcode?: string;
+
+  // Detected from the barcode when omitted
+  @IsEnum(BarcodeFormat)
+  @IsOptional()
+  barcodeFormat?: BarcodeFormat;
+
   @IsString()
   @IsOptional()
   description?: string;
@@ -85,6 +142,11 @@ export class CreateProductDto {
   @IsOptional()
   supplier?: string;
 
+  // Overrides the tax class assigned to the product's category
+  @IsString()
+  @IsOptional()
+  taxClass?: string;
+
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => VariantDto)
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { VariantDto } from './create-product.dto';
+
+// Variants added later start without stock; it is received like any other
+export class CreateVariantDto extends OmitType(VariantDto, ['quantity'] as const) {}
+
+export class UpdateVariantDto extends PartialType(CreateVariantDto) {}
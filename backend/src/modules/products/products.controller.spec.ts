@@ -3,6 +3,7 @@ import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
+import { StockMovementType } from '../inventory/schemas/stock-movement.schema';
 
 describe('ProductsController', () => {
   let controller: ProductsController;
@@ -193,10 +194,24 @@ describe('ProductsController', () => {
       const updatedProduct = { ...mockProduct, stock: 150 };
       mockProductsService.updateStock.mockResolvedValue(updatedProduct);
 
-      const result = await controller.updateStock('507f1f77bcf86cd799439011', 150);
-
-      expect(service.updateStock).toHaveBeenCalledWith('507f1f77bcf86cd799439011', 150);
-      expect(result.stock).toBe(150);
+      const result = await controller.updateStock(
+        '507f1f77bcf86cd799439011',
+        50,
+        'add',
+        'Stock count',
+        'store-1',
+        undefined,
+        { user: { id: 'user-1' } },
+      );
+
+      expect(service.updateStock).toHaveBeenCalledWith('507f1f77bcf86cd799439011', 50, 'add', {
+        type: StockMovementType.ADJUSTMENT,
+        variant: undefined,
+        location: 'store-1',
+        userId: 'user-1',
+        reason: 'Stock count',
+      });
+      expect(result).toBe(updatedProduct);
     });
   });
 });
@@ -9,7 +9,10 @@ import {
   Query,
   UseGuards,
   HttpStatus,
+  Request,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -18,20 +21,28 @@ import {
   ApiQuery,
   ApiBearerAuth,
 } from '@nestjs/swagger';
-import { ProductsService } from './products.service';
+import { ProductsService, ProductHistory } from './products.service';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
+import { CreateVariantDto, UpdateVariantDto } from './dto/variant.dto';
+import { CreateLabelSheetDto } from './dto/create-label-sheet.dto';
 import { Product } from './schemas/product.schema';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from '../../config/permissions.config';
+import { StockMovementType } from '../inventory/schemas/stock-movement.schema';
 
 @ApiTags('Products')
 @Controller('products')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.PRODUCTS_VIEW)
 @ApiBearerAuth()
 export class ProductsController {
   constructor(private readonly productsService: ProductsService) {}
 
   @Post()
+  @RequirePermissions(Permission.PRODUCTS_CREATE)
   @ApiOperation({ summary: 'Create a new product' })
   @ApiResponse({
     status: HttpStatus.CREATED,
@@ -46,6 +57,27 @@ export class ProductsController {
     return this.productsService.create(createProductDto);
   }
 
+  @Post('labels')
+  @ApiOperation({ summary: 'Generate a PDF sheet of barcode labels for selected products' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Label sheet generated successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Product or variant not found',
+  })
+  async generateLabelSheet(
+    @Body() createLabelSheetDto: CreateLabelSheetDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const pdf = await this.productsService.generateLabelSheet(createLabelSheetDto);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'inline; filename="barcode-labels.pdf"');
+    res.status(HttpStatus.CREATED).send(pdf);
+  }
+
   @Get()
   @ApiOperation({ summary: 'Get all products with filtering and pagination' })
   @ApiQuery({ name: 'search', required: false, description: 'Search in name and description' })
@@ -69,13 +101,14 @@ export class ProductsController {
 
   @Get('low-stock')
   @ApiOperation({ summary: 'Get products with low stock' })
+  @ApiQuery({ name: 'location', required: false, description: 'Only products low on stock at this location' })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Low stock products retrieved successfully',
     type: [Product],
   })
-  getLowStockProducts(): Promise<Product[]> {
-    return this.productsService.getLowStockProducts();
+  getLowStockProducts(@Query('location') location?: string): Promise<Product[]> {
+    return this.productsService.getLowStockProducts(location);
   }
 
   @Get('categories')
@@ -137,7 +170,23 @@ export class ProductsController {
     return this.productsService.findOne(id);
   }
 
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Get the price and stock history of a product' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Product history retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Product not found',
+  })
+  getHistory(@Param('id') id: string): Promise<ProductHistory> {
+    return this.productsService.getHistory(id);
+  }
+
   @Patch(':id')
+  @RequirePermissions(Permission.PRODUCTS_UPDATE)
   @ApiOperation({ summary: 'Update product by ID' })
   @ApiParam({ name: 'id', description: 'Product ID' })
   @ApiResponse({
@@ -161,10 +210,14 @@ export class ProductsController {
   }
 
   @Patch(':id/stock')
+  @RequirePermissions(Permission.INVENTORY_ADJUST)
   @ApiOperation({ summary: 'Update product stock' })
   @ApiParam({ name: 'id', description: 'Product ID' })
   @ApiQuery({ name: 'quantity', required: true, description: 'Quantity to add/subtract' })
   @ApiQuery({ name: 'operation', required: false, description: 'Operation: add or subtract (default: subtract)' })
+  @ApiQuery({ name: 'reason', required: false, description: 'Reason recorded in the stock movement ledger' })
+  @ApiQuery({ name: 'location', required: false, description: 'Location ID (default: the default location)' })
+  @ApiQuery({ name: 'variant', required: false, description: 'Variant ID, required for products with variants' })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Stock updated successfully',
@@ -178,11 +231,85 @@ export class ProductsController {
     @Param('id') id: string,
     @Query('quantity') quantity: number,
     @Query('operation') operation: 'add' | 'subtract' = 'subtract',
+    @Query('reason') reason: string,
+    @Query('location') location: string,
+    @Query('variant') variant: string,
+    @Request() req,
+  ): Promise<Product> {
+    return this.productsService.updateStock(id, quantity, operation, {
+      type: StockMovementType.ADJUSTMENT,
+      variant,
+      location,
+      userId: req.user.id,
+      reason,
+    });
+  }
+
+  @Post(':id/variants')
+  @RequirePermissions(Permission.PRODUCTS_UPDATE)
+  @ApiOperation({ summary: 'Add a variant to a product' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Variant added successfully',
+    type: Product,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input, SKU already exists or the product still holds stock',
+  })
+  addVariant(
+    @Param('id') id: string,
+    @Body() createVariantDto: CreateVariantDto,
+  ): Promise<Product> {
+    return this.productsService.addVariant(id, createVariantDto);
+  }
+
+  @Patch(':id/variants/:variantId')
+  @RequirePermissions(Permission.PRODUCTS_UPDATE)
+  @ApiOperation({ summary: 'Update a product variant' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiParam({ name: 'variantId', description: 'Variant ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Variant updated successfully',
+    type: Product,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Product variant not found',
+  })
+  updateVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
+    @Body() updateVariantDto: UpdateVariantDto,
+  ): Promise<Product> {
+    return this.productsService.updateVariant(id, variantId, updateVariantDto);
+  }
+
+  @Delete(':id/variants/:variantId')
+  @RequirePermissions(Permission.PRODUCTS_DELETE)
+  @ApiOperation({ summary: 'Remove a product variant without stock' })
+  @ApiParam({ name: 'id', description: 'Product ID' })
+  @ApiParam({ name: 'variantId', description: 'Variant ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Variant removed successfully',
+    type: Product,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Variant still holds stock',
+  })
+  removeVariant(
+    @Param('id') id: string,
+    @Param('variantId') variantId: string,
   ): Promise<Product> {
-    return this.productsService.updateStock(id, quantity, operation);
+    return this.productsService.removeVariant(id, variantId);
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.PRODUCTS_DELETE)
   @ApiOperation({ summary: 'Delete product by ID' })
   @ApiParam({ name: 'id', description: 'Product ID' })
   @ApiResponse({
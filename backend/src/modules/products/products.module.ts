@@ -3,15 +3,23 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { ProductsService } from './products.service';
 import { ProductsController } from './products.controller';
 import { Product, ProductSchema } from './schemas/product.schema';
+import { InventoryModule } from '../inventory/inventory.module';
+import { BarcodeService } from './services/barcode.service';
+import { BarcodeLabelService } from './services/barcode-label.service';
+import { AuthModule } from '../auth/auth.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Product.name, schema: ProductSchema }
-    ])
+    ]),
+    InventoryModule,
+    AuthModule,
+    AuditModule,
   ],
   controllers: [ProductsController],
-  providers: [ProductsService],
+  providers: [ProductsService, BarcodeService, BarcodeLabelService],
   exports: [ProductsService],
 })
 export class ProductsModule {}
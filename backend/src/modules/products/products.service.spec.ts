@@ -4,6 +4,11 @@ import { ProductsService } from './products.service';
 import { Product } from './schemas/product.schema';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
+import { InventoryService } from '../inventory/inventory.service';
+import { BarcodeService } from './services/barcode.service';
+import { BarcodeLabelService } from './services/barcode-label.service';
+import { AuditService } from '../audit/audit.service';
+import { StockMovementType } from '../inventory/schemas/stock-movement.schema';
 import { Model, Types } from 'mongoose';
 
 describe('ProductsService', () => {
@@ -14,6 +19,8 @@ describe('ProductsService', () => {
     _id: '507f1f77bcf86cd799439011',
     name: 'Test Product',
     sku: 'TEST-001',
+    barcode: '4006381333931',
+    barcodeFormat: 'ean13',
     description: 'Test Description',
     price: {
       cost: 50.00,
@@ -25,9 +32,11 @@ describe('ProductsService', () => {
       minStock: 10,
       location: 'Main Store'
     },
+    stockLevels: [],
     category: 'Electronics',
     subcategory: 'Smartphones',
     supplier: new Types.ObjectId('507f1f77bcf86cd799439012'),
+    taxClass: undefined,
     variants: [],
     images: [],
     weight: 0.5,
@@ -52,6 +61,16 @@ describe('ProductsService', () => {
     save: jest.fn(),
   };
 
+  const mockInventoryService = {
+    applyStockChange: jest.fn(),
+    initialiseStockLevels: jest.fn(),
+    getProductMovements: jest.fn(),
+  };
+
+  const mockAuditService = {
+    getEntityHistory: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -60,6 +79,16 @@ describe('ProductsService', () => {
           provide: getModelToken(Product.name),
           useValue: mockProductModel,
         },
+        {
+          provide: InventoryService,
+          useValue: mockInventoryService,
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+        BarcodeService,
+        BarcodeLabelService,
       ],
     }).compile();
 
@@ -191,6 +220,39 @@ describe('ProductsService', () => {
     });
   });
 
+  describe('getHistory', () => {
+    it('should combine selling price changes with the stock movements', async () => {
+      mockProductModel.findById.mockReturnValue({
+        populate: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(mockProduct),
+      });
+      const created = new Date('2024-01-01');
+      const repriced = new Date('2024-02-01');
+      mockAuditService.getEntityHistory.mockResolvedValue([
+        { action: 'create', after: { price: { cost: 50, selling: 100 } }, createdAt: created },
+        { action: 'update', before: { price: { cost: 50, selling: 100 } }, after: { price: { cost: 55, selling: 100 } }, createdAt: new Date('2024-01-15') },
+        { action: 'update', before: { price: { cost: 55, selling: 100 } }, after: { price: { cost: 55, selling: 120 } }, createdAt: repriced },
+        { action: 'update', before: { name: 'Old' }, after: { name: 'New' }, createdAt: new Date('2024-03-01') },
+      ]);
+      mockInventoryService.getProductMovements.mockResolvedValue([
+        { type: StockMovementType.SALE, quantity: -2, createdAt: repriced },
+        { type: StockMovementType.RECEIPT, quantity: 10, createdAt: created },
+      ]);
+
+      const history = await service.getHistory('507f1f77bcf86cd799439011');
+
+      expect(mockAuditService.getEntityHistory).toHaveBeenCalledWith('Product', '507f1f77bcf86cd799439011');
+      expect(history.priceHistory).toEqual([
+        { date: created, price: 100 },
+        { date: repriced, price: 120 },
+      ]);
+      expect(history.stockHistory).toEqual([
+        { date: created, quantity: 10, operation: StockMovementType.RECEIPT },
+        { date: repriced, quantity: -2, operation: StockMovementType.SALE },
+      ]);
+    });
+  });
+
   describe('findBySku', () => {
     it('should return a product by SKU', async () => {
       const mockQuery = {
@@ -277,38 +339,57 @@ describe('ProductsService', () => {
   });
 
   describe('updateStock', () => {
-    it('should update product stock', async () => {
-      const mockProductWithStock = { 
-        ...mockProduct, 
-        inventory: { ...mockProduct.inventory, quantity: 100 } 
-      };
-      
+    it('should record a stock movement and return the updated product', async () => {
       const updatedProduct = { 
         ...mockProduct, 
         inventory: { ...mockProduct.inventory, quantity: 50 } 
       };
 
-      // Mock findById for initial product lookup
-      mockProductModel.findById.mockReturnValue({
-        exec: jest.fn().mockResolvedValue(mockProductWithStock),
+      mockInventoryService.applyStockChange.mockResolvedValue({
+        quantity: -50,
+        quantityBefore: 100,
+        quantityAfter: 50,
       });
 
-      // Mock findByIdAndUpdate for stock update
-      const mockUpdateQuery = {
+      const mockFindQuery = {
         populate: jest.fn().mockReturnThis(),
         exec: jest.fn().mockResolvedValue(updatedProduct),
       };
-      mockProductModel.findByIdAndUpdate.mockReturnValue(mockUpdateQuery);
+      mockProductModel.findById.mockReturnValue(mockFindQuery);
 
       const result = await service.updateStock('507f1f77bcf86cd799439011', 50);
 
-      expect(mockProductModel.findById).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
-      expect(mockProductModel.findByIdAndUpdate).toHaveBeenCalledWith(
+      expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
         '507f1f77bcf86cd799439011',
-        { 'inventory.quantity': 50 },
-        { new: true }
+        -50,
+        { type: StockMovementType.ADJUSTMENT }
       );
+      expect(mockProductModel.findById).toHaveBeenCalledWith('507f1f77bcf86cd799439011');
       expect(result.inventory.quantity).toBe(50);
     });
+
+    it('should pass a positive delta and movement details when adding stock', async () => {
+      mockInventoryService.applyStockChange.mockResolvedValue({});
+      mockProductModel.findById.mockReturnValue({
+        populate: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(mockProduct),
+      });
+
+      await service.updateStock('507f1f77bcf86cd799439011', 20, 'add', {
+        type: StockMovementType.RECEIPT,
+        userId: '507f1f77bcf86cd799439013',
+        reason: 'Delivery',
+      });
+
+      expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        20,
+        {
+          type: StockMovementType.RECEIPT,
+          userId: '507f1f77bcf86cd799439013',
+          reason: 'Delivery',
+        }
+      );
+    });
   });
 });
@@ -1,28 +1,87 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Product, ProductDocument } from './schemas/product.schema';
+import { Product, ProductDocument, ProductVariant, BarcodeFormat } from './schemas/product.schema';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
+import { CreateVariantDto, UpdateVariantDto } from './dto/variant.dto';
+import { CreateLabelSheetDto } from './dto/create-label-sheet.dto';
+import { InventoryService, StockChange } from '../inventory/inventory.service';
+import { StockMovementType } from '../inventory/schemas/stock-movement.schema';
+import { BarcodeService } from './services/barcode.service';
+import { BarcodeLabel, BarcodeLabelService } from './services/barcode-label.service';
+import { AuditService } from '../audit/audit.service';
+
+export interface ResolvedVariant {
+  variant?: ProductVariant;
+  sku: string;
+  // Product name, qualified with the variant when there is one
+  name: string;
+  unitPrice: number;
+  unitCost: number;
+  stock: number;
+}
+
+export interface ProductHistory {
+  priceHistory: { date: Date; price: number }[];
+  stockHistory: { date: Date; quantity: number; operation: string }[];
+}
 
 @Injectable()
 export class ProductsService {
   constructor(
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    private inventoryService: InventoryService,
+    private barcodeService: BarcodeService,
+    private barcodeLabelService: BarcodeLabelService,
+    private auditService: AuditService,
   ) {}
 
   async create(createProductDto: CreateProductDto): Promise<Product> {
+    const barcoded = [createProductDto, ...(createProductDto.variants || [])].filter(item => item.barcode);
+    const barcodes = barcoded.flatMap(item => this.barcodeService.lookupCandidates(item.barcode));
+
+    if (new Set(barcodes).size !== barcodes.length) {
+      throw new BadRequestException('Barcodes must be unique across the product and its variants');
+    }
+
+    for (const item of barcoded) {
+      await this.checkBarcode(item);
+    }
+
+    const { variants = [], ...fields } = createProductDto;
+    const skus = [fields.sku, ...variants.filter(variant => variant.sku).map(variant => variant.sku)];
+
+    if (new Set(skus).size !== skus.length) {
+      throw new BadRequestException('SKUs must be unique across the product and its variants');
+    }
+
     // Check if SKU already exists
-    const existingProduct = await this.productModel.findOne({ 
-      sku: createProductDto.sku 
+    const existingProduct = await this.productModel.findOne({
+      $or: [{ sku: { $in: skus } }, { 'variants.sku': { $in: skus } }]
     });
     
     if (existingProduct) {
       throw new BadRequestException('SKU already exists');
     }
 
-    const createdProduct = new this.productModel(createProductDto);
-    return createdProduct.save();
+    const product: any = { ...fields };
+
+    // Stock is held on the variants; the product carries their total
+    if (variants.length) {
+      product.variants = variants.map(({ quantity, ...variant }) => this.buildVariant(variant, quantity));
+      product.inventory = {
+        ...fields.inventory,
+        quantity: variants.reduce((total, variant) => total + (variant.quantity || 0), 0),
+      };
+    }
+
+    const createdProduct = await new this.productModel(product).save();
+
+    // Opening stock is held at the default location
+    await this.inventoryService.initialiseStockLevels(createdProduct._id);
+
+    return this.productModel.findById(createdProduct._id).exec();
   }
 
   async findAll(query: any = {}): Promise<Product[]> {
@@ -53,6 +112,9 @@ export class ProductsService {
 
     // Supplier filter
     if (supplier) {
+      if (!Types.ObjectId.isValid(supplier)) {
+        throw new BadRequestException('Invalid supplier ID');
+      }
       filter.supplier = new Types.ObjectId(supplier);
     }
 
@@ -105,17 +167,69 @@ export class ProductsService {
     return product;
   }
 
+  /**
+   * Selling price changes from the audit trail and the latest stock
+   * movements, both oldest first
+   */
+  async getHistory(id: string): Promise<ProductHistory> {
+    await this.findOne(id);
+
+    const [changes, movements] = await Promise.all([
+      this.auditService.getEntityHistory(Product.name, id),
+      this.inventoryService.getProductMovements(id, { limit: 100 }),
+    ]);
+
+    return {
+      priceHistory: changes
+        .filter(change => change.after?.price?.selling !== undefined
+          && change.after.price.selling !== change.before?.price?.selling)
+        .map(change => ({ date: change.createdAt, price: change.after.price.selling })),
+      stockHistory: movements
+        .map((movement: any) => ({ date: movement.createdAt, quantity: movement.quantity, operation: movement.type }))
+        .reverse(),
+    };
+  }
+
   async findBySku(sku: string): Promise<Product> {
+    // Fall back to the variant SKUs
+    const product =
+      await this.productModel
+        .findOne({ sku })
+        .populate('supplier', 'name email phone')
+        .exec() ??
+      await this.productModel
+        .findOne({ 'variants.sku': sku })
+        .populate('supplier', 'name email phone')
+        .exec();
+
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    return product;
+  }
+
+  /**
+   * Finds the product a scanned barcode belongs to, and the variant when the
+   * barcode is a variant's.
+   */
+  async findByBarcode(code: string): Promise<{ product: Product; variant?: ProductVariant }> {
+    const candidates = this.barcodeService.lookupCandidates(code);
+
     const product = await this.productModel
-      .findOne({ sku })
+      .findOne({ $or: [{ barcode: { $in: candidates } }, { 'variants.barcode': { $in: candidates } }] })
       .populate('supplier', 'name email phone')
       .exec();
 
     if (!product) {
-      throw new NotFoundException('Product not found');
+      throw new NotFoundException(`No product found for barcode ${code}`);
     }
 
-    return product;
+    const variant = candidates.includes(product.barcode)
+      ? undefined
+      : product.variants.find(candidate => candidates.includes(candidate.barcode));
+
+    return { product, variant };
   }
 
   async update(id: string, updateProductDto: UpdateProductDto): Promise<Product> {
@@ -133,10 +247,27 @@ export class ProductsService {
       if (existingProduct) {
         throw new BadRequestException('SKU already exists');
       }
+
+      if (await this.productModel.exists({ 'variants.sku': updateProductDto.sku })) {
+        throw new BadRequestException('SKU already exists');
+      }
     }
 
+    await this.checkBarcode(updateProductDto, { product: id });
+
+    // Stock quantities only change through the inventory ledger, and variants
+    // through their own endpoints
+    const { inventory, variants, ...fields } = updateProductDto;
+    const update: any = inventory
+      ? {
+          ...fields,
+          ...(inventory.minStock !== undefined && { 'inventory.minStock': inventory.minStock }),
+          ...(inventory.location !== undefined && { 'inventory.location': inventory.location }),
+        }
+      : fields;
+
     const updatedProduct = await this.productModel
-      .findByIdAndUpdate(id, updateProductDto, { new: true })
+      .findByIdAndUpdate(id, update, { new: true })
       .populate('supplier', 'name email phone')
       .exec();
 
@@ -159,46 +290,204 @@ export class ProductsService {
     }
   }
 
-  async updateStock(id: string, quantity: number, operation: 'add' | 'subtract' = 'subtract'): Promise<Product> {
+  async updateStock(
+    id: string,
+    quantity: number,
+    operation: 'add' | 'subtract' = 'subtract',
+    change: Partial<StockChange> = {},
+  ): Promise<Product> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid product ID');
     }
 
-    const product = await this.productModel.findById(id).exec();
-    
+    const delta = operation === 'add' ? Number(quantity) : -Number(quantity);
+
+    await this.inventoryService.applyStockChange(id, delta, {
+      ...change,
+      type: change.type || StockMovementType.ADJUSTMENT,
+    });
+
+    return this.productModel
+      .findById(id)
+      .populate('supplier', 'name email phone')
+      .exec();
+  }
+
+  async getLowStockProducts(location?: string): Promise<Product[]> {
+    if (location && !Types.ObjectId.isValid(location)) {
+      throw new BadRequestException('Invalid location ID');
+    }
+
+    // Location filter: compare the stock held there with its own minimum
+    const isLow = (prefix: string) => location
+      ? {
+          $gt: [
+            {
+              $size: {
+                $filter: {
+                  input: { $ifNull: [`${prefix}stockLevels`, []] },
+                  as: 'level',
+                  cond: {
+                    $and: [
+                      { $eq: ['$$level.location', new Types.ObjectId(location)] },
+                      { $lte: ['$$level.quantity', '$$level.minStock'] }
+                    ]
+                  }
+                }
+              }
+            },
+            0
+          ]
+        }
+      : { $lte: [`${prefix}inventory.quantity`, `${prefix}inventory.minStock`] };
+
+    // Products with variants are low when any of their variants is
+    const condition = {
+      $cond: [
+        { $gt: [{ $size: { $ifNull: ['$variants', []] } }, 0] },
+        { $anyElementTrue: [{ $map: { input: '$variants', as: 'variant', in: isLow('$$variant.') } }] },
+        isLow('$')
+      ]
+    };
+
+    return this.productModel
+      .find({ $expr: condition })
+      .populate('supplier', 'name email phone')
+      .exec();
+  }
+
+  async addVariant(id: string, createVariantDto: CreateVariantDto): Promise<Product> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid product ID');
+    }
+
+    if (createVariantDto.sku) {
+      await this.assertSkuAvailable(createVariantDto.sku);
+    }
+
+    await this.checkBarcode(createVariantDto);
+
+    // Stock already held on a product without variants would belong to none
+    // of them, so the first variant can only be added once it is sold out
+    const product = await this.productModel
+      .findOneAndUpdate(
+        { _id: id, $or: [{ 'variants.0': { $exists: true } }, { 'inventory.quantity': { $lte: 0 } }] },
+        { $push: { variants: this.buildVariant(createVariantDto) } },
+        { new: true }
+      )
+      .populate('supplier', 'name email phone')
+      .exec();
+
     if (!product) {
-      throw new NotFoundException('Product not found');
+      if (!(await this.productModel.exists({ _id: id }))) {
+        throw new NotFoundException('Product not found');
+      }
+      throw new BadRequestException('Product has stock; adjust it to zero before adding variants');
     }
 
-    if (operation === 'subtract' && product.inventory.quantity < quantity) {
-      throw new BadRequestException('Insufficient stock');
+    return product;
+  }
+
+  async updateVariant(id: string, variantId: string, updateVariantDto: UpdateVariantDto): Promise<Product> {
+    if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(variantId)) {
+      throw new BadRequestException('Invalid product or variant ID');
     }
 
-    const newQuantity = operation === 'add' 
-      ? product.inventory.quantity + quantity
-      : product.inventory.quantity - quantity;
+    if (updateVariantDto.sku) {
+      await this.assertSkuAvailable(updateVariantDto.sku, variantId);
+    }
 
-    const updatedProduct = await this.productModel
-      .findByIdAndUpdate(
-        id, 
-        { 'inventory.quantity': newQuantity },
+    await this.checkBarcode(updateVariantDto, { variant: variantId });
+
+    const update: any = {};
+    for (const [field, value] of Object.entries(updateVariantDto)) {
+      if (value !== undefined) {
+        update[field === 'minStock' ? 'variants.$.inventory.minStock' : `variants.$.${field}`] = value;
+      }
+    }
+
+    const product = await this.productModel
+      .findOneAndUpdate(
+        { _id: id, 'variants._id': new Types.ObjectId(variantId) },
+        { $set: update },
         { new: true }
       )
       .populate('supplier', 'name email phone')
       .exec();
 
-    return updatedProduct;
+    if (!product) {
+      throw new NotFoundException('Product variant not found');
+    }
+
+    return product;
   }
 
-  async getLowStockProducts(): Promise<Product[]> {
-    return this.productModel
-      .find({
-        $expr: {
-          $lte: ['$inventory.quantity', '$inventory.minStock']
-        }
-      })
+  async removeVariant(id: string, variantId: string): Promise<Product> {
+    if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(variantId)) {
+      throw new BadRequestException('Invalid product or variant ID');
+    }
+
+    const variantObjectId = new Types.ObjectId(variantId);
+
+    // Only variants without stock can go, so the product total stays correct
+    const product = await this.productModel
+      .findOneAndUpdate(
+        { _id: id, variants: { $elemMatch: { _id: variantObjectId, 'inventory.quantity': { $lte: 0 } } } },
+        { $pull: { variants: { _id: variantObjectId } } },
+        { new: true }
+      )
       .populate('supplier', 'name email phone')
       .exec();
+
+    if (!product) {
+      if (!(await this.productModel.exists({ _id: id, 'variants._id': variantObjectId }))) {
+        throw new NotFoundException('Product variant not found');
+      }
+      throw new BadRequestException('Variant still holds stock; adjust it to zero before removing it');
+    }
+
+    return product;
+  }
+
+  /**
+   * Resolves the variant a sale or invoice line refers to, with the SKU, price
+   * and stock that apply to it. Products with variants are only sold per
+   * variant.
+   */
+  resolveVariant(product: Product, variantId?: string | Types.ObjectId): ResolvedVariant {
+    const variants = product.variants || [];
+
+    if (!variantId) {
+      if (variants.length) {
+        throw new BadRequestException(`Product ${product.name} has variants; specify which variant`);
+      }
+      return {
+        sku: product.sku,
+        name: product.name,
+        unitPrice: product.price.selling,
+        unitCost: product.price.cost,
+        stock: product.inventory.quantity,
+      };
+    }
+
+    const variant = variants.find(candidate => candidate._id.toString() === variantId.toString());
+    if (!variant) {
+      throw new NotFoundException(`Variant not found for product ${product.name}`);
+    }
+
+    const name = `${product.name} (${variant.name}: ${variant.value})`;
+    if (!variant.isActive) {
+      throw new BadRequestException(`${name} is not available`);
+    }
+
+    return {
+      variant,
+      sku: variant.sku || product.sku,
+      name,
+      unitPrice: variant.price?.selling ?? product.price.selling + (variant.priceModifier || 0),
+      unitCost: variant.price?.cost ?? product.price.cost,
+      stock: variant.inventory.quantity,
+    };
   }
 
   async getCategories(): Promise<string[]> {
@@ -211,4 +500,104 @@ export class ProductsService {
       .where('category', category)
       .exec();
   }
+
+  /**
+   * Renders a PDF sheet of barcode labels. Products with variants get a label
+   * per active variant unless one is selected; items without a barcode are
+   * labelled with their SKU as Code 128.
+   */
+  async generateLabelSheet(createLabelSheetDto: CreateLabelSheetDto): Promise<Buffer> {
+    const labels: BarcodeLabel[] = [];
+
+    for (const item of createLabelSheetDto.items) {
+      const product = await this.findOne(item.product);
+      const variantIds = item.variant
+        ? [item.variant]
+        : product.variants?.length
+          ? product.variants.filter(variant => variant.isActive).map(variant => variant._id.toString())
+          : [undefined];
+
+      for (const variantId of variantIds) {
+        const { variant, sku, name, unitPrice } = this.resolveVariant(product, variantId);
+        const barcoded = variant || product;
+        const label: BarcodeLabel = barcoded.barcode
+          ? { name, code: barcoded.barcode, format: barcoded.barcodeFormat as BarcodeFormat, price: unitPrice }
+          : { name, code: sku, format: BarcodeFormat.CODE_128, price: unitPrice };
+
+        labels.push(...Array(item.copies || 1).fill(label));
+      }
+    }
+
+    if (labels.length > BarcodeLabelService.MAX_LABELS) {
+      throw new BadRequestException(`A label sheet holds at most ${BarcodeLabelService.MAX_LABELS} labels`);
+    }
+
+    return this.barcodeLabelService.render(labels, {
+      showPrice: createLabelSheetDto.showPrice ?? true,
+      currency: createLabelSheetDto.currency,
+    });
+  }
+
+  private buildVariant(variantDto: CreateVariantDto, quantity = 0) {
+    const { minStock, ...fields } = variantDto;
+
+    return {
+      ...fields,
+      inventory: { quantity, minStock: minStock || 0 },
+      stockLevels: [],
+    };
+  }
+
+  // Variant SKUs share one namespace with the product SKUs
+  private async assertSkuAvailable(sku: string, exceptVariant?: string): Promise<void> {
+    const existing = await this.productModel.findOne({
+      $or: [
+        { sku },
+        {
+          variants: {
+            $elemMatch: {
+              sku,
+              ...(exceptVariant && { _id: { $ne: new Types.ObjectId(exceptVariant) } }),
+            },
+          },
+        },
+      ],
+    });
+
+    if (existing) {
+      throw new BadRequestException('SKU already exists');
+    }
+  }
+
+  // Validates a barcode against its check digit and fills in its format
+  private async checkBarcode(
+    item: { barcode?: string; barcodeFormat?: BarcodeFormat },
+    except: { product?: string; variant?: string } = {},
+  ): Promise<void> {
+    if (!item.barcode) {
+      return;
+    }
+
+    item.barcodeFormat = this.barcodeService.validate(item.barcode, item.barcodeFormat);
+
+    // UPC-A and EAN-13 forms of the same code identify the same item
+    const barcode = { $in: this.barcodeService.lookupCandidates(item.barcode) };
+    const existing = await this.productModel.findOne({
+      $or: [
+        { barcode, ...(except.product && { _id: { $ne: except.product } }) },
+        {
+          variants: {
+            $elemMatch: {
+              barcode,
+              ...(except.variant && { _id: { $ne: new Types.ObjectId(except.variant) } }),
+            },
+          },
+        },
+      ],
+    });
+
+    if (existing) {
+      throw new BadRequestException(`Barcode ${item.barcode} is already assigned`);
+    }
+  }
 }
@@ -1,8 +1,81 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { auditPlugin } from '../../audit/audit.plugin';
 
 export type ProductDocument = Product & Document;
 
+export enum BarcodeFormat {
+  EAN_13 = 'ean13',
+  UPC_A = 'upca',
+  CODE_128 = 'code128',
+}
+
+@Schema({ _id: false })
+export class ProductStockLevel {
+  @Prop({ type: Types.ObjectId, ref: 'Location', required: true })
+  location: Types.ObjectId;
+
+  @Prop({ default: 0 })
+  quantity: number;
+
+  @Prop({ default: 0 })
+  minStock: number;
+}
+
+@Schema()
+export class ProductVariant {
+  _id: Types.ObjectId;
+
+  // Option name and value, e.g. Size / M
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true })
+  value: string;
+
+  @Prop()
+  sku: string;
+
+  @Prop()
+  barcode: string;
+
+  @Prop({ enum: Object.values(BarcodeFormat) })
+  barcodeFormat: string;
+
+  // Overrides the product price; otherwise priceModifier is added to it
+  @Prop({
+    type: {
+      cost: { type: Number, min: 0 },
+      selling: { type: Number, min: 0 }
+    }
+  })
+  price: {
+    cost?: number;
+    selling?: number;
+  };
+
+  @Prop({ default: 0 })
+  priceModifier: number;
+
+  @Prop({
+    type: {
+      quantity: { type: Number, default: 0 },
+      minStock: { type: Number, default: 0 }
+    },
+    default: {}
+  })
+  inventory: {
+    quantity: number;
+    minStock: number;
+  };
+
+  @Prop([ProductStockLevel])
+  stockLevels: ProductStockLevel[];
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
 @Schema({ timestamps: true })
 export class Product {
   @Prop({ required: true, unique: true })
@@ -11,6 +84,12 @@ export class Product {
   @Prop({ required: true, unique: true })
   sku: string;
 
+  @Prop()
+  barcode: string;
+
+  @Prop({ enum: Object.values(BarcodeFormat) })
+  barcodeFormat: string;
+
   @Prop()
   description: string;
 
@@ -48,19 +127,21 @@ export class Product {
     location: string;
   };
 
+  // Stock held per location; inventory.quantity is the total across them
+  @Prop([ProductStockLevel])
+  stockLevels: ProductStockLevel[];
+
   @Prop({ type: Types.ObjectId, ref: 'Supplier' })
   supplier: Types.ObjectId;
 
-  @Prop([{
-    name: String,
-    value: String,
-    priceModifier: Number
-  }])
-  variants: Array<{
-    name: string;
-    value: string;
-    priceModifier: number;
-  }>;
+  // Overrides the tax class assigned to the product's category
+  @Prop({ type: Types.ObjectId, ref: 'TaxClass' })
+  taxClass: Types.ObjectId;
+
+  // Products with variants hold their stock on the variants; the product
+  // inventory and stock levels are then the totals across them
+  @Prop([ProductVariant])
+  variants: ProductVariant[];
 
   @Prop([String])
   images: string[];
@@ -87,9 +168,16 @@ export class Product {
 
 export const ProductSchema = SchemaFactory.createForClass(Product);
 
+ProductSchema.plugin(auditPlugin, { entity: Product.name });
+
 // Indexes for better query performance
 ProductSchema.index({ name: 'text', description: 'text' });
 ProductSchema.index({ sku: 1 });
+ProductSchema.index({ barcode: 1 });
 ProductSchema.index({ category: 1 });
 ProductSchema.index({ 'inventory.quantity': 1 });
 ProductSchema.index({ supplier: 1 });
+ProductSchema.index({ taxClass: 1 });
+ProductSchema.index({ 'stockLevels.location': 1 });
+ProductSchema.index({ 'variants.sku': 1 });
+ProductSchema.index({ 'variants.barcode': 1 });
@@ -0,0 +1,61 @@
+import { BadRequestException } from '@nestjs/common';
+import { BarcodeService } from './barcode.service';
+import { BarcodeFormat } from '../schemas/product.schema';
+
+describe('BarcodeService', () => {
+  const service = new BarcodeService();
+
+  describe('validate', () => {
+    it('should accept EAN-13 and UPC-A codes with a correct check digit', () => {
+      expect(service.validate('4006381333931')).toBe(BarcodeFormat.EAN_13);
+      expect(service.validate('036000291452')).toBe(BarcodeFormat.UPC_A);
+    });
+
+    it('should reject a wrong check digit and name the expected one', () => {
+      expect(() => service.validate('4006381333932')).toThrow(BadRequestException);
+      expect(() => service.validate('036000291453')).toThrow('check digit should be 2');
+    });
+
+    it('should reject digits that do not fit the requested format', () => {
+      expect(() => service.validate('036000291452', BarcodeFormat.EAN_13)).toThrow('expected 13 digits');
+    });
+
+    it('should treat anything else as Code 128 and only allow printable ASCII', () => {
+      expect(service.validate('SKU-001')).toBe(BarcodeFormat.CODE_128);
+      expect(() => service.validate('SKUé')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('lookupCandidates', () => {
+    it('should match a UPC-A with its EAN-13 form', () => {
+      expect(service.lookupCandidates('036000291452')).toEqual(['036000291452', '0036000291452']);
+      expect(service.lookupCandidates('0036000291452')).toEqual(['0036000291452', '036000291452']);
+      expect(service.lookupCandidates(' SKU-001 ')).toEqual(['SKU-001']);
+    });
+  });
+
+  describe('encode', () => {
+    it('should encode EAN-13 as 95 modules with guard bars', () => {
+      const modules = service.encode('4006381333931', BarcodeFormat.EAN_13);
+
+      expect(modules).toHaveLength(95);
+      expect(modules.startsWith('101')).toBe(true);
+      expect(modules.slice(45, 50)).toBe('01010');
+      expect(modules.endsWith('101')).toBe(true);
+    });
+
+    it('should encode UPC-A as the EAN-13 with a leading zero', () => {
+      expect(service.encode('036000291452', BarcodeFormat.UPC_A))
+        .toBe(service.encode('0036000291452', BarcodeFormat.EAN_13));
+    });
+
+    it('should frame Code 128 with the start B and stop symbols', () => {
+      const modules = service.encode('AB', BarcodeFormat.CODE_128);
+
+      // start, two data characters and the check symbol are 11 modules each
+      expect(modules).toHaveLength(11 * 4 + 13);
+      expect(modules.startsWith('11010010000')).toBe(true);
+      expect(modules.endsWith('1100011101011')).toBe(true);
+    });
+  });
+});
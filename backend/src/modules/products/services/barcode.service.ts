@@ -0,0 +1,155 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { BarcodeFormat } from '../schemas/product.schema';
+
+// EAN-13 digit patterns; G is the mirror image of R
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_R = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+const EAN_G = EAN_R.map(pattern => pattern.split('').reverse().join(''));
+
+// Left-half parity per leading digit, which EAN-13 encodes implicitly
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Code 128 symbol widths (bar, space, bar, ...) by symbol value
+const CODE128_WIDTHS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+const CODE128_MAX_LENGTH = 48;
+
+@Injectable()
+export class BarcodeService {
+  /**
+   * Validates a barcode and returns its format. Without an explicit format,
+   * 13 digits are read as EAN-13, 12 digits as UPC-A and anything else as
+   * Code 128.
+   */
+  validate(code: string, format?: BarcodeFormat): BarcodeFormat {
+    const resolved = format || this.detectFormat(code);
+
+    switch (resolved) {
+      case BarcodeFormat.EAN_13:
+      case BarcodeFormat.UPC_A: {
+        const length = resolved === BarcodeFormat.EAN_13 ? 13 : 12;
+        if (!new RegExp(`^\\d{${length}}$`).test(code)) {
+          throw new BadRequestException(`Invalid ${this.label(resolved)} barcode ${code}: expected ${length} digits`);
+        }
+
+        const checkDigit = this.checkDigit(code.slice(0, -1));
+        if (Number(code[code.length - 1]) !== checkDigit) {
+          throw new BadRequestException(
+            `Invalid ${this.label(resolved)} barcode ${code}: check digit should be ${checkDigit}`
+          );
+        }
+        break;
+      }
+      case BarcodeFormat.CODE_128:
+        if (!/^[\x20-\x7e]+$/.test(code) || code.length > CODE128_MAX_LENGTH) {
+          throw new BadRequestException(
+            `Invalid Code 128 barcode ${code}: use up to ${CODE128_MAX_LENGTH} printable ASCII characters`
+          );
+        }
+        break;
+    }
+
+    return resolved;
+  }
+
+  detectFormat(code: string): BarcodeFormat {
+    if (/^\d{13}$/.test(code)) {
+      return BarcodeFormat.EAN_13;
+    }
+    if (/^\d{12}$/.test(code)) {
+      return BarcodeFormat.UPC_A;
+    }
+    return BarcodeFormat.CODE_128;
+  }
+
+  /**
+   * GS1 check digit for the data digits of an EAN-13 or UPC-A code: weights
+   * alternate 3 and 1 starting from the rightmost data digit.
+   */
+  checkDigit(digits: string): number {
+    const sum = digits
+      .split('')
+      .reverse()
+      .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+
+    return (10 - (sum % 10)) % 10;
+  }
+
+  /**
+   * Codes a scan may have been stored as: a UPC-A is the same product as the
+   * EAN-13 with a leading zero, and scanners report either form.
+   */
+  lookupCandidates(code: string): string[] {
+    const trimmed = code.trim();
+
+    if (/^\d{12}$/.test(trimmed)) {
+      return [trimmed, `0${trimmed}`];
+    }
+    if (/^0\d{12}$/.test(trimmed)) {
+      return [trimmed, trimmed.slice(1)];
+    }
+    return [trimmed];
+  }
+
+  /**
+   * Encodes a barcode as a string of modules, '1' for a bar and '0' for a
+   * space, without the quiet zones.
+   */
+  encode(code: string, format: BarcodeFormat): string {
+    switch (format) {
+      case BarcodeFormat.UPC_A:
+        return this.encodeEan13(`0${code}`);
+      case BarcodeFormat.EAN_13:
+        return this.encodeEan13(code);
+      default:
+        return this.encodeCode128(code);
+    }
+  }
+
+  private encodeEan13(code: string): string {
+    const digits = code.split('').map(Number);
+    const parity = EAN_PARITY[digits[0]];
+
+    const left = digits
+      .slice(1, 7)
+      .map((digit, index) => (parity[index] === 'L' ? EAN_L : EAN_G)[digit])
+      .join('');
+    const right = digits.slice(7).map(digit => EAN_R[digit]).join('');
+
+    return `101${left}01010${right}101`;
+  }
+
+  // Code set B covers all printable ASCII, which is all a label needs
+  private encodeCode128(code: string): string {
+    const values = code.split('').map(character => character.charCodeAt(0) - 32);
+    const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), CODE128_START_B) % 103;
+
+    return [CODE128_START_B, ...values, checksum, CODE128_STOP]
+      .map(value => this.widthsToModules(CODE128_WIDTHS[value]))
+      .join('');
+  }
+
+  private widthsToModules(widths: string): string {
+    return widths
+      .split('')
+      .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+      .join('');
+  }
+
+  private label(format: BarcodeFormat): string {
+    return format === BarcodeFormat.EAN_13 ? 'EAN-13' : 'UPC-A';
+  }
+}
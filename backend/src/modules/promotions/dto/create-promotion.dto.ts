@@ -0,0 +1,134 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsNumber,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  Matches,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PromotionType } from '../schemas/promotion.schema';
+
+export class PromotionScheduleDto {
+  @ApiPropertyOptional({ type: [Number], description: 'Days of the week, 0 is Sunday (default: every day)' })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  daysOfWeek?: number[];
+
+  @ApiProperty({ description: 'Start time as HH:mm' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'startTime must be HH:mm' })
+  startTime: string;
+
+  @ApiProperty({ description: 'End time as HH:mm' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'endTime must be HH:mm' })
+  endTime: string;
+}
+
+export class CreatePromotionDto {
+  @ApiProperty()
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: PromotionType })
+  @IsEnum(PromotionType)
+  type: PromotionType;
+
+  @ApiPropertyOptional({ description: 'Percentage off, amount off per unit, or percentage off the free items' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  value?: number;
+
+  @ApiPropertyOptional({ description: 'Units to buy, for buy-X-get-Y' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  buyQuantity?: number;
+
+  @ApiPropertyOptional({ description: 'Units discounted, for buy-X-get-Y' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  getQuantity?: number;
+
+  @ApiPropertyOptional({ description: 'Units in a bundle' })
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  bundleQuantity?: number;
+
+  @ApiPropertyOptional({ description: 'Price of a full bundle' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  bundlePrice?: number;
+
+  @ApiPropertyOptional({ type: [String], description: 'Product IDs the promotion applies to' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  products?: string[];
+
+  @ApiPropertyOptional({ type: [String], description: 'Categories the promotion applies to' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categories?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+
+  @ApiPropertyOptional({ description: 'Recurring window, e.g. a happy hour' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PromotionScheduleDto)
+  schedule?: PromotionScheduleDto;
+
+  @ApiPropertyOptional({ description: 'Only apply when this coupon code is entered' })
+  @IsOptional()
+  @IsString()
+  couponCode?: string;
+
+  @ApiPropertyOptional({ description: 'Maximum number of sales the coupon can be used on' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Can be combined with other stackable promotions' })
+  @IsOptional()
+  @IsBoolean()
+  stackable?: boolean;
+
+  @ApiPropertyOptional({ description: 'Higher priority promotions are applied first' })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
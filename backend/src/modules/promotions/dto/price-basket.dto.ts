@@ -0,0 +1,39 @@
+import { IsString, IsNumber, IsOptional, IsArray, ValidateNested, Min, ArrayNotEmpty } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class BasketItemDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsString()
+  product: string;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  unitPrice: number;
+
+  @ApiPropertyOptional({ description: 'Manual discount on the line' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discount?: number;
+}
+
+export class PriceBasketDto {
+  @ApiProperty({ type: [BasketItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => BasketItemDto)
+  items: BasketItemDto[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  couponCode?: string;
+}
@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { PromotionsService } from './promotions.service';
+import { PricingService } from './services/pricing.service';
+import { CreatePromotionDto } from './dto/create-promotion.dto';
+import { UpdatePromotionDto } from './dto/update-promotion.dto';
+import { PriceBasketDto } from './dto/price-basket.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('promotions')
+@Controller('promotions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class PromotionsController {
+  constructor(
+    private readonly promotionsService: PromotionsService,
+    private readonly pricingService: PricingService,
+  ) {}
+
+  @Post()
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Create a new promotion' })
+  @ApiResponse({ status: 201, description: 'Promotion created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - invalid rules or coupon code already exists' })
+  create(@Body() createPromotionDto: CreatePromotionDto, @Request() req) {
+    return this.promotionsService.create(createPromotionDto, req.user.id);
+  }
+
+  @Post('price')
+  @ApiOperation({ summary: 'Preview the promotions applied to a basket' })
+  @ApiResponse({ status: 201, description: 'Basket priced successfully' })
+  @ApiResponse({ status: 400, description: 'Coupon code is not valid or does not apply' })
+  price(@Body() priceBasketDto: PriceBasketDto) {
+    return this.pricingService.price(priceBasketDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all promotions' })
+  @ApiResponse({ status: 200, description: 'Promotions retrieved successfully' })
+  @ApiQuery({ name: 'type', required: false, description: 'Filter by promotion type' })
+  @ApiQuery({ name: 'isActive', required: false, description: 'Filter by active status' })
+  @ApiQuery({ name: 'current', required: false, description: 'Only active promotions running today' })
+  @ApiQuery({ name: 'couponCode', required: false, description: 'Filter by coupon code' })
+  findAll(@Query() query: any) {
+    return this.promotionsService.findAll(query);
+  }
+
+  @Get('performance')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Get sales, units and discount given per promotion' })
+  @ApiResponse({ status: 200, description: 'Promotion performance retrieved successfully' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date for filtering' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date for filtering' })
+  getPerformance(@Query() query: any) {
+    return this.promotionsService.getPerformance(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a promotion by ID' })
+  @ApiResponse({ status: 200, description: 'Promotion retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Promotion not found' })
+  findOne(@Param('id') id: string) {
+    return this.promotionsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Update a promotion' })
+  @ApiResponse({ status: 200, description: 'Promotion updated successfully' })
+  @ApiResponse({ status: 404, description: 'Promotion not found' })
+  update(@Param('id') id: string, @Body() updatePromotionDto: UpdatePromotionDto, @Request() req) {
+    return this.promotionsService.update(id, updatePromotionDto, req.user.id);
+  }
+
+  @Delete(':id')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Delete a promotion' })
+  @ApiResponse({ status: 200, description: 'Promotion deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Promotion not found' })
+  remove(@Param('id') id: string) {
+    return this.promotionsService.remove(id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PromotionsService } from './promotions.service';
+import { PromotionsController } from './promotions.controller';
+import { PricingService } from './services/pricing.service';
+import { Promotion, PromotionSchema } from './schemas/promotion.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { Sale, SaleSchema } from '../sales/schemas/sale.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Promotion.name, schema: PromotionSchema },
+      { name: Product.name, schema: ProductSchema },
+      { name: Sale.name, schema: SaleSchema }
+    ])
+  ],
+  controllers: [PromotionsController],
+  providers: [PromotionsService, PricingService],
+  exports: [PromotionsService, PricingService],
+})
+export class PromotionsModule {}
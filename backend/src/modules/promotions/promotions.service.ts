@@ -0,0 +1,253 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Promotion, PromotionDocument, PromotionType } from './schemas/promotion.schema';
+import { Sale, SaleDocument } from '../sales/schemas/sale.schema';
+import { CreatePromotionDto } from './dto/create-promotion.dto';
+import { UpdatePromotionDto } from './dto/update-promotion.dto';
+
+@Injectable()
+export class PromotionsService {
+  constructor(
+    @InjectModel(Promotion.name) private promotionModel: Model<PromotionDocument>,
+    @InjectModel(Sale.name) private saleModel: Model<SaleDocument>,
+  ) {}
+
+  async create(createPromotionDto: CreatePromotionDto, userId: string): Promise<Promotion> {
+    this.validateRules(createPromotionDto);
+    await this.assertCouponAvailable(createPromotionDto.couponCode);
+
+    const createdPromotion = new this.promotionModel({
+      ...createPromotionDto,
+      products: createPromotionDto.products?.map(id => new Types.ObjectId(id)),
+      createdBy: new Types.ObjectId(userId),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    return createdPromotion.save();
+  }
+
+  async findAll(query: any = {}): Promise<Promotion[]> {
+    const { type, isActive, current, couponCode } = query;
+
+    let filter: any = {};
+
+    // Filter by promotion type
+    if (type) {
+      filter.type = type;
+    }
+
+    // Filter by active status
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+
+    // Only promotions running today
+    if (current === 'true') {
+      const now = new Date();
+      filter.isActive = true;
+      filter.$and = [
+        { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+        { $or: [{ endsAt: null }, { endsAt: { $gte: now } }] },
+      ];
+    }
+
+    // Filter by coupon code
+    if (couponCode) {
+      filter.couponCode = couponCode.toUpperCase();
+    }
+
+    return this.promotionModel
+      .find(filter)
+      .populate('products', 'name sku')
+      .sort({ priority: -1, createdAt: -1 })
+      .exec();
+  }
+
+  async findOne(id: string): Promise<Promotion> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid promotion ID');
+    }
+
+    const promotion = await this.promotionModel
+      .findById(id)
+      .populate('products', 'name sku')
+      .exec();
+    if (!promotion) {
+      throw new NotFoundException('Promotion not found');
+    }
+
+    return promotion;
+  }
+
+  async update(id: string, updatePromotionDto: UpdatePromotionDto, userId: string): Promise<Promotion> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid promotion ID');
+    }
+
+    const current = await this.promotionModel.findById(id).lean().exec();
+    if (!current) {
+      throw new NotFoundException('Promotion not found');
+    }
+
+    this.validateRules({ ...current, ...updatePromotionDto } as CreatePromotionDto);
+    await this.assertCouponAvailable(updatePromotionDto.couponCode, id);
+
+    const update: any = { ...updatePromotionDto, updatedBy: new Types.ObjectId(userId) };
+    if (updatePromotionDto.products) {
+      update.products = updatePromotionDto.products.map(productId => new Types.ObjectId(productId));
+    }
+
+    return this.promotionModel
+      .findByIdAndUpdate(id, update, { new: true, runValidators: true })
+      .populate('products', 'name sku')
+      .exec();
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid promotion ID');
+    }
+
+    const deletedPromotion = await this.promotionModel.findByIdAndDelete(id).exec();
+    if (!deletedPromotion) {
+      throw new NotFoundException('Promotion not found');
+    }
+  }
+
+  /**
+   * Counts a coupon use, refusing it once the usage limit is reached.
+   * The check and the increment are a single conditional update, so
+   * concurrent checkouts cannot overrun the limit.
+   */
+  async redeemCoupon(couponCode: string): Promise<void> {
+    const redeemed = await this.promotionModel
+      .findOneAndUpdate(
+        {
+          couponCode: couponCode.toUpperCase(),
+          isActive: true,
+          $or: [
+            { usageLimit: null },
+            { $expr: { $lt: ['$usageCount', '$usageLimit'] } },
+          ],
+        },
+        { $inc: { usageCount: 1 } },
+        { new: true }
+      )
+      .exec();
+
+    if (!redeemed) {
+      throw new BadRequestException(`Coupon ${couponCode} has reached its usage limit`);
+    }
+  }
+
+  async releaseCoupon(couponCode: string): Promise<void> {
+    await this.promotionModel
+      .updateOne(
+        { couponCode: couponCode.toUpperCase(), usageCount: { $gt: 0 } },
+        { $inc: { usageCount: -1 } }
+      )
+      .exec();
+  }
+
+  /**
+   * Sales, units and discount given per promotion, from the promotions
+   * recorded on completed sale lines.
+   */
+  async getPerformance(query: any = {}): Promise<any[]> {
+    const { startDate, endDate } = query;
+
+    const match: any = { status: 'completed', 'items.promotions.0': { $exists: true } };
+
+    // Date range filter
+    if (startDate || endDate) {
+      match.createdAt = {};
+      if (startDate) {
+        match.createdAt.$gte = new Date(startDate);
+      }
+      if (endDate) {
+        match.createdAt.$lte = new Date(endDate);
+      }
+    }
+
+    return this.saleModel.aggregate([
+      { $match: match },
+      { $unwind: '$items' },
+      { $unwind: '$items.promotions' },
+      {
+        $group: {
+          _id: '$items.promotions.promotion',
+          name: { $last: '$items.promotions.name' },
+          couponCode: { $last: '$items.promotions.couponCode' },
+          sales: { $addToSet: '$_id' },
+          units: { $sum: '$items.quantity' },
+          discount: { $sum: '$items.promotions.discount' },
+          revenue: { $sum: '$items.total' },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          promotion: '$_id',
+          name: 1,
+          couponCode: 1,
+          sales: { $size: '$sales' },
+          units: 1,
+          discount: { $round: ['$discount', 2] },
+          revenue: { $round: ['$revenue', 2] },
+        },
+      },
+      { $sort: { discount: -1 } },
+    ]);
+  }
+
+  private validateRules(promotionDto: CreatePromotionDto): void {
+    switch (promotionDto.type) {
+      case PromotionType.PERCENTAGE:
+        if (!promotionDto.value || promotionDto.value > 100) {
+          throw new BadRequestException('Percentage promotions need a value between 0 and 100');
+        }
+        break;
+
+      case PromotionType.FIXED:
+        if (!promotionDto.value) {
+          throw new BadRequestException('Fixed promotions need an amount off');
+        }
+        break;
+
+      case PromotionType.BUY_X_GET_Y:
+        if (!promotionDto.buyQuantity || !promotionDto.getQuantity) {
+          throw new BadRequestException('Buy-X-get-Y promotions need buyQuantity and getQuantity');
+        }
+        if (promotionDto.value > 100) {
+          throw new BadRequestException('Buy-X-get-Y discount cannot exceed 100%');
+        }
+        break;
+
+      case PromotionType.BUNDLE:
+        if (!promotionDto.bundleQuantity || promotionDto.bundlePrice === undefined) {
+          throw new BadRequestException('Bundle promotions need bundleQuantity and bundlePrice');
+        }
+        break;
+    }
+
+    if (promotionDto.startsAt && promotionDto.endsAt && new Date(promotionDto.endsAt) <= new Date(promotionDto.startsAt)) {
+      throw new BadRequestException('Promotion must end after it starts');
+    }
+  }
+
+  private async assertCouponAvailable(couponCode?: string, excludeId?: string): Promise<void> {
+    if (!couponCode) {
+      return;
+    }
+
+    const existingPromotion = await this.promotionModel.findOne({
+      ...(excludeId && { _id: { $ne: new Types.ObjectId(excludeId) } }),
+      couponCode: couponCode.trim().toUpperCase(),
+    });
+
+    if (existingPromotion) {
+      throw new BadRequestException('Promotion with this coupon code already exists');
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+
+/**
+ * Promotion applied to a sale line, kept with the name and discount at the
+ * time of sale for reporting.
+ */
+@Schema({ _id: false })
+export class AppliedPromotion {
+  @Prop({ type: Types.ObjectId, ref: 'Promotion', required: true })
+  promotion: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  couponCode: string;
+
+  @Prop({ required: true, min: 0 })
+  discount: number;
+}
+
+export const AppliedPromotionSchema = SchemaFactory.createForClass(AppliedPromotion);
@@ -0,0 +1,106 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PromotionDocument = Promotion & Document;
+
+export enum PromotionType {
+  // value is the percentage taken off each qualifying line
+  PERCENTAGE = 'percentage',
+  // value is the amount taken off each qualifying unit
+  FIXED = 'fixed',
+  // For every buyQuantity units, getQuantity more are discounted by value percent
+  BUY_X_GET_Y = 'buy_x_get_y',
+  // Every bundleQuantity qualifying units sell for bundlePrice
+  BUNDLE = 'bundle',
+}
+
+// Recurring window within which a promotion applies, e.g. a happy hour
+@Schema({ _id: false })
+export class PromotionSchedule {
+  // 0 is Sunday; empty means every day
+  @Prop([Number])
+  daysOfWeek: number[];
+
+  // Local time as HH:mm
+  @Prop({ required: true })
+  startTime: string;
+
+  @Prop({ required: true })
+  endTime: string;
+}
+
+@Schema({ timestamps: true })
+export class Promotion {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  description: string;
+
+  @Prop({ required: true, enum: Object.values(PromotionType) })
+  type: string;
+
+  @Prop({ default: 0, min: 0 })
+  value: number;
+
+  @Prop({ min: 1 })
+  buyQuantity: number;
+
+  @Prop({ min: 1 })
+  getQuantity: number;
+
+  @Prop({ min: 2 })
+  bundleQuantity: number;
+
+  @Prop({ min: 0 })
+  bundlePrice: number;
+
+  // Products and categories the promotion applies to; none means every product
+  @Prop([{ type: Types.ObjectId, ref: 'Product' }])
+  products: Types.ObjectId[];
+
+  @Prop([String])
+  categories: string[];
+
+  @Prop()
+  startsAt: Date;
+
+  @Prop()
+  endsAt: Date;
+
+  @Prop({ type: PromotionSchedule })
+  schedule: PromotionSchedule;
+
+  // Promotions with a coupon code only apply when the code is entered
+  @Prop({ uppercase: true, trim: true })
+  couponCode: string;
+
+  @Prop({ min: 1 })
+  usageLimit: number;
+
+  @Prop({ default: 0, min: 0 })
+  usageCount: number;
+
+  // Stackable promotions can share a line with other stackable promotions;
+  // otherwise the first promotion to reach a line, by priority, keeps it
+  @Prop({ default: false })
+  stackable: boolean;
+
+  @Prop({ default: 0 })
+  priority: number;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+}
+
+export const PromotionSchema = SchemaFactory.createForClass(Promotion);
+
+// Indexes for better query performance
+PromotionSchema.index({ couponCode: 1 }, { unique: true, sparse: true });
+PromotionSchema.index({ isActive: 1, startsAt: 1, endsAt: 1 });
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PricingService } from './pricing.service';
+import { Promotion, PromotionType } from '../schemas/promotion.schema';
+import { Product } from '../../products/schemas/product.schema';
+
+describe('PricingService', () => {
+  let service: PricingService;
+
+  const beer = { _id: new Types.ObjectId('507f1f77bcf86cd799439011'), name: 'Beer', category: 'Drinks' };
+  const wine = { _id: new Types.ObjectId('507f1f77bcf86cd799439012'), name: 'Wine', category: 'Drinks' };
+  const chips = { _id: new Types.ObjectId('507f1f77bcf86cd799439013'), name: 'Chips', category: 'Snacks' };
+
+  // Wednesday 18:30 local time
+  const at = new Date(2024, 0, 3, 18, 30);
+
+  const promotion = (overrides: any) => ({
+    _id: new Types.ObjectId(),
+    name: 'Promotion',
+    value: 0,
+    products: [],
+    categories: [],
+    stackable: false,
+    priority: 0,
+    usageCount: 0,
+    ...overrides,
+  });
+
+  const chain = (result: any) => ({
+    select: jest.fn().mockReturnThis(),
+    sort: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockPromotionModel = {
+    find: jest.fn(),
+  };
+
+  const mockProductModel = {
+    find: jest.fn(),
+  };
+
+  const line = (product: any, quantity: number, unitPrice: number, discount?: number) => ({
+    product: product._id.toString(),
+    quantity,
+    unitPrice,
+    discount,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PricingService,
+        { provide: getModelToken(Promotion.name), useValue: mockPromotionModel },
+        { provide: getModelToken(Product.name), useValue: mockProductModel },
+      ],
+    }).compile();
+
+    service = module.get<PricingService>(PricingService);
+
+    mockProductModel.find.mockReturnValue(chain([beer, wine, chips]));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('price', () => {
+    it('should keep manual discounts when no promotion applies', async () => {
+      mockPromotionModel.find.mockReturnValue(chain([]));
+
+      const result = await service.price({ items: [line(beer, 2, 5, 1)], at });
+
+      expect(result.items).toEqual([{ discount: 1, promotions: [] }]);
+      expect(result.discount).toBe(0);
+    });
+
+    it('should apply a category-wide percentage sale to matching lines only', async () => {
+      const drinksSale = promotion({ name: 'Drinks 20% off', type: PromotionType.PERCENTAGE, value: 20, categories: ['Drinks'] });
+      mockPromotionModel.find.mockReturnValue(chain([drinksSale]));
+
+      const result = await service.price({ items: [line(beer, 2, 5), line(chips, 1, 3)], at });
+
+      expect(result.items[0]).toEqual({
+        discount: 2,
+        promotions: [{ promotion: drinksSale._id, name: 'Drinks 20% off', couponCode: undefined, discount: 2 }],
+      });
+      expect(result.items[1]).toEqual({ discount: 0, promotions: [] });
+    });
+
+    it('should discount the cheapest units for buy-X-get-Y', async () => {
+      const threeForTwo = promotion({
+        type: PromotionType.BUY_X_GET_Y,
+        buyQuantity: 2,
+        getQuantity: 1,
+        categories: ['Drinks'],
+      });
+      mockPromotionModel.find.mockReturnValue(chain([threeForTwo]));
+
+      const result = await service.price({ items: [line(wine, 2, 12), line(beer, 2, 5)], at });
+
+      // Units sorted 12, 12, 5, 5: one full group, the 5 is free
+      expect(result.items.map(item => item.discount)).toEqual([0, 5]);
+    });
+
+    it('should price full bundles at the bundle price', async () => {
+      const bundle = promotion({
+        type: PromotionType.BUNDLE,
+        bundleQuantity: 3,
+        bundlePrice: 12,
+        products: [beer._id],
+      });
+      mockPromotionModel.find.mockReturnValue(chain([bundle]));
+
+      const result = await service.price({ items: [line(beer, 4, 5)], at });
+
+      expect(result.items[0].discount).toBe(3);
+    });
+
+    it('should give a line only the first non-stackable promotion by priority', async () => {
+      const clearance = promotion({ name: 'Clearance', type: PromotionType.PERCENTAGE, value: 50, priority: 10 });
+      const drinksSale = promotion({ name: 'Drinks', type: PromotionType.PERCENTAGE, value: 10, categories: ['Drinks'] });
+      mockPromotionModel.find.mockReturnValue(chain([clearance, drinksSale]));
+
+      const result = await service.price({ items: [line(beer, 1, 10)], at });
+
+      expect(result.items[0].discount).toBe(5);
+      expect(result.items[0].promotions.map(applied => applied.name)).toEqual(['Clearance']);
+    });
+
+    it('should stack stackable promotions on the remaining amount', async () => {
+      const members = promotion({ name: 'Members', type: PromotionType.PERCENTAGE, value: 10, stackable: true, priority: 5 });
+      const perUnit = promotion({ name: 'Dollar off', type: PromotionType.FIXED, value: 1, stackable: true });
+      mockPromotionModel.find.mockReturnValue(chain([members, perUnit]));
+
+      const result = await service.price({ items: [line(beer, 2, 10)], at });
+
+      expect(result.items[0].discount).toBe(4);
+      expect(result.discount).toBe(4);
+    });
+
+    it('should only apply happy hours within their schedule', async () => {
+      const happyHour = promotion({
+        type: PromotionType.PERCENTAGE,
+        value: 50,
+        categories: ['Drinks'],
+        schedule: { daysOfWeek: [1, 2, 3, 4, 5], startTime: '17:00', endTime: '19:00' },
+      });
+      mockPromotionModel.find.mockReturnValue(chain([happyHour]));
+
+      const during = await service.price({ items: [line(beer, 1, 10)], at });
+      const after = await service.price({ items: [line(beer, 1, 10)], at: new Date(2024, 0, 3, 19, 0) });
+      const weekend = await service.price({ items: [line(beer, 1, 10)], at: new Date(2024, 0, 6, 18, 0) });
+
+      expect(during.items[0].discount).toBe(5);
+      expect(after.items[0].discount).toBe(0);
+      expect(weekend.items[0].discount).toBe(0);
+    });
+
+    it('should apply a coupon and return its code for redemption', async () => {
+      const coupon = promotion({ name: 'Spring', type: PromotionType.FIXED, value: 2, couponCode: 'SPRING' });
+      mockPromotionModel.find.mockReturnValue(chain([coupon]));
+
+      const result = await service.price({ items: [line(chips, 1, 3)], couponCode: 'spring', at });
+
+      expect(result.couponCode).toBe('SPRING');
+      expect(result.items[0].promotions[0]).toEqual(expect.objectContaining({ couponCode: 'SPRING', discount: 2 }));
+      expect(mockPromotionModel.find).toHaveBeenCalledWith(expect.objectContaining({
+        $and: expect.arrayContaining([{ $or: [{ couponCode: null }, { couponCode: 'SPRING' }] }]),
+      }));
+    });
+
+    it('should reject unknown and exhausted coupons', async () => {
+      mockPromotionModel.find.mockReturnValue(chain([]));
+      await expect(service.price({ items: [line(chips, 1, 3)], couponCode: 'NOPE', at }))
+        .rejects.toThrow(BadRequestException);
+
+      const exhausted = promotion({ type: PromotionType.FIXED, value: 1, couponCode: 'ONCE', usageLimit: 1, usageCount: 1 });
+      mockPromotionModel.find.mockReturnValue(chain([exhausted]));
+      await expect(service.price({ items: [line(chips, 1, 3)], couponCode: 'ONCE', at }))
+        .rejects.toThrow('Coupon ONCE has reached its usage limit');
+    });
+
+    it('should reject a coupon that does not apply to the basket', async () => {
+      const drinksCoupon = promotion({ type: PromotionType.PERCENTAGE, value: 10, couponCode: 'DRINKS', categories: ['Drinks'] });
+      mockPromotionModel.find.mockReturnValue(chain([drinksCoupon]));
+
+      await expect(service.price({ items: [line(chips, 1, 3)], couponCode: 'DRINKS', at }))
+        .rejects.toThrow('Coupon DRINKS does not apply to this sale');
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Promotion, PromotionDocument, PromotionType } from '../schemas/promotion.schema';
+import { AppliedPromotion } from '../schemas/applied-promotion.schema';
+import { Product, ProductDocument } from '../../products/schemas/product.schema';
+
+export interface PricingItem {
+  product: string | Types.ObjectId;
+  quantity: number;
+  unitPrice: number;
+  // Manual discount given by the cashier
+  discount?: number;
+}
+
+export interface PricingBasket {
+  items: PricingItem[];
+  couponCode?: string;
+  // Time the promotions are evaluated at (default: now)
+  at?: Date;
+}
+
+export interface PricedItem {
+  // Manual discount plus the promotions applied to the line
+  discount: number;
+  promotions: AppliedPromotion[];
+}
+
+export interface PricingResult {
+  items: PricedItem[];
+  // Coupon code that was applied, to be redeemed at checkout
+  couponCode?: string;
+  // Total taken off by promotions
+  discount: number;
+}
+
+interface PricingLine {
+  product: ProductDocument;
+  quantity: number;
+  // Amount still payable on the line after the discounts applied so far
+  remaining: number;
+  discount: number;
+  promotions: AppliedPromotion[];
+  stackable: boolean;
+}
+
+/**
+ * Applies the active promotions to a basket. Promotions are applied by
+ * priority, each on the line amounts left by those before it; a line takes
+ * a second promotion only when every promotion on it is stackable.
+ */
+@Injectable()
+export class PricingService {
+  constructor(
+    @InjectModel(Promotion.name) private promotionModel: Model<PromotionDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+  ) {}
+
+  async price(basket: PricingBasket): Promise<PricingResult> {
+    const at = basket.at || new Date();
+    const couponCode = basket.couponCode?.trim().toUpperCase() || undefined;
+
+    const productIds = basket.items.map(item => item.product.toString());
+    if (productIds.some(id => !Types.ObjectId.isValid(id))) {
+      throw new BadRequestException('Invalid product ID');
+    }
+
+    const [products, promotions] = await Promise.all([
+      this.productModel.find({ _id: { $in: productIds } }).select('name category').exec(),
+      this.promotionModel
+        .find({
+          isActive: true,
+          $and: [
+            { $or: [{ startsAt: null }, { startsAt: { $lte: at } }] },
+            { $or: [{ endsAt: null }, { endsAt: { $gte: at } }] },
+            { $or: [{ couponCode: null }, ...(couponCode ? [{ couponCode }] : [])] },
+          ],
+        })
+        .sort({ priority: -1, createdAt: 1 })
+        .exec(),
+    ]);
+
+    const coupon = couponCode && promotions.find(promotion => promotion.couponCode === couponCode);
+    if (couponCode && (!coupon || !this.isScheduled(coupon, at))) {
+      throw new BadRequestException(`Coupon ${couponCode} is not valid`);
+    }
+    if (coupon && coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
+      throw new BadRequestException(`Coupon ${couponCode} has reached its usage limit`);
+    }
+
+    const lines: PricingLine[] = basket.items.map(item => {
+      const product = products.find(candidate => candidate._id.toString() === item.product.toString());
+      if (!product) {
+        throw new NotFoundException(`Product ${item.product} not found`);
+      }
+
+      const discount = item.discount || 0;
+      return {
+        product,
+        quantity: item.quantity,
+        remaining: Math.max(item.quantity * item.unitPrice - discount, 0),
+        discount,
+        promotions: [],
+        stackable: true,
+      };
+    });
+
+    for (const promotion of promotions) {
+      if (!this.isScheduled(promotion, at)) {
+        continue;
+      }
+
+      const eligible = lines.filter(line =>
+        line.remaining > 0 &&
+        this.appliesTo(promotion, line.product) &&
+        (line.promotions.length === 0 || (promotion.stackable && line.stackable))
+      );
+
+      this.computeDiscounts(promotion, eligible).forEach((amount, line) => {
+        const discount = this.round(Math.min(amount, line.remaining));
+        if (discount <= 0) {
+          return;
+        }
+
+        line.remaining = this.round(line.remaining - discount);
+        line.discount = this.round(line.discount + discount);
+        line.stackable = line.stackable && promotion.stackable;
+        line.promotions.push({
+          promotion: promotion._id,
+          name: promotion.name,
+          couponCode: promotion.couponCode,
+          discount,
+        });
+      });
+    }
+
+    if (coupon && !lines.some(line => line.promotions.some(applied => applied.promotion.equals(coupon._id)))) {
+      throw new BadRequestException(`Coupon ${couponCode} does not apply to this sale`);
+    }
+
+    const items = lines.map(line => ({ discount: line.discount, promotions: line.promotions }));
+
+    return {
+      items,
+      couponCode: coupon ? couponCode : undefined,
+      discount: this.round(
+        items.reduce((sum, item) => sum + item.promotions.reduce((total, applied) => total + applied.discount, 0), 0)
+      ),
+    };
+  }
+
+  private computeDiscounts(promotion: PromotionDocument, lines: PricingLine[]): Map<PricingLine, number> {
+    const discounts = new Map<PricingLine, number>();
+
+    switch (promotion.type) {
+      case PromotionType.PERCENTAGE:
+        lines.forEach(line => discounts.set(line, line.remaining * Math.min(promotion.value, 100) / 100));
+        break;
+
+      case PromotionType.FIXED:
+        lines.forEach(line => discounts.set(line, promotion.value * line.quantity));
+        break;
+
+      case PromotionType.BUY_X_GET_Y: {
+        // The cheapest units of each group are the discounted ones
+        const groupSize = promotion.buyQuantity + promotion.getQuantity;
+        const percentage = Math.min(promotion.value || 100, 100);
+
+        this.groupUnits(lines, groupSize).forEach(group => {
+          group.slice(-promotion.getQuantity).forEach(unit => {
+            discounts.set(unit.line, (discounts.get(unit.line) || 0) + unit.price * percentage / 100);
+          });
+        });
+        break;
+      }
+
+      case PromotionType.BUNDLE:
+        this.groupUnits(lines, promotion.bundleQuantity).forEach(group => {
+          const groupTotal = group.reduce((sum, unit) => sum + unit.price, 0);
+          const saving = groupTotal - promotion.bundlePrice;
+          if (saving <= 0) {
+            return;
+          }
+
+          // Spread the saving over the bundle in proportion to unit prices
+          group.forEach(unit => {
+            discounts.set(unit.line, (discounts.get(unit.line) || 0) + saving * unit.price / groupTotal);
+          });
+        });
+        break;
+    }
+
+    return discounts;
+  }
+
+  // Splits the qualifying units, most expensive first, into full groups
+  private groupUnits(lines: PricingLine[], groupSize: number): { line: PricingLine; price: number }[][] {
+    const units = lines
+      .flatMap(line => Array.from({ length: line.quantity }, () => ({ line, price: line.remaining / line.quantity })))
+      .sort((a, b) => b.price - a.price);
+
+    const groups = [];
+    for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+      groups.push(units.slice(start, start + groupSize));
+    }
+
+    return groups;
+  }
+
+  private appliesTo(promotion: PromotionDocument, product: ProductDocument): boolean {
+    const hasProducts = promotion.products?.length > 0;
+    const hasCategories = promotion.categories?.length > 0;
+
+    if (!hasProducts && !hasCategories) {
+      return true;
+    }
+
+    return (
+      (hasProducts && promotion.products.some(id => id.equals(product._id))) ||
+      (hasCategories && promotion.categories.includes(product.category))
+    );
+  }
+
+  // Happy hours and other recurring windows; overnight windows wrap past midnight
+  private isScheduled(promotion: PromotionDocument, at: Date): boolean {
+    const schedule = promotion.schedule;
+    if (!schedule) {
+      return true;
+    }
+
+    if (schedule.daysOfWeek?.length && !schedule.daysOfWeek.includes(at.getDay())) {
+      return false;
+    }
+
+    const minutes = at.getHours() * 60 + at.getMinutes();
+    const start = this.toMinutes(schedule.startTime);
+    const end = this.toMinutes(schedule.endTime);
+
+    return start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  IsDateString,
+  ArrayNotEmpty,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class PurchaseOrderLineDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsString()
+  product: string;
+
+  @ApiPropertyOptional({ description: 'Variant ID, required for products with variants' })
+  @IsOptional()
+  @IsString()
+  variant?: string;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(1)
+  quantity: number;
+
+  @ApiPropertyOptional({ description: "Defaults to the supplier's catalogue cost" })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  expectedCost?: number;
+}
+
+export class CreatePurchaseOrderDto {
+  @ApiProperty({ description: 'Supplier ID' })
+  @IsString()
+  supplier: string;
+
+  @ApiProperty({ type: [PurchaseOrderLineDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderLineDto)
+  lines: PurchaseOrderLineDto[];
+
+  @ApiPropertyOptional({ description: 'Location to receive into; defaults to the default location' })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiPropertyOptional({ description: "Defaults to the supplier's lead time once sent" })
+  @IsOptional()
+  @IsDateString()
+  expectedDeliveryDate?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
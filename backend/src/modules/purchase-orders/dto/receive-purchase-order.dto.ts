@@ -0,0 +1,52 @@
+import {
+  IsString,
+  IsNumber,
+  IsOptional,
+  IsArray,
+  ArrayNotEmpty,
+  ValidateNested,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReceiveLineDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsString()
+  product: string;
+
+  @ApiPropertyOptional({ description: 'Variant ID, required for products with variants' })
+  @IsOptional()
+  @IsString()
+  variant?: string;
+
+  @ApiProperty({ description: 'Quantity delivered' })
+  @IsNumber()
+  @Min(1)
+  quantity: number;
+
+  @ApiPropertyOptional({ description: 'Actual unit cost; defaults to the expected cost' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  unitCost?: number;
+}
+
+export class ReceivePurchaseOrderDto {
+  @ApiProperty({ type: [ReceiveLineDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ReceiveLineDto)
+  lines: ReceiveLineDto[];
+
+  @ApiPropertyOptional({ description: 'Delivery note or packing slip number' })
+  @IsOptional()
+  @IsString()
+  deliveryReference?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
@@ -0,0 +1,115 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { CreatePurchaseOrderDto } from './dto/create-purchase-order.dto';
+import { UpdatePurchaseOrderDto } from './dto/update-purchase-order.dto';
+import { ReceivePurchaseOrderDto } from './dto/receive-purchase-order.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('purchase-orders')
+@Controller('purchase-orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class PurchaseOrdersController {
+  constructor(private readonly purchaseOrdersService: PurchaseOrdersService) {}
+
+  @Post()
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Create a draft purchase order' })
+  @ApiResponse({ status: 201, description: 'Purchase order created successfully' })
+  @ApiResponse({ status: 404, description: 'Supplier or product not found' })
+  create(@Body() createPurchaseOrderDto: CreatePurchaseOrderDto, @Request() req) {
+    return this.purchaseOrdersService.create(createPurchaseOrderDto, req.user.id);
+  }
+
+  @Post('from-low-stock')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Create draft purchase orders for all low-stock products, one per supplier' })
+  @ApiResponse({ status: 201, description: 'Draft purchase orders created successfully' })
+  createFromLowStock(@Request() req) {
+    return this.purchaseOrdersService.createFromLowStock(req.user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all purchase orders with filtering and pagination' })
+  @ApiResponse({ status: 200, description: 'Purchase orders retrieved successfully' })
+  @ApiQuery({ name: 'supplier', required: false, description: 'Filter by supplier ID' })
+  @ApiQuery({ name: 'status', required: false, description: 'Filter by status' })
+  @ApiQuery({ name: 'product', required: false, description: 'Filter by product ID' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date for filtering' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date for filtering' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page' })
+  @ApiQuery({ name: 'sortBy', required: false, description: 'Field to sort by' })
+  @ApiQuery({ name: 'sortOrder', required: false, description: 'Sort order (asc/desc)' })
+  findAll(@Query() query: any) {
+    return this.purchaseOrdersService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a purchase order by ID' })
+  @ApiResponse({ status: 200, description: 'Purchase order retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Purchase order not found' })
+  findOne(@Param('id') id: string) {
+    return this.purchaseOrdersService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Update a draft purchase order' })
+  @ApiResponse({ status: 200, description: 'Purchase order updated successfully' })
+  @ApiResponse({ status: 400, description: 'Purchase order is no longer a draft' })
+  update(@Param('id') id: string, @Body() updatePurchaseOrderDto: UpdatePurchaseOrderDto, @Request() req) {
+    return this.purchaseOrdersService.update(id, updatePurchaseOrderDto, req.user.id);
+  }
+
+  @Post(':id/send')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Mark a draft purchase order as sent to the supplier' })
+  @ApiResponse({ status: 201, description: 'Purchase order sent' })
+  @ApiResponse({ status: 400, description: 'Purchase order is not a draft' })
+  send(@Param('id') id: string, @Request() req) {
+    return this.purchaseOrdersService.send(id, req.user.id);
+  }
+
+  @Post(':id/receive')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Receive goods against a purchase order and add them to stock' })
+  @ApiResponse({ status: 201, description: 'Goods received successfully' })
+  @ApiResponse({ status: 400, description: 'Purchase order cannot be received or product not on order' })
+  @ApiResponse({ status: 409, description: 'Purchase order was modified concurrently' })
+  receive(@Param('id') id: string, @Body() receiveDto: ReceivePurchaseOrderDto, @Request() req) {
+    return this.purchaseOrdersService.receive(id, receiveDto, req.user.id);
+  }
+
+  @Post(':id/close')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Close a received purchase order, flagging short deliveries' })
+  @ApiResponse({ status: 201, description: 'Purchase order closed' })
+  @ApiResponse({ status: 400, description: 'Purchase order cannot be closed' })
+  close(@Param('id') id: string, @Request() req) {
+    return this.purchaseOrdersService.close(id, req.user.id);
+  }
+
+  @Delete(':id')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Delete a draft purchase order' })
+  @ApiResponse({ status: 200, description: 'Purchase order deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Purchase order is not a draft' })
+  remove(@Param('id') id: string) {
+    return this.purchaseOrdersService.remove(id);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { PurchaseOrdersController } from './purchase-orders.controller';
+import { PurchaseOrder, PurchaseOrderSchema } from './schemas/purchase-order.schema';
+import { SuppliersModule } from '../suppliers/suppliers.module';
+import { ProductsModule } from '../products/products.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import { LocationsModule } from '../locations/locations.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PurchaseOrder.name, schema: PurchaseOrderSchema }
+    ]),
+    SuppliersModule,
+    ProductsModule,
+    InventoryModule,
+    NumberingModule,
+    LocationsModule
+  ],
+  controllers: [PurchaseOrdersController],
+  providers: [PurchaseOrdersService],
+  exports: [PurchaseOrdersService],
+})
+export class PurchaseOrdersModule {}
@@ -0,0 +1,302 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { PurchaseOrder, PurchaseOrderStatus } from './schemas/purchase-order.schema';
+import { SuppliersService } from '../suppliers/suppliers.service';
+import { ProductsService } from '../products/products.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { LocationsService } from '../locations/locations.service';
+import { StockMovementType } from '../inventory/schemas/stock-movement.schema';
+
+describe('PurchaseOrdersService', () => {
+  let service: PurchaseOrdersService;
+
+  const poId = new Types.ObjectId('507f1f77bcf86cd799439030');
+  const supplierId = new Types.ObjectId('507f1f77bcf86cd799439020');
+  const productA = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const productB = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const userId = '507f1f77bcf86cd799439014';
+
+  const buildOrder = (overrides: any = {}) => ({
+    _id: poId,
+    poNumber: 'PO-2024-00001',
+    supplier: supplierId,
+    status: PurchaseOrderStatus.SENT,
+    lines: [
+      { product: productA, quantityOrdered: 10, quantityReceived: 0, expectedCost: 4, discrepancy: 'none' },
+      { product: productB, quantityOrdered: 5, quantityReceived: 0, expectedCost: 6, discrepancy: 'none' },
+    ],
+    receipts: [],
+    receivedTotal: 0,
+    hasDiscrepancies: false,
+    ...overrides,
+  });
+
+  const chain = (result: any) => ({
+    populate: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  let savedOrder: any;
+
+  // Mimics a Mongoose model constructor returning a purchase order document
+  const mockPurchaseOrderModel: any = jest.fn().mockImplementation((data) => {
+    savedOrder = { ...data, _id: poId, save: jest.fn().mockResolvedValue(undefined) };
+    return savedOrder;
+  });
+  mockPurchaseOrderModel.findById = jest.fn();
+  mockPurchaseOrderModel.findOneAndUpdate = jest.fn();
+  mockPurchaseOrderModel.updateOne = jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue({}) });
+
+  const mockSuppliersService = {
+    findOne: jest.fn(),
+    getProducts: jest.fn(),
+  };
+
+  const mockProductsService = {
+    findOne: jest.fn(),
+    getLowStockProducts: jest.fn(),
+    resolveVariant: jest.fn((product, variantId) => {
+      const variant = product.variants?.find(candidate => candidate._id.toString() === variantId);
+      return { variant, unitCost: variant?.price?.cost ?? product.price?.cost };
+    }),
+  };
+
+  const mockInventoryService = {
+    applyStockChange: jest.fn(),
+  };
+
+  const mockNumberingService = {
+    next: jest.fn().mockResolvedValue('PO-2024-00001'),
+  };
+
+  const mockLocationsService = {
+    resolve: jest.fn(),
+  };
+
+  const givenOrder = (order: any) => {
+    mockPurchaseOrderModel.findById.mockReturnValue(chain(order));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PurchaseOrdersService,
+        { provide: getModelToken(PurchaseOrder.name), useValue: mockPurchaseOrderModel },
+        { provide: SuppliersService, useValue: mockSuppliersService },
+        { provide: ProductsService, useValue: mockProductsService },
+        { provide: InventoryService, useValue: mockInventoryService },
+        { provide: NumberingService, useValue: mockNumberingService },
+        { provide: LocationsService, useValue: mockLocationsService },
+      ],
+    }).compile();
+
+    service = module.get<PurchaseOrdersService>(PurchaseOrdersService);
+
+    mockPurchaseOrderModel.findOneAndUpdate.mockReturnValue(chain({}));
+    mockInventoryService.applyStockChange.mockImplementation(async (product, quantity) => ({
+      product,
+      quantity,
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should price lines from the supplier catalogue and respect minimum order quantities', async () => {
+      mockSuppliersService.findOne.mockResolvedValue({ _id: supplierId, isActive: true, currency: 'EUR' });
+      mockSuppliersService.getProducts.mockResolvedValue([
+        { product: { _id: productA }, supplierSku: 'AC-1', cost: 4, minOrderQuantity: 12 },
+      ]);
+      givenOrder(buildOrder({ status: PurchaseOrderStatus.DRAFT }));
+
+      await service.create(
+        { supplier: supplierId.toString(), lines: [{ product: productA.toString(), quantity: 5 }] },
+        userId
+      );
+
+      expect(savedOrder.status).toBe(PurchaseOrderStatus.DRAFT);
+      expect(savedOrder.currency).toBe('EUR');
+      expect(savedOrder.lines[0]).toEqual(expect.objectContaining({
+        supplierSku: 'AC-1', quantityOrdered: 12, expectedCost: 4,
+      }));
+      expect(savedOrder.expectedTotal).toBe(48);
+      expect(savedOrder.save).toHaveBeenCalled();
+    });
+
+    it('should reject inactive suppliers', async () => {
+      mockSuppliersService.findOne.mockResolvedValue({ _id: supplierId, isActive: false });
+
+      await expect(
+        service.create({ supplier: supplierId.toString(), lines: [{ product: productA.toString(), quantity: 1 }] }, userId)
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('receive', () => {
+    it('should add stock through the ledger and mark the order partially received', async () => {
+      givenOrder(buildOrder());
+
+      await service.receive(
+        poId.toString(),
+        { lines: [{ product: productA.toString(), quantity: 4, unitCost: 4.5 }], deliveryReference: 'DN-1' },
+        userId
+      );
+
+      const [filter, update] = mockPurchaseOrderModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: poId, status: PurchaseOrderStatus.SENT, receipts: { $size: 0 } });
+      expect(update.$set.status).toBe(PurchaseOrderStatus.PARTIALLY_RECEIVED);
+      expect(update.$set.lines[0]).toEqual(expect.objectContaining({ quantityReceived: 4, actualCost: 4.5 }));
+      expect(update.$set.receivedTotal).toBe(18);
+      expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+        productA.toString(),
+        4,
+        expect.objectContaining({
+          type: StockMovementType.RECEIPT,
+          reference: expect.objectContaining({ documentType: 'PurchaseOrder', documentNumber: 'PO-2024-00001' }),
+        })
+      );
+    });
+
+    it('should flag over-deliveries and mark the order received', async () => {
+      givenOrder(buildOrder({
+        status: PurchaseOrderStatus.PARTIALLY_RECEIVED,
+        lines: [{ product: productA, quantityOrdered: 10, quantityReceived: 8, expectedCost: 4, discrepancy: 'none' }],
+      }));
+
+      await service.receive(poId.toString(), { lines: [{ product: productA.toString(), quantity: 5 }] }, userId);
+
+      const update = mockPurchaseOrderModel.findOneAndUpdate.mock.calls[0][1];
+      expect(update.$set.status).toBe(PurchaseOrderStatus.RECEIVED);
+      expect(update.$set.lines[0].discrepancy).toBe('over');
+      expect(update.$set.hasDiscrepancies).toBe(true);
+    });
+
+    it('should reject products that are not on the order', async () => {
+      givenOrder(buildOrder());
+
+      await expect(
+        service.receive(poId.toString(), { lines: [{ product: new Types.ObjectId().toString(), quantity: 1 }] }, userId)
+      ).rejects.toThrow(BadRequestException);
+      expect(mockInventoryService.applyStockChange).not.toHaveBeenCalled();
+    });
+
+    it('should not receive draft orders', async () => {
+      givenOrder(buildOrder({ status: PurchaseOrderStatus.DRAFT }));
+
+      await expect(
+        service.receive(poId.toString(), { lines: [{ product: productA.toString(), quantity: 1 }] }, userId)
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a concurrent receipt of the same order', async () => {
+      givenOrder(buildOrder());
+      mockPurchaseOrderModel.findOneAndUpdate.mockReturnValue(chain(null));
+
+      await expect(
+        service.receive(poId.toString(), { lines: [{ product: productA.toString(), quantity: 1 }] }, userId)
+      ).rejects.toThrow(ConflictException);
+      expect(mockInventoryService.applyStockChange).not.toHaveBeenCalled();
+    });
+
+    it('should restore the order and stock when a stock update fails', async () => {
+      givenOrder(buildOrder());
+      mockInventoryService.applyStockChange
+        .mockResolvedValueOnce({ product: productA, quantity: 4 })
+        .mockRejectedValueOnce(new Error('Product not found'))
+        .mockResolvedValue({});
+
+      await expect(
+        service.receive(
+          poId.toString(),
+          { lines: [{ product: productA.toString(), quantity: 4 }, { product: productB.toString(), quantity: 2 }] },
+          userId
+        )
+      ).rejects.toThrow('Product not found');
+
+      expect(mockPurchaseOrderModel.updateOne).toHaveBeenCalledWith(
+        { _id: poId },
+        expect.objectContaining({ $pop: { receipts: 1 } })
+      );
+      expect(mockInventoryService.applyStockChange).toHaveBeenLastCalledWith(
+        productA.toString(),
+        -4,
+        expect.objectContaining({ type: StockMovementType.ADJUSTMENT })
+      );
+    });
+  });
+
+  describe('close', () => {
+    it('should flag short-delivered lines as under-delivered', async () => {
+      givenOrder(buildOrder({
+        status: PurchaseOrderStatus.PARTIALLY_RECEIVED,
+        lines: [{ product: productA, quantityOrdered: 10, quantityReceived: 6, expectedCost: 4, discrepancy: 'none' }],
+      }));
+
+      await service.close(poId.toString(), userId);
+
+      const update = mockPurchaseOrderModel.findOneAndUpdate.mock.calls[0][1];
+      expect(update.status).toBe(PurchaseOrderStatus.CLOSED);
+      expect(update.lines[0].discrepancy).toBe('under');
+      expect(update.hasDiscrepancies).toBe(true);
+    });
+  });
+
+  describe('createFromLowStock', () => {
+    it('should group low-stock products into one draft per supplier and skip unsupplied ones', async () => {
+      mockProductsService.getLowStockProducts.mockResolvedValue([
+        { _id: productA, inventory: { quantity: 2, minStock: 10 } },
+        { _id: productB, inventory: { quantity: 0, minStock: 5 } },
+      ]);
+      mockProductsService.findOne.mockImplementation(async (id) =>
+        id === productA.toString()
+          ? { _id: productA, name: 'Widget', supplier: { _id: supplierId }, price: { cost: 4 } }
+          : { _id: productB, name: 'Gadget', supplier: null, price: { cost: 6 } }
+      );
+      mockSuppliersService.findOne.mockResolvedValue({ _id: supplierId, isActive: true, currency: 'USD' });
+      mockSuppliersService.getProducts.mockResolvedValue([]);
+      givenOrder(buildOrder({ status: PurchaseOrderStatus.DRAFT }));
+
+      const result = await service.createFromLowStock(userId);
+
+      expect(result.purchaseOrders).toHaveLength(1);
+      expect(savedOrder.lines[0]).toEqual(expect.objectContaining({ quantityOrdered: 18, expectedCost: 4 }));
+      expect(result.skipped).toEqual([
+        { product: productB.toString(), name: 'Gadget', reason: 'No primary supplier' },
+      ]);
+    });
+
+    it('should order each low variant of a product on its own line', async () => {
+      const small = { _id: new Types.ObjectId(), inventory: { quantity: 1, minStock: 3 }, price: { cost: 5 } };
+      const large = { _id: new Types.ObjectId(), inventory: { quantity: 9, minStock: 3 } };
+      const product = {
+        _id: productA,
+        name: 'Shirt',
+        supplier: { _id: supplierId },
+        price: { cost: 4 },
+        inventory: { quantity: 10, minStock: 0 },
+        variants: [small, large],
+      };
+      mockProductsService.getLowStockProducts.mockResolvedValue([product]);
+      mockProductsService.findOne.mockResolvedValue(product);
+      mockSuppliersService.findOne.mockResolvedValue({ _id: supplierId, isActive: true, currency: 'USD' });
+      mockSuppliersService.getProducts.mockResolvedValue([]);
+      givenOrder(buildOrder({ status: PurchaseOrderStatus.DRAFT }));
+
+      await service.createFromLowStock(userId);
+
+      expect(savedOrder.lines).toEqual([
+        expect.objectContaining({ product: productA, variant: small._id, quantityOrdered: 5, expectedCost: 5 }),
+      ]);
+    });
+  });
+});
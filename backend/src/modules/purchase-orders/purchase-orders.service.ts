@@ -0,0 +1,518 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as moment from 'moment';
+import {
+  PurchaseOrder,
+  PurchaseOrderDocument,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+} from './schemas/purchase-order.schema';
+import { CreatePurchaseOrderDto, PurchaseOrderLineDto } from './dto/create-purchase-order.dto';
+import { UpdatePurchaseOrderDto } from './dto/update-purchase-order.dto';
+import { ReceivePurchaseOrderDto } from './dto/receive-purchase-order.dto';
+import { SuppliersService } from '../suppliers/suppliers.service';
+import { ProductsService } from '../products/products.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { LocationsService } from '../locations/locations.service';
+import { StockMovement, StockMovementType } from '../inventory/schemas/stock-movement.schema';
+import { DocumentSequence } from '../../config/numbering.config';
+
+export interface DraftOrderResult {
+  purchaseOrders: PurchaseOrder[];
+  skipped: Array<{ product: string; name?: string; reason: string }>;
+}
+
+@Injectable()
+export class PurchaseOrdersService {
+  private readonly logger = new Logger(PurchaseOrdersService.name);
+
+  constructor(
+    @InjectModel(PurchaseOrder.name) private purchaseOrderModel: Model<PurchaseOrderDocument>,
+    private suppliersService: SuppliersService,
+    private productsService: ProductsService,
+    private inventoryService: InventoryService,
+    private numberingService: NumberingService,
+    private locationsService: LocationsService,
+  ) {}
+
+  async create(createPurchaseOrderDto: CreatePurchaseOrderDto, userId: string): Promise<PurchaseOrder> {
+    const supplier: any = await this.suppliersService.findOne(createPurchaseOrderDto.supplier);
+
+    if (!supplier.isActive) {
+      throw new BadRequestException('Cannot order from an inactive supplier');
+    }
+
+    const lines = await this.buildLines(createPurchaseOrderDto.supplier, createPurchaseOrderDto.lines);
+    const location = createPurchaseOrderDto.location
+      ? await this.locationsService.resolve(createPurchaseOrderDto.location)
+      : undefined;
+
+    const purchaseOrder = new this.purchaseOrderModel({
+      poNumber: await this.numberingService.next(DocumentSequence.PURCHASE_ORDER),
+      supplier: supplier._id,
+      location: location?._id,
+      status: PurchaseOrderStatus.DRAFT,
+      lines,
+      currency: supplier.currency,
+      expectedTotal: this.calculateExpectedTotal(lines),
+      expectedDeliveryDate: createPurchaseOrderDto.expectedDeliveryDate,
+      notes: createPurchaseOrderDto.notes,
+      createdBy: new Types.ObjectId(userId),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    await purchaseOrder.save();
+    return this.findOne(purchaseOrder._id.toString());
+  }
+
+  /**
+   * Creates one draft purchase order per primary supplier for the given
+   * products. Products without a primary supplier are reported as skipped.
+   */
+  async createDrafts(
+    items: Array<{ product: string; variant?: string; quantity: number }>,
+    userId: string,
+  ): Promise<DraftOrderResult> {
+    const skipped: DraftOrderResult['skipped'] = [];
+    const bySupplier = new Map<string, PurchaseOrderLineDto[]>();
+
+    for (const item of items) {
+      const product: any = await this.productsService.findOne(item.product);
+      const supplierId = product.supplier?._id?.toString();
+
+      if (!supplierId) {
+        skipped.push({ product: item.product, name: product.name, reason: 'No primary supplier' });
+        continue;
+      }
+
+      if (!bySupplier.has(supplierId)) {
+        bySupplier.set(supplierId, []);
+      }
+      bySupplier.get(supplierId).push({ product: item.product, variant: item.variant, quantity: item.quantity });
+    }
+
+    const purchaseOrders: PurchaseOrder[] = [];
+    for (const [supplier, lines] of bySupplier) {
+      purchaseOrders.push(await this.create({ supplier, lines }, userId));
+    }
+
+    return { purchaseOrders, skipped };
+  }
+
+  /**
+   * Turns the low-stock list into draft purchase orders, ordering enough to
+   * bring each product (or each low variant) back to twice its minimum stock
+   * level.
+   */
+  async createFromLowStock(userId: string): Promise<DraftOrderResult> {
+    const products: any[] = await this.productsService.getLowStockProducts();
+    const reorderQuantity = (stocked: any) => Math.max(stocked.inventory.minStock * 2 - stocked.inventory.quantity, 1);
+
+    const items = products.flatMap(product => product.variants?.length
+      ? product.variants
+          .filter(variant => variant.inventory.quantity <= variant.inventory.minStock)
+          .map(variant => ({
+            product: product._id.toString(),
+            variant: variant._id.toString(),
+            quantity: reorderQuantity(variant),
+          }))
+      : [{ product: product._id.toString(), quantity: reorderQuantity(product) }]
+    );
+
+    return this.createDrafts(items, userId);
+  }
+
+  async findAll(query: any = {}): Promise<PurchaseOrder[]> {
+    const {
+      supplier,
+      status,
+      product,
+      startDate,
+      endDate,
+      page = 1,
+      limit = 20,
+      sortBy = 'createdAt',
+      sortOrder = 'desc'
+    } = query;
+
+    let filter: any = {};
+
+    // Supplier filter
+    if (supplier) {
+      filter.supplier = new Types.ObjectId(supplier);
+    }
+
+    // Status filter
+    if (status) {
+      filter.status = status;
+    }
+
+    // Product filter
+    if (product) {
+      filter['lines.product'] = new Types.ObjectId(product);
+    }
+
+    // Date range filter
+    if (startDate || endDate) {
+      filter.createdAt = {};
+      if (startDate) filter.createdAt.$gte = new Date(startDate);
+      if (endDate) filter.createdAt.$lte = new Date(endDate);
+    }
+
+    // Pagination
+    const skip = (page - 1) * limit;
+
+    // Sorting
+    const sort: any = {};
+    sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+
+    return this.purchaseOrderModel
+      .find(filter)
+      .sort(sort)
+      .skip(skip)
+      .limit(Number(limit))
+      .populate([
+        { path: 'supplier', select: 'name code currency' },
+        { path: 'createdBy', select: 'name email' }
+      ])
+      .exec();
+  }
+
+  async findOne(id: string): Promise<PurchaseOrder> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid purchase order ID');
+    }
+
+    const purchaseOrder = await this.purchaseOrderModel
+      .findById(id)
+      .populate([
+        { path: 'supplier', select: 'name code email phone currency leadTimeDays paymentTerms' },
+        { path: 'location', select: 'name code' },
+        { path: 'lines.product', select: 'name sku inventory' },
+        { path: 'receipts.receivedBy', select: 'name email' },
+        { path: 'createdBy', select: 'name email' }
+      ])
+      .exec();
+
+    if (!purchaseOrder) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    return purchaseOrder;
+  }
+
+  async update(id: string, updatePurchaseOrderDto: UpdatePurchaseOrderDto, userId: string): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.findDocument(id);
+
+    if (purchaseOrder.status !== PurchaseOrderStatus.DRAFT) {
+      throw new BadRequestException('Only draft purchase orders can be edited');
+    }
+
+    const update: any = {
+      ...updatePurchaseOrderDto,
+      updatedBy: new Types.ObjectId(userId),
+    };
+
+    if (updatePurchaseOrderDto.location) {
+      update.location = (await this.locationsService.resolve(updatePurchaseOrderDto.location))._id;
+    }
+
+    if (updatePurchaseOrderDto.lines) {
+      update.lines = await this.buildLines(purchaseOrder.supplier.toString(), updatePurchaseOrderDto.lines);
+      update.expectedTotal = this.calculateExpectedTotal(update.lines);
+    }
+
+    const updated = await this.purchaseOrderModel
+      .findOneAndUpdate({ _id: purchaseOrder._id, status: PurchaseOrderStatus.DRAFT }, update, { new: true })
+      .exec();
+
+    if (!updated) {
+      throw new ConflictException('Purchase order was modified by another request, please retry');
+    }
+
+    return this.findOne(id);
+  }
+
+  async send(id: string, userId: string): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.findDocument(id);
+
+    if (purchaseOrder.status !== PurchaseOrderStatus.DRAFT) {
+      throw new BadRequestException(`Cannot send a purchase order with status '${purchaseOrder.status}'`);
+    }
+
+    const supplier: any = await this.suppliersService.findOne(purchaseOrder.supplier.toString());
+    const sentAt = new Date();
+
+    await this.transition(purchaseOrder, PurchaseOrderStatus.DRAFT, {
+      status: PurchaseOrderStatus.SENT,
+      sentAt,
+      expectedDeliveryDate:
+        purchaseOrder.expectedDeliveryDate || moment(sentAt).add(supplier.leadTimeDays, 'days').toDate(),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Records a delivery against the order: received quantities and actual
+   * costs are added to each line and the stock is incremented through the
+   * inventory ledger. Deliveries beyond the ordered quantity are accepted but
+   * flagged.
+   */
+  async receive(id: string, receiveDto: ReceivePurchaseOrderDto, userId: string): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.findDocument(id);
+    const receivableStatuses: string[] = [PurchaseOrderStatus.SENT, PurchaseOrderStatus.PARTIALLY_RECEIVED];
+
+    if (!receivableStatuses.includes(purchaseOrder.status)) {
+      throw new BadRequestException(`Cannot receive a purchase order with status '${purchaseOrder.status}'`);
+    }
+
+    const lines: PurchaseOrderLine[] = purchaseOrder.lines.map(line => ({
+      product: line.product,
+      variant: line.variant,
+      supplierSku: line.supplierSku,
+      quantityOrdered: line.quantityOrdered,
+      quantityReceived: line.quantityReceived,
+      expectedCost: line.expectedCost,
+      actualCost: line.actualCost,
+      discrepancy: line.discrepancy,
+    }));
+
+    const receiptLines = receiveDto.lines.map(received => {
+      const line = lines.find(candidate =>
+        candidate.product.toString() === received.product &&
+        (candidate.variant?.toString() || undefined) === (received.variant || undefined)
+      );
+      if (!line) {
+        throw new BadRequestException(
+          `Product ${received.product}${received.variant ? ` (variant ${received.variant})` : ''} is not on this purchase order`
+        );
+      }
+
+      const unitCost = received.unitCost ?? line.expectedCost;
+      const previousValue = (line.actualCost ?? line.expectedCost) * line.quantityReceived;
+
+      line.quantityReceived += received.quantity;
+      line.actualCost = this.round((previousValue + unitCost * received.quantity) / line.quantityReceived);
+      if (line.quantityReceived > line.quantityOrdered) {
+        line.discrepancy = 'over';
+      }
+
+      return { product: line.product, variant: line.variant, quantity: received.quantity, unitCost };
+    });
+
+    const isFullyReceived = lines.every(line => line.quantityReceived >= line.quantityOrdered);
+    const receivedValue = receiptLines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+    const receipt = {
+      lines: receiptLines,
+      deliveryReference: receiveDto.deliveryReference,
+      notes: receiveDto.notes,
+      receivedBy: new Types.ObjectId(userId),
+      receivedAt: new Date(),
+    };
+
+    const previousState = {
+      status: purchaseOrder.status,
+      lines: purchaseOrder.lines,
+      receivedTotal: purchaseOrder.receivedTotal,
+      hasDiscrepancies: purchaseOrder.hasDiscrepancies,
+    };
+
+    await this.transition(purchaseOrder, purchaseOrder.status, {
+      $set: {
+        status: isFullyReceived ? PurchaseOrderStatus.RECEIVED : PurchaseOrderStatus.PARTIALLY_RECEIVED,
+        lines,
+        receivedTotal: this.round((purchaseOrder.receivedTotal || 0) + receivedValue),
+        hasDiscrepancies: lines.some(line => line.discrepancy !== 'none'),
+        updatedBy: new Types.ObjectId(userId),
+      },
+      $push: { receipts: receipt },
+    });
+
+    const movements: StockMovement[] = [];
+    try {
+      for (const line of receiptLines) {
+        movements.push(
+          await this.inventoryService.applyStockChange(line.product.toString(), line.quantity, {
+            type: StockMovementType.RECEIPT,
+            variant: line.variant,
+            location: purchaseOrder.location,
+            reference: {
+              documentType: 'PurchaseOrder',
+              documentId: purchaseOrder._id,
+              documentNumber: purchaseOrder.poNumber,
+            },
+            userId,
+            reason: receiveDto.deliveryReference
+              ? `Goods received (${receiveDto.deliveryReference})`
+              : 'Goods received',
+          })
+        );
+      }
+    } catch (error) {
+      await this.rollbackReceipt(purchaseOrder, previousState, movements, userId);
+      throw error;
+    }
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Closes a received or partially received order. Lines that were never
+   * fully delivered are flagged as under-delivered.
+   */
+  async close(id: string, userId: string): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.findDocument(id);
+    const closableStatuses: string[] = [PurchaseOrderStatus.PARTIALLY_RECEIVED, PurchaseOrderStatus.RECEIVED];
+
+    if (!closableStatuses.includes(purchaseOrder.status)) {
+      throw new BadRequestException(`Cannot close a purchase order with status '${purchaseOrder.status}'`);
+    }
+
+    const lines = purchaseOrder.lines.map(line => ({
+      product: line.product,
+      variant: line.variant,
+      supplierSku: line.supplierSku,
+      quantityOrdered: line.quantityOrdered,
+      quantityReceived: line.quantityReceived,
+      expectedCost: line.expectedCost,
+      actualCost: line.actualCost,
+      discrepancy: line.quantityReceived < line.quantityOrdered ? 'under' : line.discrepancy,
+    }));
+
+    await this.transition(purchaseOrder, purchaseOrder.status, {
+      status: PurchaseOrderStatus.CLOSED,
+      lines,
+      hasDiscrepancies: lines.some(line => line.discrepancy !== 'none'),
+      closedAt: new Date(),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const purchaseOrder = await this.findDocument(id);
+
+    if (purchaseOrder.status !== PurchaseOrderStatus.DRAFT) {
+      throw new BadRequestException('Only draft purchase orders can be deleted');
+    }
+
+    await this.purchaseOrderModel.deleteOne({ _id: purchaseOrder._id, status: PurchaseOrderStatus.DRAFT }).exec();
+  }
+
+  private async findDocument(id: string): Promise<PurchaseOrderDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid purchase order ID');
+    }
+
+    const purchaseOrder = await this.purchaseOrderModel.findById(id).exec();
+    if (!purchaseOrder) {
+      throw new NotFoundException('Purchase order not found');
+    }
+
+    return purchaseOrder;
+  }
+
+  private async buildLines(supplierId: string, lines: PurchaseOrderLineDto[]): Promise<PurchaseOrderLine[]> {
+    const catalogue = await this.suppliersService.getProducts(supplierId);
+    const entries = new Map(catalogue.map(entry => [entry.product._id.toString(), entry]));
+    const seen = new Set<string>();
+
+    const result: PurchaseOrderLine[] = [];
+    for (const line of lines) {
+      const key = `${line.product}:${line.variant || ''}`;
+      if (seen.has(key)) {
+        throw new BadRequestException(`Product ${line.product} appears more than once`);
+      }
+      seen.add(key);
+
+      const entry = entries.get(line.product);
+      const product: any = entry ? entry.product : await this.productsService.findOne(line.product);
+      const { variant, unitCost } = this.productsService.resolveVariant(product, line.variant);
+
+      result.push({
+        product: product._id,
+        variant: variant?._id,
+        supplierSku: entry?.supplierSku,
+        quantityOrdered: Math.max(line.quantity, entry?.minOrderQuantity || 1),
+        quantityReceived: 0,
+        expectedCost: line.expectedCost ?? entry?.cost ?? unitCost,
+        actualCost: undefined,
+        discrepancy: 'none',
+      });
+    }
+
+    return result;
+  }
+
+  private calculateExpectedTotal(lines: PurchaseOrderLine[]): number {
+    return this.round(lines.reduce((sum, line) => sum + line.quantityOrdered * line.expectedCost, 0));
+  }
+
+  // Applies an update only if the order is still in the status it was read in,
+  // so two concurrent transitions cannot both succeed
+  private async transition(purchaseOrder: PurchaseOrderDocument, fromStatus: string, update: any): Promise<void> {
+    const updated = await this.purchaseOrderModel
+      .findOneAndUpdate(
+        { _id: purchaseOrder._id, status: fromStatus, receipts: { $size: purchaseOrder.receipts.length } },
+        update,
+        { new: true }
+      )
+      .exec();
+
+    if (!updated) {
+      throw new ConflictException('Purchase order was modified by another request, please retry');
+    }
+  }
+
+  private async rollbackReceipt(
+    purchaseOrder: PurchaseOrderDocument,
+    previousState: any,
+    movements: StockMovement[],
+    userId: string,
+  ): Promise<void> {
+    try {
+      await this.purchaseOrderModel
+        .updateOne(
+          { _id: purchaseOrder._id },
+          { $set: previousState, $pop: { receipts: 1 } }
+        )
+        .exec();
+    } catch (error) {
+      this.logger.error(`Failed to restore purchase order ${purchaseOrder.poNumber} after a failed receipt:`, error);
+    }
+
+    for (const movement of [...movements].reverse()) {
+      try {
+        await this.inventoryService.applyStockChange(movement.product.toString(), -movement.quantity, {
+          type: StockMovementType.ADJUSTMENT,
+          variant: movement.variant,
+          location: movement.location,
+          reference: {
+            documentType: 'PurchaseOrder',
+            documentId: purchaseOrder._id,
+            documentNumber: purchaseOrder.poNumber,
+          },
+          userId,
+          reason: `Receipt rollback for ${purchaseOrder.poNumber}`,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to reverse stock movement for product ${movement.product}:`, error);
+      }
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
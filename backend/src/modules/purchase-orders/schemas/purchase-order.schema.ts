@@ -0,0 +1,140 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PurchaseOrderDocument = PurchaseOrder & Document;
+
+export enum PurchaseOrderStatus {
+  DRAFT = 'draft',
+  SENT = 'sent',
+  PARTIALLY_RECEIVED = 'partially_received',
+  RECEIVED = 'received',
+  CLOSED = 'closed',
+}
+
+@Schema({ _id: false })
+export class PurchaseOrderLine {
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  // Variant ordered, for products with variants
+  @Prop({ type: Types.ObjectId })
+  variant: Types.ObjectId;
+
+  @Prop()
+  supplierSku: string;
+
+  @Prop({ required: true, min: 1 })
+  quantityOrdered: number;
+
+  @Prop({ default: 0, min: 0 })
+  quantityReceived: number;
+
+  @Prop({ required: true, min: 0 })
+  expectedCost: number;
+
+  // Average unit cost across all receipts of this line
+  @Prop({ min: 0 })
+  actualCost: number;
+
+  // 'over' is flagged as soon as more arrives than ordered, 'under' when the
+  // order is closed short
+  @Prop({ enum: ['none', 'over', 'under'], default: 'none' })
+  discrepancy: string;
+}
+
+@Schema({ _id: false })
+export class PurchaseOrderReceiptLine {
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId })
+  variant: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+
+  @Prop({ required: true, min: 0 })
+  unitCost: number;
+}
+
+@Schema({ timestamps: true })
+export class PurchaseOrderReceipt {
+  @Prop([PurchaseOrderReceiptLine])
+  lines: PurchaseOrderReceiptLine[];
+
+  @Prop()
+  deliveryReference: string;
+
+  @Prop()
+  notes: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  receivedBy: Types.ObjectId;
+
+  @Prop({ default: Date.now })
+  receivedAt: Date;
+}
+
+@Schema({ timestamps: true })
+export class PurchaseOrder {
+  @Prop({ required: true, unique: true })
+  poNumber: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Supplier', required: true })
+  supplier: Types.ObjectId;
+
+  @Prop({
+    required: true,
+    enum: Object.values(PurchaseOrderStatus),
+    default: PurchaseOrderStatus.DRAFT
+  })
+  status: string;
+
+  // Location the goods are received into; the default location when unset
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId;
+
+  @Prop([PurchaseOrderLine])
+  lines: PurchaseOrderLine[];
+
+  @Prop([PurchaseOrderReceipt])
+  receipts: PurchaseOrderReceipt[];
+
+  @Prop({ default: 'USD' })
+  currency: string;
+
+  @Prop({ required: true, min: 0 })
+  expectedTotal: number;
+
+  @Prop({ default: 0, min: 0 })
+  receivedTotal: number;
+
+  @Prop({ default: false })
+  hasDiscrepancies: boolean;
+
+  @Prop()
+  expectedDeliveryDate: Date;
+
+  @Prop()
+  notes: string;
+
+  @Prop()
+  sentAt: Date;
+
+  @Prop()
+  closedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+}
+
+export const PurchaseOrderSchema = SchemaFactory.createForClass(PurchaseOrder);
+
+// Indexes for better query performance
+PurchaseOrderSchema.index({ supplier: 1, createdAt: -1 });
+PurchaseOrderSchema.index({ status: 1 });
+PurchaseOrderSchema.index({ 'lines.product': 1 });
+PurchaseOrderSchema.index({ createdAt: -1 });
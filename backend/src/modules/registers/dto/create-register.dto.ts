@@ -0,0 +1,21 @@
+import { IsString, IsOptional, IsBoolean } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateRegisterDto {
+  @ApiProperty()
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Short unique code, e.g. TILL1' })
+  @IsString()
+  code: string;
+
+  @ApiProperty({ description: 'Location the register sells from' })
+  @IsString()
+  location: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
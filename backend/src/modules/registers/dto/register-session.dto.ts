@@ -0,0 +1,46 @@
+import { IsString, IsOptional, IsNumber, IsEnum, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CashMovementType } from '../schemas/register-session.schema';
+
+export class OpenSessionDto {
+  @ApiProperty({ description: 'Register ID' })
+  @IsString()
+  register: string;
+
+  @ApiProperty({ description: 'Cash in the drawer at opening' })
+  @IsNumber()
+  @Min(0)
+  openingFloat: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class CashMovementDto {
+  @ApiProperty({ enum: CashMovementType })
+  @IsEnum(CashMovementType)
+  type: CashMovementType;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0.01)
+  amount: number;
+
+  @ApiProperty({ description: 'e.g. change delivery, supplier paid from till' })
+  @IsString()
+  reason: string;
+}
+
+export class CloseSessionDto {
+  @ApiProperty({ description: 'Cash counted in the drawer' })
+  @IsNumber()
+  @Min(0)
+  countedCash: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
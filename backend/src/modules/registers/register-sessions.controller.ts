@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+  Res,
+  HttpStatus,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RegisterSessionService, SessionReportType } from './services/register-session.service';
+import { OpenSessionDto, CashMovementDto, CloseSessionDto } from './dto/register-session.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+
+@ApiTags('register-sessions')
+@Controller('register-sessions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class RegisterSessionsController {
+  constructor(private readonly registerSessionService: RegisterSessionService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Open a register session with an opening float' })
+  @ApiResponse({ status: 201, description: 'Session opened successfully' })
+  @ApiResponse({ status: 409, description: 'Register or cashier already has an open session' })
+  open(@Body() openSessionDto: OpenSessionDto, @Request() req) {
+    return this.registerSessionService.open(openSessionDto, req.user);
+  }
+
+  @Get('current')
+  @ApiOperation({ summary: 'Get the open session of the current cashier' })
+  @ApiResponse({ status: 200, description: 'Session retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'No open register session' })
+  findCurrent(@Request() req) {
+    return this.registerSessionService.findCurrent(req.user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get register sessions; cashiers only see their own' })
+  @ApiResponse({ status: 200, description: 'Sessions retrieved successfully' })
+  @ApiQuery({ name: 'register', required: false, description: 'Filter by register ID' })
+  @ApiQuery({ name: 'cashier', required: false, description: 'Filter by cashier ID' })
+  @ApiQuery({ name: 'status', required: false, description: 'Filter by status (open, closed)' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Opened on or after' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'Opened on or before' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  findAll(@Query() query: any, @Request() req) {
+    return this.registerSessionService.findAll(query, req.user);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a register session by ID' })
+  @ApiResponse({ status: 200, description: 'Session retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Register session not found' })
+  findOne(@Param('id') id: string, @Request() req) {
+    return this.registerSessionService.findOne(id, req.user);
+  }
+
+  @Post(':id/movements')
+  @ApiOperation({ summary: 'Record a cash pay-in or pay-out' })
+  @ApiResponse({ status: 201, description: 'Cash movement recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Session closed or pay-out exceeds the cash in the drawer' })
+  addMovement(@Param('id') id: string, @Body() cashMovementDto: CashMovementDto, @Request() req) {
+    return this.registerSessionService.addMovement(id, cashMovementDto, req.user);
+  }
+
+  @Post(':id/close')
+  @ApiOperation({ summary: 'Close a session against the counted cash' })
+  @ApiResponse({ status: 201, description: 'Session closed with its cash variance' })
+  @ApiResponse({ status: 400, description: 'Session already closed' })
+  close(@Param('id') id: string, @Body() closeSessionDto: CloseSessionDto, @Request() req) {
+    return this.registerSessionService.close(id, closeSessionDto, req.user);
+  }
+
+  @Get(':id/report')
+  @ApiOperation({ summary: 'Get the X-report (open session) or Z-report (closed session)' })
+  @ApiResponse({ status: 200, description: 'Report generated successfully' })
+  @ApiQuery({ name: 'type', required: false, description: 'x (default) or z' })
+  getReport(@Param('id') id: string, @Query('type') type: SessionReportType = 'x', @Request() req) {
+    return this.registerSessionService.getReport(id, type, req.user);
+  }
+
+  @Get(':id/report/pdf')
+  @ApiOperation({ summary: 'Print the X-report or Z-report as a PDF receipt' })
+  @ApiResponse({ status: 200, description: 'Report PDF generated successfully' })
+  @ApiQuery({ name: 'type', required: false, description: 'x (default) or z' })
+  async printReport(
+    @Param('id') id: string,
+    @Query('type') type: SessionReportType = 'x',
+    @Request() req,
+    @Res() res: Response,
+  ): Promise<void> {
+    const pdf = await this.registerSessionService.generateReportPdf(id, type, req.user);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${type}-report-${id}.pdf"`);
+    res.status(HttpStatus.OK).send(pdf);
+  }
+}
@@ -0,0 +1,73 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { RegistersService } from './registers.service';
+import { CreateRegisterDto } from './dto/create-register.dto';
+import { UpdateRegisterDto } from './dto/update-register.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('registers')
+@Controller('registers')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class RegistersController {
+  constructor(private readonly registersService: RegistersService) {}
+
+  @Post()
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Create a new register' })
+  @ApiResponse({ status: 201, description: 'Register created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - register already exists' })
+  create(@Body() createRegisterDto: CreateRegisterDto, @Request() req) {
+    return this.registersService.create(createRegisterDto, req.user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all registers' })
+  @ApiResponse({ status: 200, description: 'Registers retrieved successfully' })
+  @ApiQuery({ name: 'location', required: false, description: 'Filter by location ID' })
+  @ApiQuery({ name: 'isActive', required: false, description: 'Filter by active status' })
+  findAll(@Query() query: any) {
+    return this.registersService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a register by ID' })
+  @ApiResponse({ status: 200, description: 'Register retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Register not found' })
+  findOne(@Param('id') id: string) {
+    return this.registersService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Update a register' })
+  @ApiResponse({ status: 200, description: 'Register updated successfully' })
+  @ApiResponse({ status: 404, description: 'Register not found' })
+  @ApiResponse({ status: 400, description: 'Bad request - name or code already exists' })
+  update(@Param('id') id: string, @Body() updateRegisterDto: UpdateRegisterDto, @Request() req) {
+    return this.registersService.update(id, updateRegisterDto, req.user.id);
+  }
+
+  @Delete(':id')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Delete a register' })
+  @ApiResponse({ status: 200, description: 'Register deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Register has sessions on record' })
+  @ApiResponse({ status: 404, description: 'Register not found' })
+  remove(@Param('id') id: string) {
+    return this.registersService.remove(id);
+  }
+}
@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RegistersService } from './registers.service';
+import { RegistersController } from './registers.controller';
+import { RegisterSessionsController } from './register-sessions.controller';
+import { RegisterSessionService } from './services/register-session.service';
+import { SessionReportService } from './services/session-report.service';
+import { Register, RegisterSchema } from './schemas/register.schema';
+import { RegisterSession, RegisterSessionSchema } from './schemas/register-session.schema';
+import { Sale, SaleSchema } from '../sales/schemas/sale.schema';
+import { Refund, RefundSchema } from '../sales/schemas/refund.schema';
+import { NumberingModule } from '../numbering/numbering.module';
+import { LocationsModule } from '../locations/locations.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Register.name, schema: RegisterSchema },
+      { name: RegisterSession.name, schema: RegisterSessionSchema },
+      { name: Sale.name, schema: SaleSchema },
+      { name: Refund.name, schema: RefundSchema }
+    ]),
+    NumberingModule,
+    LocationsModule,
+  ],
+  controllers: [RegistersController, RegisterSessionsController],
+  providers: [RegistersService, RegisterSessionService, SessionReportService],
+  exports: [RegistersService, RegisterSessionService],
+})
+export class RegistersModule {}
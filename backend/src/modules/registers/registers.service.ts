@@ -0,0 +1,131 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Register, RegisterDocument } from './schemas/register.schema';
+import { RegisterSession, RegisterSessionDocument } from './schemas/register-session.schema';
+import { LocationsService } from '../locations/locations.service';
+import { CreateRegisterDto } from './dto/create-register.dto';
+import { UpdateRegisterDto } from './dto/update-register.dto';
+
+@Injectable()
+export class RegistersService {
+  constructor(
+    @InjectModel(Register.name) private registerModel: Model<RegisterDocument>,
+    @InjectModel(RegisterSession.name) private sessionModel: Model<RegisterSessionDocument>,
+    private locationsService: LocationsService,
+  ) {}
+
+  async create(createRegisterDto: CreateRegisterDto, userId: string): Promise<Register> {
+    await this.assertUnique(createRegisterDto);
+    await this.locationsService.resolve(createRegisterDto.location);
+
+    const createdRegister = new this.registerModel({
+      ...createRegisterDto,
+      location: new Types.ObjectId(createRegisterDto.location),
+      createdBy: new Types.ObjectId(userId),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    return createdRegister.save();
+  }
+
+  async findAll(query: any = {}): Promise<Register[]> {
+    const { location, isActive } = query;
+
+    let filter: any = {};
+
+    // Filter by location
+    if (location) {
+      filter.location = new Types.ObjectId(location);
+    }
+
+    // Filter by active status
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+
+    return this.registerModel
+      .find(filter)
+      .populate('location', 'name code')
+      .sort({ name: 1 })
+      .exec();
+  }
+
+  async findOne(id: string): Promise<RegisterDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid register ID');
+    }
+
+    const register = await this.registerModel
+      .findById(id)
+      .populate('location', 'name code')
+      .exec();
+    if (!register) {
+      throw new NotFoundException('Register not found');
+    }
+
+    return register;
+  }
+
+  async update(id: string, updateRegisterDto: UpdateRegisterDto, userId: string): Promise<Register> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid register ID');
+    }
+
+    await this.assertUnique(updateRegisterDto, id);
+
+    if (updateRegisterDto.location) {
+      await this.locationsService.resolve(updateRegisterDto.location);
+    }
+
+    const updatedRegister = await this.registerModel
+      .findByIdAndUpdate(
+        id,
+        {
+          ...updateRegisterDto,
+          ...(updateRegisterDto.location && { location: new Types.ObjectId(updateRegisterDto.location) }),
+          updatedBy: new Types.ObjectId(userId),
+        },
+        { new: true, runValidators: true }
+      )
+      .populate('location', 'name code')
+      .exec();
+
+    if (!updatedRegister) {
+      throw new NotFoundException('Register not found');
+    }
+
+    return updatedRegister;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+
+    const sessions = await this.sessionModel.countDocuments({ register: new Types.ObjectId(id) });
+    if (sessions > 0) {
+      throw new BadRequestException('Register has sessions on record; deactivate it instead');
+    }
+
+    await this.registerModel.findByIdAndDelete(id).exec();
+  }
+
+  private async assertUnique(registerDto: Partial<CreateRegisterDto>, excludeId?: string): Promise<void> {
+    const conditions = [
+      ...(registerDto.name ? [{ name: registerDto.name }] : []),
+      ...(registerDto.code ? [{ code: registerDto.code.toUpperCase() }] : []),
+    ];
+
+    if (conditions.length === 0) {
+      return;
+    }
+
+    const existingRegister = await this.registerModel.findOne({
+      ...(excludeId && { _id: { $ne: new Types.ObjectId(excludeId) } }),
+      $or: conditions,
+    });
+
+    if (existingRegister) {
+      throw new BadRequestException('Register with this name or code already exists');
+    }
+  }
+}
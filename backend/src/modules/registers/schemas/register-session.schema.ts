@@ -0,0 +1,115 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RegisterSessionDocument = RegisterSession & Document;
+
+export enum CashMovementType {
+  PAY_IN = 'pay_in',
+  PAY_OUT = 'pay_out',
+}
+
+// Cash put into or taken out of the drawer outside of sales
+@Schema({ timestamps: true })
+export class CashMovement {
+  @Prop({ required: true, enum: Object.values(CashMovementType) })
+  type: string;
+
+  @Prop({ required: true, min: 0.01 })
+  amount: number;
+
+  @Prop({ required: true })
+  reason: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user: Types.ObjectId;
+}
+
+export const CashMovementSchema = SchemaFactory.createForClass(CashMovement);
+
+/**
+ * Takings of a session, worked out for X-reports and frozen into the
+ * session at close for the Z-report.
+ */
+export interface SessionSummary {
+  sales: {
+    count: number;
+    total: number;
+    tax: number;
+    discount: number;
+    // Amount taken per tender method
+    tenders: Record<string, number>;
+  };
+  refunds: {
+    count: number;
+    total: number;
+    cash: number;
+  };
+  payIns: number;
+  payOuts: number;
+  expectedCash: number;
+}
+
+@Schema({ timestamps: true })
+export class RegisterSession {
+  @Prop({ required: true, unique: true })
+  sessionNumber: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Register', required: true })
+  register: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  cashier: Types.ObjectId;
+
+  @Prop({ required: true, enum: ['open', 'closed'], default: 'open' })
+  status: string;
+
+  // Cash in the drawer when the session was opened
+  @Prop({ required: true, min: 0 })
+  openingFloat: number;
+
+  @Prop({ default: Date.now })
+  openedAt: Date;
+
+  @Prop({ type: [CashMovementSchema], default: [] })
+  movements: CashMovement[];
+
+  @Prop()
+  closedAt: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  closedBy: Types.ObjectId;
+
+  // Cash the drawer should hold at close, what was counted, and the
+  // difference (negative when cash is missing)
+  @Prop()
+  expectedCash: number;
+
+  @Prop()
+  countedCash: number;
+
+  @Prop()
+  variance: number;
+
+  @Prop({ type: Object })
+  summary: SessionSummary;
+
+  @Prop()
+  notes: string;
+}
+
+export const RegisterSessionSchema = SchemaFactory.createForClass(RegisterSession);
+
+// One open session per register and per cashier
+RegisterSessionSchema.index(
+  { register: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' }, name: 'register_open_session' }
+);
+RegisterSessionSchema.index(
+  { cashier: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' }, name: 'cashier_open_session' }
+);
+RegisterSessionSchema.index({ register: 1, openedAt: -1 });
+RegisterSessionSchema.index({ cashier: 1, openedAt: -1 });
@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RegisterDocument = Register & Document;
+
+@Schema({ timestamps: true })
+export class Register {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop({ required: true, unique: true, uppercase: true })
+  code: string;
+
+  // Location the register sells from
+  @Prop({ type: Types.ObjectId, ref: 'Location', required: true })
+  location: Types.ObjectId;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+}
+
+export const RegisterSchema = SchemaFactory.createForClass(Register);
+
+// Indexes for better query performance
+RegisterSchema.index({ location: 1 });
+RegisterSchema.index({ isActive: 1 });
@@ -0,0 +1,286 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { RegisterSessionService } from './register-session.service';
+import { SessionReportService } from './session-report.service';
+import { RegisterSession, CashMovementType } from '../schemas/register-session.schema';
+import { Sale } from '../../sales/schemas/sale.schema';
+import { Refund } from '../../sales/schemas/refund.schema';
+import { RegistersService } from '../registers.service';
+import { NumberingService } from '../../numbering/numbering.service';
+
+describe('RegisterSessionService', () => {
+  let service: RegisterSessionService;
+
+  const registerId = new Types.ObjectId('507f1f77bcf86cd799439020');
+  const locationId = new Types.ObjectId('507f1f77bcf86cd799439040');
+  const sessionId = new Types.ObjectId('507f1f77bcf86cd799439050');
+  const cashier = { id: '507f1f77bcf86cd799439014', role: 'cashier' };
+  const otherCashier = { id: '507f1f77bcf86cd799439016', role: 'cashier' };
+  const manager = { id: '507f1f77bcf86cd799439015', role: 'manager' };
+
+  let sessionDoc: any;
+
+  const buildSession = (overrides: any = {}) => ({
+    _id: sessionId,
+    sessionNumber: 'SES-2024-000001',
+    register: registerId,
+    cashier: new Types.ObjectId(cashier.id),
+    status: 'open',
+    openingFloat: 100,
+    movements: [],
+    ...overrides,
+  });
+
+  const chain = (result: any) => ({
+    select: jest.fn().mockReturnThis(),
+    populate: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  // Mimics a Mongoose model constructor returning a session document
+  const mockSessionModel: any = jest.fn().mockImplementation((data) => {
+    sessionDoc = { ...data, _id: sessionId, save: jest.fn().mockResolvedValue(data) };
+    return sessionDoc;
+  });
+  mockSessionModel.findOne = jest.fn();
+  mockSessionModel.findById = jest.fn();
+  mockSessionModel.findOneAndUpdate = jest.fn();
+
+  const mockSaleModel = {
+    find: jest.fn(),
+  };
+
+  const mockRefundModel = {
+    find: jest.fn(),
+  };
+
+  const mockRegistersService = {
+    findOne: jest.fn(),
+  };
+
+  const mockNumberingService = {
+    next: jest.fn().mockResolvedValue('SES-2024-000001'),
+  };
+
+  const mockSessionReportService = {
+    render: jest.fn(),
+  };
+
+  const givenSession = (session: any) => {
+    mockSessionModel.findById.mockReturnValue(chain(session));
+  };
+
+  // Two cash sales (one with change given), a split sale and a cash refund
+  const givenTakings = () => {
+    mockSaleModel.find.mockReturnValue(chain([
+      { totals: { total: 30, tax: 3, discount: 0 }, payments: [{ method: 'cash', amount: 30, status: 'completed' }] },
+      { totals: { total: 20, tax: 2, discount: 5 }, payments: [{ method: 'cash', amount: 20, change: 30, status: 'completed' }] },
+      {
+        totals: { total: 50, tax: 5, discount: 0 },
+        payments: [
+          { method: 'card', amount: 40, status: 'completed' },
+          { method: 'cash', amount: 5, status: 'completed' },
+        ],
+        loyalty: { redeemedAs: 'payment', redeemedValue: 5 },
+      },
+    ]));
+    mockRefundModel.find.mockReturnValue(chain([
+      { amount: 12, payment: { method: 'cash' }, loyalty: { restoredValue: 2 } },
+      { amount: 8, payment: { method: 'card' } },
+    ]));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RegisterSessionService,
+        { provide: getModelToken(RegisterSession.name), useValue: mockSessionModel },
+        { provide: getModelToken(Sale.name), useValue: mockSaleModel },
+        { provide: getModelToken(Refund.name), useValue: mockRefundModel },
+        { provide: RegistersService, useValue: mockRegistersService },
+        { provide: NumberingService, useValue: mockNumberingService },
+        { provide: SessionReportService, useValue: mockSessionReportService },
+      ],
+    }).compile();
+
+    service = module.get<RegisterSessionService>(RegisterSessionService);
+
+    mockRegistersService.findOne.mockResolvedValue({
+      _id: registerId,
+      name: 'Till 1',
+      location: { _id: locationId, name: 'Main Store' },
+      isActive: true,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('open', () => {
+    it('should open a session on the register location with the opening float', async () => {
+      mockSessionModel.findOne.mockResolvedValue(null);
+
+      await service.open({ register: registerId.toString(), openingFloat: 150 }, cashier);
+
+      expect(mockNumberingService.next).toHaveBeenCalledWith('register_session');
+      expect(sessionDoc).toEqual(expect.objectContaining({
+        sessionNumber: 'SES-2024-000001',
+        register: registerId,
+        location: locationId,
+        openingFloat: 150,
+      }));
+      expect(sessionDoc.cashier.toString()).toBe(cashier.id);
+    });
+
+    it('should refuse a second open session for the register or cashier', async () => {
+      mockSessionModel.findOne.mockResolvedValue(buildSession({ cashier: new Types.ObjectId(otherCashier.id) }));
+
+      await expect(service.open({ register: registerId.toString(), openingFloat: 0 }, cashier))
+        .rejects.toThrow('Register Till 1 already has an open session');
+      expect(mockSessionModel).not.toHaveBeenCalled();
+    });
+
+    it('should report a concurrently opened session as a conflict', async () => {
+      mockSessionModel.findOne.mockResolvedValue(null);
+      mockSessionModel.mockImplementationOnce((data) => {
+        sessionDoc = { ...data, save: jest.fn().mockRejectedValue({ code: 11000 }) };
+        return sessionDoc;
+      });
+
+      await expect(service.open({ register: registerId.toString(), openingFloat: 0 }, cashier))
+        .rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('summarise', () => {
+    it('should work out tenders and expected cash from sales, refunds and movements', async () => {
+      givenTakings();
+
+      const summary = await service.summarise(buildSession({
+        movements: [
+          { type: CashMovementType.PAY_IN, amount: 50, reason: 'Change delivery' },
+          { type: CashMovementType.PAY_OUT, amount: 15, reason: 'Window cleaner' },
+        ],
+      }) as any);
+
+      expect(mockSaleModel.find).toHaveBeenCalledWith({ session: sessionId, status: { $ne: 'cancelled' } });
+      expect(summary.sales).toEqual({
+        count: 3,
+        total: 100,
+        tax: 10,
+        discount: 5,
+        tenders: { cash: 55, card: 40, loyalty_points: 5 },
+      });
+      expect(summary.refunds).toEqual({ count: 2, total: 20, cash: 10 });
+      // 100 float + 55 cash + 50 in - 15 out - 10 refunded
+      expect(summary.expectedCash).toBe(180);
+    });
+  });
+
+  describe('addMovement', () => {
+    it('should not pay out more cash than the drawer should hold', async () => {
+      givenSession(buildSession());
+      mockSaleModel.find.mockReturnValue(chain([]));
+      mockRefundModel.find.mockReturnValue(chain([]));
+
+      await expect(service.addMovement(
+        sessionId.toString(),
+        { type: CashMovementType.PAY_OUT, amount: 120, reason: 'Supplier' },
+        cashier
+      )).rejects.toThrow('exceeds the expected cash in the drawer of 100');
+      expect(mockSessionModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should only let the session cashier or a supervisor record movements', async () => {
+      givenSession(buildSession());
+
+      await expect(service.addMovement(
+        sessionId.toString(),
+        { type: CashMovementType.PAY_IN, amount: 20, reason: 'Change' },
+        otherCashier
+      )).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should push the movement guarded on the movement count', async () => {
+      givenSession(buildSession());
+      mockSessionModel.findOneAndUpdate.mockReturnValue(chain(null));
+
+      await expect(service.addMovement(
+        sessionId.toString(),
+        { type: CashMovementType.PAY_IN, amount: 20, reason: 'Change' },
+        manager
+      )).rejects.toThrow(ConflictException);
+      expect(mockSessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: sessionId, status: 'open', movements: { $size: 0 } },
+        expect.objectContaining({
+          $push: { movements: expect.objectContaining({ type: 'pay_in', amount: 20 }) },
+        }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('close', () => {
+    it('should record counted cash, variance and the takings for the Z-report', async () => {
+      givenSession(buildSession());
+      givenTakings();
+      mockSessionModel.findOneAndUpdate.mockReturnValue(chain(buildSession({ status: 'closed' })));
+
+      await service.close(sessionId.toString(), { countedCash: 150 }, cashier);
+
+      const [filter, update] = mockSessionModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ _id: sessionId, status: 'open', movements: { $size: 0 } });
+      expect(update.$set).toEqual(expect.objectContaining({
+        status: 'closed',
+        expectedCash: 145,
+        countedCash: 150,
+        variance: 5,
+        summary: expect.objectContaining({ expectedCash: 145 }),
+      }));
+    });
+
+    it('should not close a session twice', async () => {
+      givenSession(buildSession({ status: 'closed' }));
+
+      await expect(service.close(sessionId.toString(), { countedCash: 100 }, cashier))
+        .rejects.toThrow('is already closed');
+    });
+  });
+
+  describe('getReport', () => {
+    it('should give an X-report of the running takings of an open session', async () => {
+      givenSession(buildSession());
+      givenTakings();
+
+      const report = await service.getReport(sessionId.toString(), 'x', cashier);
+
+      expect(report.type).toBe('x');
+      expect(report.summary.expectedCash).toBe(145);
+    });
+
+    it('should give the Z-report from the takings frozen at close', async () => {
+      const summary = { expectedCash: 145 };
+      givenSession(buildSession({ status: 'closed', summary }));
+
+      const report = await service.getReport(sessionId.toString(), 'z', manager);
+
+      expect(report.summary).toBe(summary);
+      expect(mockSaleModel.find).not.toHaveBeenCalled();
+    });
+
+    it('should refuse an X-report once closed and a Z-report while open', async () => {
+      givenSession(buildSession({ status: 'closed' }));
+      await expect(service.getReport(sessionId.toString(), 'x', cashier)).rejects.toThrow(BadRequestException);
+
+      givenSession(buildSession());
+      await expect(service.getReport(sessionId.toString(), 'z', cashier)).rejects.toThrow(BadRequestException);
+    });
+  });
+});
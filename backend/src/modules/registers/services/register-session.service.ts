@@ -0,0 +1,391 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  RegisterSession,
+  RegisterSessionDocument,
+  CashMovementType,
+  SessionSummary,
+} from '../schemas/register-session.schema';
+import { Sale, SaleDocument } from '../../sales/schemas/sale.schema';
+import { Refund, RefundDocument } from '../../sales/schemas/refund.schema';
+import { RegistersService } from '../registers.service';
+import { NumberingService } from '../../numbering/numbering.service';
+import { SessionReportService } from './session-report.service';
+import { OpenSessionDto, CashMovementDto, CloseSessionDto } from '../dto/register-session.dto';
+import { DocumentSequence } from '../../../config/numbering.config';
+import { registerConfig } from '../../../config/register.config';
+
+export interface SessionActor {
+  id: string;
+  role: string;
+}
+
+export type SessionReportType = 'x' | 'z';
+
+export interface SessionReport {
+  type: SessionReportType;
+  generatedAt: Date;
+  session: RegisterSessionDocument;
+  summary: SessionSummary;
+}
+
+@Injectable()
+export class RegisterSessionService {
+  private readonly logger = new Logger(RegisterSessionService.name);
+
+  constructor(
+    @InjectModel(RegisterSession.name) private sessionModel: Model<RegisterSessionDocument>,
+    @InjectModel(Sale.name) private saleModel: Model<SaleDocument>,
+    @InjectModel(Refund.name) private refundModel: Model<RefundDocument>,
+    private registersService: RegistersService,
+    private numberingService: NumberingService,
+    private sessionReportService: SessionReportService,
+  ) {}
+
+  async open(openSessionDto: OpenSessionDto, actor: SessionActor): Promise<RegisterSession> {
+    const register = await this.registersService.findOne(openSessionDto.register);
+    if (!register.isActive) {
+      throw new BadRequestException(`Register ${register.name} is inactive`);
+    }
+
+    const existing = await this.sessionModel.findOne({
+      status: 'open',
+      $or: [{ register: register._id }, { cashier: new Types.ObjectId(actor.id) }],
+    });
+    if (existing) {
+      throw new ConflictException(
+        existing.cashier.toString() === actor.id
+          ? `You already have session ${existing.sessionNumber} open`
+          : `Register ${register.name} already has an open session`
+      );
+    }
+
+    const session = new this.sessionModel({
+      sessionNumber: await this.numberingService.next(DocumentSequence.REGISTER_SESSION),
+      register: register._id,
+      location: (register.location as any)?._id || register.location,
+      cashier: new Types.ObjectId(actor.id),
+      openingFloat: this.round(openSessionDto.openingFloat),
+      openedAt: new Date(),
+      notes: openSessionDto.notes,
+    });
+
+    // The partial unique indexes catch a session opened concurrently
+    try {
+      return await session.save();
+    } catch (error) {
+      if (error?.code === 11000) {
+        throw new ConflictException('Register or cashier already has an open session');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The open session of a cashier, if any; sales made at the till are
+   * linked to it.
+   */
+  async findOpenForCashier(userId: string): Promise<RegisterSessionDocument | null> {
+    return this.sessionModel
+      .findOne({ cashier: new Types.ObjectId(userId), status: 'open' })
+      .exec();
+  }
+
+  async findCurrent(userId: string): Promise<RegisterSession> {
+    const session = await this.findOpenForCashier(userId);
+    if (!session) {
+      throw new NotFoundException('No open register session');
+    }
+
+    return session.populate([
+      { path: 'register', select: 'name code' },
+      { path: 'location', select: 'name code' },
+    ]);
+  }
+
+  async findAll(query: any, actor: SessionActor): Promise<RegisterSession[]> {
+    const { register, cashier, status, startDate, endDate, page = 1, limit = 20 } = query;
+
+    let filter: any = {};
+
+    // Cashiers only see their own sessions
+    if (!this.isSupervisor(actor)) {
+      filter.cashier = new Types.ObjectId(actor.id);
+    } else if (cashier) {
+      filter.cashier = new Types.ObjectId(cashier);
+    }
+
+    // Filter by register
+    if (register) {
+      filter.register = new Types.ObjectId(register);
+    }
+
+    // Filter by status
+    if (status) {
+      filter.status = status;
+    }
+
+    // Filter by opening date range
+    if (startDate || endDate) {
+      filter.openedAt = {};
+      if (startDate) filter.openedAt.$gte = new Date(startDate);
+      if (endDate) filter.openedAt.$lte = new Date(endDate);
+    }
+
+    return this.sessionModel
+      .find(filter)
+      .sort({ openedAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(Number(limit))
+      .populate([
+        { path: 'register', select: 'name code' },
+        { path: 'cashier', select: 'username firstName lastName' },
+      ])
+      .exec();
+  }
+
+  async findOne(id: string, actor: SessionActor): Promise<RegisterSessionDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid register session ID');
+    }
+
+    const session = await this.sessionModel
+      .findById(id)
+      .populate([
+        { path: 'register', select: 'name code' },
+        { path: 'location', select: 'name code' },
+        { path: 'cashier', select: 'username firstName lastName' },
+        { path: 'closedBy', select: 'username firstName lastName' },
+      ])
+      .exec();
+    if (!session) {
+      throw new NotFoundException('Register session not found');
+    }
+
+    this.assertCanAccess(session, actor);
+
+    return session;
+  }
+
+  /**
+   * Records cash paid into or out of the drawer. A pay-out cannot take
+   * more cash than the drawer should hold.
+   */
+  async addMovement(id: string, movementDto: CashMovementDto, actor: SessionActor): Promise<RegisterSession> {
+    const session = await this.findOpenSession(id, actor);
+
+    if (movementDto.type === CashMovementType.PAY_OUT) {
+      const { expectedCash } = await this.summarise(session);
+      if (movementDto.amount > expectedCash) {
+        throw new BadRequestException(
+          `Pay-out of ${movementDto.amount} exceeds the expected cash in the drawer of ${expectedCash}`
+        );
+      }
+    }
+
+    // Guard on the movement count so two pay-outs cannot both pass the
+    // cash check against the same balance
+    const updated = await this.sessionModel
+      .findOneAndUpdate(
+        { _id: session._id, status: 'open', movements: { $size: session.movements.length } },
+        {
+          $push: {
+            movements: {
+              type: movementDto.type,
+              amount: this.round(movementDto.amount),
+              reason: movementDto.reason,
+              user: new Types.ObjectId(actor.id),
+            },
+          },
+        },
+        { new: true, runValidators: true }
+      )
+      .exec();
+
+    if (!updated) {
+      throw new ConflictException('Register session was modified by another request, please retry');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Closes the session against the counted cash. The takings are frozen
+   * into the session for the Z-report, and a variance beyond the
+   * configured tolerance is logged for review.
+   */
+  async close(id: string, closeSessionDto: CloseSessionDto, actor: SessionActor): Promise<RegisterSession> {
+    const session = await this.findOpenSession(id, actor);
+    const summary = await this.summarise(session);
+    const countedCash = this.round(closeSessionDto.countedCash);
+    const variance = this.round(countedCash - summary.expectedCash);
+
+    const closed = await this.sessionModel
+      .findOneAndUpdate(
+        { _id: session._id, status: 'open', movements: { $size: session.movements.length } },
+        {
+          $set: {
+            status: 'closed',
+            closedAt: new Date(),
+            closedBy: new Types.ObjectId(actor.id),
+            expectedCash: summary.expectedCash,
+            countedCash,
+            variance,
+            summary,
+            ...(closeSessionDto.notes && { notes: closeSessionDto.notes }),
+          },
+        },
+        { new: true }
+      )
+      .exec();
+
+    if (!closed) {
+      throw new ConflictException('Register session was modified by another request, please retry');
+    }
+
+    if (Math.abs(variance) > registerConfig.varianceTolerance) {
+      this.logger.warn(
+        `Session ${closed.sessionNumber} closed with a cash variance of ${variance} ` +
+        `(expected ${summary.expectedCash}, counted ${countedCash})`
+      );
+    }
+
+    return closed;
+  }
+
+  /**
+   * X-report: running takings of an open session. Z-report: the takings
+   * frozen when the session was closed, with the counted cash.
+   */
+  async getReport(id: string, type: SessionReportType, actor: SessionActor): Promise<SessionReport> {
+    if (!['x', 'z'].includes(type)) {
+      throw new BadRequestException(`Report type must be 'x' or 'z', not '${type}'`);
+    }
+
+    const session = await this.findOne(id, actor);
+
+    if (type === 'x' && session.status !== 'open') {
+      throw new BadRequestException('X-reports are only available for open sessions; use the Z-report');
+    }
+
+    if (type === 'z' && session.status !== 'closed') {
+      throw new BadRequestException('Z-reports are only available once the session is closed');
+    }
+
+    return {
+      type,
+      generatedAt: new Date(),
+      session,
+      summary: type === 'z' ? session.summary : await this.summarise(session),
+    };
+  }
+
+  async generateReportPdf(id: string, type: SessionReportType, actor: SessionActor): Promise<Buffer> {
+    return this.sessionReportService.render(await this.getReport(id, type, actor));
+  }
+
+  /**
+   * Works out the takings of a session from the sales and refunds linked
+   * to it. The drawer should hold the opening float plus cash taken and
+   * paid in, less cash paid out and cash refunded.
+   */
+  async summarise(session: RegisterSessionDocument): Promise<SessionSummary> {
+    const [sales, refunds] = await Promise.all([
+      this.saleModel
+        .find({ session: session._id, status: { $ne: 'cancelled' } })
+        .select('totals payments loyalty')
+        .exec(),
+      this.refundModel
+        .find({ session: session._id })
+        .select('amount payment loyalty')
+        .exec(),
+    ]);
+
+    const tenders: Record<string, number> = {};
+    const addTender = (method: string, amount: number) => {
+      tenders[method] = this.round((tenders[method] || 0) + amount);
+    };
+
+    sales.forEach(sale => {
+      (sale.payments || [])
+        .filter(tender => tender.status === 'completed')
+        .forEach(tender => addTender(tender.method, tender.amount));
+
+      if (sale.loyalty?.redeemedAs === 'payment' && sale.loyalty.redeemedValue > 0) {
+        addTender('loyalty_points', sale.loyalty.redeemedValue);
+      }
+    });
+
+    // Part of a refund may be given back as points rather than cash
+    const cashRefunds = refunds
+      .filter(refund => refund.payment.method === 'cash')
+      .reduce((sum, refund) => sum + refund.amount - (refund.loyalty?.restoredValue || 0), 0);
+
+    const movementTotal = (type: CashMovementType) => session.movements
+      .filter(movement => movement.type === type)
+      .reduce((sum, movement) => sum + movement.amount, 0);
+    const payIns = this.round(movementTotal(CashMovementType.PAY_IN));
+    const payOuts = this.round(movementTotal(CashMovementType.PAY_OUT));
+
+    return {
+      sales: {
+        count: sales.length,
+        total: this.round(sales.reduce((sum, sale) => sum + sale.totals.total, 0)),
+        tax: this.round(sales.reduce((sum, sale) => sum + (sale.totals.tax || 0), 0)),
+        discount: this.round(sales.reduce((sum, sale) => sum + (sale.totals.discount || 0), 0)),
+        tenders,
+      },
+      refunds: {
+        count: refunds.length,
+        total: this.round(refunds.reduce((sum, refund) => sum + refund.amount, 0)),
+        cash: this.round(cashRefunds),
+      },
+      payIns,
+      payOuts,
+      expectedCash: this.round(session.openingFloat + (tenders.cash || 0) + payIns - payOuts - cashRefunds),
+    };
+  }
+
+  private async findOpenSession(id: string, actor: SessionActor): Promise<RegisterSessionDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid register session ID');
+    }
+
+    const session = await this.sessionModel.findById(id).exec();
+    if (!session) {
+      throw new NotFoundException('Register session not found');
+    }
+
+    this.assertCanAccess(session, actor);
+
+    if (session.status !== 'open') {
+      throw new BadRequestException(`Register session ${session.sessionNumber} is already closed`);
+    }
+
+    return session;
+  }
+
+  // Cashiers work their own sessions; supervisors can act on any of them
+  private assertCanAccess(session: RegisterSessionDocument, actor: SessionActor): void {
+    const cashier = (session.cashier as any)?._id || session.cashier;
+    if (cashier.toString() !== actor.id && !this.isSupervisor(actor)) {
+      throw new ForbiddenException('This register session belongs to another cashier');
+    }
+  }
+
+  private isSupervisor(actor: SessionActor): boolean {
+    return registerConfig.supervisorRoles.includes(actor.role);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
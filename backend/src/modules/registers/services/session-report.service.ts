@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import * as PDFDocument from 'pdfkit';
+import { SessionReport } from './register-session.service';
+
+// 80 mm receipt roll; pages break automatically when a report runs long
+const PAGE_WIDTH = 226.77;
+const PAGE_HEIGHT = 566.93;
+const MARGIN = 12;
+const WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+@Injectable()
+export class SessionReportService {
+  async render(report: SessionReport): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({ size: [PAGE_WIDTH, PAGE_HEIGHT], margin: MARGIN });
+        const chunks: Buffer[] = [];
+
+        doc.on('data', chunk => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        this.drawReport(doc, report);
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  private drawReport(doc: PDFKit.PDFDocument, report: SessionReport) {
+    const { session, summary } = report;
+    const register: any = session.register;
+    const cashier: any = session.cashier;
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(12)
+      .text(report.type === 'x' ? 'X-REPORT' : 'Z-REPORT', { width: WIDTH, align: 'center' })
+      .font('Helvetica')
+      .fontSize(8)
+      .text(report.type === 'x' ? 'Mid-shift reading - session still open' : 'End of shift', {
+        width: WIDTH,
+        align: 'center',
+      })
+      .moveDown();
+
+    this.row(doc, 'Session', session.sessionNumber);
+    this.row(doc, 'Register', register?.name ? `${register.name} (${register.code})` : String(register));
+    this.row(doc, 'Cashier', cashier?.username || String(cashier));
+    this.row(doc, 'Opened', this.formatDate(session.openedAt));
+    this.row(doc, report.type === 'x' ? 'Printed' : 'Closed', this.formatDate(
+      report.type === 'x' ? report.generatedAt : session.closedAt
+    ));
+
+    this.section(doc, 'Sales');
+    this.row(doc, 'Transactions', String(summary.sales.count));
+    this.row(doc, 'Discounts', this.money(summary.sales.discount));
+    this.row(doc, 'Tax', this.money(summary.sales.tax));
+    this.row(doc, 'Gross sales', this.money(summary.sales.total), true);
+
+    this.section(doc, 'Tenders');
+    Object.entries(summary.sales.tenders).forEach(([method, amount]) => {
+      this.row(doc, this.label(method), this.money(amount));
+    });
+
+    this.section(doc, 'Refunds');
+    this.row(doc, 'Refunds', String(summary.refunds.count));
+    this.row(doc, 'Total refunded', this.money(summary.refunds.total));
+    this.row(doc, 'Cash refunded', this.money(summary.refunds.cash));
+
+    this.section(doc, 'Cash drawer');
+    this.row(doc, 'Opening float', this.money(session.openingFloat));
+    this.row(doc, 'Cash sales', this.money(summary.sales.tenders.cash || 0));
+    this.row(doc, 'Pay-ins', this.money(summary.payIns));
+    this.row(doc, 'Pay-outs', this.money(-summary.payOuts));
+    this.row(doc, 'Cash refunds', this.money(-summary.refunds.cash));
+    this.row(doc, 'Expected cash', this.money(summary.expectedCash), true);
+
+    if (report.type === 'z') {
+      this.row(doc, 'Counted cash', this.money(session.countedCash), true);
+      this.row(doc, 'Variance', this.money(session.variance), true);
+    }
+
+    if (session.movements.length > 0) {
+      this.section(doc, 'Pay-ins and pay-outs');
+      session.movements.forEach(movement => {
+        const amount = movement.type === 'pay_out' ? -movement.amount : movement.amount;
+        this.row(doc, movement.reason, this.money(amount));
+      });
+    }
+  }
+
+  private section(doc: PDFKit.PDFDocument, title: string) {
+    doc
+      .moveDown(0.5)
+      .font('Helvetica-Bold')
+      .fontSize(9)
+      .text(title.toUpperCase(), MARGIN, doc.y, { width: WIDTH });
+
+    doc
+      .moveTo(MARGIN, doc.y + 1)
+      .lineTo(MARGIN + WIDTH, doc.y + 1)
+      .lineWidth(0.5)
+      .stroke()
+      .moveDown(0.3);
+  }
+
+  private row(doc: PDFKit.PDFDocument, label: string, value: string, bold = false) {
+    const y = doc.y;
+
+    doc
+      .font(bold ? 'Helvetica-Bold' : 'Helvetica')
+      .fontSize(8)
+      .text(label, MARGIN, y, { width: WIDTH * 0.6, lineBreak: false, ellipsis: true })
+      .text(value, MARGIN + WIDTH * 0.6, y, { width: WIDTH * 0.4, align: 'right' });
+  }
+
+  private label(method: string): string {
+    return method
+      .split('_')
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  private money(amount: number): string {
+    return (amount ?? 0).toFixed(2);
+  }
+
+  private formatDate(date: Date): string {
+    return date ? new Date(date).toLocaleString() : '-';
+  }
+}
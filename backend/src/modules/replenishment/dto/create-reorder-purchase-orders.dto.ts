@@ -0,0 +1,55 @@
+import { IsString, IsNumber, IsOptional, IsArray, ValidateNested, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReorderItemDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsString()
+  product: string;
+
+  @ApiPropertyOptional({ description: 'Variant ID, for products with variants' })
+  @IsOptional()
+  @IsString()
+  variant?: string;
+
+  @ApiPropertyOptional({ description: 'Overrides the suggested quantity' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  quantity?: number;
+}
+
+export class CreateReorderPurchaseOrdersDto {
+  @ApiPropertyOptional({
+    type: [ReorderItemDto],
+    description: 'Suggestions to convert; all current suggestions when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ReorderItemDto)
+  items?: ReorderItemDto[];
+
+  @ApiPropertyOptional({ description: 'Only convert suggestions for this supplier' })
+  @IsOptional()
+  @IsString()
+  supplier?: string;
+
+  @ApiPropertyOptional({ description: 'Days of sales history to average over' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  windowDays?: number;
+
+  @ApiPropertyOptional({ description: 'Days of demand held as safety stock' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  safetyStockDays?: number;
+
+  @ApiPropertyOptional({ description: 'Days of demand each order should cover' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  coverageDays?: number;
+}
@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ReplenishmentService } from './replenishment.service';
+import { CreateReorderPurchaseOrdersDto } from './dto/create-reorder-purchase-orders.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('inventory')
+@Controller('inventory/reorder-suggestions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class ReplenishmentController {
+  constructor(private readonly replenishmentService: ReplenishmentService) {}
+
+  @Get()
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: 'Get reorder suggestions based on sales velocity and supplier lead times' })
+  @ApiResponse({ status: 200, description: 'Reorder suggestions retrieved successfully' })
+  @ApiQuery({ name: 'windowDays', required: false, description: 'Days of sales history to average over' })
+  @ApiQuery({ name: 'safetyStockDays', required: false, description: 'Days of demand held as safety stock' })
+  @ApiQuery({ name: 'coverageDays', required: false, description: 'Days of demand each order should cover' })
+  @ApiQuery({ name: 'supplier', required: false, description: 'Filter by primary supplier ID' })
+  @ApiQuery({ name: 'category', required: false, description: 'Filter by product category' })
+  @ApiQuery({ name: 'includeAll', required: false, description: 'Include products that do not need reordering' })
+  getSuggestions(@Query() query: any) {
+    return this.replenishmentService.getSuggestions(query);
+  }
+
+  @Post('purchase-orders')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Convert reorder suggestions into draft purchase orders, one per supplier' })
+  @ApiResponse({ status: 201, description: 'Draft purchase orders created successfully' })
+  @ApiResponse({ status: 400, description: 'No products currently need reordering' })
+  createPurchaseOrders(@Body() createDto: CreateReorderPurchaseOrdersDto, @Request() req) {
+    return this.replenishmentService.createPurchaseOrders(createDto, req.user.id);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ReplenishmentService } from './replenishment.service';
+import { ReplenishmentController } from './replenishment.controller';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { Sale, SaleSchema } from '../sales/schemas/sale.schema';
+import { SupplierProduct, SupplierProductSchema } from '../suppliers/schemas/supplier-product.schema';
+import { PurchaseOrder, PurchaseOrderSchema } from '../purchase-orders/schemas/purchase-order.schema';
+import { PurchaseOrdersModule } from '../purchase-orders/purchase-orders.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Product.name, schema: ProductSchema },
+      { name: Sale.name, schema: SaleSchema },
+      { name: SupplierProduct.name, schema: SupplierProductSchema },
+      { name: PurchaseOrder.name, schema: PurchaseOrderSchema }
+    ]),
+    PurchaseOrdersModule
+  ],
+  controllers: [ReplenishmentController],
+  providers: [ReplenishmentService],
+  exports: [ReplenishmentService],
+})
+export class ReplenishmentModule {}
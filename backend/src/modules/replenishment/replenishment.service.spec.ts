@@ -0,0 +1,173 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ReplenishmentService } from './replenishment.service';
+import { Product } from '../products/schemas/product.schema';
+import { Sale } from '../sales/schemas/sale.schema';
+import { SupplierProduct } from '../suppliers/schemas/supplier-product.schema';
+import { PurchaseOrder } from '../purchase-orders/schemas/purchase-order.schema';
+import { PurchaseOrdersService } from '../purchase-orders/purchase-orders.service';
+
+describe('ReplenishmentService', () => {
+  let service: ReplenishmentService;
+
+  const supplierId = new Types.ObjectId('507f1f77bcf86cd799439020');
+  const productA = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const productB = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const userId = '507f1f77bcf86cd799439014';
+
+  const buildProducts = (widgetQuantity = 40) => [
+    {
+      _id: productA,
+      name: 'Widget',
+      sku: 'W-1',
+      category: 'Tools',
+      supplier: { _id: supplierId, name: 'Acme', leadTimeDays: 10 },
+      inventory: { quantity: widgetQuantity, minStock: 5 },
+    },
+    {
+      _id: productB,
+      name: 'Gadget',
+      sku: 'G-1',
+      category: 'Tools',
+      supplier: null,
+      inventory: { quantity: 50, minStock: 5 },
+    },
+  ];
+
+  const mockProductModel = {
+    find: jest.fn(),
+  };
+
+  const mockSaleModel = {
+    aggregate: jest.fn(),
+  };
+
+  const mockSupplierProductModel = {
+    find: jest.fn(),
+  };
+
+  const mockPurchaseOrderModel = {
+    aggregate: jest.fn(),
+  };
+
+  const mockPurchaseOrdersService = {
+    createDrafts: jest.fn(),
+  };
+
+  const givenProducts = (products: any[]) => {
+    mockProductModel.find.mockReturnValue({
+      populate: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(products),
+    });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReplenishmentService,
+        { provide: getModelToken(Product.name), useValue: mockProductModel },
+        { provide: getModelToken(Sale.name), useValue: mockSaleModel },
+        { provide: getModelToken(SupplierProduct.name), useValue: mockSupplierProductModel },
+        { provide: getModelToken(PurchaseOrder.name), useValue: mockPurchaseOrderModel },
+        { provide: PurchaseOrdersService, useValue: mockPurchaseOrdersService },
+      ],
+    }).compile();
+
+    service = module.get<ReplenishmentService>(ReplenishmentService);
+
+    givenProducts(buildProducts());
+    // 90 Widgets and 3 Gadgets sold over a 30 day window
+    mockSaleModel.aggregate.mockResolvedValue([
+      { _id: productA, quantity: 90 },
+      { _id: productB, quantity: 3 },
+    ]);
+    mockPurchaseOrderModel.aggregate.mockResolvedValue([]);
+    mockSupplierProductModel.find.mockReturnValue({
+      exec: jest.fn().mockResolvedValue([
+        { product: productA, supplier: supplierId, leadTimeDays: 5, minOrderQuantity: 24 },
+      ]),
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getSuggestions', () => {
+    it('should derive the reorder point from sales velocity, lead time and safety stock', async () => {
+      const [widget] = await service.getSuggestions({
+        windowDays: '30', safetyStockDays: '7', coverageDays: '14', includeAll: 'true',
+      });
+
+      // 3/day x 5 days lead time (catalogue override) + 3/day x 7 days safety stock
+      expect(widget.averageDailySales).toBe(3);
+      expect(widget.leadTimeDays).toBe(5);
+      expect(widget.safetyStock).toBe(21);
+      expect(widget.reorderPoint).toBe(36);
+      expect(widget.needsReorder).toBe(false);
+    });
+
+    it('should suggest enough to cover the coverage period once at the reorder point', async () => {
+      givenProducts(buildProducts(30));
+
+      const suggestions = await service.getSuggestions({ windowDays: '30', safetyStockDays: '7', coverageDays: '14' });
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toEqual(expect.objectContaining({
+        needsReorder: true,
+        daysUntilStockout: 10,
+        // reorder point 36 + 42 days of cover - 30 on hand
+        suggestedQuantity: 48,
+      }));
+    });
+
+    it('should count open purchase orders as stock on order', async () => {
+      givenProducts(buildProducts(30));
+      mockPurchaseOrderModel.aggregate.mockResolvedValue([{ _id: productA, quantity: 10 }]);
+
+      const suggestions = await service.getSuggestions({ windowDays: '30', safetyStockDays: '7' });
+
+      expect(suggestions).toHaveLength(0);
+    });
+
+    it('should include products that do not need reordering when asked', async () => {
+      const suggestions = await service.getSuggestions({ includeAll: 'true' });
+
+      expect(suggestions).toHaveLength(2);
+      expect(suggestions[1]).toEqual(expect.objectContaining({
+        supplier: null,
+        leadTimeDays: 7,
+        suggestedQuantity: 0,
+      }));
+    });
+
+    it('should reject an empty sales window', async () => {
+      await expect(service.getSuggestions({ windowDays: '0' })).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('createPurchaseOrders', () => {
+    it('should convert selected suggestions into draft purchase orders', async () => {
+      givenProducts(buildProducts(30));
+      mockPurchaseOrdersService.createDrafts.mockResolvedValue({ purchaseOrders: [], skipped: [] });
+
+      await service.createPurchaseOrders({ items: [{ product: productA.toString(), quantity: 60 }] }, userId);
+
+      expect(mockPurchaseOrdersService.createDrafts).toHaveBeenCalledWith(
+        [{ product: productA.toString(), quantity: 60 }],
+        userId
+      );
+    });
+
+    it('should fail when nothing needs reordering', async () => {
+      await expect(service.createPurchaseOrders({}, userId)).rejects.toThrow(BadRequestException);
+      expect(mockPurchaseOrdersService.createDrafts).not.toHaveBeenCalled();
+    });
+  });
+});
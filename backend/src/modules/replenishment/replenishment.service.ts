@@ -0,0 +1,267 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as moment from 'moment';
+import { Product, ProductDocument, ProductVariant } from '../products/schemas/product.schema';
+import { Sale, SaleDocument } from '../sales/schemas/sale.schema';
+import { SupplierProduct, SupplierProductDocument } from '../suppliers/schemas/supplier-product.schema';
+import {
+  PurchaseOrder,
+  PurchaseOrderDocument,
+  PurchaseOrderStatus,
+} from '../purchase-orders/schemas/purchase-order.schema';
+import { PurchaseOrdersService, DraftOrderResult } from '../purchase-orders/purchase-orders.service';
+import { CreateReorderPurchaseOrdersDto } from './dto/create-reorder-purchase-orders.dto';
+import { replenishmentConfig } from '../../config/replenishment.config';
+
+export interface ReorderSuggestion {
+  product: {
+    _id: Types.ObjectId;
+    name: string;
+    sku: string;
+    category: string;
+  };
+  // Set for products with variants, which are reordered per variant
+  variant: {
+    _id: Types.ObjectId;
+    name: string;
+    value: string;
+    sku: string;
+  } | null;
+  supplier: {
+    _id: Types.ObjectId;
+    name: string;
+  } | null;
+  currentStock: number;
+  onOrder: number;
+  minStock: number;
+  averageDailySales: number;
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderPoint: number;
+  daysUntilStockout: number | null;
+  suggestedQuantity: number;
+  needsReorder: boolean;
+}
+
+// A product, or one variant of a product with variants
+interface StockUnit {
+  product: ProductDocument;
+  variant: ProductVariant | null;
+  stocked: Pick<ProductVariant, 'inventory'>;
+}
+
+@Injectable()
+export class ReplenishmentService {
+  constructor(
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(Sale.name) private saleModel: Model<SaleDocument>,
+    @InjectModel(SupplierProduct.name) private supplierProductModel: Model<SupplierProductDocument>,
+    @InjectModel(PurchaseOrder.name) private purchaseOrderModel: Model<PurchaseOrderDocument>,
+    private purchaseOrdersService: PurchaseOrdersService,
+  ) {}
+
+  /**
+   * Computes reorder points from sales velocity:
+   *   reorder point = average daily sales x lead time + safety stock
+   * A product needs reordering once its stock plus open purchase orders falls
+   * to its reorder point; the suggested quantity then restores that position
+   * to the reorder point plus `coverageDays` of demand.
+   */
+  async getSuggestions(query: any = {}): Promise<ReorderSuggestion[]> {
+    const windowDays = this.parseDays(query.windowDays, replenishmentConfig.salesWindowDays, 'windowDays');
+    const safetyStockDays = this.parseDays(
+      query.safetyStockDays, replenishmentConfig.safetyStockDays, 'safetyStockDays'
+    );
+    const coverageDays = this.parseDays(query.coverageDays, replenishmentConfig.coverageDays, 'coverageDays');
+    const { supplier, category, includeAll } = query;
+
+    let filter: any = { isActive: true };
+
+    // Supplier filter
+    if (supplier) {
+      if (!Types.ObjectId.isValid(supplier)) {
+        throw new BadRequestException('Invalid supplier ID');
+      }
+      filter.supplier = new Types.ObjectId(supplier);
+    }
+
+    // Category filter
+    if (category) {
+      filter.category = category;
+    }
+
+    const products = await this.productModel
+      .find(filter)
+      .populate('supplier', 'name leadTimeDays')
+      .exec();
+
+    if (products.length === 0) {
+      return [];
+    }
+
+    const productIds = products.map(product => product._id);
+    const [salesRates, openOrders, catalogue] = await Promise.all([
+      this.getUnitsSold(productIds, windowDays),
+      this.getOpenOrderQuantities(productIds),
+      this.supplierProductModel.find({ product: { $in: productIds }, isActive: true }).exec(),
+    ]);
+
+    // Products with variants are stocked, sold and ordered per variant
+    const units = products.flatMap<StockUnit>(product => product.variants?.length
+      ? product.variants.filter(variant => variant.isActive).map(variant => ({ product, variant, stocked: variant }))
+      : [{ product, variant: null, stocked: product }]
+    );
+
+    const suggestions = units.map(({ product, variant, stocked }) => {
+      const unitId = (variant || product)._id.toString();
+      const primarySupplier: any = product.supplier;
+      const entry = primarySupplier
+        ? catalogue.find(candidate =>
+            candidate.product.toString() === product._id.toString() &&
+            candidate.supplier.toString() === primarySupplier._id.toString())
+        : undefined;
+
+      const averageDailySales = (salesRates.get(unitId) || 0) / windowDays;
+      const leadTimeDays =
+        entry?.leadTimeDays ?? primarySupplier?.leadTimeDays ?? replenishmentConfig.defaultLeadTimeDays;
+      const safetyStock = Math.ceil(averageDailySales * safetyStockDays);
+      const reorderPoint = Math.max(
+        Math.ceil(averageDailySales * leadTimeDays) + safetyStock,
+        stocked.inventory.minStock
+      );
+
+      const currentStock = stocked.inventory.quantity;
+      const onOrder = openOrders.get(unitId) || 0;
+      const position = currentStock + onOrder;
+      const needsReorder = position <= reorderPoint;
+
+      let suggestedQuantity = 0;
+      if (needsReorder) {
+        const target = reorderPoint + Math.ceil(averageDailySales * coverageDays);
+        suggestedQuantity = Math.max(target - position, entry?.minOrderQuantity || 1);
+      }
+
+      return {
+        product: {
+          _id: product._id,
+          name: product.name,
+          sku: product.sku,
+          category: product.category,
+        },
+        variant: variant
+          ? { _id: variant._id, name: variant.name, value: variant.value, sku: variant.sku || product.sku }
+          : null,
+        supplier: primarySupplier ? { _id: primarySupplier._id, name: primarySupplier.name } : null,
+        currentStock,
+        onOrder,
+        minStock: stocked.inventory.minStock,
+        averageDailySales: Math.round(averageDailySales * 100) / 100,
+        leadTimeDays,
+        safetyStock,
+        reorderPoint,
+        daysUntilStockout: averageDailySales > 0 ? Math.floor(currentStock / averageDailySales) : null,
+        suggestedQuantity,
+        needsReorder,
+      };
+    });
+
+    return suggestions
+      .filter(suggestion => includeAll === 'true' || suggestion.needsReorder)
+      .sort((a, b) => (a.daysUntilStockout ?? Infinity) - (b.daysUntilStockout ?? Infinity));
+  }
+
+  /**
+   * Converts the current suggestions into draft purchase orders, one per
+   * supplier, optionally limited to selected products or overridden quantities.
+   */
+  async createPurchaseOrders(
+    createDto: CreateReorderPurchaseOrdersDto,
+    userId: string,
+  ): Promise<DraftOrderResult> {
+    const suggestions = await this.getSuggestions({
+      windowDays: createDto.windowDays,
+      safetyStockDays: createDto.safetyStockDays,
+      coverageDays: createDto.coverageDays,
+      supplier: createDto.supplier,
+    });
+
+    const key = (product: string, variant?: string) => `${product}:${variant || ''}`;
+    const overrides = new Map((createDto.items || []).map(item => [key(item.product, item.variant), item.quantity]));
+    const items = suggestions
+      .map(suggestion => ({
+        product: suggestion.product._id.toString(),
+        variant: suggestion.variant?._id.toString(),
+        quantity: suggestion.suggestedQuantity,
+      }))
+      .filter(item => overrides.size === 0 || overrides.has(key(item.product, item.variant)))
+      .map(item => ({ ...item, quantity: overrides.get(key(item.product, item.variant)) ?? item.quantity }));
+
+    if (items.length === 0) {
+      throw new BadRequestException('No products currently need reordering');
+    }
+
+    return this.purchaseOrdersService.createDrafts(items, userId);
+  }
+
+  // Units sold per product in the window, net of refunded quantities. Lines of
+  // products with variants are keyed by the variant ID instead
+  private async getUnitsSold(productIds: Types.ObjectId[], windowDays: number): Promise<Map<string, number>> {
+    const since = moment().subtract(windowDays, 'days').toDate();
+
+    const rows = await this.saleModel.aggregate([
+      { $match: { status: 'completed', createdAt: { $gte: since } } },
+      { $unwind: '$items' },
+      { $match: { 'items.product': { $in: productIds } } },
+      {
+        $group: {
+          _id: { $ifNull: ['$items.variant', '$items.product'] },
+          quantity: {
+            $sum: { $subtract: ['$items.quantity', { $ifNull: ['$items.refundedQuantity', 0] }] }
+          }
+        }
+      }
+    ]);
+
+    return new Map(rows.map(row => [row._id.toString(), row.quantity]));
+  }
+
+  // Quantities still to arrive on purchase orders that are not yet fully
+  // received, keyed like the units sold
+  private async getOpenOrderQuantities(productIds: Types.ObjectId[]): Promise<Map<string, number>> {
+    const rows = await this.purchaseOrderModel.aggregate([
+      {
+        $match: {
+          status: {
+            $in: [PurchaseOrderStatus.DRAFT, PurchaseOrderStatus.SENT, PurchaseOrderStatus.PARTIALLY_RECEIVED]
+          }
+        }
+      },
+      { $unwind: '$lines' },
+      { $match: { 'lines.product': { $in: productIds } } },
+      {
+        $group: {
+          _id: { $ifNull: ['$lines.variant', '$lines.product'] },
+          quantity: {
+            $sum: { $max: [{ $subtract: ['$lines.quantityOrdered', '$lines.quantityReceived'] }, 0] }
+          }
+        }
+      }
+    ]);
+
+    return new Map(rows.map(row => [row._id.toString(), row.quantity]));
+  }
+
+  private parseDays(value: any, fallback: number, name: string): number {
+    if (value === undefined || value === null || value === '') {
+      return fallback;
+    }
+
+    const days = Number(value);
+    if (!Number.isFinite(days) || days < 0 || (name === 'windowDays' && days === 0)) {
+      throw new BadRequestException(`Invalid ${name}`);
+    }
+
+    return days;
+  }
+}
@@ -6,6 +6,8 @@ import { Sale, SaleSchema } from '../sales/schemas/sale.schema';
 import { Product, ProductSchema } from '../products/schemas/product.schema';
 import { Customer, CustomerSchema } from '../customers/schemas/customer.schema';
 import { Invoice, InvoiceSchema } from '../invoices/schemas/invoice.schema';
+import { StockMovement, StockMovementSchema } from '../inventory/schemas/stock-movement.schema';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
@@ -14,7 +16,9 @@ import { Invoice, InvoiceSchema } from '../invoices/schemas/invoice.schema';
       { name: Product.name, schema: ProductSchema },
       { name: Customer.name, schema: CustomerSchema },
       { name: Invoice.name, schema: InvoiceSchema },
+      { name: StockMovement.name, schema: StockMovementSchema },
     ]),
+    AuthModule,
   ],
   controllers: [ReportingController],
   providers: [ReportingService],
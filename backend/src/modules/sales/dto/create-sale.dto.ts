@@ -1,10 +1,16 @@
 import { IsString, IsNumber, IsOptional, IsArray, ValidateNested, Min, IsEnum } from 'class-validator';
 import { Type } from 'class-transformer';
+import { TENDER_METHODS } from '../schemas/payment-tender.schema';
 
 export class SaleItemDto {
   @IsString()
   product: string;
 
+  // Required for products with variants
+  @IsString()
+  @IsOptional()
+  variant?: string;
+
   @IsNumber()
   @Min(1)
   quantity: number;
@@ -13,6 +19,7 @@ export class SaleItemDto {
   @Min(0)
   unitPrice: number;
 
+  // Manual discount; promotions are applied on top of it
   @IsNumber()
   @Min(0)
   @IsOptional()
@@ -24,15 +31,17 @@ export class SaleItemDto {
 }
 
 export class PaymentDto {
-  @IsEnum(['cash', 'card', 'digital', 'bank_transfer'])
+  @IsEnum(TENDER_METHODS)
   method: string;
 
+  // Amount handed over; cash above the amount due is given back as change
   @IsNumber()
   @Min(0)
   amount: number;
 
   @IsEnum(['pending', 'completed', 'failed', 'refunded'])
-  status: string;
+  @IsOptional()
+  status?: string;
 
   @IsString()
   @IsOptional()
@@ -75,9 +84,11 @@ export class CreateSaleDto {
   @Type(() => SaleItemDto)
   items: SaleItemDto[];
 
-  @ValidateNested()
+  // One entry per tender, e.g. part cash and part card
+  @IsArray()
+  @ValidateNested({ each: true })
   @Type(() => PaymentDto)
-  payment: PaymentDto;
+  payments: PaymentDto[];
 
   @ValidateNested()
   @Type(() => TotalsDto)
@@ -87,7 +98,15 @@ export class CreateSaleDto {
   @IsOptional()
   status?: string;
 
+  @IsString()
+  @IsOptional()
+  couponCode?: string;
+
   @IsString()
   @IsOptional()
   notes?: string;
+
+  @IsString()
+  @IsOptional()
+  location?: string;
 }
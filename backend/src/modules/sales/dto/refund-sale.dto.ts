@@ -0,0 +1,53 @@
+import { IsString, IsNumber, IsOptional, IsArray, ValidateNested, Min, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class RefundItemDto {
+  @IsString()
+  product: string;
+
+  // Narrows the refund to one variant of the product
+  @IsString()
+  @IsOptional()
+  variant?: string;
+
+  @IsNumber()
+  @Min(1)
+  quantity: number;
+
+  @IsEnum(['restock', 'write_off'])
+  @IsOptional()
+  disposition?: string;
+}
+
+export class RefundSaleDto {
+  // Lines to refund; when omitted, every remaining line is refunded in full
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RefundItemDto)
+  @IsOptional()
+  items?: RefundItemDto[];
+
+  // Optional lower amount to refund, e.g. after a restocking fee
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  amount?: number;
+
+  @IsEnum(['cash', 'card', 'digital', 'bank_transfer', 'store_credit'])
+  @IsOptional()
+  paymentMethod?: string;
+
+  @IsString()
+  @IsOptional()
+  paymentReference?: string;
+
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
+
+export class CancelSaleDto {
+  @IsString()
+  @IsOptional()
+  reason?: string;
+}
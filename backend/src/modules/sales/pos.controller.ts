@@ -7,12 +7,14 @@ import {
   Param,
   UseGuards,
   Request,
+  UseInterceptors,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery, ApiHeader } from '@nestjs/swagger';
 import { PosService } from './pos.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 
 @ApiTags('pos')
 @Controller('pos')
@@ -24,8 +26,11 @@ export class PosController {
   @Post('sale')
   @Roles('admin', 'manager', 'cashier')
   @ApiOperation({ summary: 'Create a quick sale (POS)' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiResponse({ status: 201, description: 'Sale created successfully' })
   @ApiResponse({ status: 400, description: 'Bad request - insufficient stock or invalid data' })
+  @ApiResponse({ status: 409, description: 'Idempotency-Key reused with a different request' })
   createQuickSale(@Body() saleData: any, @Request() req) {
     return this.posService.createQuickSale(saleData, req.user.id);
   }
@@ -39,6 +44,16 @@ export class PosController {
     return this.posService.searchProductsForSale(query);
   }
 
+  @Get('products/barcode/:code')
+  @Roles('admin', 'manager', 'cashier')
+  @ApiOperation({ summary: 'Look up a product or variant by scanned barcode' })
+  @ApiResponse({ status: 200, description: 'Product retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Product not available for sale' })
+  @ApiResponse({ status: 404, description: 'No product found for the barcode' })
+  getProductByBarcode(@Param('code') code: string) {
+    return this.posService.getProductByBarcode(code);
+  }
+
   @Get('products/:id')
   @Roles('admin', 'manager', 'cashier')
   @ApiOperation({ summary: 'Get product details for sale' })
@@ -1,9 +1,19 @@
-import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Injectable, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Sale, SaleDocument } from './schemas/sale.schema';
 import { ProductsService } from '../products/products.service';
+import { Product } from '../products/schemas/product.schema';
+import { CheckoutService } from './services/checkout.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { DocumentSequence } from '../../config/numbering.config';
 import { CustomersService } from '../customers/customers.service';
+import { TaxesService } from '../taxes/taxes.service';
+import { PricingService } from '../promotions/services/pricing.service';
+import { LoyaltyService } from '../loyalty/loyalty.service';
+import { PaymentService } from './services/payment.service';
+import { RegisterSessionService } from '../registers/services/register-session.service';
+import { registerConfig } from '../../config/register.config';
 import { CreateSaleDto } from './dto/create-sale.dto';
 
 @Injectable()
@@ -12,32 +22,34 @@ export class PosService {
     @InjectModel(Sale.name) private saleModel: Model<SaleDocument>,
     private productsService: ProductsService,
     private customersService: CustomersService,
+    private checkoutService: CheckoutService,
+    private numberingService: NumberingService,
+    private taxesService: TaxesService,
+    private pricingService: PricingService,
+    private loyaltyService: LoyaltyService,
+    private paymentService: PaymentService,
+    private registerSessionService: RegisterSessionService,
   ) {}
 
   async createQuickSale(saleData: any, staffId: string): Promise<Sale> {
+    // Till sales are taken into the cashier's open register session
+    const session = await this.registerSessionService.findOpenForCashier(staffId);
+    if (!session && registerConfig.requireOpenSession) {
+      throw new BadRequestException('Open a register session before making sales');
+    }
+
     // Validate and process sale data
-    const processedSale = await this.processSaleData(saleData);
+    const processedSale = await this.processSaleData({
+      ...saleData,
+      location: saleData.location || session?.location?.toString(),
+    });
     
-    // Create the sale
-    const sale = new this.saleModel({
+    // Save the sale, decrement stock and update customer statistics atomically
+    const savedSale = await this.checkoutService.checkout({
       ...processedSale,
-      staff: new Types.ObjectId(staffId),
+      session: session?._id,
       status: 'completed',
-      createdAt: new Date(),
-    });
-
-    const savedSale = await sale.save();
-    
-    // Update inventory
-    await this.updateInventoryAfterSale(processedSale.items);
-    
-    // Update customer statistics if customer exists
-    if (processedSale.customer) {
-      await this.customersService.updateStatistics(
-        processedSale.customer.toString(),
-        processedSale.totals.total
-      );
-    }
+    }, staffId);
 
     return savedSale.populate([
       { path: 'customer', select: 'firstName lastName email phone' },
@@ -57,33 +69,53 @@ export class PosService {
       throw new BadRequestException('Product is out of stock');
     }
 
-    return {
-      id: (product as any)._id,
-      name: product.name,
-      sku: product.sku,
-      price: product.price.selling,
-      availableQuantity: product.inventory.quantity,
-      category: product.category,
-      image: product.images?.[0] || null,
-    };
+    return this.toSaleProduct(product);
+  }
+
+  /**
+   * Resolves a scanned barcode to the product for sale. A variant barcode
+   * also returns the scanned variant, ready to add to the cart.
+   */
+  async getProductByBarcode(code: string): Promise<any> {
+    const { product, variant } = await this.productsService.findByBarcode(code);
+
+    if (!product.isActive) {
+      throw new BadRequestException('Product is not active');
+    }
+
+    const saleProduct = this.toSaleProduct(product);
+    const scanned = variant
+      ? saleProduct.variants.find(candidate => candidate.id.toString() === variant._id.toString())
+      : null;
+
+    if (variant && !scanned) {
+      throw new BadRequestException(`${product.name} (${variant.name}: ${variant.value}) is not available`);
+    }
+
+    if ((scanned || saleProduct).availableQuantity <= 0) {
+      throw new BadRequestException('Product is out of stock');
+    }
+
+    return { ...saleProduct, variant: scanned };
   }
 
   async searchProductsForSale(query: string): Promise<any[]> {
+    // Scanners type the barcode into the search box. A query that matches no
+    // sellable barcode, including an out-of-stock or inactive one, is
+    // searched as text instead
+    try {
+      return [await this.getProductByBarcode(query)];
+    } catch {
+      // Not a barcode hit
+    }
+
     const products = await this.productsService.findAll({
       search: query,
       inStock: true,
       limit: 10
     });
 
-    return products.map(product => ({
-      id: (product as any)._id,
-      name: product.name,
-      sku: product.sku,
-      price: product.price.selling,
-      availableQuantity: product.inventory.quantity,
-      category: product.category,
-      image: product.images?.[0] || null,
-    }));
+    return products.map(product => this.toSaleProduct(product));
   }
 
   async getCustomerForSale(customerId: string): Promise<any> {
@@ -97,6 +129,7 @@ export class PosService {
       phone: customer.phone,
       loyaltyTier: customer.loyalty?.tier || 'bronze',
       loyaltyPoints: customer.loyalty?.loyaltyPoints || 0,
+      loyaltyPointsValue: this.loyaltyService.pointsValue(customer.loyalty?.loyaltyPoints || 0),
     };
   }
 
@@ -136,12 +169,8 @@ export class PosService {
     const totalTransactions = todaySales.length;
     const averageTransactionValue = totalTransactions > 0 ? totalSales / totalTransactions : 0;
 
-    // Payment method breakdown
-    const paymentMethods = {};
-    todaySales.forEach(sale => {
-      const method = sale.payment.method;
-      paymentMethods[method] = (paymentMethods[method] || 0) + sale.totals.total;
-    });
+    // Amount taken per tender method
+    const paymentMethods = this.paymentService.breakdown(todaySales);
 
     // Hourly breakdown
     const hourlySales = new Array(24).fill(0);
@@ -173,86 +202,175 @@ export class PosService {
       .exec();
   }
 
+  private toSaleProduct(product: Product) {
+    return {
+      id: (product as any)._id,
+      name: product.name,
+      sku: product.sku,
+      barcode: product.barcode,
+      price: product.price.selling,
+      availableQuantity: product.inventory.quantity,
+      category: product.category,
+      image: product.images?.[0] || null,
+      variants: (product.variants || [])
+        .filter(variant => variant.isActive)
+        .map(variant => {
+          const resolved = this.productsService.resolveVariant(product, variant._id);
+          return {
+            id: variant._id,
+            name: variant.name,
+            value: variant.value,
+            sku: resolved.sku,
+            barcode: variant.barcode,
+            price: resolved.unitPrice,
+            availableQuantity: resolved.stock,
+          };
+        }),
+    };
+  }
+
   private async processSaleData(saleData: any): Promise<any> {
-    const { items, customer, paymentMethod, notes } = saleData;
+    const {
+      items,
+      customer,
+      payments,
+      paymentMethod,
+      notes,
+      location,
+      couponCode,
+      redeemPoints,
+      redeemAs = 'discount',
+    } = saleData;
 
     if (!items || items.length === 0) {
       throw new BadRequestException('Sale must contain at least one item');
     }
 
-    // Calculate totals
-    let subtotal = 0;
-    let totalDiscount = 0;
+    const redeemedValue = redeemPoints ? await this.validateRedemption(customer, redeemPoints, redeemAs) : 0;
 
     for (const item of items) {
       const product = await this.productsService.findOne(item.product);
+      const { sku, name, unitPrice, stock } = this.productsService.resolveVariant(product, item.variant);
       
-      if (product.inventory.quantity < item.quantity) {
+      if (stock < item.quantity) {
         throw new BadRequestException(
-          `Insufficient stock for ${product.name}. Available: ${product.inventory.quantity}`
+          `Insufficient stock for ${name}. Available: ${stock}`
         );
       }
 
-      const itemTotal = item.quantity * product.price.selling;
-      const itemDiscount = item.discount || 0;
-      
-      subtotal += itemTotal;
-      totalDiscount += itemDiscount;
-
       // Update item with calculated values
-      item.unitPrice = product.price.selling;
-      item.total = itemTotal - itemDiscount;
+      item.sku = sku;
+      item.unitPrice = unitPrice;
     }
 
-    const tax = subtotal * 0.1; // 10% tax
-    const total = subtotal + tax - totalDiscount;
+    // Apply promotions, then calculate totals
+    const priced = await this.pricingService.price({ items, couponCode });
+    priced.items.forEach((pricedItem, index) => {
+      items[index].discount = pricedItem.discount;
+      items[index].promotions = pricedItem.promotions;
+    });
+
+    // Points redeemed as a discount come off the lines before tax
+    if (redeemedValue > 0 && redeemAs === 'discount') {
+      this.applyPointsDiscount(items, redeemedValue);
+    }
+
+    const { items: taxedItems, totals } = await this.taxesService.calculate({ items, location, customer });
+    taxedItems.forEach((taxedItem, index) => {
+      items[index].total = taxedItem.total;
+      items[index].tax = taxedItem.tax;
+    });
+
+    // Points redeemed as a payment cover part of the total
+    const pointsPayment = redeemAs === 'payment' ? redeemedValue : 0;
+    if (pointsPayment > totals.total) {
+      throw new BadRequestException('Redeemed points are worth more than the sale total');
+    }
+
+    // A till sale must be paid in full; a single paymentMethod pays the
+    // exact amount due
+    const amountDue = this.round(totals.total - pointsPayment);
+    const settlement = this.paymentService.settle(
+      payments || (amountDue > 0 ? [{ method: paymentMethod || 'cash', amount: amountDue }] : []),
+      amountDue
+    );
+    if (settlement.payment.status !== 'completed') {
+      throw new BadRequestException(
+        `Payments of ${settlement.payment.amount} do not cover the amount due of ${amountDue}`
+      );
+    }
 
     // Generate transaction number
-    const transactionNumber = await this.generateTransactionNumber();
+    const transactionNumber = await this.numberingService.next(DocumentSequence.POS_SALE);
 
     return {
       transactionNumber,
       customer: customer ? new Types.ObjectId(customer) : undefined,
       items,
-      payment: {
-        method: paymentMethod || 'cash',
-        amount: total,
-        status: 'completed',
-      },
+      payments: settlement.payments,
+      payment: settlement.payment,
       totals: {
-        subtotal,
-        tax,
-        discount: totalDiscount,
-        total,
+        subtotal: totals.subtotal,
+        tax: totals.tax,
+        discount: totals.discount,
+        total: totals.total,
+        taxInclusive: totals.taxInclusive,
+        taxExempt: totals.taxExempt,
       },
+      couponCode: priced.couponCode,
+      loyalty: redeemPoints ? { pointsRedeemed: redeemPoints, redeemedValue, redeemedAs: redeemAs } : undefined,
       notes,
+      location,
     };
   }
 
-  private async generateTransactionNumber(): Promise<string> {
-    const today = new Date();
-    const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '');
-    
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
-    
-    const todaySalesCount = await this.saleModel.countDocuments({
-      createdAt: { $gte: startOfDay, $lte: endOfDay }
-    });
-    
-    return `POS${dateStr}${(todaySalesCount + 1).toString().padStart(4, '0')}`;
-  }
+  // Checks the points can be redeemed and returns their value; the balance
+  // is taken for good at checkout
+  private async validateRedemption(customerId: string, points: number, redeemAs: string): Promise<number> {
+    if (!customerId) {
+      throw new BadRequestException('Loyalty points can only be redeemed for a customer');
+    }
 
-  private async updateInventoryAfterSale(items: any[]): Promise<void> {
-    for (const item of items) {
-      await this.productsService.updateStock(
-        item.product,
-        item.quantity,
-        'subtract'
+    if (!['discount', 'payment'].includes(redeemAs)) {
+      throw new BadRequestException(`Points can be redeemed as a discount or a payment, not '${redeemAs}'`);
+    }
+
+    if (!Number.isInteger(points) || points <= 0) {
+      throw new BadRequestException('Points to redeem must be a positive whole number');
+    }
+
+    const customer = await this.customersService.findOne(customerId);
+    const available = customer.loyalty?.loyaltyPoints || 0;
+    if (available < points) {
+      throw new BadRequestException(
+        `Insufficient loyalty points. Available: ${available}, Requested: ${points}`
       );
     }
+
+    return this.loyaltyService.pointsValue(points);
+  }
+
+  // Spreads a points discount over the lines in proportion to what is left
+  // to pay on each; the last line takes the rounding difference
+  private applyPointsDiscount(items: any[], value: number): void {
+    const payable = items.map(item => Math.max(item.quantity * item.unitPrice - (item.discount || 0), 0));
+    const totalPayable = payable.reduce((sum, amount) => sum + amount, 0);
+
+    if (value > totalPayable) {
+      throw new BadRequestException('Redeemed points are worth more than the sale total');
+    }
+
+    let left = value;
+    items.forEach((item, index) => {
+      const share = index === items.length - 1
+        ? left
+        : Math.min(left, this.round(value * payable[index] / totalPayable));
+      item.discount = this.round((item.discount || 0) + share);
+      left = this.round(left - share);
+    });
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
   }
 }
@@ -2,12 +2,14 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Body,
   Param,
   Query,
   UseGuards,
   HttpStatus,
   Request,
+  UseInterceptors,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -16,21 +18,36 @@ import {
   ApiParam,
   ApiQuery,
   ApiBearerAuth,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { SalesService } from './sales.service';
-import { CreateSaleDto } from './dto/create-sale.dto';
+import { RefundService } from './services/refund.service';
+import { CreateSaleDto, PaymentDto } from './dto/create-sale.dto';
+import { RefundSaleDto, CancelSaleDto } from './dto/refund-sale.dto';
 import { Sale } from './schemas/sale.schema';
+import { Refund } from './schemas/refund.schema';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from '../../config/permissions.config';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 
 @ApiTags('Sales')
 @Controller('sales')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.SALES_VIEW)
 @ApiBearerAuth()
 export class SalesController {
-  constructor(private readonly salesService: SalesService) {}
+  constructor(
+    private readonly salesService: SalesService,
+    private readonly refundService: RefundService,
+  ) {}
 
   @Post()
+  @RequirePermissions(Permission.SALES_CREATE)
   @ApiOperation({ summary: 'Create a new sale transaction (POS)' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiResponse({
     status: HttpStatus.CREATED,
     description: 'Sale created successfully',
@@ -40,6 +57,10 @@ export class SalesController {
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid input or insufficient stock',
   })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Idempotency-Key reused with a different request',
+  })
   create(@Body() createSaleDto: CreateSaleDto, @Request() req): Promise<Sale> {
     return this.salesService.create(createSaleDto, req.user.id);
   }
@@ -49,6 +70,7 @@ export class SalesController {
   @ApiQuery({ name: 'customer', required: false, description: 'Filter by customer ID' })
   @ApiQuery({ name: 'staff', required: false, description: 'Filter by staff ID' })
   @ApiQuery({ name: 'status', required: false, description: 'Filter by sale status' })
+  @ApiQuery({ name: 'location', required: false, description: 'Filter by location ID' })
   @ApiQuery({ name: 'startDate', required: false, description: 'Start date for filtering' })
   @ApiQuery({ name: 'endDate', required: false, description: 'End date for filtering' })
   @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
@@ -127,6 +149,7 @@ export class SalesController {
   }
 
   @Post(':id/status')
+  @RequirePermissions(Permission.SALES_UPDATE)
   @ApiOperation({ summary: 'Update sale status' })
   @ApiParam({ name: 'id', description: 'Sale ID' })
   @ApiQuery({ name: 'status', required: true, description: 'New status' })
@@ -146,7 +169,97 @@ export class SalesController {
   updateStatus(
     @Param('id') id: string,
     @Query('status') status: string,
+    @Request() req,
+  ): Promise<Sale> {
+    return this.salesService.updateStatus(id, status, req.user.id);
+  }
+
+  @Post(':id/payments')
+  @RequirePermissions(Permission.SALES_CREATE)
+  @ApiOperation({ summary: 'Add a payment tender to a pending sale' })
+  @ApiParam({ name: 'id', description: 'Sale ID' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Client-generated key; repeats return the original response' })
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Payment added; the sale is paid once its tenders cover the total',
+    type: Sale,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Sale is not pending or the payment is invalid',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Sale was modified concurrently',
+  })
+  addPayment(
+    @Param('id') id: string,
+    @Body() paymentDto: PaymentDto,
+    @Request() req,
+  ): Promise<Sale> {
+    return this.salesService.addPayment(id, paymentDto, req.user.id);
+  }
+
+  @Put(':id/refund')
+  @RequirePermissions(Permission.SALES_REFUND)
+  @ApiOperation({ summary: 'Refund a completed sale, fully or for selected items' })
+  @ApiParam({ name: 'id', description: 'Sale ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Refund processed successfully',
+    type: Sale,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Sale cannot be refunded or quantities exceed what is refundable',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Refund amount requires manager approval',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Sale was modified concurrently',
+  })
+  refund(
+    @Param('id') id: string,
+    @Body() refundSaleDto: RefundSaleDto,
+    @Request() req,
   ): Promise<Sale> {
-    return this.salesService.updateStatus(id, status);
+    return this.refundService.refund(id, refundSaleDto, req.user);
+  }
+
+  @Put(':id/cancel')
+  @RequirePermissions(Permission.SALES_CANCEL)
+  @ApiOperation({ summary: 'Cancel a sale and return its items to stock' })
+  @ApiParam({ name: 'id', description: 'Sale ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sale cancelled successfully',
+    type: Sale,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Sale cannot be cancelled',
+  })
+  cancel(
+    @Param('id') id: string,
+    @Body() cancelSaleDto: CancelSaleDto,
+    @Request() req,
+  ): Promise<Sale> {
+    return this.refundService.cancel(id, cancelSaleDto, req.user);
+  }
+
+  @Get(':id/refunds')
+  @ApiOperation({ summary: 'Get refunds issued against a sale' })
+  @ApiParam({ name: 'id', description: 'Sale ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Refunds retrieved successfully',
+    type: [Refund],
+  })
+  getRefunds(@Param('id') id: string): Promise<Refund[]> {
+    return this.refundService.findBySale(id);
   }
 }
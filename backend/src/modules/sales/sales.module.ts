@@ -4,20 +4,43 @@ import { SalesService } from './sales.service';
 import { SalesController } from './sales.controller';
 import { PosService } from './pos.service';
 import { PosController } from './pos.controller';
+import { CheckoutService } from './services/checkout.service';
+import { RefundService } from './services/refund.service';
+import { PaymentService } from './services/payment.service';
 import { Sale, SaleSchema } from './schemas/sale.schema';
+import { Refund, RefundSchema } from './schemas/refund.schema';
 import { ProductsModule } from '../products/products.module';
 import { CustomersModule } from '../customers/customers.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { NumberingModule } from '../numbering/numbering.module';
+import { LocationsModule } from '../locations/locations.module';
+import { TaxesModule } from '../taxes/taxes.module';
+import { PromotionsModule } from '../promotions/promotions.module';
+import { LoyaltyModule } from '../loyalty/loyalty.module';
+import { RegistersModule } from '../registers/registers.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
-      { name: Sale.name, schema: SaleSchema }
+      { name: Sale.name, schema: SaleSchema },
+      { name: Refund.name, schema: RefundSchema }
     ]),
     ProductsModule,
-    CustomersModule
+    CustomersModule,
+    InventoryModule,
+    NumberingModule,
+    LocationsModule,
+    TaxesModule,
+    PromotionsModule,
+    LoyaltyModule,
+    RegistersModule,
+    IdempotencyModule,
+    AuthModule,
   ],
   controllers: [SalesController, PosController],
-  providers: [SalesService, PosService],
+  providers: [SalesService, PosService, CheckoutService, RefundService, PaymentService],
   exports: [SalesService, PosService],
 })
 export class SalesModule {}
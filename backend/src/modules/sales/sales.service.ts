@@ -1,36 +1,65 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Sale, SaleDocument } from './schemas/sale.schema';
-import { CreateSaleDto } from './dto/create-sale.dto';
+import { CreateSaleDto, PaymentDto } from './dto/create-sale.dto';
 import { ProductsService } from '../products/products.service';
+import { CheckoutService } from './services/checkout.service';
+import { NumberingService } from '../numbering/numbering.service';
+import { TaxesService } from '../taxes/taxes.service';
+import { PricingService } from '../promotions/services/pricing.service';
+import { PaymentService } from './services/payment.service';
+import { DocumentSequence } from '../../config/numbering.config';
 
 @Injectable()
 export class SalesService {
+  private readonly logger = new Logger(SalesService.name);
+
   constructor(
     @InjectModel(Sale.name) private saleModel: Model<SaleDocument>,
     private productsService: ProductsService,
+    private checkoutService: CheckoutService,
+    private numberingService: NumberingService,
+    private taxesService: TaxesService,
+    private pricingService: PricingService,
+    private paymentService: PaymentService,
   ) {}
 
   async create(createSaleDto: CreateSaleDto, staffId: string): Promise<Sale> {
     // Generate unique transaction number
-    const transactionNumber = await this.generateTransactionNumber();
+    const transactionNumber = await this.numberingService.next(DocumentSequence.SALE);
     
     // Validate products and check stock
     await this.validateSaleItems(createSaleDto.items);
-    
-    // Create the sale
-    const sale = new this.saleModel({
+
+    // Promotions and tax are worked out server-side so sales and invoices
+    // for the same basket agree
+    const { items: pricedItems, couponCode } = await this.pricingService.price(createSaleDto);
+    const items = createSaleDto.items.map((item, index) => ({ ...item, ...pricedItems[index] }));
+    const { items: taxedItems, totals: { taxRate, ...totals } } = await this.taxesService.calculate({
       ...createSaleDto,
-      transactionNumber,
-      staff: new Types.ObjectId(staffId),
-      status: createSaleDto.status || 'completed',
+      items,
     });
 
-    const savedSale = await sale.save();
+    const { payments, payment } = this.paymentService.settle(createSaleDto.payments, totals.total);
+    const status = createSaleDto.status || (payment.status === 'completed' ? 'completed' : 'pending');
+    if (status === 'completed' && payment.status !== 'completed') {
+      throw new BadRequestException(
+        `Payments of ${payment.amount} do not cover the sale total of ${totals.total}`
+      );
+    }
     
-    // Update inventory for each product
-    await this.updateInventoryAfterSale(createSaleDto.items);
+    // Save the sale, decrement stock and update customer statistics atomically
+    const savedSale = await this.checkoutService.checkout({
+      ...createSaleDto,
+      items: items.map((item, index) => ({ ...item, ...taxedItems[index] })),
+      totals,
+      payments,
+      payment,
+      couponCode,
+      transactionNumber,
+      status,
+    }, staffId);
     
     return savedSale.populate([
       { path: 'customer', select: 'name email phone' },
@@ -44,6 +73,7 @@ export class SalesService {
       customer, 
       staff, 
       status, 
+      location,
       startDate, 
       endDate,
       page = 1,
@@ -64,6 +94,11 @@ export class SalesService {
       filter.staff = new Types.ObjectId(staff);
     }
 
+    // Location filter
+    if (location) {
+      filter.location = new Types.ObjectId(location);
+    }
+
     // Status filter
     if (status) {
       filter.status = status;
@@ -134,30 +169,125 @@ export class SalesService {
     return sale;
   }
 
-  async updateStatus(id: string, status: string): Promise<Sale> {
+  async updateStatus(id: string, status: string, staffId: string): Promise<Sale> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid sale ID');
     }
 
-    const validStatuses = ['pending', 'completed', 'cancelled', 'refunded'];
+    // Cancellations and refunds move stock and money, so they go through
+    // their own endpoints instead of a bare status change
+    if (['cancelled', 'refunded'].includes(status)) {
+      throw new BadRequestException(
+        `Use the /sales/:id/${status === 'cancelled' ? 'cancel' : 'refund'} endpoint to mark a sale as ${status}`
+      );
+    }
+
+    const validStatuses = ['pending', 'completed'];
     if (!validStatuses.includes(status)) {
       throw new BadRequestException('Invalid status');
     }
 
-    const sale = await this.saleModel
-      .findByIdAndUpdate(id, { status }, { new: true })
-      .populate([
+    const current = await this.saleModel.findById(id).exec();
+    if (!current) {
+      throw new NotFoundException('Sale not found');
+    }
+
+    if (current.status === status) {
+      return current.populate([
         { path: 'customer', select: 'name email phone' },
         { path: 'staff', select: 'name email' },
         { path: 'items.product', select: 'name sku price' }
-      ])
+      ]);
+    }
+
+    // Points and statistics have been applied to a completed sale; it is
+    // reversed through the refund and cancel endpoints instead
+    if (current.status !== 'pending') {
+      throw new BadRequestException(`Cannot change the status of a sale with status '${current.status}'`);
+    }
+
+    // Only a paid sale can be completed
+    if (current.payment.status !== 'completed') {
+      throw new BadRequestException('Sale cannot be completed until its payments cover the total');
+    }
+
+    const completed = await this.saleModel
+      .findOneAndUpdate({ _id: current._id, status: 'pending' }, { status: 'completed' }, { new: true })
       .exec();
 
+    if (!completed) {
+      throw new ConflictException('Sale was modified by another request, please retry');
+    }
+
+    await this.completeSale(completed, { status: 'pending' }, staffId);
+
+    return completed.populate([
+      { path: 'customer', select: 'name email phone' },
+      { path: 'staff', select: 'name email' },
+      { path: 'items.product', select: 'name sku price' }
+    ]);
+  }
+
+  /**
+   * Adds a tender to a pending sale. All the tenders are settled again, so
+   * the payment becomes completed once they cover the amount due.
+   */
+  async addPayment(id: string, paymentDto: PaymentDto, staffId: string): Promise<Sale> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid sale ID');
+    }
+
+    const sale = await this.saleModel.findById(id).exec();
     if (!sale) {
       throw new NotFoundException('Sale not found');
     }
 
-    return sale;
+    if (sale.status !== 'pending') {
+      throw new BadRequestException(`Cannot add a payment to a sale with status '${sale.status}'`);
+    }
+
+    const pointsPayment = sale.loyalty?.redeemedAs === 'payment' ? sale.loyalty.redeemedValue : 0;
+    const tenders = (sale.payments || []).map(tender => ({
+      method: tender.method,
+      amount: tender.tendered ?? tender.amount,
+      status: tender.status,
+      reference: tender.reference,
+      cardLast4: tender.cardLast4,
+      cardBrand: tender.cardBrand,
+    }));
+    const { payments, payment } = this.paymentService.settle(
+      [...tenders, paymentDto],
+      Math.round((sale.totals.total - pointsPayment) * 100) / 100
+    );
+
+    // The tender count guards against two payments settling at once. The
+    // tender that covers the total completes the sale.
+    const isPaid = payment.status === 'completed';
+    const updated = await this.saleModel
+      .findOneAndUpdate(
+        { _id: sale._id, status: 'pending', payments: { $size: tenders.length } },
+        { payments, payment, ...(isPaid && { status: 'completed' }) },
+        { new: true }
+      )
+      .exec();
+
+    if (!updated) {
+      throw new ConflictException('Sale was modified by another request, please retry');
+    }
+
+    if (isPaid) {
+      await this.completeSale(updated, {
+        status: 'pending',
+        payments: sale.toObject().payments,
+        payment: sale.toObject().payment,
+      }, staffId);
+    }
+
+    return updated.populate([
+      { path: 'customer', select: 'name email phone' },
+      { path: 'staff', select: 'name email' },
+      { path: 'items.product', select: 'name sku price' }
+    ]);
   }
 
   async getDailySales(date: string): Promise<any> {
@@ -204,12 +334,8 @@ export class SalesService {
     const totalTransactions = sales.length;
     const averageTransactionValue = totalTransactions > 0 ? totalSales / totalTransactions : 0;
 
-    // Payment method breakdown
-    const paymentMethods = {};
-    sales.forEach(sale => {
-      const method = sale.payment.method;
-      paymentMethods[method] = (paymentMethods[method] || 0) + sale.totals.total;
-    });
+    // Amount taken per tender method
+    const paymentMethods = this.paymentService.breakdown(sales);
 
     return {
       startDate,
@@ -221,43 +347,33 @@ export class SalesService {
     };
   }
 
-  private async generateTransactionNumber(): Promise<string> {
-    const today = new Date();
-    const dateStr = today.toISOString().slice(0, 10).replace(/-/g, '');
-    
-    // Get count of sales for today
-    const startOfDay = new Date(today);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(today);
-    endOfDay.setHours(23, 59, 59, 999);
-    
-    const todaySalesCount = await this.saleModel.countDocuments({
-      createdAt: { $gte: startOfDay, $lte: endOfDay }
-    });
-    
-    return `TXN${dateStr}${(todaySalesCount + 1).toString().padStart(4, '0')}`;
+  // Earns points and updates the customer's statistics for a sale that was
+  // just completed; if that fails the sale is put back as it was
+  private async completeSale(sale: SaleDocument, previous: Record<string, any>, staffId: string): Promise<void> {
+    try {
+      await this.checkoutService.complete(sale, staffId);
+    } catch (error) {
+      try {
+        await this.saleModel.updateOne({ _id: sale._id, status: 'completed' }, previous).exec();
+      } catch (rollbackError) {
+        this.logger.error(`Failed to put sale ${sale.transactionNumber} back to pending during rollback:`, rollbackError);
+      }
+      throw error;
+    }
   }
 
   private async validateSaleItems(items: any[]): Promise<void> {
     for (const item of items) {
       const product = await this.productsService.findOne(item.product);
+      const { sku, name, stock } = this.productsService.resolveVariant(product, item.variant);
       
-      if (product.inventory.quantity < item.quantity) {
+      if (stock < item.quantity) {
         throw new BadRequestException(
-          `Insufficient stock for product ${product.name}. Available: ${product.inventory.quantity}, Requested: ${item.quantity}`
+          `Insufficient stock for product ${name}. Available: ${stock}, Requested: ${item.quantity}`
         );
       }
-    }
-  }
 
-  private async updateInventoryAfterSale(items: any[]): Promise<void> {
-    for (const item of items) {
-      await this.productsService.updateStock(
-        item.product,
-        item.quantity,
-        'subtract'
-      );
+      item.sku = sku;
     }
   }
 
@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+export const TENDER_METHODS = ['cash', 'card', 'digital', 'bank_transfer'];
+
+/**
+ * One tender a sale was paid with. amount is what the tender contributed to
+ * the sale; for cash, tendered is what was handed over and the difference
+ * was given back as change.
+ */
+@Schema({ _id: false })
+export class PaymentTender {
+  @Prop({ required: true, enum: TENDER_METHODS })
+  method: string;
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ min: 0 })
+  tendered: number;
+
+  @Prop({ default: 0, min: 0 })
+  change: number;
+
+  @Prop({ required: true, enum: ['pending', 'completed', 'failed', 'refunded'], default: 'completed' })
+  status: string;
+
+  @Prop()
+  reference: string;
+
+  @Prop()
+  cardLast4: string;
+
+  @Prop()
+  cardBrand: string;
+}
+
+export const PaymentTenderSchema = SchemaFactory.createForClass(PaymentTender);
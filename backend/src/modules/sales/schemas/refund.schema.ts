@@ -0,0 +1,90 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RefundDocument = Refund & Document;
+
+@Schema({ timestamps: true })
+export class RefundItem {
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId })
+  variant: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ required: true, enum: ['restock', 'write_off'] })
+  disposition: string;
+}
+
+@Schema({ timestamps: true })
+export class Refund {
+  @Prop({ required: true, unique: true })
+  refundNumber: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Sale', required: true })
+  sale: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Customer' })
+  customer: Types.ObjectId;
+
+  @Prop([RefundItem])
+  items: RefundItem[];
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({
+    type: {
+      method: { type: String, required: true, enum: ['cash', 'card', 'digital', 'bank_transfer', 'store_credit'] },
+      reference: String
+    },
+    required: true
+  })
+  payment: {
+    method: string;
+    reference?: string;
+  };
+
+  // Loyalty points taken back from and given back to the customer; when
+  // the sale was partly paid with points, restoredValue of the amount is
+  // returned as points rather than money
+  @Prop({
+    type: {
+      pointsReversed: { type: Number, default: 0 },
+      pointsRestored: { type: Number, default: 0 },
+      restoredValue: { type: Number, default: 0 }
+    }
+  })
+  loyalty: {
+    pointsReversed: number;
+    pointsRestored: number;
+    restoredValue: number;
+  };
+
+  @Prop({ default: false })
+  isFullRefund: boolean;
+
+  @Prop()
+  reason: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  processedBy: Types.ObjectId;
+
+  // Register session of the staff member who paid the refund out
+  @Prop({ type: Types.ObjectId, ref: 'RegisterSession' })
+  session: Types.ObjectId;
+}
+
+export const RefundSchema = SchemaFactory.createForClass(Refund);
+
+// Indexes for better query performance
+RefundSchema.index({ refundNumber: 1 });
+RefundSchema.index({ sale: 1 });
+RefundSchema.index({ customer: 1 });
+RefundSchema.index({ session: 1 });
+RefundSchema.index({ createdAt: -1 });
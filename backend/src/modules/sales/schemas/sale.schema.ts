@@ -1,5 +1,9 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { LineTax, LineTaxSchema } from '../../taxes/schemas/line-tax.schema';
+import { AppliedPromotion, AppliedPromotionSchema } from '../../promotions/schemas/applied-promotion.schema';
+import { PaymentTender, PaymentTenderSchema, TENDER_METHODS } from './payment-tender.schema';
+import { auditPlugin } from '../../audit/audit.plugin';
 
 export type SaleDocument = Sale & Document;
 
@@ -8,17 +12,37 @@ export class SaleItem {
   @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
   product: Types.ObjectId;
 
+  // Variant sold, for products with variants
+  @Prop({ type: Types.ObjectId })
+  variant: Types.ObjectId;
+
+  // SKU at the time of sale; the variant SKU when it has one
+  @Prop()
+  sku: string;
+
   @Prop({ required: true, min: 1 })
   quantity: number;
 
   @Prop({ required: true, min: 0 })
   unitPrice: number;
 
+  // Manual discount plus the promotions and any loyalty points discount
+  // applied to the line
   @Prop({ default: 0, min: 0 })
   discount: number;
 
+  @Prop({ type: [AppliedPromotionSchema], default: [] })
+  promotions: AppliedPromotion[];
+
+  // Taxable amount of the line after its discount, excluding tax
   @Prop({ required: true, min: 0 })
   total: number;
+
+  @Prop({ type: LineTaxSchema })
+  tax: LineTax;
+
+  @Prop({ default: 0, min: 0 })
+  refundedQuantity: number;
 }
 
 @Schema({ timestamps: true })
@@ -32,24 +56,34 @@ export class Sale {
   @Prop([SaleItem])
   items: SaleItem[];
 
+  // Coupon redeemed on the sale
+  @Prop({ uppercase: true })
+  couponCode: string;
+
+  // Tenders the sale was paid with
+  @Prop({ type: [PaymentTenderSchema], default: [] })
+  payments: PaymentTender[];
+
+  // Summary of the tenders. The sale is paid (status 'completed') only once
+  // completed tenders cover the amount due.
   @Prop({
     type: {
-      method: { type: String, required: true, enum: ['cash', 'card', 'digital', 'bank_transfer'] },
+      method: { type: String, required: true, enum: [...TENDER_METHODS, 'split', 'none'] },
       amount: { type: Number, required: true, min: 0 },
       status: { type: String, required: true, enum: ['pending', 'completed', 'failed', 'refunded'] },
-      reference: String,
-      cardLast4: String,
-      cardBrand: String
+      change: { type: Number, default: 0, min: 0 }
     },
     required: true
   })
   payment: {
+    // Method of the only tender, 'split' when several were used, or 'none'
+    // when loyalty points paid for everything
     method: string;
+    // Total contributed by completed tenders
     amount: number;
     status: string;
-    reference?: string;
-    cardLast4?: string;
-    cardBrand?: string;
+    // Cash handed back to the customer
+    change?: number;
   };
 
   @Prop({
@@ -57,7 +91,9 @@ export class Sale {
       subtotal: { type: Number, required: true, min: 0 },
       tax: { type: Number, required: true, min: 0 },
       discount: { type: Number, required: true, min: 0 },
-      total: { type: Number, required: true, min: 0 }
+      total: { type: Number, required: true, min: 0 },
+      taxInclusive: { type: Boolean, default: false },
+      taxExempt: { type: Boolean, default: false }
     },
     required: true
   })
@@ -66,6 +102,32 @@ export class Sale {
     tax: number;
     discount: number;
     total: number;
+    // Whether the item prices already included tax
+    taxInclusive?: boolean;
+    taxExempt?: boolean;
+  };
+
+  // Points earned and redeemed on the sale. Points redeemed as a discount
+  // are already in the line discounts; redeemed as a payment they cover
+  // redeemedValue of the total and the tenders cover the rest.
+  @Prop({
+    type: {
+      pointsEarned: { type: Number, default: 0 },
+      pointsRedeemed: { type: Number, default: 0 },
+      redeemedValue: { type: Number, default: 0 },
+      redeemedAs: { type: String, enum: ['discount', 'payment'] },
+      pointsReversed: { type: Number, default: 0 },
+      pointsRestored: { type: Number, default: 0 }
+    }
+  })
+  loyalty: {
+    pointsEarned: number;
+    pointsRedeemed: number;
+    redeemedValue: number;
+    redeemedAs?: string;
+    // Earned points taken back and redeemed points given back by refunds
+    pointsReversed: number;
+    pointsRestored: number;
   };
 
   @Prop({ required: true, enum: ['pending', 'completed', 'cancelled', 'refunded'] })
@@ -74,6 +136,14 @@ export class Sale {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   staff: Types.ObjectId;
 
+  // Location the goods were sold from
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId;
+
+  // Register session the sale was rung up in
+  @Prop({ type: Types.ObjectId, ref: 'RegisterSession' })
+  session: Types.ObjectId;
+
   @Prop()
   notes: string;
 
@@ -82,15 +152,39 @@ export class Sale {
 
   @Prop({ default: false })
   isInvoiceGenerated: boolean;
+
+  @Prop({ default: 0, min: 0 })
+  refundedAmount: number;
+
+  @Prop([{ type: Types.ObjectId, ref: 'Refund' }])
+  refunds: Types.ObjectId[];
+
+  @Prop({
+    type: {
+      reason: String,
+      cancelledBy: { type: Types.ObjectId, ref: 'User' },
+      cancelledAt: Date
+    }
+  })
+  cancellation: {
+    reason?: string;
+    cancelledBy: Types.ObjectId;
+    cancelledAt: Date;
+  };
 }
 
 export const SaleSchema = SchemaFactory.createForClass(Sale);
 
+SaleSchema.plugin(auditPlugin, { entity: Sale.name });
+
 // Indexes for better query performance
 SaleSchema.index({ transactionNumber: 1 });
 SaleSchema.index({ customer: 1 });
 SaleSchema.index({ staff: 1 });
+SaleSchema.index({ location: 1, createdAt: -1 });
+SaleSchema.index({ session: 1 });
 SaleSchema.index({ status: 1 });
 SaleSchema.index({ createdAt: -1 });
 SaleSchema.index({ 'payment.status': 1 });
+SaleSchema.index({ 'payments.method': 1 });
 SaleSchema.index({ 'totals.total': 1 });
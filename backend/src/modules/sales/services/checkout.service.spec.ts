@@ -0,0 +1,303 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CheckoutService } from './checkout.service';
+import { Sale } from '../schemas/sale.schema';
+import { InventoryService } from '../../inventory/inventory.service';
+import { CustomersService } from '../../customers/customers.service';
+import { LocationsService } from '../../locations/locations.service';
+import { PromotionsService } from '../../promotions/promotions.service';
+import { LoyaltyService } from '../../loyalty/loyalty.service';
+import { StockMovementType } from '../../inventory/schemas/stock-movement.schema';
+
+describe('CheckoutService', () => {
+  let service: CheckoutService;
+
+  const staffId = '507f1f77bcf86cd799439014';
+  const productA = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const productB = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const customerId = new Types.ObjectId('507f1f77bcf86cd799439013');
+  const locationId = new Types.ObjectId('507f1f77bcf86cd799439040');
+
+  let saleDoc: any;
+
+  // Mimics a Mongoose model constructor returning a sale document
+  const mockSaleModel: any = jest.fn().mockImplementation((data) => {
+    saleDoc = {
+      ...data,
+      _id: new Types.ObjectId(),
+      validate: jest.fn().mockResolvedValue(undefined),
+      save: jest.fn().mockResolvedValue(undefined),
+      set: jest.fn(function (path, value) {
+        const [key, field] = path.split('.');
+        this[key] = { ...this[key], [field]: value };
+      }),
+    };
+    return saleDoc;
+  });
+  mockSaleModel.deleteOne = jest.fn().mockReturnValue({
+    exec: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+  });
+  mockSaleModel.updateOne = jest.fn().mockReturnValue({
+    exec: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+  });
+
+  const mockInventoryService = {
+    applyStockChange: jest.fn(),
+  };
+
+  const mockCustomersService = {
+    updateStatistics: jest.fn(),
+    reverseStatistics: jest.fn(),
+  };
+
+  const mockLocationsService = {
+    resolve: jest.fn().mockResolvedValue({ _id: locationId, name: 'Main Store' }),
+  };
+
+  const mockPromotionsService = {
+    redeemCoupon: jest.fn(),
+    releaseCoupon: jest.fn(),
+  };
+
+  const mockLoyaltyService = {
+    calculatePoints: jest.fn().mockResolvedValue(25),
+    earn: jest.fn(),
+    redeem: jest.fn(),
+    reverse: jest.fn(),
+    restore: jest.fn(),
+  };
+
+  const saleData = {
+    transactionNumber: 'TXN202401010001',
+    customer: customerId,
+    items: [
+      { product: productA, quantity: 2, unitPrice: 10, total: 20 },
+      { product: productB, quantity: 1, unitPrice: 5, total: 5 },
+    ],
+    totals: { subtotal: 25, tax: 0, discount: 0, total: 25 },
+    status: 'completed',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CheckoutService,
+        {
+          provide: getModelToken(Sale.name),
+          useValue: mockSaleModel,
+        },
+        {
+          provide: InventoryService,
+          useValue: mockInventoryService,
+        },
+        {
+          provide: CustomersService,
+          useValue: mockCustomersService,
+        },
+        {
+          provide: LocationsService,
+          useValue: mockLocationsService,
+        },
+        {
+          provide: PromotionsService,
+          useValue: mockPromotionsService,
+        },
+        {
+          provide: LoyaltyService,
+          useValue: mockLoyaltyService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CheckoutService>(CheckoutService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should reserve stock, save the sale and update customer statistics', async () => {
+    mockInventoryService.applyStockChange.mockImplementation(async (product, quantity) => ({
+      product,
+      quantity,
+    }));
+
+    const result = await service.checkout(saleData, staffId);
+
+    expect(mockInventoryService.applyStockChange).toHaveBeenCalledTimes(2);
+    expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+      productA.toString(),
+      -2,
+      expect.objectContaining({ type: StockMovementType.SALE, userId: staffId })
+    );
+    expect(saleDoc.save).toHaveBeenCalled();
+    expect(mockCustomersService.updateStatistics).toHaveBeenCalledWith(customerId.toString(), 25);
+    expect(result).toBe(saleDoc);
+  });
+
+  it('should take stock from the location chosen for the sale', async () => {
+    mockInventoryService.applyStockChange.mockImplementation(async (product, quantity) => ({
+      product,
+      quantity,
+    }));
+
+    await service.checkout({ ...saleData, location: locationId.toString() }, staffId);
+
+    expect(mockLocationsService.resolve).toHaveBeenCalledWith(locationId.toString());
+    expect(saleDoc.location).toBe(locationId);
+    expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+      productB.toString(),
+      -1,
+      expect.objectContaining({ type: StockMovementType.SALE, location: locationId })
+    );
+  });
+
+  it('should release reserved stock when a later item has insufficient stock', async () => {
+    mockInventoryService.applyStockChange
+      .mockResolvedValueOnce({ product: productA, quantity: -2 })
+      .mockRejectedValueOnce(new BadRequestException('Insufficient stock'))
+      .mockResolvedValue({});
+
+    await expect(service.checkout(saleData, staffId)).rejects.toThrow('Insufficient stock');
+
+    expect(saleDoc.save).not.toHaveBeenCalled();
+    expect(mockInventoryService.applyStockChange).toHaveBeenLastCalledWith(
+      productA.toString(),
+      2,
+      expect.objectContaining({ type: StockMovementType.ADJUSTMENT })
+    );
+    expect(mockCustomersService.updateStatistics).not.toHaveBeenCalled();
+  });
+
+  it('should delete the sale and release stock when customer statistics fail', async () => {
+    mockInventoryService.applyStockChange.mockImplementation(async (product, quantity) => ({
+      product,
+      quantity,
+    }));
+    mockCustomersService.updateStatistics.mockRejectedValue(new Error('Customer not found'));
+
+    await expect(service.checkout(saleData, staffId)).rejects.toThrow('Customer not found');
+
+    expect(mockSaleModel.deleteOne).toHaveBeenCalledWith({ _id: saleDoc._id });
+    // Two reservations followed by two compensating releases
+    expect(mockInventoryService.applyStockChange).toHaveBeenCalledTimes(4);
+    expect(mockInventoryService.applyStockChange).toHaveBeenNthCalledWith(
+      3,
+      productB.toString(),
+      1,
+      expect.objectContaining({ type: StockMovementType.ADJUSTMENT })
+    );
+  });
+
+  it('should redeem the coupon and release it when checkout fails', async () => {
+    mockInventoryService.applyStockChange
+      .mockRejectedValueOnce(new BadRequestException('Insufficient stock'));
+
+    await expect(service.checkout({ ...saleData, couponCode: 'SPRING10' }, staffId))
+      .rejects.toThrow('Insufficient stock');
+
+    expect(mockPromotionsService.redeemCoupon).toHaveBeenCalledWith('SPRING10');
+    expect(mockPromotionsService.releaseCoupon).toHaveBeenCalledWith('SPRING10');
+  });
+
+  it('should not take stock when the coupon has reached its usage limit', async () => {
+    mockPromotionsService.redeemCoupon.mockRejectedValueOnce(
+      new BadRequestException('Coupon SPRING10 has reached its usage limit')
+    );
+
+    await expect(service.checkout({ ...saleData, couponCode: 'SPRING10' }, staffId))
+      .rejects.toThrow('usage limit');
+
+    expect(mockInventoryService.applyStockChange).not.toHaveBeenCalled();
+    expect(mockPromotionsService.releaseCoupon).not.toHaveBeenCalled();
+  });
+
+  it('should redeem points and earn points on the amount not paid with points', async () => {
+    mockInventoryService.applyStockChange.mockImplementation(async (product, quantity) => ({
+      product,
+      quantity,
+    }));
+    mockCustomersService.updateStatistics.mockResolvedValue(undefined);
+    mockLoyaltyService.calculatePoints.mockResolvedValueOnce(20);
+
+    await service.checkout({
+      ...saleData,
+      loyalty: { pointsRedeemed: 500, redeemedValue: 5, redeemedAs: 'payment' },
+    }, staffId);
+
+    expect(mockLoyaltyService.redeem).toHaveBeenCalledWith(
+      customerId.toString(), 500, expect.objectContaining({ userId: staffId })
+    );
+    expect(mockLoyaltyService.calculatePoints).toHaveBeenCalledWith(customerId.toString(), 20);
+    expect(saleDoc.loyalty.pointsEarned).toBe(20);
+    expect(mockLoyaltyService.earn).toHaveBeenCalledWith(
+      customerId.toString(), 20, 20, expect.objectContaining({ userId: staffId })
+    );
+  });
+
+  it('should give back redeemed and earned points when checkout fails after saving', async () => {
+    mockInventoryService.applyStockChange.mockImplementation(async (product, quantity) => ({
+      product,
+      quantity,
+    }));
+    mockCustomersService.updateStatistics.mockRejectedValueOnce(new Error('Customer not found'));
+
+    await expect(service.checkout({
+      ...saleData,
+      loyalty: { pointsRedeemed: 300, redeemedValue: 3, redeemedAs: 'discount' },
+    }, staffId)).rejects.toThrow('Customer not found');
+
+    expect(mockLoyaltyService.reverse).toHaveBeenCalledWith(
+      customerId.toString(), 25, 25, expect.objectContaining({ userId: staffId })
+    );
+    expect(mockLoyaltyService.restore).toHaveBeenCalledWith(
+      customerId.toString(), 300, expect.objectContaining({ userId: staffId })
+    );
+  });
+
+  describe('complete', () => {
+    // A pending sale that was just paid in full
+    const paidSale = (overrides: any = {}) => mockSaleModel({
+      ...saleData,
+      loyalty: { pointsRedeemed: 500, redeemedValue: 5, redeemedAs: 'payment' },
+      ...overrides,
+    });
+
+    it('should earn points on the amount not paid with points and update customer statistics', async () => {
+      const sale = paidSale();
+
+      await service.complete(sale, staffId);
+
+      expect(mockLoyaltyService.calculatePoints).toHaveBeenCalledWith(customerId.toString(), 20);
+      expect(mockLoyaltyService.earn).toHaveBeenCalledWith(
+        customerId.toString(), 25, 20, expect.objectContaining({ userId: staffId })
+      );
+      expect(mockCustomersService.updateStatistics).toHaveBeenCalledWith(customerId.toString(), 25);
+      expect(mockSaleModel.updateOne).toHaveBeenCalledWith({ _id: sale._id }, { 'loyalty.pointsEarned': 25 });
+    });
+
+    it('should do nothing for a sale without a customer', async () => {
+      await service.complete(paidSale({ customer: undefined }), staffId);
+
+      expect(mockLoyaltyService.earn).not.toHaveBeenCalled();
+      expect(mockCustomersService.updateStatistics).not.toHaveBeenCalled();
+    });
+
+    it('should take back earned points when the statistics cannot be updated', async () => {
+      mockCustomersService.updateStatistics.mockRejectedValueOnce(new Error('Customer not found'));
+
+      await expect(service.complete(paidSale(), staffId)).rejects.toThrow('Customer not found');
+
+      expect(mockLoyaltyService.reverse).toHaveBeenCalledWith(
+        customerId.toString(), 25, 20, expect.objectContaining({ userId: staffId })
+      );
+      expect(mockCustomersService.reverseStatistics).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Sale, SaleDocument } from '../schemas/sale.schema';
+import { InventoryService } from '../../inventory/inventory.service';
+import { CustomersService } from '../../customers/customers.service';
+import { LocationsService } from '../../locations/locations.service';
+import { PromotionsService } from '../../promotions/promotions.service';
+import { LoyaltyService } from '../../loyalty/loyalty.service';
+import { StockMovement, StockMovementType } from '../../inventory/schemas/stock-movement.schema';
+
+interface CheckoutProgress {
+  isCouponRedeemed: boolean;
+  isPointsRedeemed: boolean;
+  isSaleSaved: boolean;
+  isPointsEarned: boolean;
+}
+
+@Injectable()
+export class CheckoutService {
+  private readonly logger = new Logger(CheckoutService.name);
+
+  constructor(
+    @InjectModel(Sale.name) private saleModel: Model<SaleDocument>,
+    private inventoryService: InventoryService,
+    private customersService: CustomersService,
+    private locationsService: LocationsService,
+    private promotionsService: PromotionsService,
+    private loyaltyService: LoyaltyService,
+  ) {}
+
+  /**
+   * Persists a sale together with its stock decrements and customer statistics.
+   * Stock is reserved with conditional decrements before the sale is saved; if any
+   * later step fails, every step already applied is compensated so nothing is left
+   * half-committed. Stock is taken from the sale's location, or the default one.
+   * A coupon on the sale counts towards its usage limit, points redeemed on the
+   * sale come off the customer's balance and a completed sale earns points on
+   * the amount not paid with points.
+   */
+  async checkout(saleData: any, staffId: string): Promise<SaleDocument> {
+    const location = await this.locationsService.resolve(saleData.location);
+
+    const sale = new this.saleModel({
+      ...saleData,
+      location: location._id,
+      staff: new Types.ObjectId(staffId),
+    });
+
+    await sale.validate();
+
+    const reservations: StockMovement[] = [];
+    const progress: CheckoutProgress = {
+      isCouponRedeemed: false,
+      isPointsRedeemed: false,
+      isSaleSaved: false,
+      isPointsEarned: false,
+    };
+    const reference = {
+      documentType: 'Sale',
+      documentId: sale._id,
+      documentNumber: sale.transactionNumber,
+    };
+
+    try {
+      if (sale.couponCode) {
+        await this.promotionsService.redeemCoupon(sale.couponCode);
+        progress.isCouponRedeemed = true;
+      }
+
+      if (sale.loyalty?.pointsRedeemed) {
+        await this.loyaltyService.redeem(sale.customer.toString(), sale.loyalty.pointsRedeemed, {
+          reference,
+          userId: staffId,
+        });
+        progress.isPointsRedeemed = true;
+      }
+
+      for (const item of sale.items) {
+        const movement = await this.inventoryService.applyStockChange(
+          item.product.toString(),
+          -item.quantity,
+          {
+            type: StockMovementType.SALE,
+            variant: item.variant,
+            location: sale.location,
+            reference: {
+              documentType: 'Sale',
+              documentId: sale._id,
+              documentNumber: sale.transactionNumber,
+            },
+            userId: staffId,
+          }
+        );
+        reservations.push(movement);
+      }
+
+      const paidAmount = this.paidAmount(sale);
+      if (sale.customer && sale.status === 'completed') {
+        const pointsEarned = await this.loyaltyService.calculatePoints(sale.customer.toString(), paidAmount);
+        sale.set('loyalty.pointsEarned', pointsEarned);
+      }
+
+      await sale.save();
+      progress.isSaleSaved = true;
+
+      if (sale.customer && sale.status === 'completed') {
+        await this.loyaltyService.earn(sale.customer.toString(), sale.loyalty.pointsEarned, paidAmount, {
+          reference,
+          userId: staffId,
+        });
+        progress.isPointsEarned = true;
+
+        await this.customersService.updateStatistics(
+          sale.customer.toString(),
+          sale.totals.total
+        );
+      }
+
+      return sale;
+    } catch (error) {
+      await this.rollback(sale, reservations, progress, staffId);
+      throw error;
+    }
+  }
+
+  /**
+   * Applies what completing a sale entails to a sale that was pending and
+   * has just been marked completed, e.g. once its payments cover the total:
+   * it earns points on the amount not paid with points and counts towards
+   * the customer's statistics. Steps already applied are compensated if a
+   * later one fails, so the caller only has to put the sale back to pending.
+   */
+  async complete(sale: SaleDocument, staffId: string): Promise<void> {
+    if (!sale.customer) {
+      return;
+    }
+
+    const customerId = sale.customer.toString();
+    const paidAmount = this.paidAmount(sale);
+    const loyaltyOptions = {
+      reference: {
+        documentType: 'Sale',
+        documentId: sale._id,
+        documentNumber: sale.transactionNumber,
+      },
+      userId: staffId,
+    };
+    let isPointsEarned = false;
+    let isStatisticsUpdated = false;
+
+    try {
+      const pointsEarned = await this.loyaltyService.calculatePoints(customerId, paidAmount);
+      await this.loyaltyService.earn(customerId, pointsEarned, paidAmount, loyaltyOptions);
+      sale.set('loyalty.pointsEarned', pointsEarned);
+      isPointsEarned = true;
+
+      await this.customersService.updateStatistics(customerId, sale.totals.total);
+      isStatisticsUpdated = true;
+
+      await this.saleModel.updateOne({ _id: sale._id }, { 'loyalty.pointsEarned': pointsEarned }).exec();
+    } catch (error) {
+      if (isStatisticsUpdated) {
+        try {
+          await this.customersService.reverseStatistics(customerId, sale.totals.total, true);
+        } catch (rollbackError) {
+          this.logger.error(`Failed to reverse statistics for ${sale.transactionNumber} during rollback:`, rollbackError);
+        }
+      }
+
+      if (isPointsEarned) {
+        try {
+          await this.loyaltyService.reverse(customerId, sale.loyalty.pointsEarned, paidAmount, {
+            ...loyaltyOptions,
+            reason: `Completion rollback for ${sale.transactionNumber}`,
+          });
+        } catch (rollbackError) {
+          this.logger.error(`Failed to reverse points earned on ${sale.transactionNumber} during rollback:`, rollbackError);
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  // Part of the total paid with money rather than loyalty points
+  private paidAmount(sale: SaleDocument): number {
+    const pointsPayment = sale.loyalty?.redeemedAs === 'payment' ? sale.loyalty.redeemedValue : 0;
+    return Math.max(0, Math.round((sale.totals.total - pointsPayment) * 100) / 100);
+  }
+
+  private async rollback(
+    sale: SaleDocument,
+    reservations: StockMovement[],
+    progress: CheckoutProgress,
+    staffId: string,
+  ): Promise<void> {
+    const loyaltyOptions = {
+      reference: {
+        documentType: 'Sale',
+        documentId: sale._id,
+        documentNumber: sale.transactionNumber,
+      },
+      userId: staffId,
+      reason: `Checkout rollback for ${sale.transactionNumber}`,
+    };
+
+    if (progress.isPointsEarned) {
+      try {
+        await this.loyaltyService.reverse(
+          sale.customer.toString(),
+          sale.loyalty.pointsEarned,
+          this.paidAmount(sale),
+          loyaltyOptions
+        );
+      } catch (error) {
+        this.logger.error(`Failed to reverse points earned on ${sale.transactionNumber} during rollback:`, error);
+      }
+    }
+
+    if (progress.isSaleSaved) {
+      try {
+        await this.saleModel.deleteOne({ _id: sale._id }).exec();
+      } catch (error) {
+        this.logger.error(`Failed to remove sale ${sale.transactionNumber} during rollback:`, error);
+      }
+    }
+
+    for (const reservation of [...reservations].reverse()) {
+      try {
+        await this.inventoryService.applyStockChange(
+          reservation.product.toString(),
+          -reservation.quantity,
+          {
+            type: StockMovementType.ADJUSTMENT,
+            variant: reservation.variant,
+            location: reservation.location,
+            reference: {
+              documentType: 'Sale',
+              documentId: sale._id,
+              documentNumber: sale.transactionNumber,
+            },
+            userId: staffId,
+            reason: `Checkout rollback for ${sale.transactionNumber}`,
+          }
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to release stock for product ${reservation.product} during rollback:`,
+          error
+        );
+      }
+    }
+
+    if (progress.isPointsRedeemed) {
+      try {
+        await this.loyaltyService.restore(sale.customer.toString(), sale.loyalty.pointsRedeemed, loyaltyOptions);
+      } catch (error) {
+        this.logger.error(`Failed to restore points redeemed on ${sale.transactionNumber} during rollback:`, error);
+      }
+    }
+
+    if (progress.isCouponRedeemed) {
+      try {
+        await this.promotionsService.releaseCoupon(sale.couponCode);
+      } catch (error) {
+        this.logger.error(`Failed to release coupon ${sale.couponCode} during rollback:`, error);
+      }
+    }
+  }
+}
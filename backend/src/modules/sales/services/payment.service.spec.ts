@@ -0,0 +1,92 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+
+describe('PaymentService', () => {
+  let service: PaymentService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PaymentService],
+    }).compile();
+
+    service = module.get<PaymentService>(PaymentService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('settle', () => {
+    it('should mark a single exact tender as paid', () => {
+      const result = service.settle([{ method: 'card', amount: 27.5, cardLast4: '4242' }], 27.5);
+
+      expect(result.payment).toEqual({ method: 'card', amount: 27.5, status: 'completed', change: 0 });
+      expect(result.payments[0]).toEqual(expect.objectContaining({ method: 'card', amount: 27.5, cardLast4: '4242' }));
+    });
+
+    it('should split between cash and card and give change from the cash', () => {
+      const result = service.settle(
+        [{ method: 'cash', amount: 20 }, { method: 'card', amount: 10 }],
+        27.5
+      );
+
+      expect(result.payment).toEqual({ method: 'split', amount: 27.5, status: 'completed', change: 2.5 });
+      expect(result.payments[0]).toEqual(expect.objectContaining({
+        method: 'cash', amount: 17.5, tendered: 20, change: 2.5,
+      }));
+      expect(result.payments[1]).toEqual(expect.objectContaining({ method: 'card', amount: 10, change: 0 }));
+    });
+
+    it('should leave the sale unpaid until the tenders cover the total', () => {
+      const result = service.settle(
+        [{ method: 'card', amount: 10 }, { method: 'digital', amount: 30, status: 'pending' }],
+        27.5
+      );
+
+      expect(result.payment).toEqual({ method: 'split', amount: 10, status: 'pending', change: 0 });
+    });
+
+    it('should refuse to over-tender with anything but cash', () => {
+      expect(() => service.settle([{ method: 'cash', amount: 5 }, { method: 'card', amount: 30 }], 27.5))
+        .toThrow('only cash can be over-tendered');
+    });
+
+    it('should require a payment when an amount is due', () => {
+      expect(() => service.settle([], 10)).toThrow(BadRequestException);
+      expect(service.settle([], 0).payment).toEqual({ method: 'none', amount: 0, status: 'completed', change: 0 });
+    });
+  });
+
+  describe('breakdown', () => {
+    it('should total completed tenders by method, counting legacy sales and points payments', () => {
+      const sales: any[] = [
+        {
+          totals: { total: 27.5 },
+          payment: { method: 'split' },
+          payments: [
+            { method: 'cash', amount: 17.5, status: 'completed' },
+            { method: 'card', amount: 10, status: 'completed' },
+          ],
+        },
+        {
+          totals: { total: 15 },
+          payment: { method: 'card' },
+          payments: [
+            { method: 'card', amount: 12, status: 'completed' },
+            { method: 'digital', amount: 3, status: 'failed' },
+          ],
+          loyalty: { redeemedAs: 'payment', redeemedValue: 3 },
+        },
+        // Recorded before split payments
+        { totals: { total: 8 }, payment: { method: 'cash' }, payments: [] },
+      ];
+
+      expect(service.breakdown(sales)).toEqual({
+        cash: 25.5,
+        card: 22,
+        loyalty_points: 3,
+      });
+    });
+  });
+});
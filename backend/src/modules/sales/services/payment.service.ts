@@ -0,0 +1,128 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { PaymentTender, TENDER_METHODS } from '../schemas/payment-tender.schema';
+import { Sale } from '../schemas/sale.schema';
+
+export interface TenderInput {
+  method: string;
+  amount: number;
+  status?: string;
+  reference?: string;
+  cardLast4?: string;
+  cardBrand?: string;
+}
+
+export interface Settlement {
+  payments: PaymentTender[];
+  payment: {
+    method: string;
+    amount: number;
+    status: string;
+    change: number;
+  };
+}
+
+@Injectable()
+export class PaymentService {
+  /**
+   * Works out how a set of tenders pays the amount due. Only cash can be
+   * over-tendered: the excess is given back as change from the last cash
+   * tenders, so each tender's amount is what it actually contributed. The
+   * sale counts as paid only once completed tenders cover the amount due.
+   */
+  settle(tenders: TenderInput[] = [], amountDue: number): Settlement {
+    if (tenders.length === 0 && amountDue > 0) {
+      throw new BadRequestException('At least one payment is required');
+    }
+
+    tenders.forEach(tender => {
+      if (!TENDER_METHODS.includes(tender.method)) {
+        throw new BadRequestException(`Invalid payment method '${tender.method}'`);
+      }
+      if (!(tender.amount >= 0)) {
+        throw new BadRequestException('Payment amounts cannot be negative');
+      }
+    });
+
+    const isCompleted = (tender: TenderInput) => (tender.status || 'completed') === 'completed';
+    const tendered = this.round(tenders.filter(isCompleted).reduce((sum, tender) => sum + tender.amount, 0));
+    const cashTendered = tenders
+      .filter(tender => isCompleted(tender) && tender.method === 'cash')
+      .reduce((sum, tender) => sum + tender.amount, 0);
+    const change = Math.max(0, this.round(tendered - amountDue));
+
+    if (change > this.round(cashTendered)) {
+      throw new BadRequestException(
+        `Payments of ${tendered} exceed the amount due of ${amountDue}; only cash can be over-tendered`
+      );
+    }
+
+    const payments: PaymentTender[] = tenders.map(tender => ({
+      method: tender.method,
+      amount: this.round(tender.amount),
+      tendered: undefined,
+      change: 0,
+      status: tender.status || 'completed',
+      reference: tender.reference,
+      cardLast4: tender.cardLast4,
+      cardBrand: tender.cardBrand,
+    }));
+
+    let changeLeft = change;
+    for (const tender of [...payments].reverse()) {
+      if (changeLeft <= 0 || tender.method !== 'cash' || tender.status !== 'completed') {
+        continue;
+      }
+
+      const given = Math.min(changeLeft, tender.amount);
+      tender.tendered = tender.amount;
+      tender.change = this.round(given);
+      tender.amount = this.round(tender.amount - given);
+      changeLeft = this.round(changeLeft - given);
+    }
+
+    const methods = [...new Set(payments.map(tender => tender.method))];
+    const paid = this.round(tendered - change);
+
+    return {
+      payments,
+      payment: {
+        method: methods.length === 1 ? methods[0] : methods.length > 1 ? 'split' : 'none',
+        amount: paid,
+        status: paid >= this.round(amountDue) ? 'completed' : 'pending',
+        change,
+      },
+    };
+  }
+
+  /**
+   * Amount taken per tender method across sales. Sales recorded before
+   * split payments count their whole total against their single method,
+   * and points redeemed as a payment are reported as loyalty_points.
+   */
+  breakdown(sales: Sale[]): Record<string, number> {
+    const totals: Record<string, number> = {};
+    const add = (method: string, amount: number) => {
+      totals[method] = this.round((totals[method] || 0) + amount);
+    };
+
+    sales.forEach(sale => {
+      if (sale.payments?.length) {
+        sale.payments
+          .filter(tender => tender.status === 'completed')
+          .forEach(tender => add(tender.method, tender.amount));
+      } else {
+        add(sale.payment.method, sale.totals.total);
+      }
+
+      if (sale.loyalty?.redeemedAs === 'payment' && sale.loyalty.redeemedValue > 0) {
+        add('loyalty_points', sale.loyalty.redeemedValue);
+      }
+    });
+
+    return totals;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,382 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { RefundService } from './refund.service';
+import { Sale } from '../schemas/sale.schema';
+import { Refund } from '../schemas/refund.schema';
+import { InventoryService } from '../../inventory/inventory.service';
+import { CustomersService } from '../../customers/customers.service';
+import { NumberingService } from '../../numbering/numbering.service';
+import { LoyaltyService } from '../../loyalty/loyalty.service';
+import { RegisterSessionService } from '../../registers/services/register-session.service';
+import { StockMovementType } from '../../inventory/schemas/stock-movement.schema';
+
+describe('RefundService', () => {
+  let service: RefundService;
+
+  const saleId = new Types.ObjectId('507f1f77bcf86cd799439010');
+  const productA = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const productB = new Types.ObjectId('507f1f77bcf86cd799439012');
+  const customerId = new Types.ObjectId('507f1f77bcf86cd799439013');
+  const cashier = { id: '507f1f77bcf86cd799439014', role: 'cashier' };
+  const manager = { id: '507f1f77bcf86cd799439015', role: 'manager' };
+
+  let refundDoc: any;
+  let claimedSale: any;
+
+  const buildSale = (overrides: any = {}) => ({
+    _id: saleId,
+    transactionNumber: 'TXN202401010001',
+    customer: customerId,
+    items: [
+      { product: productA, quantity: 2, unitPrice: 10, total: 20, refundedQuantity: 0 },
+      { product: productB, quantity: 1, unitPrice: 5, total: 5, refundedQuantity: 0 },
+    ],
+    totals: { subtotal: 25, tax: 2.5, discount: 0, total: 27.5 },
+    payment: { method: 'cash', status: 'completed' },
+    status: 'completed',
+    refundedAmount: 0,
+    ...overrides,
+  });
+
+  // Mimics a Mongoose model constructor returning a refund document
+  const mockRefundModel: any = jest.fn().mockImplementation((data) => {
+    refundDoc = {
+      ...data,
+      _id: new Types.ObjectId(),
+      validate: jest.fn().mockResolvedValue(undefined),
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    return refundDoc;
+  });
+  mockRefundModel.deleteOne = jest.fn().mockReturnValue({
+    exec: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+  });
+
+  const mockSaleModel = {
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue({}) }),
+  };
+
+  const mockInventoryService = {
+    applyStockChange: jest.fn(),
+  };
+
+  const mockCustomersService = {
+    reverseStatistics: jest.fn(),
+    restoreStatistics: jest.fn(),
+  };
+
+  const mockNumberingService = {
+    next: jest.fn().mockResolvedValue('RFD-2024-000001'),
+  };
+
+  const mockLoyaltyService = {
+    pointsValue: jest.fn((points: number) => Math.round(points) / 100),
+    reverse: jest.fn(),
+    restore: jest.fn(),
+    earn: jest.fn(),
+    redeem: jest.fn(),
+  };
+
+  const mockRegisterSessionService = {
+    findOpenForCashier: jest.fn().mockResolvedValue(null),
+  };
+
+  const givenSale = (sale: any) => {
+    mockSaleModel.findById.mockReturnValue({ exec: jest.fn().mockResolvedValue(sale) });
+  };
+
+  const givenClaim = (result: any) => {
+    claimedSale = result && { ...result, populate: jest.fn().mockResolvedValue(result) };
+    mockSaleModel.findOneAndUpdate.mockReturnValue({ exec: jest.fn().mockResolvedValue(claimedSale) });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundService,
+        { provide: getModelToken(Sale.name), useValue: mockSaleModel },
+        { provide: getModelToken(Refund.name), useValue: mockRefundModel },
+        { provide: InventoryService, useValue: mockInventoryService },
+        { provide: CustomersService, useValue: mockCustomersService },
+        { provide: NumberingService, useValue: mockNumberingService },
+        { provide: LoyaltyService, useValue: mockLoyaltyService },
+        { provide: RegisterSessionService, useValue: mockRegisterSessionService },
+      ],
+    }).compile();
+
+    service = module.get<RefundService>(RefundService);
+
+    mockInventoryService.applyStockChange.mockImplementation(async (product, quantity) => ({
+      product,
+      quantity,
+    }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should take the refund out of the open register session of the refunder', async () => {
+    const sessionId = new Types.ObjectId();
+    mockRegisterSessionService.findOpenForCashier.mockResolvedValueOnce({ _id: sessionId });
+    givenSale(buildSale());
+    givenClaim(buildSale());
+
+    await service.refund(saleId.toString(), { items: [{ product: productA.toString(), quantity: 1 }] }, cashier);
+
+    expect(mockRegisterSessionService.findOpenForCashier).toHaveBeenCalledWith(cashier.id);
+    expect(refundDoc.session).toBe(sessionId);
+  });
+
+  it('should refund selected items proportionally and restock them', async () => {
+    givenSale(buildSale());
+    givenClaim(buildSale());
+
+    await service.refund(saleId.toString(), { items: [{ product: productA.toString(), quantity: 1 }] }, cashier);
+
+    // 10 of 25 before tax, scaled to the taxed total of 27.5
+    expect(refundDoc.amount).toBe(11);
+    expect(refundDoc.isFullRefund).toBe(false);
+    expect(mockSaleModel.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: saleId, refundedAmount: 0, status: 'completed' },
+      expect.objectContaining({
+        $set: { refundedAmount: 11, 'items.0.refundedQuantity': 1 },
+      }),
+      { new: true }
+    );
+    expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+      productA.toString(),
+      1,
+      expect.objectContaining({ type: StockMovementType.RETURN, userId: cashier.id })
+    );
+    expect(refundDoc.save).toHaveBeenCalled();
+    expect(mockCustomersService.reverseStatistics).toHaveBeenCalledWith(customerId.toString(), 11, false);
+  });
+
+  it('should mark the sale refunded when every remaining item is returned', async () => {
+    givenSale(buildSale());
+    givenClaim(buildSale({ status: 'refunded' }));
+
+    await service.refund(saleId.toString(), {}, manager);
+
+    expect(refundDoc.amount).toBe(27.5);
+    expect(refundDoc.isFullRefund).toBe(true);
+    expect(mockSaleModel.findOneAndUpdate.mock.calls[0][1].$set).toEqual(
+      expect.objectContaining({ status: 'refunded', 'payment.status': 'refunded' })
+    );
+    expect(mockCustomersService.reverseStatistics).toHaveBeenCalledWith(customerId.toString(), 27.5, true);
+  });
+
+  it('should record a write-off after the return for damaged goods', async () => {
+    givenSale(buildSale());
+    givenClaim(buildSale());
+
+    await service.refund(
+      saleId.toString(),
+      { items: [{ product: productB.toString(), quantity: 1, disposition: 'write_off' }] },
+      cashier
+    );
+
+    expect(mockInventoryService.applyStockChange).toHaveBeenNthCalledWith(
+      1, productB.toString(), 1, expect.objectContaining({ type: StockMovementType.RETURN })
+    );
+    expect(mockInventoryService.applyStockChange).toHaveBeenNthCalledWith(
+      2, productB.toString(), -1, expect.objectContaining({ type: StockMovementType.WRITE_OFF })
+    );
+  });
+
+  it('should require a refund method for a sale paid with several tenders', async () => {
+    givenSale(buildSale({ payment: { method: 'split', status: 'completed' } }));
+
+    await expect(service.refund(saleId.toString(), {}, manager))
+      .rejects.toThrow('paymentMethod is required');
+
+    givenSale(buildSale({ payment: { method: 'split', status: 'completed' } }));
+    givenClaim(buildSale({ status: 'refunded' }));
+    await service.refund(saleId.toString(), { paymentMethod: 'card' }, manager);
+
+    expect(refundDoc.payment.method).toBe('card');
+  });
+
+  it('should reject quantities beyond what remains refundable', async () => {
+    givenSale(buildSale({
+      items: [{ product: productA, quantity: 2, unitPrice: 10, total: 20, refundedQuantity: 2 }],
+    }));
+
+    await expect(
+      service.refund(saleId.toString(), { items: [{ product: productA.toString(), quantity: 1 }] }, cashier)
+    ).rejects.toThrow(BadRequestException);
+    expect(mockSaleModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should require a manager above the approval threshold', async () => {
+    givenSale(buildSale({
+      items: [{ product: productA, quantity: 20, unitPrice: 10, total: 200, refundedQuantity: 0 }],
+      totals: { subtotal: 200, tax: 0, discount: 0, total: 200 },
+    }));
+
+    await expect(service.refund(saleId.toString(), {}, cashier)).rejects.toThrow(ForbiddenException);
+    expect(mockNumberingService.next).not.toHaveBeenCalled();
+  });
+
+  it('should reject a concurrent refund of the same sale', async () => {
+    givenSale(buildSale());
+    givenClaim(null);
+
+    await expect(service.refund(saleId.toString(), {}, manager)).rejects.toThrow(ConflictException);
+    expect(mockInventoryService.applyStockChange).not.toHaveBeenCalled();
+  });
+
+  it('should restore the sale and stock when saving the refund fails', async () => {
+    givenSale(buildSale());
+    givenClaim(buildSale());
+    mockRefundModel.mockImplementationOnce((data) => {
+      refundDoc = {
+        ...data,
+        _id: new Types.ObjectId(),
+        validate: jest.fn().mockResolvedValue(undefined),
+        save: jest.fn().mockRejectedValue(new Error('write failed')),
+      };
+      return refundDoc;
+    });
+
+    await expect(
+      service.refund(saleId.toString(), { items: [{ product: productA.toString(), quantity: 2 }] }, cashier)
+    ).rejects.toThrow('write failed');
+
+    expect(mockSaleModel.updateOne).toHaveBeenCalledWith(
+      { _id: saleId },
+      expect.objectContaining({ $pull: { refunds: refundDoc._id } })
+    );
+    expect(mockInventoryService.applyStockChange).toHaveBeenLastCalledWith(
+      productA.toString(),
+      -2,
+      expect.objectContaining({ type: StockMovementType.ADJUSTMENT })
+    );
+    expect(mockCustomersService.reverseStatistics).not.toHaveBeenCalled();
+  });
+
+  it('should give back the customer\'s statistics and points when a refund fails after reversing them', async () => {
+    const loyalty = { pointsEarned: 22, pointsRedeemed: 500, redeemedValue: 5, redeemedAs: 'payment' };
+    givenSale(buildSale({ loyalty }));
+    givenClaim(buildSale({ loyalty }));
+    // Only 6 of the 9 points could be taken back; the customer spent the rest
+    mockLoyaltyService.reverse.mockResolvedValueOnce(6);
+    mockLoyaltyService.restore.mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(
+      service.refund(saleId.toString(), { items: [{ product: productA.toString(), quantity: 1 }] }, cashier)
+    ).rejects.toThrow('write failed');
+
+    expect(mockLoyaltyService.earn).toHaveBeenCalledWith(
+      customerId.toString(), 6, 9, expect.objectContaining({ reason: `Refund rollback for ${refundDoc.refundNumber}` })
+    );
+    expect(mockLoyaltyService.redeem).not.toHaveBeenCalled();
+    expect(mockCustomersService.restoreStatistics).toHaveBeenCalledWith(customerId.toString(), 11, false);
+    expect(mockSaleModel.updateOne).toHaveBeenCalled();
+  });
+
+  it('should cancel a sale, restock every item and reverse customer statistics', async () => {
+    givenSale(buildSale());
+    givenClaim(buildSale({ status: 'cancelled' }));
+
+    await service.cancel(saleId.toString(), { reason: 'Customer changed mind' }, manager);
+
+    expect(mockInventoryService.applyStockChange).toHaveBeenCalledTimes(2);
+    expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+      productA.toString(),
+      2,
+      expect.objectContaining({ type: StockMovementType.RETURN })
+    );
+    expect(mockCustomersService.reverseStatistics).toHaveBeenCalledWith(customerId.toString(), 27.5, true);
+  });
+
+  it('should take back earned points and return points paid with in proportion to the refund', async () => {
+    const loyalty = { pointsEarned: 22, pointsRedeemed: 500, redeemedValue: 5, redeemedAs: 'payment' };
+    givenSale(buildSale({ loyalty }));
+    givenClaim(buildSale({ loyalty }));
+
+    await service.refund(saleId.toString(), { items: [{ product: productA.toString(), quantity: 1 }] }, cashier);
+
+    // 11 of 27.5 is 40% of the sale: 2 of the 11 go back as points
+    expect(refundDoc.loyalty).toEqual({ pointsReversed: 9, pointsRestored: 200, restoredValue: 2 });
+    expect(mockSaleModel.findOneAndUpdate.mock.calls[0][1].$set).toEqual(
+      expect.objectContaining({ 'loyalty.pointsReversed': 9, 'loyalty.pointsRestored': 200 })
+    );
+    expect(mockLoyaltyService.reverse).toHaveBeenCalledWith(
+      customerId.toString(), 9, 9, expect.objectContaining({ userId: cashier.id })
+    );
+    expect(mockLoyaltyService.restore).toHaveBeenCalledWith(
+      customerId.toString(), 200, expect.objectContaining({ userId: cashier.id })
+    );
+  });
+
+  it('should give back every redeemed point when a sale is cancelled', async () => {
+    const loyalty = { pointsEarned: 24, pointsRedeemed: 300, redeemedValue: 3, redeemedAs: 'discount' };
+    givenSale(buildSale({ loyalty }));
+    givenClaim(buildSale({ status: 'cancelled', loyalty }));
+
+    await service.cancel(saleId.toString(), {}, manager);
+
+    expect(mockLoyaltyService.reverse).toHaveBeenCalledWith(
+      customerId.toString(), 24, 27.5, expect.objectContaining({ userId: manager.id })
+    );
+    expect(mockLoyaltyService.restore).toHaveBeenCalledWith(
+      customerId.toString(), 300, expect.objectContaining({ userId: manager.id })
+    );
+  });
+
+  it('should restore the sale and stock when a cancellation fails part way', async () => {
+    givenSale(buildSale());
+    givenClaim(buildSale({ status: 'cancelled' }));
+    mockCustomersService.reverseStatistics.mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(service.cancel(saleId.toString(), {}, manager)).rejects.toThrow('write failed');
+
+    expect(mockSaleModel.updateOne).toHaveBeenCalledWith(
+      { _id: saleId, status: 'cancelled' },
+      {
+        $set: { status: 'completed', 'payment.status': 'completed' },
+        $unset: { cancellation: '' },
+      }
+    );
+    expect(mockInventoryService.applyStockChange).toHaveBeenCalledTimes(4);
+    expect(mockInventoryService.applyStockChange).toHaveBeenCalledWith(
+      productB.toString(),
+      -1,
+      expect.objectContaining({ type: StockMovementType.ADJUSTMENT })
+    );
+    expect(mockInventoryService.applyStockChange).toHaveBeenLastCalledWith(
+      productA.toString(),
+      -2,
+      expect.objectContaining({ type: StockMovementType.ADJUSTMENT })
+    );
+    expect(mockLoyaltyService.reverse).not.toHaveBeenCalled();
+    expect(mockCustomersService.restoreStatistics).not.toHaveBeenCalled();
+  });
+
+  it('should give back the customer\'s statistics when a cancellation fails after reversing them', async () => {
+    givenSale(buildSale());
+    givenClaim(buildSale({ status: 'cancelled' }));
+    mockLoyaltyService.reverse.mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(service.cancel(saleId.toString(), {}, manager)).rejects.toThrow('write failed');
+
+    expect(mockCustomersService.restoreStatistics).toHaveBeenCalledWith(customerId.toString(), 27.5, true);
+    expect(mockLoyaltyService.earn).not.toHaveBeenCalled();
+  });
+
+  it('should not cancel a partially refunded sale', async () => {
+    givenSale(buildSale({ refundedAmount: 11 }));
+
+    await expect(service.cancel(saleId.toString(), {}, manager)).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,645 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Sale, SaleDocument } from '../schemas/sale.schema';
+import { Refund, RefundDocument } from '../schemas/refund.schema';
+import { RefundSaleDto, CancelSaleDto } from '../dto/refund-sale.dto';
+import { InventoryService } from '../../inventory/inventory.service';
+import { CustomersService } from '../../customers/customers.service';
+import { NumberingService } from '../../numbering/numbering.service';
+import { LoyaltyService } from '../../loyalty/loyalty.service';
+import { RegisterSessionService } from '../../registers/services/register-session.service';
+import { StockMovement, StockMovementType } from '../../inventory/schemas/stock-movement.schema';
+import { DocumentSequence } from '../../../config/numbering.config';
+import { refundConfig } from '../../../config/refund.config';
+
+interface RefundActor {
+  id: string;
+  role: string;
+}
+
+interface RefundLoyalty {
+  pointsReversed: number;
+  pointsRestored: number;
+  restoredValue: number;
+}
+
+// Customer-side steps of a refund or cancellation already applied, so a
+// later failure can compensate them
+interface ReversalProgress {
+  isStatisticsReversed: boolean;
+  isPointsReversed: boolean;
+  // Points actually taken back, and the spend taken off the customer's tier
+  pointsReversed: number;
+  spendReversed: number;
+  isPointsRestored: boolean;
+  pointsRestored: number;
+}
+
+interface RefundLine {
+  index: number;
+  product: Types.ObjectId;
+  variant?: Types.ObjectId;
+  quantity: number;
+  amount: number;
+  disposition: string;
+}
+
+@Injectable()
+export class RefundService {
+  private readonly logger = new Logger(RefundService.name);
+
+  constructor(
+    @InjectModel(Sale.name) private saleModel: Model<SaleDocument>,
+    @InjectModel(Refund.name) private refundModel: Model<RefundDocument>,
+    private inventoryService: InventoryService,
+    private customersService: CustomersService,
+    private numberingService: NumberingService,
+    private loyaltyService: LoyaltyService,
+    private registerSessionService: RegisterSessionService,
+  ) {}
+
+  async refund(saleId: string, refundDto: RefundSaleDto, actor: RefundActor): Promise<Sale> {
+    const sale = await this.findSale(saleId);
+
+    if (sale.status !== 'completed') {
+      throw new BadRequestException(`Cannot refund a sale with status '${sale.status}'`);
+    }
+
+    const lines = this.resolveRefundLines(sale, refundDto);
+    const isFullRefund = sale.items.every((item, index) => {
+      const refunded = lines
+        .filter(line => line.index === index)
+        .reduce((sum, line) => sum + line.quantity, 0);
+      return (item.refundedQuantity || 0) + refunded >= item.quantity;
+    });
+
+    const remainingAmount = this.round(sale.totals.total - (sale.refundedAmount || 0));
+    const calculatedAmount = isFullRefund
+      ? remainingAmount
+      : Math.min(remainingAmount, this.round(lines.reduce((sum, line) => sum + line.amount, 0)));
+
+    if (refundDto.amount !== undefined && refundDto.amount > calculatedAmount) {
+      throw new BadRequestException(
+        `Refund amount ${refundDto.amount} exceeds the refundable amount ${calculatedAmount}`
+      );
+    }
+
+    const amount = refundDto.amount ?? calculatedAmount;
+    this.assertCanApprove(amount, actor);
+    const loyalty = this.resolveLoyalty(sale, amount, isFullRefund);
+
+    // Cash paid out at the till comes out of the refunder's open session
+    const session = await this.registerSessionService.findOpenForCashier(actor.id);
+
+    const refundNumber = await this.numberingService.next(DocumentSequence.REFUND);
+    const refund = new this.refundModel({
+      refundNumber,
+      sale: sale._id,
+      customer: sale.customer,
+      items: lines.map(line => ({
+        product: line.product,
+        variant: line.variant,
+        quantity: line.quantity,
+        amount: line.amount,
+        disposition: line.disposition,
+      })),
+      amount,
+      payment: {
+        method: refundDto.paymentMethod || this.defaultRefundMethod(sale),
+        reference: refundDto.paymentReference,
+      },
+      loyalty,
+      isFullRefund,
+      reason: refundDto.reason,
+      processedBy: new Types.ObjectId(actor.id),
+      session: session?._id,
+    });
+
+    await refund.validate();
+
+    // Claim the refund on the sale first; the refundedAmount guard rejects a
+    // concurrent refund of the same sale instead of refunding it twice.
+    const previousState = {
+      items: sale.items.map(item => item.refundedQuantity || 0),
+      refundedAmount: sale.refundedAmount || 0,
+      status: sale.status,
+      paymentStatus: sale.payment.status,
+      pointsReversed: sale.loyalty?.pointsReversed || 0,
+      pointsRestored: sale.loyalty?.pointsRestored || 0,
+    };
+    const update: any = {
+      $set: {
+        refundedAmount: this.round(previousState.refundedAmount + amount),
+        ...(isFullRefund && { status: 'refunded', 'payment.status': 'refunded' }),
+        ...(loyalty.pointsReversed && { 'loyalty.pointsReversed': previousState.pointsReversed + loyalty.pointsReversed }),
+        ...(loyalty.pointsRestored && { 'loyalty.pointsRestored': previousState.pointsRestored + loyalty.pointsRestored }),
+      },
+      $push: { refunds: refund._id },
+    };
+    lines.forEach(line => {
+      update.$set[`items.${line.index}.refundedQuantity`] =
+        (update.$set[`items.${line.index}.refundedQuantity`] ?? previousState.items[line.index]) + line.quantity;
+    });
+
+    const claimed = await this.saleModel
+      .findOneAndUpdate(
+        { _id: sale._id, refundedAmount: previousState.refundedAmount, status: sale.status },
+        update,
+        { new: true }
+      )
+      .exec();
+
+    if (!claimed) {
+      throw new ConflictException('Sale was modified by another request, please retry');
+    }
+
+    const movements: StockMovement[] = [];
+    const progress = this.startReversal();
+    try {
+      for (const line of lines) {
+        movements.push(...await this.returnStock(sale, refund, line, actor.id));
+      }
+
+      await refund.save();
+
+      if (sale.customer) {
+        await this.customersService.reverseStatistics(sale.customer.toString(), amount, isFullRefund);
+        progress.isStatisticsReversed = true;
+
+        await this.reverseLoyalty(sale, loyalty, this.round(amount - loyalty.restoredValue), {
+          documentType: 'Refund',
+          documentId: refund._id,
+          documentNumber: refund.refundNumber,
+        }, actor.id, progress);
+      }
+    } catch (error) {
+      await this.rollback(sale, refund, previousState, movements, progress, actor.id);
+      throw error;
+    }
+
+    return claimed.populate([
+      { path: 'customer', select: 'name email phone' },
+      { path: 'staff', select: 'name email' },
+      { path: 'items.product', select: 'name sku price' },
+      { path: 'refunds', select: 'refundNumber amount payment isFullRefund reason createdAt' }
+    ]);
+  }
+
+  async cancel(saleId: string, cancelDto: CancelSaleDto, actor: RefundActor): Promise<Sale> {
+    const sale = await this.findSale(saleId);
+
+    if (!['pending', 'completed'].includes(sale.status)) {
+      throw new BadRequestException(`Cannot cancel a sale with status '${sale.status}'`);
+    }
+
+    if (sale.refundedAmount > 0) {
+      throw new BadRequestException('Cannot cancel a sale that has been partially refunded');
+    }
+
+    const cancelled = await this.saleModel
+      .findOneAndUpdate(
+        { _id: sale._id, status: sale.status, refundedAmount: sale.refundedAmount || 0 },
+        {
+          status: 'cancelled',
+          'payment.status': sale.payment.status === 'completed' ? 'refunded' : sale.payment.status,
+          cancellation: {
+            reason: cancelDto.reason,
+            cancelledBy: new Types.ObjectId(actor.id),
+            cancelledAt: new Date(),
+          },
+        },
+        { new: true }
+      )
+      .exec();
+
+    if (!cancelled) {
+      throw new ConflictException('Sale was modified by another request, please retry');
+    }
+
+    const reference = {
+      documentType: 'Sale',
+      documentId: sale._id,
+      documentNumber: sale.transactionNumber,
+    };
+    const movements: StockMovement[] = [];
+    const progress = this.startReversal();
+    try {
+      for (const item of sale.items) {
+        movements.push(await this.inventoryService.applyStockChange(item.product.toString(), item.quantity, {
+          type: StockMovementType.RETURN,
+          variant: item.variant,
+          location: sale.location,
+          reference,
+          userId: actor.id,
+          reason: cancelDto.reason || 'Sale cancelled',
+        }));
+      }
+
+      if (sale.customer && sale.status === 'completed') {
+        await this.customersService.reverseStatistics(sale.customer.toString(), sale.totals.total, true);
+        progress.isStatisticsReversed = true;
+      }
+
+      // A cancelled sale gives back every point redeemed on it, whether as a
+      // discount or a payment
+      if (sale.customer) {
+        const pointsPayment = sale.loyalty?.redeemedAs === 'payment' ? sale.loyalty.redeemedValue : 0;
+        await this.reverseLoyalty(
+          sale,
+          {
+            pointsReversed: sale.loyalty?.pointsEarned || 0,
+            pointsRestored: sale.loyalty?.pointsRedeemed || 0,
+            restoredValue: 0,
+          },
+          sale.status === 'completed' ? this.round(sale.totals.total - pointsPayment) : 0,
+          reference,
+          actor.id,
+          progress
+        );
+      }
+    } catch (error) {
+      await this.rollbackCancel(sale, movements, progress, actor.id);
+      throw error;
+    }
+
+    return cancelled.populate([
+      { path: 'customer', select: 'name email phone' },
+      { path: 'staff', select: 'name email' },
+      { path: 'items.product', select: 'name sku price' }
+    ]);
+  }
+
+  async findBySale(saleId: string): Promise<Refund[]> {
+    if (!Types.ObjectId.isValid(saleId)) {
+      throw new BadRequestException('Invalid sale ID');
+    }
+
+    return this.refundModel
+      .find({ sale: new Types.ObjectId(saleId) })
+      .sort({ createdAt: -1 })
+      .populate([
+        { path: 'items.product', select: 'name sku' },
+        { path: 'processedBy', select: 'name email' },
+      ])
+      .exec();
+  }
+
+  private async findSale(saleId: string): Promise<SaleDocument> {
+    if (!Types.ObjectId.isValid(saleId)) {
+      throw new BadRequestException('Invalid sale ID');
+    }
+
+    const sale = await this.saleModel.findById(saleId).exec();
+    if (!sale) {
+      throw new NotFoundException('Sale not found');
+    }
+
+    return sale;
+  }
+
+  private resolveRefundLines(sale: SaleDocument, refundDto: RefundSaleDto): RefundLine[] {
+    // Share of the sale total carried by each line, so tax and sale-level
+    // discounts are refunded proportionally
+    const itemsTotal = sale.items.reduce((sum, item) => sum + item.total, 0);
+    const ratio = itemsTotal > 0 ? sale.totals.total / itemsTotal : 0;
+    const remaining = sale.items.map(item => item.quantity - (item.refundedQuantity || 0));
+
+    const requested = refundDto.items?.length
+      ? refundDto.items
+      : sale.items
+          .map((item, index) => ({
+            product: item.product.toString(),
+            variant: item.variant?.toString(),
+            quantity: remaining[index],
+          }))
+          .filter(item => item.quantity > 0);
+
+    if (requested.length === 0) {
+      throw new BadRequestException('Sale has already been fully refunded');
+    }
+
+    const lines: RefundLine[] = [];
+    for (const request of requested) {
+      let quantityLeft = request.quantity;
+
+      // A product can appear on several lines; consume them in order
+      sale.items.forEach((item, index) => {
+        if (
+          quantityLeft === 0 ||
+          item.product.toString() !== request.product ||
+          (request.variant && item.variant?.toString() !== request.variant) ||
+          remaining[index] === 0
+        ) {
+          return;
+        }
+
+        const quantity = Math.min(quantityLeft, remaining[index]);
+        remaining[index] -= quantity;
+        quantityLeft -= quantity;
+
+        lines.push({
+          index,
+          product: item.product,
+          variant: item.variant,
+          quantity,
+          amount: this.round((item.total / item.quantity) * quantity * ratio),
+          disposition: (request as any).disposition || 'restock',
+        });
+      });
+
+      if (quantityLeft > 0) {
+        throw new BadRequestException(
+          `Cannot refund ${request.quantity} of product ${request.product}: quantity exceeds the refundable quantity`
+        );
+      }
+    }
+
+    return lines;
+  }
+
+  /**
+   * Share of the sale's loyalty points the refund takes back and gives back.
+   * Earned points are taken back in proportion to the amount refunded; when
+   * the sale was partly paid with points, the same share of those points is
+   * returned instead of money. A full refund settles whatever is left.
+   */
+  private resolveLoyalty(sale: SaleDocument, amount: number, isFullRefund: boolean): RefundLoyalty {
+    const share = sale.totals.total > 0 ? amount / sale.totals.total : 0;
+    const earnedLeft = (sale.loyalty?.pointsEarned || 0) - (sale.loyalty?.pointsReversed || 0);
+    const pointsReversed = isFullRefund
+      ? earnedLeft
+      : Math.min(earnedLeft, Math.round((sale.loyalty?.pointsEarned || 0) * share));
+
+    if (sale.loyalty?.redeemedAs !== 'payment') {
+      return { pointsReversed, pointsRestored: 0, restoredValue: 0 };
+    }
+
+    const redeemedLeft = sale.loyalty.pointsRedeemed - (sale.loyalty.pointsRestored || 0);
+    const pointsRestored = isFullRefund
+      ? redeemedLeft
+      : Math.min(redeemedLeft, Math.round(sale.loyalty.pointsRedeemed * share));
+
+    return {
+      pointsReversed,
+      pointsRestored,
+      restoredValue: Math.min(amount, this.loyaltyService.pointsValue(pointsRestored)),
+    };
+  }
+
+  private async reverseLoyalty(
+    sale: SaleDocument,
+    loyalty: RefundLoyalty,
+    spend: number,
+    reference: { documentType: string; documentId: Types.ObjectId; documentNumber: string },
+    userId: string,
+    progress: ReversalProgress,
+  ): Promise<void> {
+    const customerId = sale.customer.toString();
+    const reason = `Reversal of sale ${sale.transactionNumber}`;
+
+    if (loyalty.pointsReversed > 0 || spend > 0) {
+      progress.pointsReversed = await this.loyaltyService.reverse(
+        customerId, loyalty.pointsReversed, spend, { reference, userId, reason }
+      );
+      progress.spendReversed = spend;
+      progress.isPointsReversed = true;
+    }
+
+    if (loyalty.pointsRestored > 0) {
+      await this.loyaltyService.restore(customerId, loyalty.pointsRestored, { reference, userId, reason });
+      progress.pointsRestored = loyalty.pointsRestored;
+      progress.isPointsRestored = true;
+    }
+  }
+
+  // Money goes back the way it came; a sale paid with several tenders needs
+  // the cashier to choose, and one paid entirely with points has nothing to
+  // return but points
+  private defaultRefundMethod(sale: SaleDocument): string {
+    switch (sale.payment.method) {
+      case 'split':
+        throw new BadRequestException('Sale was paid with several tenders, paymentMethod is required');
+      case 'none':
+        return 'store_credit';
+      default:
+        return sale.payment.method;
+    }
+  }
+
+  private assertCanApprove(amount: number, actor: RefundActor): void {
+    if (
+      amount > refundConfig.managerApprovalThreshold &&
+      !refundConfig.managerRoles.includes(actor.role)
+    ) {
+      throw new ForbiddenException(
+        `Refunds over ${refundConfig.managerApprovalThreshold} require a manager`
+      );
+    }
+  }
+
+  private async returnStock(
+    sale: SaleDocument,
+    refund: RefundDocument,
+    line: RefundLine,
+    userId: string,
+  ): Promise<StockMovement[]> {
+    const reference = {
+      documentType: 'Refund',
+      documentId: refund._id,
+      documentNumber: refund.refundNumber,
+    };
+
+    // Returned goods always come back into stock first; written-off goods are
+    // then removed again so the ledger shows both the return and the loss
+    const movements = [
+      await this.inventoryService.applyStockChange(line.product.toString(), line.quantity, {
+        type: StockMovementType.RETURN,
+        variant: line.variant,
+        location: sale.location,
+        reference,
+        userId,
+        reason: `Return from sale ${sale.transactionNumber}`,
+      }),
+    ];
+
+    if (line.disposition === 'write_off') {
+      movements.push(
+        await this.inventoryService.applyStockChange(line.product.toString(), -line.quantity, {
+          type: StockMovementType.WRITE_OFF,
+          variant: line.variant,
+          location: sale.location,
+          reference,
+          userId,
+          reason: `Returned item written off (sale ${sale.transactionNumber})`,
+        })
+      );
+    }
+
+    return movements;
+  }
+
+  private async rollback(
+    sale: SaleDocument,
+    refund: RefundDocument,
+    previousState: {
+      items: number[];
+      refundedAmount: number;
+      status: string;
+      paymentStatus: string;
+      pointsReversed: number;
+      pointsRestored: number;
+    },
+    movements: StockMovement[],
+    progress: ReversalProgress,
+    userId: string,
+  ): Promise<void> {
+    await this.compensateReversal(sale, progress, refund.amount, refund.isFullRefund, {
+      documentType: 'Refund',
+      documentId: refund._id,
+      documentNumber: refund.refundNumber,
+    }, userId, `Refund rollback for ${refund.refundNumber}`);
+
+    try {
+      const restore: any = {
+        refundedAmount: previousState.refundedAmount,
+        status: previousState.status,
+        'payment.status': previousState.paymentStatus,
+        ...(refund.loyalty?.pointsReversed && { 'loyalty.pointsReversed': previousState.pointsReversed }),
+        ...(refund.loyalty?.pointsRestored && { 'loyalty.pointsRestored': previousState.pointsRestored }),
+      };
+      previousState.items.forEach((quantity, index) => {
+        restore[`items.${index}.refundedQuantity`] = quantity;
+      });
+
+      await this.saleModel
+        .updateOne({ _id: sale._id }, { $set: restore, $pull: { refunds: refund._id } })
+        .exec();
+      await this.refundModel.deleteOne({ _id: refund._id }).exec();
+    } catch (error) {
+      this.logger.error(`Failed to restore sale ${sale.transactionNumber} during refund rollback:`, error);
+    }
+
+    await this.reverseMovements(movements, {
+      documentType: 'Refund',
+      documentId: refund._id,
+      documentNumber: refund.refundNumber,
+    }, userId, `Refund rollback for ${refund.refundNumber}`);
+  }
+
+  // Puts a sale whose cancellation failed part way back as it was
+  private async rollbackCancel(
+    sale: SaleDocument,
+    movements: StockMovement[],
+    progress: ReversalProgress,
+    userId: string,
+  ): Promise<void> {
+    await this.compensateReversal(sale, progress, sale.totals.total, true, {
+      documentType: 'Sale',
+      documentId: sale._id,
+      documentNumber: sale.transactionNumber,
+    }, userId, `Cancellation rollback for ${sale.transactionNumber}`);
+
+    try {
+      await this.saleModel
+        .updateOne(
+          { _id: sale._id, status: 'cancelled' },
+          {
+            $set: { status: sale.status, 'payment.status': sale.payment.status },
+            $unset: { cancellation: '' },
+          }
+        )
+        .exec();
+    } catch (error) {
+      this.logger.error(`Failed to restore sale ${sale.transactionNumber} during cancellation rollback:`, error);
+    }
+
+    await this.reverseMovements(movements, {
+      documentType: 'Sale',
+      documentId: sale._id,
+      documentNumber: sale.transactionNumber,
+    }, userId, `Cancellation rollback for ${sale.transactionNumber}`);
+  }
+
+  private startReversal(): ReversalProgress {
+    return {
+      isStatisticsReversed: false,
+      isPointsReversed: false,
+      pointsReversed: 0,
+      spendReversed: 0,
+      isPointsRestored: false,
+      pointsRestored: 0,
+    };
+  }
+
+  // Undoes the customer-side steps already applied, latest first
+  private async compensateReversal(
+    sale: SaleDocument,
+    progress: ReversalProgress,
+    amount: number,
+    isOrderReversed: boolean,
+    reference: { documentType: string; documentId: Types.ObjectId; documentNumber: string },
+    userId: string,
+    reason: string,
+  ): Promise<void> {
+    const customerId = sale.customer?.toString();
+    const loyaltyOptions = { reference, userId, reason };
+
+    if (progress.isPointsRestored) {
+      try {
+        await this.loyaltyService.redeem(customerId, progress.pointsRestored, loyaltyOptions);
+      } catch (error) {
+        this.logger.error(`Failed to take back points restored on ${sale.transactionNumber} during rollback:`, error);
+      }
+    }
+
+    if (progress.isPointsReversed) {
+      try {
+        await this.loyaltyService.earn(customerId, progress.pointsReversed, progress.spendReversed, loyaltyOptions);
+      } catch (error) {
+        this.logger.error(`Failed to give back points reversed on ${sale.transactionNumber} during rollback:`, error);
+      }
+    }
+
+    if (progress.isStatisticsReversed) {
+      try {
+        await this.customersService.restoreStatistics(customerId, amount, isOrderReversed);
+      } catch (error) {
+        this.logger.error(`Failed to restore customer statistics for ${sale.transactionNumber} during rollback:`, error);
+      }
+    }
+  }
+
+  private async reverseMovements(
+    movements: StockMovement[],
+    reference: { documentType: string; documentId: Types.ObjectId; documentNumber: string },
+    userId: string,
+    reason: string,
+  ): Promise<void> {
+    for (const movement of [...movements].reverse()) {
+      try {
+        await this.inventoryService.applyStockChange(movement.product.toString(), -movement.quantity, {
+          type: StockMovementType.ADJUSTMENT,
+          variant: movement.variant,
+          location: movement.location,
+          reference,
+          userId,
+          reason,
+        });
+      } catch (error) {
+        this.logger.error(`Failed to reverse stock movement for product ${movement.product}:`, error);
+      }
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,40 @@
+import { IsString, IsOptional, IsNumber, IsBoolean, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SupplierProductDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsString()
+  product: string;
+
+  @ApiPropertyOptional({ description: "The supplier's own SKU for the product" })
+  @IsOptional()
+  @IsString()
+  supplierSku?: string;
+
+  @ApiProperty({ description: 'Unit cost charged by the supplier' })
+  @IsNumber()
+  @Min(0)
+  cost: number;
+
+  @ApiPropertyOptional({ description: "Defaults to the supplier's currency" })
+  @IsOptional()
+  @IsString()
+  currency?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  minOrderQuantity?: number;
+
+  @ApiPropertyOptional({ description: "Overrides the supplier's default lead time" })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  leadTimeDays?: number;
+
+  @ApiPropertyOptional({ description: 'Make this the primary supplier of the product' })
+  @IsOptional()
+  @IsBoolean()
+  isPrimary?: boolean;
+}
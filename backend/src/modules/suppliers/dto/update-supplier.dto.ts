@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateSupplierDto } from './create-supplier.dto';
+
+export class UpdateSupplierDto extends PartialType(CreateSupplierDto) {}
@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SupplierProductDocument = SupplierProduct & Document;
+
+/**
+ * A product as it appears in a supplier's catalogue: the supplier's own SKU
+ * and the price we pay them, which may differ between suppliers.
+ */
+@Schema({ timestamps: true })
+export class SupplierProduct {
+  @Prop({ type: Types.ObjectId, ref: 'Supplier', required: true })
+  supplier: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  product: Types.ObjectId;
+
+  @Prop()
+  supplierSku: string;
+
+  @Prop({ required: true, min: 0 })
+  cost: number;
+
+  @Prop()
+  currency: string;
+
+  @Prop({ default: 1, min: 1 })
+  minOrderQuantity: number;
+
+  // Overrides the supplier's default lead time when set
+  @Prop({ min: 0 })
+  leadTimeDays: number;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const SupplierProductSchema = SchemaFactory.createForClass(SupplierProduct);
+
+// Indexes for better query performance
+SupplierProductSchema.index({ supplier: 1, product: 1 }, { unique: true });
+SupplierProductSchema.index({ product: 1 });
@@ -0,0 +1,100 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SupplierDocument = Supplier & Document;
+
+@Schema({ _id: false })
+export class SupplierContact {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop()
+  role: string;
+
+  @Prop()
+  email: string;
+
+  @Prop()
+  phone: string;
+
+  @Prop({ default: false })
+  isPrimary: boolean;
+}
+
+@Schema({ timestamps: true })
+export class Supplier {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  @Prop({ unique: true, sparse: true })
+  code: string;
+
+  @Prop()
+  email: string;
+
+  @Prop()
+  phone: string;
+
+  @Prop()
+  website: string;
+
+  @Prop({
+    type: {
+      street: { type: String },
+      city: { type: String },
+      state: { type: String },
+      zipCode: { type: String },
+      country: { type: String }
+    }
+  })
+  address: {
+    street: string;
+    city: string;
+    state: string;
+    zipCode: string;
+    country: string;
+  };
+
+  @Prop([SupplierContact])
+  contacts: SupplierContact[];
+
+  // Default days between ordering and delivery; catalogue entries may override it
+  @Prop({ default: 7, min: 0 })
+  leadTimeDays: number;
+
+  @Prop({
+    type: {
+      type: { type: String, enum: ['prepaid', 'cod', 'net'], default: 'net' },
+      days: { type: Number, default: 30, min: 0 }
+    },
+    default: {}
+  })
+  paymentTerms: {
+    type: string;
+    days: number;
+  };
+
+  @Prop({ default: 'USD' })
+  currency: string;
+
+  @Prop()
+  taxId: string;
+
+  @Prop()
+  notes: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+}
+
+export const SupplierSchema = SchemaFactory.createForClass(Supplier);
+
+// Indexes for better query performance
+SupplierSchema.index({ name: 'text' });
+SupplierSchema.index({ isActive: 1 });
@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { SuppliersService } from './suppliers.service';
+import { CreateSupplierDto } from './dto/create-supplier.dto';
+import { UpdateSupplierDto } from './dto/update-supplier.dto';
+import { SupplierProductDto } from './dto/supplier-product.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('suppliers')
+@Controller('suppliers')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class SuppliersController {
+  constructor(private readonly suppliersService: SuppliersService) {}
+
+  @Post()
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Create a new supplier' })
+  @ApiResponse({ status: 201, description: 'Supplier created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - supplier already exists' })
+  create(@Body() createSupplierDto: CreateSupplierDto, @Request() req) {
+    return this.suppliersService.create(createSupplierDto, req.user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all suppliers with filtering and pagination' })
+  @ApiResponse({ status: 200, description: 'Suppliers retrieved successfully' })
+  @ApiQuery({ name: 'search', required: false, description: 'Search term for supplier name, code, email or contact' })
+  @ApiQuery({ name: 'isActive', required: false, description: 'Filter by active status' })
+  @ApiQuery({ name: 'currency', required: false, description: 'Filter by currency' })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number for pagination' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Number of items per page' })
+  @ApiQuery({ name: 'sortBy', required: false, description: 'Field to sort by' })
+  @ApiQuery({ name: 'sortOrder', required: false, description: 'Sort order (asc/desc)' })
+  findAll(@Query() query: any) {
+    return this.suppliersService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a supplier by ID' })
+  @ApiResponse({ status: 200, description: 'Supplier retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Supplier not found' })
+  findOne(@Param('id') id: string) {
+    return this.suppliersService.findOne(id);
+  }
+
+  @Get(':id/products')
+  @ApiOperation({ summary: 'Get the products supplied by a supplier' })
+  @ApiResponse({ status: 200, description: 'Supplier products retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Supplier not found' })
+  getProducts(@Param('id') id: string) {
+    return this.suppliersService.getProducts(id);
+  }
+
+  @Get(':id/spend')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Get spend with a supplier, valued from goods received on purchase orders' })
+  @ApiResponse({ status: 200, description: 'Supplier spend retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Supplier not found' })
+  @ApiQuery({ name: 'startDate', required: false, description: 'Start date for filtering' })
+  @ApiQuery({ name: 'endDate', required: false, description: 'End date for filtering' })
+  getSpend(@Param('id') id: string, @Query() query: any) {
+    return this.suppliersService.getSpend(id, query);
+  }
+
+  @Put(':id/products')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: "Add or update a product in the supplier's catalogue" })
+  @ApiResponse({ status: 200, description: 'Supplier product saved successfully' })
+  @ApiResponse({ status: 404, description: 'Supplier or product not found' })
+  upsertProduct(@Param('id') id: string, @Body() supplierProductDto: SupplierProductDto) {
+    return this.suppliersService.upsertProduct(id, supplierProductDto);
+  }
+
+  @Delete(':id/products/:productId')
+  @Roles('admin', 'manager', 'inventory_clerk')
+  @ApiOperation({ summary: "Remove a product from the supplier's catalogue" })
+  @ApiResponse({ status: 200, description: 'Supplier product removed successfully' })
+  @ApiResponse({ status: 404, description: 'Product is not in this supplier catalogue' })
+  removeProduct(@Param('id') id: string, @Param('productId') productId: string) {
+    return this.suppliersService.removeProduct(id, productId);
+  }
+
+  @Patch(':id')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Update a supplier' })
+  @ApiResponse({ status: 200, description: 'Supplier updated successfully' })
+  @ApiResponse({ status: 404, description: 'Supplier not found' })
+  @ApiResponse({ status: 400, description: 'Bad request - name or code already exists' })
+  update(@Param('id') id: string, @Body() updateSupplierDto: UpdateSupplierDto, @Request() req) {
+    return this.suppliersService.update(id, updateSupplierDto, req.user.id);
+  }
+
+  @Delete(':id')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Delete a supplier' })
+  @ApiResponse({ status: 200, description: 'Supplier deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Supplier still has linked products' })
+  @ApiResponse({ status: 404, description: 'Supplier not found' })
+  remove(@Param('id') id: string) {
+    return this.suppliersService.remove(id);
+  }
+}
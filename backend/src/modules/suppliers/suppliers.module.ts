@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SuppliersService } from './suppliers.service';
+import { SuppliersController } from './suppliers.controller';
+import { Supplier, SupplierSchema } from './schemas/supplier.schema';
+import { SupplierProduct, SupplierProductSchema } from './schemas/supplier-product.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { PurchaseOrder, PurchaseOrderSchema } from '../purchase-orders/schemas/purchase-order.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Supplier.name, schema: SupplierSchema },
+      { name: SupplierProduct.name, schema: SupplierProductSchema },
+      { name: Product.name, schema: ProductSchema },
+      { name: PurchaseOrder.name, schema: PurchaseOrderSchema }
+    ])
+  ],
+  controllers: [SuppliersController],
+  providers: [SuppliersService],
+  exports: [SuppliersService],
+})
+export class SuppliersModule {}
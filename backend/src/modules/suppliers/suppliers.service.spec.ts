@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { SuppliersService } from './suppliers.service';
+import { Supplier } from './schemas/supplier.schema';
+import { SupplierProduct } from './schemas/supplier-product.schema';
+import { Product } from '../products/schemas/product.schema';
+import { PurchaseOrder } from '../purchase-orders/schemas/purchase-order.schema';
+
+describe('SuppliersService', () => {
+  let service: SuppliersService;
+
+  const supplierId = '507f1f77bcf86cd799439020';
+  const productA = new Types.ObjectId('507f1f77bcf86cd799439011');
+  const productB = new Types.ObjectId('507f1f77bcf86cd799439012');
+
+  const mockSupplier = {
+    _id: new Types.ObjectId(supplierId),
+    name: 'Acme Wholesale',
+    currency: 'EUR',
+    leadTimeDays: 10,
+  };
+
+  const chain = (result: any) => {
+    const query: any = {
+      populate: jest.fn().mockReturnThis(),
+      select: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue(result),
+    };
+    return query;
+  };
+
+  const mockSupplierModel = {
+    findById: jest.fn(),
+    findByIdAndDelete: jest.fn(),
+  };
+
+  const mockSupplierProductModel = {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    countDocuments: jest.fn(),
+  };
+
+  const mockProductModel = {
+    find: jest.fn(),
+    findById: jest.fn(),
+    updateOne: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue({}) }),
+    countDocuments: jest.fn(),
+  };
+
+  const mockPurchaseOrderModel = {
+    aggregate: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SuppliersService,
+        {
+          provide: getModelToken(Supplier.name),
+          useValue: mockSupplierModel,
+        },
+        {
+          provide: getModelToken(SupplierProduct.name),
+          useValue: mockSupplierProductModel,
+        },
+        {
+          provide: getModelToken(Product.name),
+          useValue: mockProductModel,
+        },
+        {
+          provide: getModelToken(PurchaseOrder.name),
+          useValue: mockPurchaseOrderModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SuppliersService>(SuppliersService);
+    mockSupplierModel.findById.mockReturnValue(chain(mockSupplier));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('upsertProduct', () => {
+    it('should default to the supplier currency and become primary supplier of an unassigned product', async () => {
+      mockProductModel.findById.mockReturnValue(chain({ _id: productA, supplier: undefined }));
+      const saved = { populate: jest.fn().mockResolvedValue({ product: productA, cost: 4 }) };
+      mockSupplierProductModel.findOneAndUpdate.mockReturnValue(chain(saved));
+
+      await service.upsertProduct(supplierId, { product: productA.toString(), cost: 4, supplierSku: 'AC-1' });
+
+      expect(mockSupplierProductModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { supplier: mockSupplier._id, product: productA },
+        expect.objectContaining({ cost: 4, supplierSku: 'AC-1', currency: 'EUR' }),
+        expect.objectContaining({ upsert: true })
+      );
+      expect(mockProductModel.updateOne).toHaveBeenCalledWith(
+        { _id: productA },
+        { supplier: mockSupplier._id }
+      );
+    });
+
+    it('should keep an existing primary supplier unless asked to replace it', async () => {
+      mockProductModel.findById.mockReturnValue(chain({ _id: productA, supplier: new Types.ObjectId() }));
+      mockSupplierProductModel.findOneAndUpdate.mockReturnValue(chain({ populate: jest.fn() }));
+
+      await service.upsertProduct(supplierId, { product: productA.toString(), cost: 4 });
+
+      expect(mockProductModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      mockProductModel.findById.mockReturnValue(chain(null));
+
+      await expect(
+        service.upsertProduct(supplierId, { product: productA.toString(), cost: 4 })
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getProducts', () => {
+    it('should combine catalogue entries with primary products that have none', async () => {
+      mockSupplierProductModel.find.mockReturnValue(chain([
+        {
+          product: { _id: productA, name: 'Widget', supplier: mockSupplier._id },
+          supplierSku: 'AC-1',
+          cost: 4,
+          minOrderQuantity: 10,
+        },
+      ]));
+      mockProductModel.find.mockReturnValue(chain([
+        { _id: productB, name: 'Gadget', price: { cost: 6, currency: 'USD' } },
+      ]));
+
+      const result = await service.getProducts(supplierId);
+
+      expect(result).toHaveLength(2);
+      expect(result[0]).toEqual(expect.objectContaining({
+        supplierSku: 'AC-1', cost: 4, currency: 'EUR', leadTimeDays: 10, isPrimary: true,
+      }));
+      expect(result[1]).toEqual(expect.objectContaining({ supplierSku: null, cost: 6, isPrimary: true }));
+      expect(mockProductModel.find).toHaveBeenCalledWith({
+        supplier: mockSupplier._id,
+        _id: { $nin: [productA] },
+      });
+    });
+  });
+
+  describe('getSpend', () => {
+    it('should total goods received on the supplier purchase orders', async () => {
+      mockPurchaseOrderModel.aggregate.mockResolvedValue([
+        { product: { _id: productA, name: 'Widget' }, quantity: 25, total: 100 },
+        { product: { _id: productB, name: 'Gadget' }, quantity: 5, total: 32.5 },
+      ]);
+
+      const result = await service.getSpend(supplierId, { startDate: '2024-01-01' });
+
+      const pipeline = mockPurchaseOrderModel.aggregate.mock.calls[0][0];
+      expect(pipeline[0].$match).toEqual({ supplier: mockSupplier._id });
+      expect(pipeline[2].$match['receipts.receivedAt'].$gte).toEqual(new Date('2024-01-01'));
+      expect(result.totalSpend).toBe(132.5);
+      expect(result.totalUnits).toBe(30);
+      expect(result.supplier.currency).toBe('EUR');
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse to delete a supplier with linked products', async () => {
+      mockProductModel.countDocuments.mockResolvedValue(1);
+      mockSupplierProductModel.countDocuments.mockResolvedValue(0);
+
+      await expect(service.remove(supplierId)).rejects.toThrow(BadRequestException);
+      expect(mockSupplierModel.findByIdAndDelete).not.toHaveBeenCalled();
+    });
+  });
+});
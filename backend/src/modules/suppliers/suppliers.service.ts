@@ -0,0 +1,349 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Supplier, SupplierDocument } from './schemas/supplier.schema';
+import { SupplierProduct, SupplierProductDocument } from './schemas/supplier-product.schema';
+import { Product, ProductDocument } from '../products/schemas/product.schema';
+import { PurchaseOrder, PurchaseOrderDocument } from '../purchase-orders/schemas/purchase-order.schema';
+import { CreateSupplierDto } from './dto/create-supplier.dto';
+import { UpdateSupplierDto } from './dto/update-supplier.dto';
+import { SupplierProductDto } from './dto/supplier-product.dto';
+
+@Injectable()
+export class SuppliersService {
+  constructor(
+    @InjectModel(Supplier.name) private supplierModel: Model<SupplierDocument>,
+    @InjectModel(SupplierProduct.name) private supplierProductModel: Model<SupplierProductDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(PurchaseOrder.name) private purchaseOrderModel: Model<PurchaseOrderDocument>,
+  ) {}
+
+  async create(createSupplierDto: CreateSupplierDto, userId: string): Promise<Supplier> {
+    await this.assertUnique(createSupplierDto);
+
+    const createdSupplier = new this.supplierModel({
+      ...createSupplierDto,
+      createdBy: new Types.ObjectId(userId),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    return createdSupplier.save();
+  }
+
+  async findAll(query: any = {}): Promise<Supplier[]> {
+    const {
+      search,
+      isActive,
+      currency,
+      page = 1,
+      limit = 20,
+      sortBy = 'name',
+      sortOrder = 'asc'
+    } = query;
+
+    let filter: any = {};
+
+    // Search functionality
+    if (search) {
+      filter.$or = [
+        { name: { $regex: search, $options: 'i' } },
+        { code: { $regex: search, $options: 'i' } },
+        { email: { $regex: search, $options: 'i' } },
+        { 'contacts.name': { $regex: search, $options: 'i' } }
+      ];
+    }
+
+    // Filter by active status
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+
+    // Filter by currency
+    if (currency) {
+      filter.currency = currency;
+    }
+
+    // Pagination
+    const skip = (page - 1) * limit;
+
+    // Sorting
+    const sort: any = {};
+    sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+
+    return this.supplierModel
+      .find(filter)
+      .sort(sort)
+      .skip(skip)
+      .limit(Number(limit))
+      .exec();
+  }
+
+  async findOne(id: string): Promise<Supplier> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid supplier ID');
+    }
+
+    const supplier = await this.supplierModel
+      .findById(id)
+      .populate('createdBy', 'name email')
+      .populate('updatedBy', 'name email')
+      .exec();
+
+    if (!supplier) {
+      throw new NotFoundException('Supplier not found');
+    }
+
+    return supplier;
+  }
+
+  async update(id: string, updateSupplierDto: UpdateSupplierDto, userId: string): Promise<Supplier> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid supplier ID');
+    }
+
+    await this.assertUnique(updateSupplierDto, id);
+
+    const updatedSupplier = await this.supplierModel
+      .findByIdAndUpdate(
+        id,
+        {
+          ...updateSupplierDto,
+          updatedBy: new Types.ObjectId(userId),
+        },
+        { new: true, runValidators: true }
+      )
+      .exec();
+
+    if (!updatedSupplier) {
+      throw new NotFoundException('Supplier not found');
+    }
+
+    return updatedSupplier;
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid supplier ID');
+    }
+
+    const supplierId = new Types.ObjectId(id);
+    const [primaryProducts, catalogueEntries] = await Promise.all([
+      this.productModel.countDocuments({ supplier: supplierId }),
+      this.supplierProductModel.countDocuments({ supplier: supplierId }),
+    ]);
+
+    if (primaryProducts > 0 || catalogueEntries > 0) {
+      throw new BadRequestException(
+        'Supplier still has linked products; deactivate it or unlink its products first'
+      );
+    }
+
+    const result = await this.supplierModel.findByIdAndDelete(id).exec();
+    if (!result) {
+      throw new NotFoundException('Supplier not found');
+    }
+  }
+
+  /**
+   * Adds a product to the supplier's catalogue, or updates the existing entry.
+   * The supplier also becomes the product's primary supplier when asked to,
+   * or when the product has none yet.
+   */
+  async upsertProduct(id: string, supplierProductDto: SupplierProductDto): Promise<SupplierProduct> {
+    const supplier = await this.findOne(id);
+
+    if (!Types.ObjectId.isValid(supplierProductDto.product)) {
+      throw new BadRequestException('Invalid product ID');
+    }
+
+    const product = await this.productModel.findById(supplierProductDto.product).exec();
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const { isPrimary, ...entry } = supplierProductDto;
+    const supplierId = new Types.ObjectId(id);
+
+    const supplierProduct = await this.supplierProductModel
+      .findOneAndUpdate(
+        { supplier: supplierId, product: product._id },
+        {
+          ...entry,
+          product: product._id,
+          supplier: supplierId,
+          currency: entry.currency || supplier.currency,
+          isActive: true,
+        },
+        { new: true, upsert: true, runValidators: true }
+      )
+      .exec();
+
+    if (isPrimary || !product.supplier) {
+      await this.productModel.updateOne({ _id: product._id }, { supplier: supplierId }).exec();
+    }
+
+    return supplierProduct.populate('product', 'name sku price inventory');
+  }
+
+  async removeProduct(id: string, productId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(productId)) {
+      throw new BadRequestException('Invalid supplier or product ID');
+    }
+
+    const supplierId = new Types.ObjectId(id);
+    const result = await this.supplierProductModel
+      .findOneAndDelete({ supplier: supplierId, product: new Types.ObjectId(productId) })
+      .exec();
+
+    if (!result) {
+      throw new NotFoundException('Product is not in this supplier catalogue');
+    }
+
+    await this.productModel
+      .updateOne({ _id: productId, supplier: supplierId }, { $unset: { supplier: 1 } })
+      .exec();
+  }
+
+  /**
+   * Products supplied by a supplier: its catalogue entries, plus products that
+   * name it as primary supplier without a catalogue entry (costed at the
+   * product's own cost price).
+   */
+  async getProducts(id: string): Promise<any[]> {
+    const supplier = await this.findOne(id);
+    const supplierId = new Types.ObjectId(id);
+
+    const catalogue = await this.supplierProductModel
+      .find({ supplier: supplierId, isActive: true })
+      .populate('product', 'name sku category price inventory variants supplier isActive')
+      .exec();
+
+    const listed = catalogue
+      .filter(entry => entry.product)
+      .map(entry => {
+        const product: any = entry.product;
+        return {
+          product,
+          supplierSku: entry.supplierSku,
+          cost: entry.cost,
+          currency: entry.currency || supplier.currency,
+          minOrderQuantity: entry.minOrderQuantity,
+          leadTimeDays: entry.leadTimeDays ?? supplier.leadTimeDays,
+          isPrimary: product.supplier?.toString() === id,
+        };
+      });
+
+    const listedIds = listed.map(entry => entry.product._id);
+    const unlisted = await this.productModel
+      .find({ supplier: supplierId, _id: { $nin: listedIds } })
+      .select('name sku category price inventory supplier isActive')
+      .exec();
+
+    return [
+      ...listed,
+      ...unlisted.map(product => ({
+        product,
+        supplierSku: null,
+        cost: product.price.cost,
+        currency: product.price.currency,
+        minOrderQuantity: 1,
+        leadTimeDays: supplier.leadTimeDays,
+        isPrimary: true,
+      })),
+    ];
+  }
+
+  /**
+   * Spend with a supplier over a period, valued at the actual unit costs of
+   * the goods received against its purchase orders.
+   */
+  async getSpend(id: string, query: any = {}): Promise<any> {
+    const supplier: any = await this.findOne(id);
+    const { startDate, endDate } = query;
+
+    const receiptMatch: any = {};
+    if (startDate || endDate) {
+      receiptMatch['receipts.receivedAt'] = {};
+      if (startDate) receiptMatch['receipts.receivedAt'].$gte = new Date(startDate);
+      if (endDate) receiptMatch['receipts.receivedAt'].$lte = new Date(endDate);
+    }
+
+    const breakdown = await this.purchaseOrderModel.aggregate([
+      { $match: { supplier: supplier._id } },
+      { $unwind: '$receipts' },
+      { $match: receiptMatch },
+      { $unwind: '$receipts.lines' },
+      {
+        $group: {
+          _id: '$receipts.lines.product',
+          quantity: { $sum: '$receipts.lines.quantity' },
+          total: { $sum: { $multiply: ['$receipts.lines.quantity', '$receipts.lines.unitCost'] } },
+          purchaseOrders: { $addToSet: '$_id' },
+          lastReceivedAt: { $max: '$receipts.receivedAt' }
+        }
+      },
+      {
+        $lookup: {
+          from: 'products',
+          localField: '_id',
+          foreignField: '_id',
+          as: 'product'
+        }
+      },
+      { $unwind: { path: '$product', preserveNullAndEmptyArrays: true } },
+      {
+        $project: {
+          _id: 0,
+          product: {
+            _id: '$_id',
+            name: '$product.name',
+            sku: '$product.sku'
+          },
+          quantity: 1,
+          averageUnitCost: {
+            $cond: [{ $gt: ['$quantity', 0] }, { $round: [{ $divide: ['$total', '$quantity'] }, 2] }, 0]
+          },
+          total: { $round: ['$total', 2] },
+          purchaseOrders: { $size: '$purchaseOrders' },
+          lastReceivedAt: 1
+        }
+      },
+      { $sort: { total: -1 } }
+    ]);
+
+    return {
+      supplier: {
+        _id: supplier._id,
+        name: supplier.name,
+        currency: supplier.currency,
+      },
+      period: {
+        startDate: startDate ? new Date(startDate) : null,
+        endDate: endDate ? new Date(endDate) : null,
+      },
+      totalSpend: Math.round(breakdown.reduce((sum, row) => sum + row.total, 0) * 100) / 100,
+      totalUnits: breakdown.reduce((sum, row) => sum + row.quantity, 0),
+      products: breakdown,
+    };
+  }
+
+  private async assertUnique(supplierDto: Partial<CreateSupplierDto>, excludeId?: string): Promise<void> {
+    const conditions = [
+      ...(supplierDto.name ? [{ name: supplierDto.name }] : []),
+      ...(supplierDto.code ? [{ code: supplierDto.code }] : []),
+    ];
+
+    if (conditions.length === 0) {
+      return;
+    }
+
+    const existingSupplier = await this.supplierModel.findOne({
+      ...(excludeId && { _id: { $ne: new Types.ObjectId(excludeId) } }),
+      $or: conditions,
+    });
+
+    if (existingSupplier) {
+      throw new BadRequestException('Supplier with this name or code already exists');
+    }
+  }
+}
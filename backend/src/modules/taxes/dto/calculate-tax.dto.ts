@@ -0,0 +1,44 @@
+import { IsString, IsNumber, IsOptional, IsArray, ValidateNested, Min, ArrayNotEmpty } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class TaxableItemDto {
+  @ApiProperty({ description: 'Product ID' })
+  @IsString()
+  product: string;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty()
+  @IsNumber()
+  @Min(0)
+  unitPrice: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  discount?: number;
+}
+
+export class CalculateTaxDto {
+  @ApiProperty({ type: [TaxableItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => TaxableItemDto)
+  items: TaxableItemDto[];
+
+  @ApiPropertyOptional({ description: 'Location ID (default: the default location)' })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Customer ID, to apply business tax exemption' })
+  @IsOptional()
+  @IsString()
+  customer?: string;
+}
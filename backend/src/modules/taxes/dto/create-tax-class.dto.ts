@@ -0,0 +1,33 @@
+import { IsString, IsOptional, IsArray, IsBoolean } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateTaxClassDto {
+  @ApiProperty()
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Short unique code, e.g. STANDARD' })
+  @IsString()
+  code: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ type: [String], description: 'Product categories taxed under this class by default' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  categories?: string[];
+
+  @ApiPropertyOptional({ description: 'Use this class for products without a tax class or matching category' })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,33 @@
+import { IsString, IsOptional, IsNumber, IsBoolean, Min, Max } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateTaxRateDto {
+  @ApiProperty()
+  @IsString()
+  name: string;
+
+  @ApiProperty({ description: 'Tax class ID' })
+  @IsString()
+  taxClass: string;
+
+  @ApiProperty({ description: 'Fraction of the taxable amount, e.g. 0.2 for 20%' })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  rate: number;
+
+  @ApiPropertyOptional({ description: 'Location ID the rate applies to' })
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @ApiPropertyOptional({ description: 'Tax jurisdiction the rate applies to, e.g. US-CA' })
+  @IsOptional()
+  @IsString()
+  jurisdiction?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
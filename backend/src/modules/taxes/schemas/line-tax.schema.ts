@@ -0,0 +1,24 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+/**
+ * Tax charged on a sale or invoice line. The line total is the taxable
+ * amount; the tax amount comes on top of it.
+ */
+@Schema({ _id: false })
+export class LineTax {
+  // Code of the tax class the line was taxed under, if any
+  @Prop()
+  taxClass: string;
+
+  @Prop({ default: 0, min: 0 })
+  rate: number;
+
+  @Prop({ default: 0, min: 0 })
+  amount: number;
+
+  // Set when the customer is exempt from tax
+  @Prop({ default: false })
+  exempt: boolean;
+}
+
+export const LineTaxSchema = SchemaFactory.createForClass(LineTax);
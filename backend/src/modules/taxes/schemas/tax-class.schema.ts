@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type TaxClassDocument = TaxClass & Document;
+
+@Schema({ timestamps: true })
+export class TaxClass {
+  @Prop({ required: true, unique: true })
+  name: string;
+
+  // Short unique code printed on receipts and invoices, e.g. STANDARD
+  @Prop({ required: true, unique: true, uppercase: true })
+  code: string;
+
+  @Prop()
+  description: string;
+
+  // Product categories taxed under this class unless the product names its own
+  @Prop([String])
+  categories: string[];
+
+  // Class used for products without a tax class or a matching category
+  @Prop({ default: false })
+  isDefault: boolean;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+}
+
+export const TaxClassSchema = SchemaFactory.createForClass(TaxClass);
+
+// Indexes for better query performance
+TaxClassSchema.index({ categories: 1 });
+TaxClassSchema.index({ isDefault: 1 });
@@ -0,0 +1,42 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type TaxRateDocument = TaxRate & Document;
+
+/**
+ * Rate charged for a tax class. A rate for a location wins over one for the
+ * location's jurisdiction, which wins over a rate with neither.
+ */
+@Schema({ timestamps: true })
+export class TaxRate {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'TaxClass', required: true })
+  taxClass: Types.ObjectId;
+
+  // Fraction of the taxable amount, e.g. 0.2 for 20%
+  @Prop({ required: true, min: 0, max: 1 })
+  rate: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'Location' })
+  location: Types.ObjectId;
+
+  // Matches Location.taxJurisdiction, e.g. US-CA
+  @Prop({ uppercase: true })
+  jurisdiction: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+}
+
+export const TaxRateSchema = SchemaFactory.createForClass(TaxRate);
+
+// Indexes for better query performance
+TaxRateSchema.index({ taxClass: 1, location: 1, jurisdiction: 1 });
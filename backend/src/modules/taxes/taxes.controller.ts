@@ -0,0 +1,128 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { TaxesService } from './taxes.service';
+import { CreateTaxClassDto } from './dto/create-tax-class.dto';
+import { UpdateTaxClassDto } from './dto/update-tax-class.dto';
+import { CreateTaxRateDto } from './dto/create-tax-rate.dto';
+import { UpdateTaxRateDto } from './dto/update-tax-rate.dto';
+import { CalculateTaxDto } from './dto/calculate-tax.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('taxes')
+@Controller('taxes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class TaxesController {
+  constructor(private readonly taxesService: TaxesService) {}
+
+  @Post('calculate')
+  @ApiOperation({ summary: 'Preview the tax on a basket' })
+  @ApiResponse({ status: 201, description: 'Tax calculated successfully' })
+  @ApiResponse({ status: 404, description: 'Product, location or customer not found' })
+  calculate(@Body() calculateTaxDto: CalculateTaxDto) {
+    return this.taxesService.calculate(calculateTaxDto);
+  }
+
+  @Post('classes')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Create a new tax class' })
+  @ApiResponse({ status: 201, description: 'Tax class created successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request - tax class already exists' })
+  createClass(@Body() createTaxClassDto: CreateTaxClassDto, @Request() req) {
+    return this.taxesService.createClass(createTaxClassDto, req.user.id);
+  }
+
+  @Get('classes')
+  @ApiOperation({ summary: 'Get all tax classes' })
+  @ApiResponse({ status: 200, description: 'Tax classes retrieved successfully' })
+  @ApiQuery({ name: 'isActive', required: false, description: 'Filter by active status' })
+  findAllClasses(@Query() query: any) {
+    return this.taxesService.findAllClasses(query);
+  }
+
+  @Get('classes/:id')
+  @ApiOperation({ summary: 'Get a tax class by ID' })
+  @ApiResponse({ status: 200, description: 'Tax class retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Tax class not found' })
+  findOneClass(@Param('id') id: string) {
+    return this.taxesService.findOneClass(id);
+  }
+
+  @Patch('classes/:id')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Update a tax class' })
+  @ApiResponse({ status: 200, description: 'Tax class updated successfully' })
+  @ApiResponse({ status: 404, description: 'Tax class not found' })
+  updateClass(@Param('id') id: string, @Body() updateTaxClassDto: UpdateTaxClassDto, @Request() req) {
+    return this.taxesService.updateClass(id, updateTaxClassDto, req.user.id);
+  }
+
+  @Delete('classes/:id')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Delete an unused tax class' })
+  @ApiResponse({ status: 200, description: 'Tax class deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Tax class is still used by products or rates' })
+  @ApiResponse({ status: 404, description: 'Tax class not found' })
+  removeClass(@Param('id') id: string) {
+    return this.taxesService.removeClass(id);
+  }
+
+  @Post('rates')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Create a tax rate for a class, location or jurisdiction' })
+  @ApiResponse({ status: 201, description: 'Tax rate created successfully' })
+  @ApiResponse({ status: 404, description: 'Tax class or location not found' })
+  createRate(@Body() createTaxRateDto: CreateTaxRateDto, @Request() req) {
+    return this.taxesService.createRate(createTaxRateDto, req.user.id);
+  }
+
+  @Get('rates')
+  @ApiOperation({ summary: 'Get all tax rates' })
+  @ApiResponse({ status: 200, description: 'Tax rates retrieved successfully' })
+  @ApiQuery({ name: 'taxClass', required: false, description: 'Filter by tax class ID' })
+  @ApiQuery({ name: 'location', required: false, description: 'Filter by location ID' })
+  @ApiQuery({ name: 'jurisdiction', required: false, description: 'Filter by jurisdiction' })
+  @ApiQuery({ name: 'isActive', required: false, description: 'Filter by active status' })
+  findAllRates(@Query() query: any) {
+    return this.taxesService.findAllRates(query);
+  }
+
+  @Get('rates/:id')
+  @ApiOperation({ summary: 'Get a tax rate by ID' })
+  @ApiResponse({ status: 200, description: 'Tax rate retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Tax rate not found' })
+  findOneRate(@Param('id') id: string) {
+    return this.taxesService.findOneRate(id);
+  }
+
+  @Patch('rates/:id')
+  @Roles('admin', 'manager')
+  @ApiOperation({ summary: 'Update a tax rate' })
+  @ApiResponse({ status: 200, description: 'Tax rate updated successfully' })
+  @ApiResponse({ status: 404, description: 'Tax rate not found' })
+  updateRate(@Param('id') id: string, @Body() updateTaxRateDto: UpdateTaxRateDto, @Request() req) {
+    return this.taxesService.updateRate(id, updateTaxRateDto, req.user.id);
+  }
+
+  @Delete('rates/:id')
+  @Roles('admin')
+  @ApiOperation({ summary: 'Delete a tax rate' })
+  @ApiResponse({ status: 200, description: 'Tax rate deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Tax rate not found' })
+  removeRate(@Param('id') id: string) {
+    return this.taxesService.removeRate(id);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { TaxesService } from './taxes.service';
+import { TaxesController } from './taxes.controller';
+import { TaxClass, TaxClassSchema } from './schemas/tax-class.schema';
+import { TaxRate, TaxRateSchema } from './schemas/tax-rate.schema';
+import { Product, ProductSchema } from '../products/schemas/product.schema';
+import { LocationsModule } from '../locations/locations.module';
+import { CustomersModule } from '../customers/customers.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: TaxClass.name, schema: TaxClassSchema },
+      { name: TaxRate.name, schema: TaxRateSchema },
+      { name: Product.name, schema: ProductSchema }
+    ]),
+    LocationsModule,
+    CustomersModule
+  ],
+  controllers: [TaxesController],
+  providers: [TaxesService],
+  exports: [TaxesService],
+})
+export class TaxesModule {}
@@ -0,0 +1,218 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { TaxesService } from './taxes.service';
+import { TaxClass } from './schemas/tax-class.schema';
+import { TaxRate } from './schemas/tax-rate.schema';
+import { Product } from '../products/schemas/product.schema';
+import { LocationsService } from '../locations/locations.service';
+import { CustomersService } from '../customers/customers.service';
+import { taxConfig } from '../../config/tax.config';
+
+describe('TaxesService', () => {
+  let service: TaxesService;
+
+  const standard = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439050'),
+    name: 'Standard',
+    code: 'STANDARD',
+    categories: [],
+    isDefault: true,
+  };
+  const food = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439051'),
+    name: 'Food',
+    code: 'FOOD',
+    categories: ['Groceries'],
+    isDefault: false,
+  };
+
+  const store = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439040'),
+    name: 'Main Store',
+    taxJurisdiction: 'US-CA',
+  };
+
+  const bread = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439011'),
+    name: 'Bread',
+    category: 'Groceries',
+  };
+  const kettle = {
+    _id: new Types.ObjectId('507f1f77bcf86cd799439012'),
+    name: 'Kettle',
+    category: 'Kitchen',
+  };
+
+  const rate = (taxClass: any, value: number, scope: any = {}) => ({
+    _id: new Types.ObjectId(),
+    taxClass: taxClass._id,
+    rate: value,
+    ...scope,
+  });
+
+  const chain = (result: any) => ({
+    select: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  const mockTaxClassModel = {
+    find: jest.fn(),
+  };
+
+  const mockTaxRateModel = {
+    find: jest.fn(),
+  };
+
+  const mockProductModel = {
+    find: jest.fn(),
+  };
+
+  const mockLocationsService = {
+    resolve: jest.fn(),
+  };
+
+  const mockCustomersService = {
+    findOne: jest.fn(),
+  };
+
+  const configure = (taxClasses: any[], taxRates: any[]) => {
+    mockTaxClassModel.find.mockReturnValue(chain(taxClasses));
+    mockTaxRateModel.find.mockReturnValue(chain(taxRates));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaxesService,
+        { provide: getModelToken(TaxClass.name), useValue: mockTaxClassModel },
+        { provide: getModelToken(TaxRate.name), useValue: mockTaxRateModel },
+        { provide: getModelToken(Product.name), useValue: mockProductModel },
+        { provide: LocationsService, useValue: mockLocationsService },
+        { provide: CustomersService, useValue: mockCustomersService },
+      ],
+    }).compile();
+
+    service = module.get<TaxesService>(TaxesService);
+
+    mockProductModel.find.mockReturnValue(chain([bread, kettle]));
+    mockLocationsService.resolve.mockResolvedValue(store);
+  });
+
+  afterEach(() => {
+    taxConfig.pricesIncludeTax = false;
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('calculate', () => {
+    it('should charge the default rate when no tax class applies', async () => {
+      configure([], []);
+
+      const result = await service.calculate({
+        items: [{ product: kettle._id.toString(), quantity: 2, unitPrice: 50, discount: 10 }],
+      });
+
+      expect(result.items[0]).toEqual({
+        total: 90,
+        tax: { taxClass: undefined, rate: taxConfig.defaultRate, amount: 9, exempt: false },
+      });
+      expect(result.totals).toEqual(expect.objectContaining({
+        subtotal: 100,
+        discount: 10,
+        tax: 9,
+        total: 99,
+        taxInclusive: false,
+        taxExempt: false,
+      }));
+    });
+
+    it('should prefer the location rate over the jurisdiction and general rates', async () => {
+      configure([standard, food], [
+        rate(food, 0.02),
+        rate(food, 0.05, { jurisdiction: 'US-CA' }),
+        rate(food, 0, { location: store._id }),
+        rate(standard, 0.2),
+        rate(standard, 0.0725, { jurisdiction: 'US-CA' }),
+      ]);
+
+      const result = await service.calculate({
+        items: [
+          { product: bread._id.toString(), quantity: 1, unitPrice: 4 },
+          { product: kettle._id.toString(), quantity: 1, unitPrice: 40 },
+        ],
+        location: store._id,
+      });
+
+      expect(result.items.map(item => item.tax)).toEqual([
+        { taxClass: 'FOOD', rate: 0, amount: 0, exempt: false },
+        { taxClass: 'STANDARD', rate: 0.0725, amount: 2.9, exempt: false },
+      ]);
+      expect(result.totals.total).toBe(46.9);
+      expect(mockTaxRateModel.find).toHaveBeenCalledWith(expect.objectContaining({
+        location: { $in: [null, store._id] },
+      }));
+    });
+
+    it('should use the product tax class over its category', async () => {
+      configure([standard, food], [rate(food, 0.05), rate(standard, 0.2)]);
+      mockProductModel.find.mockReturnValue(chain([{ ...bread, taxClass: standard._id }]));
+
+      const result = await service.calculate({
+        items: [{ product: bread._id.toString(), quantity: 1, unitPrice: 10 }],
+      });
+
+      expect(result.items[0].tax).toEqual(expect.objectContaining({ taxClass: 'STANDARD', amount: 2 }));
+    });
+
+    it('should extract the tax from tax-inclusive prices', async () => {
+      taxConfig.pricesIncludeTax = true;
+      configure([standard], [rate(standard, 0.2)]);
+
+      const result = await service.calculate({
+        items: [{ product: kettle._id.toString(), quantity: 1, unitPrice: 120 }],
+      });
+
+      expect(result.items[0]).toEqual(expect.objectContaining({ total: 100 }));
+      expect(result.totals).toEqual(expect.objectContaining({
+        subtotal: 120,
+        tax: 20,
+        total: 120,
+        taxRate: 0.2,
+        taxInclusive: true,
+      }));
+    });
+
+    it('should exempt business customers with a tax ID', async () => {
+      taxConfig.pricesIncludeTax = true;
+      configure([standard], [rate(standard, 0.2)]);
+      mockCustomersService.findOne.mockResolvedValue({ businessInfo: { taxId: 'GB123456789' } });
+
+      const result = await service.calculate({
+        items: [{ product: kettle._id.toString(), quantity: 1, unitPrice: 120 }],
+        customer: '507f1f77bcf86cd799439030',
+      });
+
+      expect(result.items[0]).toEqual({
+        total: 100,
+        tax: { taxClass: 'STANDARD', rate: 0, amount: 0, exempt: true },
+      });
+      expect(result.totals).toEqual(expect.objectContaining({ tax: 0, total: 100, taxExempt: true }));
+    });
+
+    it('should not exempt customers without a tax ID', async () => {
+      configure([standard], [rate(standard, 0.2)]);
+      mockCustomersService.findOne.mockResolvedValue({ businessInfo: { companyName: 'Acme' } });
+
+      const result = await service.calculate({
+        items: [{ product: kettle._id.toString(), quantity: 1, unitPrice: 100 }],
+        customer: '507f1f77bcf86cd799439030',
+      });
+
+      expect(result.totals).toEqual(expect.objectContaining({ tax: 20, total: 120, taxExempt: false }));
+    });
+  });
+});
@@ -0,0 +1,394 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { TaxClass, TaxClassDocument } from './schemas/tax-class.schema';
+import { TaxRate, TaxRateDocument } from './schemas/tax-rate.schema';
+import { LineTax } from './schemas/line-tax.schema';
+import { Product, ProductDocument } from '../products/schemas/product.schema';
+import { LocationDocument } from '../locations/schemas/location.schema';
+import { LocationsService } from '../locations/locations.service';
+import { CustomersService } from '../customers/customers.service';
+import { CreateTaxClassDto } from './dto/create-tax-class.dto';
+import { UpdateTaxClassDto } from './dto/update-tax-class.dto';
+import { CreateTaxRateDto } from './dto/create-tax-rate.dto';
+import { UpdateTaxRateDto } from './dto/update-tax-rate.dto';
+import { taxConfig } from '../../config/tax.config';
+
+export interface TaxableItem {
+  product: string | Types.ObjectId;
+  quantity: number;
+  unitPrice: number;
+  discount?: number;
+}
+
+export interface TaxableBasket {
+  items: TaxableItem[];
+  // Location the goods are sold from (default: the default location)
+  location?: string | Types.ObjectId;
+  customer?: string | Types.ObjectId;
+}
+
+export interface TaxedItem {
+  // Taxable amount of the line after its discount
+  total: number;
+  tax: LineTax;
+}
+
+export interface TaxCalculation {
+  items: TaxedItem[];
+  totals: {
+    subtotal: number;
+    tax: number;
+    discount: number;
+    total: number;
+    // Effective rate across the basket
+    taxRate: number;
+    taxInclusive: boolean;
+    taxExempt: boolean;
+  };
+}
+
+@Injectable()
+export class TaxesService {
+  constructor(
+    @InjectModel(TaxClass.name) private taxClassModel: Model<TaxClassDocument>,
+    @InjectModel(TaxRate.name) private taxRateModel: Model<TaxRateDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    private locationsService: LocationsService,
+    private customersService: CustomersService,
+  ) {}
+
+  async createClass(createTaxClassDto: CreateTaxClassDto, userId: string): Promise<TaxClass> {
+    await this.assertClassUnique(createTaxClassDto);
+
+    const createdClass = new this.taxClassModel({
+      ...createTaxClassDto,
+      createdBy: new Types.ObjectId(userId),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    await createdClass.save();
+
+    if (createTaxClassDto.isDefault) {
+      await this.clearOtherDefaults(createdClass._id);
+    }
+
+    return createdClass;
+  }
+
+  async findAllClasses(query: any = {}): Promise<TaxClass[]> {
+    const { isActive } = query;
+
+    let filter: any = {};
+
+    // Filter by active status
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+
+    return this.taxClassModel.find(filter).sort({ isDefault: -1, name: 1 }).exec();
+  }
+
+  async findOneClass(id: string): Promise<TaxClass> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid tax class ID');
+    }
+
+    const taxClass = await this.taxClassModel.findById(id).exec();
+    if (!taxClass) {
+      throw new NotFoundException('Tax class not found');
+    }
+
+    return taxClass;
+  }
+
+  async updateClass(id: string, updateTaxClassDto: UpdateTaxClassDto, userId: string): Promise<TaxClass> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid tax class ID');
+    }
+
+    await this.assertClassUnique(updateTaxClassDto, id);
+
+    const updatedClass = await this.taxClassModel
+      .findByIdAndUpdate(
+        id,
+        {
+          ...updateTaxClassDto,
+          updatedBy: new Types.ObjectId(userId),
+        },
+        { new: true, runValidators: true }
+      )
+      .exec();
+
+    if (!updatedClass) {
+      throw new NotFoundException('Tax class not found');
+    }
+
+    if (updateTaxClassDto.isDefault) {
+      await this.clearOtherDefaults(updatedClass._id);
+    }
+
+    return updatedClass;
+  }
+
+  async removeClass(id: string): Promise<void> {
+    await this.findOneClass(id);
+
+    const [products, rates] = await Promise.all([
+      this.productModel.countDocuments({ taxClass: new Types.ObjectId(id) }),
+      this.taxRateModel.countDocuments({ taxClass: new Types.ObjectId(id) }),
+    ]);
+
+    if (products > 0 || rates > 0) {
+      throw new BadRequestException('Tax class is still used by products or rates; deactivate it instead');
+    }
+
+    await this.taxClassModel.findByIdAndDelete(id).exec();
+  }
+
+  async createRate(createTaxRateDto: CreateTaxRateDto, userId: string): Promise<TaxRate> {
+    await this.findOneClass(createTaxRateDto.taxClass);
+    if (createTaxRateDto.location) {
+      await this.locationsService.findOne(createTaxRateDto.location);
+    }
+
+    const createdRate = new this.taxRateModel({
+      ...createTaxRateDto,
+      taxClass: new Types.ObjectId(createTaxRateDto.taxClass),
+      location: createTaxRateDto.location ? new Types.ObjectId(createTaxRateDto.location) : undefined,
+      createdBy: new Types.ObjectId(userId),
+      updatedBy: new Types.ObjectId(userId),
+    });
+
+    return createdRate.save();
+  }
+
+  async findAllRates(query: any = {}): Promise<TaxRate[]> {
+    const { taxClass, location, jurisdiction, isActive } = query;
+
+    let filter: any = {};
+
+    // Filter by tax class
+    if (taxClass) {
+      filter.taxClass = new Types.ObjectId(taxClass);
+    }
+
+    // Filter by location
+    if (location) {
+      filter.location = new Types.ObjectId(location);
+    }
+
+    // Filter by jurisdiction
+    if (jurisdiction) {
+      filter.jurisdiction = jurisdiction.toUpperCase();
+    }
+
+    // Filter by active status
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+
+    return this.taxRateModel
+      .find(filter)
+      .populate('taxClass', 'name code')
+      .populate('location', 'name code')
+      .sort({ name: 1 })
+      .exec();
+  }
+
+  async findOneRate(id: string): Promise<TaxRate> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid tax rate ID');
+    }
+
+    const taxRate = await this.taxRateModel
+      .findById(id)
+      .populate('taxClass', 'name code')
+      .populate('location', 'name code')
+      .exec();
+    if (!taxRate) {
+      throw new NotFoundException('Tax rate not found');
+    }
+
+    return taxRate;
+  }
+
+  async updateRate(id: string, updateTaxRateDto: UpdateTaxRateDto, userId: string): Promise<TaxRate> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid tax rate ID');
+    }
+
+    const update: any = { ...updateTaxRateDto, updatedBy: new Types.ObjectId(userId) };
+    if (updateTaxRateDto.taxClass) {
+      await this.findOneClass(updateTaxRateDto.taxClass);
+      update.taxClass = new Types.ObjectId(updateTaxRateDto.taxClass);
+    }
+    if (updateTaxRateDto.location) {
+      await this.locationsService.findOne(updateTaxRateDto.location);
+      update.location = new Types.ObjectId(updateTaxRateDto.location);
+    }
+
+    const updatedRate = await this.taxRateModel
+      .findByIdAndUpdate(id, update, { new: true, runValidators: true })
+      .exec();
+
+    if (!updatedRate) {
+      throw new NotFoundException('Tax rate not found');
+    }
+
+    return updatedRate;
+  }
+
+  async removeRate(id: string): Promise<void> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid tax rate ID');
+    }
+
+    const deletedRate = await this.taxRateModel.findByIdAndDelete(id).exec();
+    if (!deletedRate) {
+      throw new NotFoundException('Tax rate not found');
+    }
+  }
+
+  /**
+   * Works out the tax on each line of a basket from the product's tax class
+   * and the rate for the selling location, honouring tax-inclusive pricing.
+   * Customers with a business tax ID are exempt: they are charged the price
+   * without tax.
+   */
+  async calculate(basket: TaxableBasket): Promise<TaxCalculation> {
+    const productIds = basket.items.map(item => item.product.toString());
+    if (productIds.some(id => !Types.ObjectId.isValid(id))) {
+      throw new BadRequestException('Invalid product ID');
+    }
+
+    const [products, location, taxExempt, taxClasses] = await Promise.all([
+      this.productModel.find({ _id: { $in: productIds } }).select('name category taxClass').exec(),
+      this.locationsService.resolve(basket.location),
+      this.isTaxExempt(basket.customer),
+      this.taxClassModel.find({ isActive: true }).exec(),
+    ]);
+
+    const taxRates = await this.taxRateModel
+      .find({
+        isActive: true,
+        taxClass: { $in: taxClasses.map(taxClass => taxClass._id) },
+        location: { $in: [null, location._id] },
+      })
+      .exec();
+
+    const taxInclusive = taxConfig.pricesIncludeTax;
+    let subtotal = 0;
+    let discount = 0;
+
+    const items = basket.items.map(item => {
+      const product = products.find(candidate => candidate._id.toString() === item.product.toString());
+      if (!product) {
+        throw new NotFoundException(`Product ${item.product} not found`);
+      }
+
+      const taxClass = this.resolveTaxClass(product, taxClasses);
+      const taxRate = taxClass ? this.resolveTaxRate(taxClass, taxRates, location) : undefined;
+      const rate = taxRate ? taxRate.rate : taxConfig.defaultRate;
+
+      const lineAmount = item.quantity * item.unitPrice;
+      const lineDiscount = item.discount || 0;
+      const charged = Math.max(lineAmount - lineDiscount, 0);
+
+      const total = this.round(taxInclusive ? charged / (1 + rate) : charged);
+      const amount = taxExempt ? 0 : this.round(taxInclusive ? charged - total : total * rate);
+
+      subtotal += lineAmount;
+      discount += lineDiscount;
+
+      return {
+        total,
+        tax: {
+          taxClass: taxClass?.code,
+          rate: taxExempt ? 0 : rate,
+          amount,
+          exempt: taxExempt,
+        },
+      };
+    });
+
+    const taxable = items.reduce((sum, item) => sum + item.total, 0);
+    const tax = this.round(items.reduce((sum, item) => sum + item.tax.amount, 0));
+
+    return {
+      items,
+      totals: {
+        subtotal: this.round(subtotal),
+        tax,
+        discount: this.round(discount),
+        total: this.round(taxable + tax),
+        taxRate: taxable > 0 ? Math.round((tax / taxable) * 10000) / 10000 : 0,
+        taxInclusive,
+        taxExempt,
+      },
+    };
+  }
+
+  private resolveTaxClass(product: ProductDocument, taxClasses: TaxClassDocument[]): TaxClassDocument | undefined {
+    return (
+      (product.taxClass && taxClasses.find(taxClass => taxClass._id.equals(product.taxClass))) ||
+      taxClasses.find(taxClass => taxClass.categories?.includes(product.category)) ||
+      taxClasses.find(taxClass => taxClass.isDefault)
+    );
+  }
+
+  // The most specific rate wins: location, then jurisdiction, then general
+  private resolveTaxRate(
+    taxClass: TaxClassDocument,
+    taxRates: TaxRateDocument[],
+    location: LocationDocument,
+  ): TaxRateDocument | undefined {
+    const candidates = taxRates.filter(taxRate => taxRate.taxClass.equals(taxClass._id));
+    const jurisdiction = location.taxJurisdiction?.toUpperCase();
+
+    return (
+      candidates.find(taxRate => taxRate.location?.equals(location._id)) ||
+      (jurisdiction && candidates.find(taxRate => !taxRate.location && taxRate.jurisdiction === jurisdiction)) ||
+      candidates.find(taxRate => !taxRate.location && !taxRate.jurisdiction)
+    );
+  }
+
+  private async isTaxExempt(customerId?: string | Types.ObjectId): Promise<boolean> {
+    if (!customerId) {
+      return false;
+    }
+
+    const customer = await this.customersService.findOne(customerId.toString());
+    return !!customer.businessInfo?.taxId?.trim();
+  }
+
+  private async clearOtherDefaults(taxClassId: Types.ObjectId): Promise<void> {
+    await this.taxClassModel
+      .updateMany({ _id: { $ne: taxClassId }, isDefault: true }, { isDefault: false })
+      .exec();
+  }
+
+  private async assertClassUnique(taxClassDto: Partial<CreateTaxClassDto>, excludeId?: string): Promise<void> {
+    const conditions = [
+      ...(taxClassDto.name ? [{ name: taxClassDto.name }] : []),
+      ...(taxClassDto.code ? [{ code: taxClassDto.code.toUpperCase() }] : []),
+    ];
+
+    if (conditions.length === 0) {
+      return;
+    }
+
+    const existingClass = await this.taxClassModel.findOne({
+      ...(excludeId && { _id: { $ne: new Types.ObjectId(excludeId) } }),
+      $or: conditions,
+    });
+
+    if (existingClass) {
+      throw new BadRequestException('Tax class with this name or code already exists');
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,92 @@
+import { Controller, Get, Post, Put, Body, UseGuards, Request, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import {
+  UpdateProfileDto,
+  ChangePasswordDto,
+  EmailDto,
+  ResetPasswordDto,
+  VerifyEmailDto,
+  AcceptInvitationDto,
+} from './dto/account.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+/**
+ * Self-service account endpoints. They live under /auth, where the
+ * frontend expects them, next to the login endpoints of AuthController.
+ */
+@ApiTags('Authentication')
+@Controller('auth')
+export class AccountController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Post('register')
+  @ApiOperation({ summary: 'Accept an invitation by choosing a password, and sign in' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Invitation accepted, signed in' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid or expired token' })
+  register(@Body() acceptInvitationDto: AcceptInvitationDto, @Request() req) {
+    return this.usersService.acceptInvitation(acceptInvitationDto, {
+      userAgent: req.headers?.['user-agent'],
+      ip: req.ip,
+    });
+  }
+
+  @Get('profile')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get own profile' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Profile retrieved successfully' })
+  getProfile(@Request() req) {
+    return this.usersService.getProfile(req.user.id);
+  }
+
+  @Put('profile')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update own profile' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Profile updated successfully' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Email already in use' })
+  updateProfile(@Body() updateProfileDto: UpdateProfileDto, @Request() req) {
+    return this.usersService.updateProfile(req.user.id, updateProfileDto);
+  }
+
+  @Post('change-password')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Change own password; signs out other devices' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Password changed successfully' })
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Current password is incorrect' })
+  changePassword(@Body() changePasswordDto: ChangePasswordDto, @Request() req) {
+    return this.usersService.changePassword(req.user.id, changePasswordDto, req.user.sessionId);
+  }
+
+  @Post('forgot-password')
+  @ApiOperation({ summary: 'Email a password reset link' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Reset link sent if the account exists' })
+  forgotPassword(@Body() emailDto: EmailDto) {
+    return this.usersService.requestPasswordReset(emailDto.email);
+  }
+
+  @Post('reset-password')
+  @ApiOperation({ summary: 'Set a new password with a reset token' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Password has been reset' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid or expired token' })
+  resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.usersService.resetPassword(resetPasswordDto);
+  }
+
+  @Post('verify-email')
+  @ApiOperation({ summary: 'Verify an email address with a verification token' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Email address verified' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Invalid or expired token' })
+  verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.usersService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @Post('resend-verification')
+  @ApiOperation({ summary: 'Email a new verification link' })
+  @ApiResponse({ status: HttpStatus.CREATED, description: 'Verification link sent if needed' })
+  resendVerification(@Body() emailDto: EmailDto) {
+    return this.usersService.resendVerification(emailDto.email);
+  }
+}
@@ -0,0 +1,83 @@
+import { IsEmail, IsString, IsNotEmpty, IsOptional, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { accountConfig } from '../../../config/account.config';
+
+export class UpdateProfileDto {
+  @ApiPropertyOptional({ example: 'Jane Smith' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'A new address has to be verified again' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  avatar?: string;
+}
+
+export class ChangePasswordDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+
+  @ApiProperty({ minLength: accountConfig.minPasswordLength })
+  @IsString()
+  @MinLength(accountConfig.minPasswordLength)
+  newPassword: string;
+}
+
+export class EmailDto {
+  @ApiProperty({ example: 'user@example.com' })
+  @IsEmail()
+  email: string;
+}
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({ minLength: accountConfig.minPasswordLength })
+  @IsString()
+  @MinLength(accountConfig.minPasswordLength)
+  newPassword: string;
+}
+
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Token from the verification email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+export class AcceptInvitationDto {
+  @ApiProperty({ description: 'Token from the invitation email' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @ApiProperty({ minLength: accountConfig.minPasswordLength })
+  @IsString()
+  @MinLength(accountConfig.minPasswordLength)
+  password: string;
+
+  @ApiPropertyOptional({ description: 'Replaces the name given in the invitation' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name?: string;
+}
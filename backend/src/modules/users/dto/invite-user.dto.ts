@@ -0,0 +1,24 @@
+import { IsEmail, IsString, IsNotEmpty, IsEnum, IsOptional, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserRole } from '../../auth/schemas/user.schema';
+
+export class InviteUserDto {
+  @ApiProperty({ example: 'Jane Smith' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'jane@example.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ enum: UserRole })
+  @IsEnum(UserRole)
+  role: UserRole;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  phone?: string;
+}
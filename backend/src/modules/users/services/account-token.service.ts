@@ -0,0 +1,91 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { createHash } from 'crypto';
+import { UserDocument } from '../../auth/schemas/user.schema';
+import { accountConfig } from '../../../config/account.config';
+
+export enum AccountTokenPurpose {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+  INVITATION = 'invitation',
+}
+
+const EXPIRES_IN: Record<AccountTokenPurpose, string> = {
+  [AccountTokenPurpose.PASSWORD_RESET]: accountConfig.passwordResetExpiresIn,
+  [AccountTokenPurpose.EMAIL_VERIFICATION]: accountConfig.emailVerificationExpiresIn,
+  [AccountTokenPurpose.INVITATION]: accountConfig.invitationExpiresIn,
+};
+
+export interface AccountTokenPayload {
+  sub: string;
+  purpose: AccountTokenPurpose;
+  email?: string;
+  pwd?: string;
+}
+
+const UNITS: Record<string, string> = { s: 'second', m: 'minute', h: 'hour', d: 'day' };
+
+/**
+ * Signed, expiring tokens for the links in account emails. Reset and
+ * invitation tokens carry a fingerprint of the password hash, and
+ * verification tokens the email address, so each one stops working once
+ * it has been used or the account has moved on.
+ */
+@Injectable()
+export class AccountTokenService {
+  constructor(private jwtService: JwtService) {}
+
+  sign(user: UserDocument, purpose: AccountTokenPurpose): string {
+    return this.jwtService.sign(
+      {
+        sub: user._id.toString(),
+        purpose,
+        ...(purpose === AccountTokenPurpose.EMAIL_VERIFICATION
+          ? { email: user.email }
+          : { pwd: this.fingerprint(user.password) }),
+      },
+      { secret: accountConfig.tokenSecret, expiresIn: EXPIRES_IN[purpose] }
+    );
+  }
+
+  verify(token: string, purpose: AccountTokenPurpose): AccountTokenPayload {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(token, { secret: accountConfig.tokenSecret });
+    } catch {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    if (payload?.purpose !== purpose || !payload.sub) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return payload;
+  }
+
+  /**
+   * Whether a verified token still applies to the user as they are now
+   */
+  isCurrent(payload: AccountTokenPayload, user: UserDocument): boolean {
+    return payload.purpose === AccountTokenPurpose.EMAIL_VERIFICATION
+      ? user.email === payload.email
+      : this.fingerprint(user.password) === payload.pwd;
+  }
+
+  /**
+   * How long a token lasts, as shown in the email, e.g. '1 hour'
+   */
+  describeExpiry(purpose: AccountTokenPurpose): string {
+    const match = /^(\d+)\s*([smhd])$/.exec(EXPIRES_IN[purpose]);
+    if (!match) {
+      return EXPIRES_IN[purpose];
+    }
+
+    const amount = Number(match[1]);
+    return `${amount} ${UNITS[match[2]]}${amount === 1 ? '' : 's'}`;
+  }
+
+  private fingerprint(passwordHash: string): string {
+    return createHash('sha256').update(passwordHash || '').digest('hex').slice(0, 16);
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Query,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { UsersService } from './users.service';
+import { InviteUserDto } from './dto/invite-user.dto';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { Permission } from '../../config/permissions.config';
+
+@ApiTags('users')
+@Controller('users')
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@RequirePermissions(Permission.USERS_VIEW)
+@ApiBearerAuth()
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all users' })
+  @ApiQuery({ name: 'role', required: false })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiQuery({ name: 'search', required: false, description: 'Matches name or email' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Users retrieved successfully' })
+  findAll(@Query() query: any) {
+    return this.usersService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a user by ID' })
+  @ApiResponse({ status: 200, description: 'User retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  findOne(@Param('id') id: string) {
+    return this.usersService.findOne(id);
+  }
+
+  @Post('invite')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'Invite a user by email' })
+  @ApiResponse({ status: 201, description: 'User invited successfully' })
+  @ApiResponse({ status: 409, description: 'A user with this email already exists' })
+  invite(@Body() inviteUserDto: InviteUserDto, @Request() req) {
+    return this.usersService.invite(inviteUserDto, req.user.id);
+  }
+
+  @Post(':id/resend-invitation')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'Send a pending invitation again' })
+  @ApiResponse({ status: 201, description: 'Invitation sent' })
+  @ApiResponse({ status: 400, description: 'User has no pending invitation' })
+  resendInvitation(@Param('id') id: string) {
+    return this.usersService.resendInvitation(id);
+  }
+
+  @Patch(':id/role')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'Change the role of a user; signs them out everywhere' })
+  @ApiResponse({ status: 200, description: 'Role updated successfully' })
+  @ApiResponse({ status: 400, description: 'Own role or last active admin' })
+  updateRole(@Param('id') id: string, @Body() updateUserRoleDto: UpdateUserRoleDto, @Request() req) {
+    return this.usersService.updateRole(id, updateUserRoleDto.role, req.user.id);
+  }
+
+  @Post(':id/deactivate')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'Deactivate a user and revoke their sessions' })
+  @ApiResponse({ status: 201, description: 'User deactivated successfully' })
+  @ApiResponse({ status: 400, description: 'Own account, already inactive or last active admin' })
+  deactivate(@Param('id') id: string, @Request() req) {
+    return this.usersService.deactivate(id, req.user.id);
+  }
+
+  @Post(':id/activate')
+  @RequirePermissions(Permission.USERS_MANAGE)
+  @ApiOperation({ summary: 'Reactivate a user' })
+  @ApiResponse({ status: 201, description: 'User activated successfully' })
+  activate(@Param('id') id: string) {
+    return this.usersService.activate(id);
+  }
+}
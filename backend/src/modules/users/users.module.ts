@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UsersService } from './users.service';
+import { UsersController } from './users.controller';
+import { AccountController } from './account.controller';
+import { AccountTokenService } from './services/account-token.service';
+import { User, UserSchema } from '../auth/schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { CommonModule } from '../../common/common.module';
+import { accountConfig } from '../../config/account.config';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema }
+    ]),
+    JwtModule.register({ secret: accountConfig.tokenSecret }),
+    AuthModule,
+    CommonModule,
+  ],
+  controllers: [UsersController, AccountController],
+  providers: [UsersService, AccountTokenService],
+  exports: [UsersService],
+})
+export class UsersModule {}
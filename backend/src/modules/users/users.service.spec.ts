@@ -0,0 +1,311 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { BadRequestException, ConflictException, UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import * as bcrypt from 'bcryptjs';
+import { UsersService } from './users.service';
+import { AccountTokenService, AccountTokenPurpose } from './services/account-token.service';
+import { User, UserRole } from '../auth/schemas/user.schema';
+import { SessionRevokeReason } from '../auth/schemas/auth-session.schema';
+import { AuthService } from '../auth/auth.service';
+import { AuthSessionService } from '../auth/services/auth-session.service';
+import { EmailService } from '../../common/services/email.service';
+
+describe('UsersService', () => {
+  let service: UsersService;
+  let accountTokenService: AccountTokenService;
+
+  const userId = '507f1f77bcf86cd799439011';
+  const adminId = '507f1f77bcf86cd799439015';
+  const sessionId = '507f1f77bcf86cd799439060';
+
+  let savedUser: any;
+
+  const buildUser = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(userId),
+    name: 'Jane Smith',
+    email: 'jane@example.com',
+    password: bcrypt.hashSync('current-password', 4),
+    role: UserRole.SALES_STAFF,
+    isActive: true,
+    isEmailVerified: true,
+    ...overrides,
+  });
+
+  const chain = (result: any) => ({
+    select: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  // Mimics a Mongoose model constructor returning a user document
+  const mockUserModel: any = jest.fn().mockImplementation((data) => {
+    savedUser = { ...data, _id: new Types.ObjectId(userId), save: jest.fn().mockResolvedValue(data) };
+    return savedUser;
+  });
+  mockUserModel.find = jest.fn();
+  mockUserModel.findOne = jest.fn();
+  mockUserModel.findById = jest.fn();
+  mockUserModel.updateOne = jest.fn();
+  mockUserModel.countDocuments = jest.fn();
+
+  const mockAuthService = {
+    createSession: jest.fn(),
+  };
+
+  const mockAuthSessionService = {
+    revokeAllForUser: jest.fn(),
+  };
+
+  const mockEmailService = {
+    sendPasswordResetEmail: jest.fn().mockResolvedValue(true),
+  };
+
+  const givenUser = (user: any) => {
+    mockUserModel.findById.mockReturnValue(chain(user));
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsersService,
+        AccountTokenService,
+        { provide: JwtService, useValue: new JwtService({}) },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: AuthSessionService, useValue: mockAuthSessionService },
+        { provide: EmailService, useValue: mockEmailService },
+      ],
+    }).compile();
+
+    service = module.get<UsersService>(UsersService);
+    accountTokenService = module.get<AccountTokenService>(AccountTokenService);
+
+    mockUserModel.updateOne.mockReturnValue(chain({ modifiedCount: 1 }));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('invite', () => {
+    it('should create the user with an unusable password and email an invitation link', async () => {
+      mockUserModel.findOne.mockReturnValue(chain(null));
+      givenUser(buildUser());
+
+      await service.invite({ name: 'Jane Smith', email: 'Jane@Example.com', role: UserRole.MANAGER }, adminId);
+
+      expect(savedUser).toEqual(expect.objectContaining({
+        email: 'jane@example.com',
+        role: UserRole.MANAGER,
+        isEmailVerified: false,
+      }));
+      expect(savedUser.invitedBy.toString()).toBe(adminId);
+      expect(savedUser.password).toMatch(/^\$2[ab]\$/);
+      expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalledWith(expect.objectContaining({
+        customerEmail: 'jane@example.com',
+        purpose: AccountTokenPurpose.INVITATION,
+        resetUrl: expect.stringContaining('/auth/register?token='),
+        expiresIn: '7 days',
+      }));
+    });
+
+    it('should refuse an email that already has an account', async () => {
+      mockUserModel.findOne.mockReturnValue(chain({ _id: new Types.ObjectId() }));
+
+      await expect(service.invite({ name: 'Jane', email: 'jane@example.com', role: UserRole.MANAGER }, adminId))
+        .rejects.toThrow(ConflictException);
+      expect(mockUserModel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should change the role and sign the user out', async () => {
+      givenUser(buildUser());
+
+      await service.updateRole(userId, UserRole.MANAGER, adminId);
+
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: new Types.ObjectId(userId) },
+        { $set: { role: UserRole.MANAGER } }
+      );
+      expect(mockAuthSessionService.revokeAllForUser)
+        .toHaveBeenCalledWith(userId, SessionRevokeReason.ROLE_CHANGE, adminId);
+    });
+
+    it('should not demote the last active admin', async () => {
+      givenUser(buildUser({ role: UserRole.ADMIN }));
+      mockUserModel.countDocuments.mockReturnValue(chain(0));
+
+      await expect(service.updateRole(userId, UserRole.MANAGER, adminId))
+        .rejects.toThrow('At least one active admin is required');
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deactivate', () => {
+    it('should deactivate the user and revoke their sessions', async () => {
+      givenUser(buildUser());
+
+      await service.deactivate(userId, adminId);
+
+      const [, update] = mockUserModel.updateOne.mock.calls[0];
+      expect(update.$set.isActive).toBe(false);
+      expect(mockAuthSessionService.revokeAllForUser)
+        .toHaveBeenCalledWith(userId, SessionRevokeReason.USER_INACTIVE, adminId);
+    });
+
+    it('should not let admins deactivate themselves', async () => {
+      givenUser(buildUser({ _id: new Types.ObjectId(adminId) }));
+
+      await expect(service.deactivate(adminId, adminId)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('should mark a changed email unverified and send a verification link', async () => {
+      givenUser(buildUser());
+      mockUserModel.findOne.mockReturnValue(chain(null));
+
+      await service.updateProfile(userId, { name: 'Jane Doe', email: 'jane.doe@example.com' });
+
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: new Types.ObjectId(userId) },
+        { $set: { name: 'Jane Doe', email: 'jane.doe@example.com', isEmailVerified: false } }
+      );
+      expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalledWith(expect.objectContaining({
+        purpose: AccountTokenPurpose.EMAIL_VERIFICATION,
+      }));
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should require the current password', async () => {
+      givenUser(buildUser());
+
+      await expect(service.changePassword(userId, {
+        currentPassword: 'wrong-password',
+        newPassword: 'new-password',
+      })).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should store the new hash and sign out the other sessions', async () => {
+      const user = buildUser();
+      givenUser(user);
+
+      await service.changePassword(userId, {
+        currentPassword: 'current-password',
+        newPassword: 'new-password',
+      }, sessionId);
+
+      const [filter, update] = mockUserModel.updateOne.mock.calls[0];
+      expect(filter).toEqual({ _id: user._id, password: user.password });
+      expect(await bcrypt.compare('new-password', update.$set.password)).toBe(true);
+      expect(mockAuthSessionService.revokeAllForUser)
+        .toHaveBeenCalledWith(userId, SessionRevokeReason.PASSWORD_CHANGE, userId, sessionId);
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should answer the same whether or not the account exists', async () => {
+      mockUserModel.findOne.mockReturnValue(chain(null));
+      const unknown = await service.requestPasswordReset('nobody@example.com');
+
+      mockUserModel.findOne.mockReturnValue(chain(buildUser()));
+      const known = await service.requestPasswordReset('jane@example.com');
+
+      expect(unknown).toEqual(known);
+      expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalledTimes(1);
+      expect(mockEmailService.sendPasswordResetEmail).toHaveBeenCalledWith(expect.objectContaining({
+        purpose: AccountTokenPurpose.PASSWORD_RESET,
+        resetUrl: expect.stringContaining('/auth/reset-password?token='),
+        expiresIn: '1 hour',
+      }));
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should reset the password and sign the user out everywhere', async () => {
+      const user = buildUser();
+      const token = accountTokenService.sign(user as any, AccountTokenPurpose.PASSWORD_RESET);
+      givenUser(user);
+
+      await service.resetPassword({ token, newPassword: 'new-password' });
+
+      expect(mockUserModel.updateOne).toHaveBeenCalled();
+      expect(mockAuthSessionService.revokeAllForUser)
+        .toHaveBeenCalledWith(userId, SessionRevokeReason.PASSWORD_CHANGE);
+    });
+
+    it('should refuse a token once the password has changed', async () => {
+      const user = buildUser();
+      const token = accountTokenService.sign(user as any, AccountTokenPurpose.PASSWORD_RESET);
+      givenUser({ ...user, password: bcrypt.hashSync('already-reset', 4) });
+
+      await expect(service.resetPassword({ token, newPassword: 'new-password' }))
+        .rejects.toThrow('Invalid or expired token');
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should refuse tokens issued for another purpose', async () => {
+      const user = buildUser();
+      const token = accountTokenService.sign(user as any, AccountTokenPurpose.INVITATION);
+
+      await expect(service.resetPassword({ token, newPassword: 'new-password' }))
+        .rejects.toThrow('Invalid or expired token');
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should verify the address the token was issued for', async () => {
+      const user = buildUser({ isEmailVerified: false });
+      const token = accountTokenService.sign(user as any, AccountTokenPurpose.EMAIL_VERIFICATION);
+      givenUser(user);
+
+      await service.verifyEmail(token);
+
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: user._id },
+        { $set: { isEmailVerified: true } }
+      );
+    });
+
+    it('should refuse a token for an address the user no longer has', async () => {
+      const user = buildUser({ isEmailVerified: false });
+      const token = accountTokenService.sign(user as any, AccountTokenPurpose.EMAIL_VERIFICATION);
+      givenUser({ ...user, email: 'changed@example.com' });
+
+      await expect(service.verifyEmail(token)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should set the password, verify the email and sign the user in', async () => {
+      const user = buildUser({ isEmailVerified: false, invitedAt: new Date() });
+      const token = accountTokenService.sign(user as any, AccountTokenPurpose.INVITATION);
+      givenUser({ ...user, toObject: () => user });
+
+      await service.acceptInvitation({ token, password: 'chosen-password' });
+
+      const [, update] = mockUserModel.updateOne.mock.calls[0];
+      expect(update.$set).toEqual(expect.objectContaining({
+        isEmailVerified: true,
+        invitationAcceptedAt: expect.any(Date),
+      }));
+      expect(mockAuthService.createSession).toHaveBeenCalled();
+    });
+
+    it('should not accept an invitation twice', async () => {
+      const user = buildUser({ invitedAt: new Date(), invitationAcceptedAt: new Date() });
+      const token = accountTokenService.sign(user as any, AccountTokenPurpose.INVITATION);
+      givenUser(user);
+
+      await expect(service.acceptInvitation({ token, password: 'chosen-password' }))
+        .rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,405 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
+import { User, UserDocument, UserRole } from '../auth/schemas/user.schema';
+import { SessionDevice, SessionRevokeReason } from '../auth/schemas/auth-session.schema';
+import { AuthService } from '../auth/auth.service';
+import { AuthSessionService } from '../auth/services/auth-session.service';
+import { EmailService } from '../../common/services/email.service';
+import { AccountTokenService, AccountTokenPurpose } from './services/account-token.service';
+import { InviteUserDto } from './dto/invite-user.dto';
+import {
+  UpdateProfileDto,
+  ChangePasswordDto,
+  ResetPasswordDto,
+  AcceptInvitationDto,
+} from './dto/account.dto';
+import { accountConfig } from '../../config/account.config';
+
+// Frontend pages the links in account emails open
+const LINK_PATHS: Record<AccountTokenPurpose, string> = {
+  [AccountTokenPurpose.PASSWORD_RESET]: '/auth/reset-password',
+  [AccountTokenPurpose.EMAIL_VERIFICATION]: '/auth/verify-email',
+  [AccountTokenPurpose.INVITATION]: '/auth/register',
+};
+
+@Injectable()
+export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private authService: AuthService,
+    private authSessionService: AuthSessionService,
+    private accountTokenService: AccountTokenService,
+    private emailService: EmailService,
+  ) {}
+
+  async findAll(query: any = {}): Promise<User[]> {
+    const { role, isActive, search, page = 1, limit = 20 } = query;
+
+    let filter: any = {};
+
+    // Filter by role
+    if (role) {
+      filter.role = role;
+    }
+
+    // Filter by active status
+    if (isActive !== undefined) {
+      filter.isActive = isActive === 'true';
+    }
+
+    // Search by name or email
+    if (search) {
+      const pattern = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ name: pattern }, { email: pattern }];
+    }
+
+    return this.userModel
+      .find(filter)
+      .select('-password')
+      .sort({ name: 1 })
+      .skip((page - 1) * limit)
+      .limit(Number(limit))
+      .exec();
+  }
+
+  async findOne(id: string): Promise<User> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid user ID');
+    }
+
+    const user = await this.userModel.findById(id).select('-password').exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  /**
+   * Creates the account with an unusable password and emails a link to
+   * choose one. Accepting the invitation signs the user in.
+   */
+  async invite(inviteUserDto: InviteUserDto, invitedBy: string): Promise<User> {
+    const email = inviteUserDto.email.toLowerCase();
+    await this.assertEmailAvailable(email);
+
+    const user = new this.userModel({
+      ...inviteUserDto,
+      email,
+      password: await bcrypt.hash(randomBytes(32).toString('hex'), 10),
+      isActive: true,
+      isEmailVerified: false,
+      invitedBy: new Types.ObjectId(invitedBy),
+      invitedAt: new Date(),
+    });
+
+    try {
+      await user.save();
+    } catch (error) {
+      if (error?.code === 11000) {
+        throw new ConflictException(`A user with email ${email} already exists`);
+      }
+      throw error;
+    }
+
+    await this.sendAccountEmail(user, AccountTokenPurpose.INVITATION);
+
+    return this.findOne(user._id.toString());
+  }
+
+  async resendInvitation(id: string): Promise<{ message: string }> {
+    const user = await this.findDocument(id);
+    if (user.invitationAcceptedAt || !user.invitedAt) {
+      throw new BadRequestException(`User ${user.email} has no pending invitation`);
+    }
+
+    await this.sendAccountEmail(user, AccountTokenPurpose.INVITATION);
+
+    return { message: `Invitation sent to ${user.email}` };
+  }
+
+  /**
+   * Changing a role signs the user out, as their access tokens carry the
+   * old one
+   */
+  async updateRole(id: string, role: UserRole, actorId: string): Promise<User> {
+    const user = await this.findDocument(id);
+
+    if (user._id.toString() === actorId) {
+      throw new BadRequestException('You cannot change your own role');
+    }
+
+    if (user.role === role) {
+      return this.findOne(id);
+    }
+
+    if (user.role === UserRole.ADMIN) {
+      await this.assertOtherActiveAdmin(user._id);
+    }
+
+    await this.userModel.updateOne({ _id: user._id }, { $set: { role } }).exec();
+    await this.authSessionService.revokeAllForUser(id, SessionRevokeReason.ROLE_CHANGE, actorId);
+
+    return this.findOne(id);
+  }
+
+  async deactivate(id: string, actorId: string): Promise<User> {
+    const user = await this.findDocument(id);
+
+    if (user._id.toString() === actorId) {
+      throw new BadRequestException('You cannot deactivate your own account');
+    }
+
+    if (!user.isActive) {
+      throw new BadRequestException(`User ${user.email} is already inactive`);
+    }
+
+    if (user.role === UserRole.ADMIN) {
+      await this.assertOtherActiveAdmin(user._id);
+    }
+
+    await this.userModel
+      .updateOne({ _id: user._id }, { $set: { isActive: false, deactivatedAt: new Date() } })
+      .exec();
+    await this.authSessionService.revokeAllForUser(id, SessionRevokeReason.USER_INACTIVE, actorId);
+
+    return this.findOne(id);
+  }
+
+  async activate(id: string): Promise<User> {
+    const user = await this.findDocument(id);
+
+    if (user.isActive) {
+      throw new BadRequestException(`User ${user.email} is already active`);
+    }
+
+    await this.userModel
+      .updateOne({ _id: user._id }, { $set: { isActive: true }, $unset: { deactivatedAt: 1 } })
+      .exec();
+
+    return this.findOne(id);
+  }
+
+  async getProfile(userId: string): Promise<User> {
+    return this.findOne(userId);
+  }
+
+  /**
+   * A changed email address is marked unverified and sent a new
+   * verification link
+   */
+  async updateProfile(userId: string, updateProfileDto: UpdateProfileDto): Promise<User> {
+    const user = await this.findDocument(userId);
+    const { email, ...details } = updateProfileDto;
+    const update: any = { ...details };
+
+    const newEmail = email?.toLowerCase();
+    const emailChanged = newEmail && newEmail !== user.email;
+    if (emailChanged) {
+      await this.assertEmailAvailable(newEmail);
+      update.email = newEmail;
+      update.isEmailVerified = false;
+    }
+
+    try {
+      await this.userModel.updateOne({ _id: user._id }, { $set: update }).exec();
+    } catch (error) {
+      if (error?.code === 11000) {
+        throw new ConflictException(`A user with email ${newEmail} already exists`);
+      }
+      throw error;
+    }
+
+    if (emailChanged) {
+      await this.sendAccountEmail(await this.findDocument(userId), AccountTokenPurpose.EMAIL_VERIFICATION);
+    }
+
+    return this.findOne(userId);
+  }
+
+  /**
+   * Other devices are signed out; the session making the change stays
+   * signed in
+   */
+  async changePassword(userId: string, changePasswordDto: ChangePasswordDto, sessionId?: string) {
+    const user = await this.findDocument(userId);
+
+    if (!await bcrypt.compare(changePasswordDto.currentPassword, user.password)) {
+      throw new UnauthorizedException('Current password is incorrect');
+    }
+
+    if (changePasswordDto.currentPassword === changePasswordDto.newPassword) {
+      throw new BadRequestException('New password must be different from the current password');
+    }
+
+    await this.setPassword(user, changePasswordDto.newPassword);
+    await this.authSessionService.revokeAllForUser(
+      userId,
+      SessionRevokeReason.PASSWORD_CHANGE,
+      userId,
+      sessionId
+    );
+
+    return { message: 'Password changed successfully' };
+  }
+
+  /**
+   * Always answers the same way, so the endpoint cannot be used to find
+   * out which emails have accounts
+   */
+  async requestPasswordReset(email: string): Promise<{ message: string }> {
+    const user = await this.userModel.findOne({ email: email.toLowerCase(), isActive: true }).exec();
+
+    if (user) {
+      await this.sendAccountEmail(user, AccountTokenPurpose.PASSWORD_RESET);
+    }
+
+    return { message: 'If an account exists for this email, a password reset link has been sent' };
+  }
+
+  async resetPassword(resetPasswordDto: ResetPasswordDto): Promise<{ message: string }> {
+    const user = await this.findByToken(resetPasswordDto.token, AccountTokenPurpose.PASSWORD_RESET);
+
+    if (!user.isActive) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    await this.setPassword(user, resetPasswordDto.newPassword);
+    // Whoever prompted the reset may still be signed in somewhere
+    await this.authSessionService.revokeAllForUser(
+      user._id.toString(),
+      SessionRevokeReason.PASSWORD_CHANGE
+    );
+
+    return { message: 'Password has been reset, please sign in with your new password' };
+  }
+
+  async verifyEmail(token: string): Promise<{ message: string }> {
+    const user = await this.findByToken(token, AccountTokenPurpose.EMAIL_VERIFICATION);
+
+    if (!user.isEmailVerified) {
+      await this.userModel.updateOne({ _id: user._id }, { $set: { isEmailVerified: true } }).exec();
+    }
+
+    return { message: 'Email address verified' };
+  }
+
+  async resendVerification(email: string): Promise<{ message: string }> {
+    const user = await this.userModel
+      .findOne({ email: email.toLowerCase(), isActive: true, isEmailVerified: false })
+      .exec();
+
+    if (user) {
+      await this.sendAccountEmail(user, AccountTokenPurpose.EMAIL_VERIFICATION);
+    }
+
+    return { message: 'If this email needs verifying, a verification link has been sent' };
+  }
+
+  /**
+   * Completes an invitation: sets the password, confirms the email the
+   * invitation was sent to and signs the user in
+   */
+  async acceptInvitation(acceptInvitationDto: AcceptInvitationDto, device: Partial<SessionDevice> = {}) {
+    const user = await this.findByToken(acceptInvitationDto.token, AccountTokenPurpose.INVITATION);
+
+    if (!user.isActive || user.invitationAcceptedAt) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    await this.setPassword(user, acceptInvitationDto.password, {
+      isEmailVerified: true,
+      invitationAcceptedAt: new Date(),
+      ...(acceptInvitationDto.name && { name: acceptInvitationDto.name }),
+    });
+
+    const accepted = await this.userModel.findById(user._id).select('-password').exec();
+    return this.authService.createSession(accepted.toObject(), device);
+  }
+
+  private async setPassword(user: UserDocument, password: string, extra: any = {}): Promise<void> {
+    // Guard on the old hash so a token cannot be redeemed twice at once
+    const result = await this.userModel
+      .updateOne(
+        { _id: user._id, password: user.password },
+        { $set: { password: await bcrypt.hash(password, 10), passwordChangedAt: new Date(), ...extra } }
+      )
+      .exec();
+
+    if (result.modifiedCount === 0) {
+      throw new ConflictException('User was modified by another request, please retry');
+    }
+  }
+
+  private async findByToken(token: string, purpose: AccountTokenPurpose): Promise<UserDocument> {
+    const payload = this.accountTokenService.verify(token, purpose);
+    const user = Types.ObjectId.isValid(payload.sub)
+      ? await this.userModel.findById(payload.sub).exec()
+      : null;
+
+    if (!user || !this.accountTokenService.isCurrent(payload, user)) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return user;
+  }
+
+  private async sendAccountEmail(user: UserDocument, purpose: AccountTokenPurpose): Promise<void> {
+    const token = this.accountTokenService.sign(user, purpose);
+
+    const sent = await this.emailService.sendPasswordResetEmail({
+      customerName: user.name,
+      customerEmail: user.email,
+      resetToken: token,
+      resetUrl: `${accountConfig.frontendUrl}${LINK_PATHS[purpose]}?token=${encodeURIComponent(token)}`,
+      purpose,
+      expiresIn: this.accountTokenService.describeExpiry(purpose),
+    });
+
+    if (!sent) {
+      this.logger.warn(`Could not send ${purpose} email to ${user.email}`);
+    }
+  }
+
+  private async findDocument(id: string): Promise<UserDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid user ID');
+    }
+
+    const user = await this.userModel.findById(id).exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private async assertEmailAvailable(email: string): Promise<void> {
+    const existing = await this.userModel.findOne({ email }).select('_id').exec();
+    if (existing) {
+      throw new ConflictException(`A user with email ${email} already exists`);
+    }
+  }
+
+  private async assertOtherActiveAdmin(userId: Types.ObjectId): Promise<void> {
+    const admins = await this.userModel
+      .countDocuments({ role: UserRole.ADMIN, isActive: true, _id: { $ne: userId } })
+      .exec();
+
+    if (admins === 0) {
+      throw new BadRequestException('At least one active admin is required');
+    }
+  }
+}
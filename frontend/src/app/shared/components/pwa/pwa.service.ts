@@ -13,6 +13,10 @@ export interface PWAStatus {
   canInstall: boolean;
   isStandalone: boolean;
   networkType: 'wifi' | 'cellular' | 'none';
+  // Offline POS sales waiting for background sync
+  pendingSyncCount: number;
+  // Those of them held until the cashier signs in again
+  authRequiredSyncCount: number;
 }
 
 @Injectable({
@@ -36,7 +40,9 @@ export class PwaService {
       hasUpdate: false,
       canInstall: false,
       isStandalone: this.isStandaloneMode(),
-      networkType: this.getNetworkType()
+      networkType: this.getNetworkType(),
+      pendingSyncCount: 0,
+      authRequiredSyncCount: 0
     };
   }
 
@@ -90,6 +96,18 @@ export class PwaService {
           }
         });
 
+        // The service worker reports the offline sale queue size whenever
+        // it changes
+        navigator.serviceWorker.addEventListener('message', (event) => {
+          if (event.data?.type === 'SYNC_QUEUE_SIZE') {
+            this.updateStatus({
+              pendingSyncCount: event.data.size,
+              authRequiredSyncCount: event.data.authRequired || 0
+            });
+          }
+        });
+        this.refreshPendingSyncCount();
+
         // Listen for controller change (new service worker activated)
         navigator.serviceWorker.addEventListener('controllerchange', () => {
           this.updateStatus({ hasUpdate: false });
@@ -185,6 +203,23 @@ export class PwaService {
     }
   }
 
+  // Offline Sync Queue
+  public async refreshPendingSyncCount(): Promise<number> {
+    const worker = navigator.serviceWorker?.controller;
+    if (!worker) {
+      return this.statusSubject.value.pendingSyncCount;
+    }
+
+    const { size, authRequired } = await new Promise<{ size: number; authRequired: number }>((resolve) => {
+      const channel = new MessageChannel();
+      channel.port1.onmessage = (event) => resolve(event.data);
+      worker.postMessage({ type: 'GET_QUEUE_SIZE' }, [channel.port2]);
+    });
+
+    this.updateStatus({ pendingSyncCount: size, authRequiredSyncCount: authRequired || 0 });
+    return size;
+  }
+
   // Network Monitoring
   private monitorNetworkChanges(): void {
     if ('connection' in navigator) {
@@ -270,6 +305,14 @@ export class PwaService {
     return this.statusSubject.value.networkType;
   }
 
+  public getPendingSyncCount(): number {
+    return this.statusSubject.value.pendingSyncCount;
+  }
+
+  public getAuthRequiredSyncCount(): number {
+    return this.statusSubject.value.authRequiredSyncCount;
+  }
+
   // PWA Features
   public async addToHomeScreen(): Promise<void> {
     if (this.canInstall()) {
@@ -3,6 +3,14 @@ const CACHE_NAME = 'shop-inventory-v1.0.0';
 const STATIC_CACHE = 'static-v1.0.0';
 const DYNAMIC_CACHE = 'dynamic-v1.0.0';
 
+// Offline POS sales queued by the app (see OfflineSaleQueueService)
+const OFFLINE_DB_NAME = 'shop-inventory-offline';
+const OFFLINE_DB_VERSION = 2;
+const PENDING_SALES_STORE = 'pending-sales';
+const SESSION_STORE = 'session';
+const AUTHORIZATION_KEY = 'authorization';
+const POS_SYNC_TAG = 'sync-pos-sales';
+
 // Files to cache for offline functionality
 const STATIC_FILES = [
   '/',
@@ -66,7 +74,8 @@ self.addEventListener('fetch', (event) => {
   const { request } = event;
   const url = new URL(request.url);
 
-  // Skip non-GET requests
+  // Skip non-GET requests; POS sales made offline are queued by the app
+  // and replayed by background sync
   if (request.method !== 'GET') {
     return;
   }
@@ -205,26 +214,38 @@ async function handleDefaultRequest(request) {
 self.addEventListener('sync', (event) => {
   console.log('Background sync triggered:', event.tag);
   
-  if (event.tag === 'background-sync') {
+  if (event.tag === 'background-sync' || event.tag === POS_SYNC_TAG) {
     event.waitUntil(doBackgroundSync());
   }
 });
 
+// Sales are replayed oldest first. A sale that still fails on the network
+// fails the sync, so the browser retries it later with backoff.
 async function doBackgroundSync() {
+  let failed = 0;
+
   try {
     // Get pending offline actions from IndexedDB
     const pendingActions = await getPendingActions();
     
     for (const action of pendingActions) {
       try {
-        await processOfflineAction(action);
-        await removePendingAction(action.id);
+        if (await processOfflineAction(action)) {
+          await removePendingAction(action.idempotencyKey);
+        }
       } catch (error) {
+        failed++;
         console.error('Failed to process offline action:', error);
       }
     }
   } catch (error) {
     console.error('Background sync failed:', error);
+  } finally {
+    await broadcastQueueSize();
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} offline sale(s) could not be synced yet`);
   }
 }
 
@@ -287,23 +308,172 @@ self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'GET_VERSION') {
     event.ports[0].postMessage({ version: CACHE_NAME });
   }
+
+  if (event.data && event.data.type === 'GET_QUEUE_SIZE') {
+    event.waitUntil(
+      countUnsyncedActions().then((counts) => event.ports[0].postMessage(counts))
+    );
+  }
+
+  if (event.data && event.data.type === 'QUEUE_CHANGED') {
+    event.waitUntil(broadcastQueueSize());
+  }
+
+  // Sent when the app comes back online, for browsers without background sync
+  if (event.data && event.data.type === 'SYNC_POS_SALES') {
+    event.waitUntil(doBackgroundSync().catch((error) => console.log(error.message)));
+  }
 });
 
 // Helper functions for offline functionality
+function openOfflineDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(PENDING_SALES_STORE)) {
+        request.result.createObjectStore(PENDING_SALES_STORE, { keyPath: 'idempotencyKey' });
+      }
+      if (!request.result.objectStoreNames.contains(SESSION_STORE)) {
+        request.result.createObjectStore(SESSION_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function offlineStoreRequest(mode, action, storeName = PENDING_SALES_STORE) {
+  const db = await openOfflineDb();
+
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
 async function getPendingActions() {
-  // This would typically use IndexedDB
-  // For now, return empty array
-  return [];
+  const actions = await offlineStoreRequest('readonly', (store) => store.getAll());
+
+  return actions
+    .filter((action) => action.status === 'pending')
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+// The app keeps the cashier's current Authorization header here, so sales
+// are replayed with whoever is signed in now rather than at queue time
+async function getAuthorization() {
+  const entry = await offlineStoreRequest('readonly', (store) => store.get(AUTHORIZATION_KEY), SESSION_STORE);
+  return entry && entry.value;
+}
+
+// Sales not synced yet: size counts all of them, including those held until
+// the cashier signs in again, which authRequired counts on their own
+async function countUnsyncedActions() {
+  const actions = await offlineStoreRequest('readonly', (store) => store.getAll());
+  const authRequired = actions.filter((action) => action.status === 'auth_required').length;
+
+  return {
+    size: actions.filter((action) => action.status === 'pending').length + authRequired,
+    authRequired
+  };
 }
 
+// Replays a queued sale with its idempotency key, so a sale whose response
+// was lost is not recorded twice. A sale the server rejects, for example
+// for lack of stock, is kept as a conflict for the cashier to resolve.
+// Without a valid session the sale is held until the cashier signs in.
+// Resolves to true once the sale is recorded.
 async function processOfflineAction(action) {
-  // Process offline actions like form submissions
-  console.log('Processing offline action:', action);
+  const authorization = await getAuthorization();
+  if (!authorization) {
+    await holdForSignIn(action);
+    return false;
+  }
+
+  const response = await fetch(action.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Idempotency-Key': action.idempotencyKey,
+      Authorization: authorization
+    },
+    body: JSON.stringify(action.body)
+  });
+
+  if (response.ok) {
+    await notifyClients({
+      type: 'POS_SALE_SYNCED',
+      receiptId: action.receipt.id,
+      idempotencyKey: action.idempotencyKey,
+      sale: await response.json()
+    });
+    return true;
+  }
+
+  if (response.status === 401) {
+    await holdForSignIn(action);
+    return false;
+  }
+
+  // Timeouts, rate limits and server errors are retried, as is a 409 for a
+  // replay that reached the server while the first attempt was still being
+  // processed
+  if (response.status >= 500 || [408, 409, 429].includes(response.status)) {
+    await offlineStoreRequest('readwrite', (store) => store.put({ ...action, attempts: action.attempts + 1 }));
+    throw new Error(`Sale ${action.receipt.id} failed with status ${response.status}`);
+  }
+
+  const error = await response.json().catch(() => ({}));
+  const message = Array.isArray(error.message)
+    ? error.message.join(', ')
+    : error.message || `Sale rejected with status ${response.status}`;
+
+  await offlineStoreRequest('readwrite', (store) => store.put({
+    ...action,
+    status: 'conflict',
+    error: message,
+    attempts: action.attempts + 1
+  }));
+  await notifyClients({
+    type: 'POS_SALE_CONFLICT',
+    receiptId: action.receipt.id,
+    idempotencyKey: action.idempotencyKey,
+    message
+  });
+
+  return false;
+}
+
+async function holdForSignIn(action) {
+  await offlineStoreRequest('readwrite', (store) => store.put({
+    ...action,
+    status: 'auth_required',
+    attempts: action.attempts + 1
+  }));
+  await notifyClients({
+    type: 'POS_SALE_AUTH_REQUIRED',
+    receiptId: action.receipt.id,
+    idempotencyKey: action.idempotencyKey
+  });
+}
+
+async function removePendingAction(idempotencyKey) {
+  await offlineStoreRequest('readwrite', (store) => store.delete(idempotencyKey));
+}
+
+async function notifyClients(message) {
+  const clientList = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' });
+  clientList.forEach((client) => client.postMessage(message));
 }
 
-async function removePendingAction(id) {
-  // Remove processed action from pending list
-  console.log('Removing pending action:', id);
+async function broadcastQueueSize() {
+  try {
+    await notifyClients({ type: 'SYNC_QUEUE_SIZE', ...await countUnsyncedActions() });
+  } catch (error) {
+    console.error('Failed to read the offline queue:', error);
+  }
 }
 
 // Error handling
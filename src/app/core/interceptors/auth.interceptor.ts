@@ -88,7 +88,8 @@ export class AuthInterceptor implements HttpInterceptor {
       '/auth/forgot-password',
       '/auth/reset-password',
       '/auth/verify-email',
-      '/auth/refresh'
+      '/auth/refresh',
+      '/auth/logout'
     ];
 
     return authEndpoints.some(endpoint => url.includes(endpoint));
@@ -139,6 +139,7 @@ export class ErrorInterceptor implements HttpInterceptor {
   private handleUnauthorized(): void {
     // Clear any stored authentication data
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
     localStorage.removeItem('user_info');
     
     // Redirect to login page
@@ -220,6 +220,7 @@ export class ApiService {
    */
   logout(): void {
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
     localStorage.removeItem('user_info');
   }
 }
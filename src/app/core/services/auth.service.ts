@@ -19,16 +19,18 @@ export interface LoginCredentials {
   password: string;
 }
 
+// Accounts are created by invitation; registering accepts one
 export interface RegisterData {
-  email: string;
+  token: string;
   password: string;
-  firstName: string;
-  lastName: string;
-  role?: 'admin' | 'manager' | 'staff' | 'user';
+  name?: string;
 }
 
 export interface AuthResponse {
   access_token: string;
+  refresh_token: string;
+  // Effective permissions of the user's role, e.g. 'products.delete'
+  permissions: string[];
   user: User;
 }
 
@@ -47,9 +49,10 @@ export interface PasswordResetConfirm {
 }
 
 export interface ProfileUpdate {
-  firstName?: string;
-  lastName?: string;
+  name?: string;
   email?: string;
+  phone?: string;
+  avatar?: string;
 }
 
 @Injectable({
@@ -90,7 +93,7 @@ export class AuthService {
   login(credentials: LoginCredentials): Observable<AuthResponse> {
     return this.apiService.post<AuthResponse>('/auth/login', credentials).pipe(
       tap(response => {
-        this.setAuth(response.access_token, response.user);
+        this.setAuth(response);
       })
     );
   }
@@ -101,7 +104,7 @@ export class AuthService {
   register(userData: RegisterData): Observable<AuthResponse> {
     return this.apiService.post<AuthResponse>('/auth/register', userData).pipe(
       tap(response => {
-        this.setAuth(response.access_token, response.user);
+        this.setAuth(response);
       })
     );
   }
@@ -110,7 +113,9 @@ export class AuthService {
    * Logout user
    */
   logout(): Observable<void> {
-    return this.apiService.post<void>('/auth/logout', {}).pipe(
+    const refreshToken = localStorage.getItem('refresh_token');
+
+    return this.apiService.post<void>('/auth/logout', { refresh_token: refreshToken }).pipe(
       tap(() => {
         this.clearAuth();
       }),
@@ -123,12 +128,15 @@ export class AuthService {
   }
 
   /**
-   * Refresh authentication token
+   * Refresh authentication token. The refresh token is rotated on every
+   * call, so the new one replaces it.
    */
   refreshToken(): Observable<AuthResponse> {
-    return this.apiService.post<AuthResponse>('/auth/refresh', {}).pipe(
+    const refreshToken = localStorage.getItem('refresh_token');
+
+    return this.apiService.post<AuthResponse>('/auth/refresh', { refresh_token: refreshToken }).pipe(
       tap(response => {
-        this.setAuth(response.access_token, response.user);
+        this.setAuth(response);
       })
     );
   }
@@ -196,27 +204,27 @@ export class AuthService {
    * Get user permissions
    */
   getUserPermissions(): Observable<string[]> {
-    return this.apiService.get<string[]>('/auth/permissions');
+    return this.apiService.get<string[]>('/auth/permissions').pipe(
+      tap(permissions => {
+        localStorage.setItem('user_permissions', JSON.stringify(permissions));
+      })
+    );
   }
 
   /**
-   * Check if user has specific permission
+   * Check if user has specific permission, as granted to their role on
+   * the server
    */
   hasPermission(permission: string): boolean {
     const user = this.currentUserSubject.value;
     if (!user) return false;
 
-    // Admin has all permissions
-    if (user.role === 'admin') return true;
-
-    // Role-based permissions
-    const rolePermissions: Record<string, string[]> = {
-      manager: ['products:read', 'products:write', 'sales:read', 'sales:write', 'customers:read', 'customers:write'],
-      staff: ['products:read', 'sales:read', 'sales:write', 'customers:read'],
-      user: ['products:read']
-    };
-
-    return rolePermissions[user.role]?.includes(permission) || false;
+    try {
+      const permissions: string[] = JSON.parse(localStorage.getItem('user_permissions') || '[]');
+      return permissions.includes(permission);
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -250,10 +258,12 @@ export class AuthService {
   /**
    * Set authentication data
    */
-  private setAuth(token: string, user: User): void {
-    localStorage.setItem('auth_token', token);
-    localStorage.setItem('user_info', JSON.stringify(user));
-    this.currentUserSubject.next(user);
+  private setAuth(response: AuthResponse): void {
+    localStorage.setItem('auth_token', response.access_token);
+    localStorage.setItem('refresh_token', response.refresh_token);
+    localStorage.setItem('user_permissions', JSON.stringify(response.permissions || []));
+    localStorage.setItem('user_info', JSON.stringify(response.user));
+    this.currentUserSubject.next(response.user);
     this.isAuthenticatedSubject.next(true);
   }
 
@@ -262,6 +272,8 @@ export class AuthService {
    */
   private clearAuth(): void {
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
+    localStorage.removeItem('user_permissions');
     localStorage.removeItem('user_info');
     this.currentUserSubject.next(null);
     this.isAuthenticatedSubject.next(false);
@@ -525,6 +525,7 @@ export class ErrorBoundaryService implements ErrorHandler {
   private clearAuthData(): void {
     try {
       localStorage.removeItem('auth_token');
+      localStorage.removeItem('refresh_token');
       localStorage.removeItem('user_info');
       sessionStorage.removeItem('session_id');
     } catch {
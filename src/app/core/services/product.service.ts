@@ -14,10 +14,25 @@ export interface ProductInventory {
   location: string;
 }
 
+export type BarcodeFormat = 'ean13' | 'upca' | 'code128';
+
 export interface ProductVariant {
+  _id?: string;
   name: string;
   value: string;
+  sku?: string;
+  barcode?: string;
+  barcodeFormat?: BarcodeFormat;
+  price?: {
+    cost?: number;
+    selling?: number;
+  };
   priceModifier?: number;
+  inventory?: {
+    quantity: number;
+    minStock: number;
+  };
+  isActive?: boolean;
 }
 
 export interface ProductDimensions {
@@ -30,6 +45,8 @@ export interface Product {
   _id: string;
   name: string;
   sku: string;
+  barcode?: string;
+  barcodeFormat?: BarcodeFormat;
   description?: string;
   category: string;
   subcategory?: string;
@@ -48,6 +65,8 @@ export interface Product {
 export interface CreateProductDto {
   name: string;
   sku: string;
+  barcode?: string;
+  barcodeFormat?: BarcodeFormat;
   description?: string;
   category: string;
   subcategory?: string;
@@ -356,10 +356,15 @@ export class SalesService {
   }
 
   /**
-   * Refund a sale
+   * Refund a sale, optionally limited to selected items
    */
-  refundSale(id: string, amount: number, reason?: string): Observable<Sale> {
-    return this.apiService.put<Sale>(`${this.endpoint}/${id}/refund`, { amount, reason });
+  refundSale(
+    id: string,
+    amount?: number,
+    reason?: string,
+    items?: Array<{ product: string; quantity: number; disposition?: 'restock' | 'write_off' }>
+  ): Observable<Sale> {
+    return this.apiService.put<Sale>(`${this.endpoint}/${id}/refund`, { amount, reason, items });
   }
 
   /**
@@ -38,6 +38,7 @@ export class AuthEffects {
       tap(({ response }) => {
         // Store token in localStorage
         localStorage.setItem('auth_token', response.access_token);
+        localStorage.setItem('refresh_token', response.refresh_token);
         localStorage.setItem('user_info', JSON.stringify(response.user));
         
         // Redirect to dashboard
@@ -67,6 +68,7 @@ export class AuthEffects {
       tap(({ response }) => {
         // Store token in localStorage
         localStorage.setItem('auth_token', response.access_token);
+        localStorage.setItem('refresh_token', response.refresh_token);
         localStorage.setItem('user_info', JSON.stringify(response.user));
         
         // Redirect to dashboard
@@ -101,6 +103,7 @@ export class AuthEffects {
       tap(() => {
         // Clear localStorage
         localStorage.removeItem('auth_token');
+        localStorage.removeItem('refresh_token');
         localStorage.removeItem('user_info');
         
         // Redirect to login
@@ -130,6 +133,7 @@ export class AuthEffects {
       tap(({ response }) => {
         // Update token in localStorage
         localStorage.setItem('auth_token', response.access_token);
+        localStorage.setItem('refresh_token', response.refresh_token);
         localStorage.setItem('user_info', JSON.stringify(response.user));
       })
     ),
@@ -292,6 +296,7 @@ export class AuthEffects {
       tap(() => {
         // Clear any invalid data
         localStorage.removeItem('auth_token');
+        localStorage.removeItem('refresh_token');
         localStorage.removeItem('user_info');
       })
     ),
@@ -316,6 +321,7 @@ export class AuthEffects {
       tap(() => {
         // Clear localStorage
         localStorage.removeItem('auth_token');
+        localStorage.removeItem('refresh_token');
         localStorage.removeItem('user_info');
         
         // Redirect to login
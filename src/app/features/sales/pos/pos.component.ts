@@ -1,17 +1,21 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
 import { FormBuilder, FormGroup, Validators } from '@angular/forms';
 import { Subject, takeUntil, debounceTime, distinctUntilChanged } from 'rxjs';
-import { Product } from '@core/services/product.service';
+import { Product, ProductVariant } from '@core/services/product.service';
 import { CartService } from '../../services/cart.service';
-import { PosService } from '../../services/pos.service';
+import { PosService, SyncConflict } from '../../services/pos.service';
 import { ToastService } from '@core/services/toast.service';
 import { LoadingService } from '@core/services/loading.service';
 import { CustomValidators } from '@core/validators/custom-validators';
 
 export interface CartItem {
   product: Product;
+  // Set for products with variants, which are sold per variant
+  variant?: ProductVariant;
   quantity: number;
   price: number;
+  // Manual discount on the line; promotions are applied by the server
+  discount?: number;
   total: number;
 }
 
@@ -54,6 +58,7 @@ export class PosComponent implements OnInit, OnDestroy {
   showPaymentModal = false;
   showReceiptModal = false;
   currentReceipt: any = null;
+  syncConflicts: SyncConflict[] = [];
 
   // Search
   private searchSubject = new Subject<string>();
@@ -73,6 +78,9 @@ export class PosComponent implements OnInit, OnDestroy {
   ngOnInit(): void {
     this.loadProducts();
     this.loadCart();
+    this.watchSyncConflicts();
+    // Signing in again releases offline sales held for want of a session
+    this.posService.syncPendingSales();
   }
 
   ngOnDestroy(): void {
@@ -144,6 +152,27 @@ export class PosComponent implements OnInit, OnDestroy {
     this.isSearching = false;
   }
 
+  /**
+   * USB scanners type the barcode followed by Enter
+   */
+  onSearchEnter(): void {
+    const code = (this.searchForm.get('searchQuery')?.value || '').trim();
+    if (!code) {
+      return;
+    }
+
+    this.posService.getProductByBarcode(code).subscribe({
+      next: ({ product, variant }) => {
+        this.addToCart(product, variant);
+        this.searchForm.patchValue({ searchQuery: '' });
+        this.filteredProducts = this.products;
+      },
+      error: () => {
+        // Not a barcode; leave the text search results in place
+      }
+    });
+  }
+
   onSearchInput(event: any): void {
     const query = event.target.value;
     this.searchSubject.next(query);
@@ -154,25 +183,29 @@ export class PosComponent implements OnInit, OnDestroy {
     this.addToCart(product);
   }
 
-  addToCart(product: Product): void {
-    const existingItem = this.cartItems.find(item => item.product._id === product._id);
+  addToCart(product: Product, variant?: ProductVariant): void {
+    const existingItem = this.cartItems.find(item =>
+      item.product._id === product._id && item.variant?._id === variant?._id
+    );
 
     if (existingItem) {
       existingItem.quantity += 1;
       existingItem.total = existingItem.quantity * existingItem.price;
     } else {
+      const price = this.cartService.getUnitPrice(product, variant);
       const newItem: CartItem = {
         product,
+        variant,
         quantity: 1,
-        price: product.price.selling,
-        total: product.price.selling
+        price,
+        total: price
       };
       this.cartItems.push(newItem);
     }
 
     this.updateCartTotals();
     this.cartService.updateCart(this.cartItems);
-    this.toastService.success(`${product.name} added to cart`);
+    this.toastService.success(`${this.cartService.getItemName(product, variant)} added to cart`);
   }
 
   removeFromCart(index: number): void {
@@ -192,8 +225,9 @@ export class PosComponent implements OnInit, OnDestroy {
       return;
     }
 
-    if (newQuantity > item.product.inventory.quantity) {
-      this.toastService.warning(`Only ${item.product.inventory.quantity} available in stock`);
+    const available = this.cartService.getAvailableQuantity(item.product, item.variant);
+    if (newQuantity > available) {
+      this.toastService.warning(`Only ${available} available in stock`);
       return;
     }
 
@@ -261,16 +295,52 @@ export class PosComponent implements OnInit, OnDestroy {
         // Clear cart after successful sale
         this.clearCart();
         
-        this.toastService.success('Sale completed successfully!');
+        if (result.syncStatus === 'pending') {
+          this.toastService.warning('You are offline. The sale is saved and will sync when the connection returns.');
+        } else {
+          this.toastService.success('Sale completed successfully!');
+        }
       },
       error: (error) => {
         this.loadingService.setLoading('payment', false);
-        this.toastService.error('Payment failed. Please try again.');
+        this.toastService.error(error.message || 'Payment failed. Please try again.');
         console.error('Payment error:', error);
       }
     });
   }
 
+  /**
+   * Report offline sales the server rejected when they were synced, e.g.
+   * because the stock was sold elsewhere in the meantime
+   */
+  private watchSyncConflicts(): void {
+    this.posService.getSyncConflicts()
+      .then(conflicts => conflicts.forEach(conflict => this.reportSyncConflict(conflict)))
+      .catch(error => console.error('Failed to read the offline sale queue:', error));
+
+    this.posService.syncConflicts$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(conflict => this.reportSyncConflict(conflict));
+
+    // One warning for a whole sync run rather than one per held sale
+    this.posService.syncAuthRequired$
+      .pipe(debounceTime(500), takeUntil(this.destroy$))
+      .subscribe(() => this.toastService.warning('Your session has expired. Sign in again to sync offline sales.'));
+  }
+
+  private reportSyncConflict(conflict: SyncConflict): void {
+    if (!this.syncConflicts.some(known => known.idempotencyKey === conflict.idempotencyKey)) {
+      this.syncConflicts.push(conflict);
+      this.toastService.error(`Offline sale ${conflict.receiptId} was not recorded: ${conflict.message}`);
+    }
+  }
+
+  dismissSyncConflict(conflict: SyncConflict): void {
+    this.posService.dismissSyncConflict(conflict.idempotencyKey).then(() => {
+      this.syncConflicts = this.syncConflicts.filter(known => known.idempotencyKey !== conflict.idempotencyKey);
+    });
+  }
+
   printReceipt(): void {
     if (this.currentReceipt) {
       this.posService.printReceipt(this.currentReceipt);
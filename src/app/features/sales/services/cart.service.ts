@@ -1,7 +1,7 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { CartItem } from '../pos/pos.component';
-import { Product } from '@core/services/product.service';
+import { Product, ProductVariant } from '@core/services/product.service';
 
 export interface CartState {
   items: CartItem[];
@@ -51,31 +51,29 @@ export class CartService {
   }
 
   /**
-   * Add product to cart
+   * Add product (or one of its variants) to cart
    */
-  addToCart(product: Product, quantity: number = 1): void {
+  addToCart(product: Product, quantity: number = 1, variant?: ProductVariant): void {
     const currentState = this.cartSubject.value;
-    const existingItemIndex = currentState.items.findIndex(item => item.product._id === product._id);
+    const existingItemIndex = currentState.items.findIndex(item => this.isSameLine(item, product._id, variant?._id));
 
     if (existingItemIndex >= 0) {
       // Update existing item
       const existingItem = currentState.items[existingItemIndex];
       const newQuantity = existingItem.quantity + quantity;
       
-      if (newQuantity <= product.inventory.quantity) {
-        currentState.items[existingItemIndex] = {
-          ...existingItem,
-          quantity: newQuantity,
-          total: newQuantity * existingItem.price
-        };
+      if (newQuantity <= this.getAvailableQuantity(product, variant)) {
+        currentState.items[existingItemIndex] = this.withQuantity(existingItem, newQuantity);
       }
     } else {
       // Add new item
+      const price = this.getUnitPrice(product, variant);
       const newItem: CartItem = {
         product,
+        variant,
         quantity,
-        price: product.price.selling,
-        total: product.price.selling * quantity
+        price,
+        total: price * quantity
       };
       currentState.items.push(newItem);
     }
@@ -86,18 +84,18 @@ export class CartService {
   /**
    * Remove product from cart
    */
-  removeFromCart(productId: string): void {
+  removeFromCart(productId: string, variantId?: string): void {
     const currentState = this.cartSubject.value;
-    currentState.items = currentState.items.filter(item => item.product._id !== productId);
+    currentState.items = currentState.items.filter(item => !this.isSameLine(item, productId, variantId));
     this.updateCart(currentState);
   }
 
   /**
    * Update product quantity in cart
    */
-  updateQuantity(productId: string, quantity: number): void {
+  updateQuantity(productId: string, quantity: number, variantId?: string): void {
     const currentState = this.cartSubject.value;
-    const itemIndex = currentState.items.findIndex(item => item.product._id === productId);
+    const itemIndex = currentState.items.findIndex(item => this.isSameLine(item, productId, variantId));
 
     if (itemIndex >= 0) {
       const item = currentState.items[itemIndex];
@@ -105,13 +103,9 @@ export class CartService {
       if (quantity <= 0) {
         // Remove item if quantity is 0 or negative
         currentState.items.splice(itemIndex, 1);
-      } else if (quantity <= item.product.inventory.quantity) {
+      } else if (quantity <= this.getAvailableQuantity(item.product, item.variant)) {
         // Update quantity
-        currentState.items[itemIndex] = {
-          ...item,
-          quantity,
-          total: quantity * item.price
-        };
+        currentState.items[itemIndex] = this.withQuantity(item, quantity);
       }
     }
 
@@ -149,6 +143,48 @@ export class CartService {
     this.saveCartToStorage(newState);
   }
 
+  /**
+   * Unit price of a product, or of a variant: its own selling price, or the
+   * product price plus its modifier
+   */
+  getUnitPrice(product: Product, variant?: ProductVariant): number {
+    if (!variant) {
+      return product.price.selling;
+    }
+    return variant.price?.selling ?? product.price.selling + (variant.priceModifier || 0);
+  }
+
+  /**
+   * Stock available for a product, or for one of its variants
+   */
+  getAvailableQuantity(product: Product, variant?: ProductVariant): number {
+    return variant ? variant.inventory?.quantity ?? 0 : product.inventory.quantity;
+  }
+
+  /**
+   * Display name of a cart line
+   */
+  getItemName(product: Product, variant?: ProductVariant): string {
+    return variant ? `${product.name} (${variant.name}: ${variant.value})` : product.name;
+  }
+
+  private isSameLine(item: CartItem, productId: string, variantId?: string): boolean {
+    return item.product._id === productId && item.variant?._id === variantId;
+  }
+
+  /**
+   * Line with a new quantity, keeping its discount in proportion
+   */
+  private withQuantity(item: CartItem, quantity: number): CartItem {
+    const discount = item.discount ? Math.round((item.discount / item.quantity) * quantity * 100) / 100 : 0;
+    return {
+      ...item,
+      quantity,
+      discount,
+      total: quantity * item.price - discount
+    };
+  }
+
   /**
    * Check if product is in cart
    */
@@ -195,7 +231,7 @@ export class CartService {
   }
 
   /**
-   * Apply discount to cart
+   * Apply a manual discount to every line, leaving the unit prices intact
    */
   applyDiscount(discountPercentage: number): void {
     if (discountPercentage < 0 || discountPercentage > 100) {
@@ -203,13 +239,15 @@ export class CartService {
     }
 
     const currentState = this.cartSubject.value;
-    const discountMultiplier = (100 - discountPercentage) / 100;
 
-    const updatedItems = currentState.items.map(item => ({
-      ...item,
-      price: item.price * discountMultiplier,
-      total: item.total * discountMultiplier
-    }));
+    const updatedItems = currentState.items.map(item => {
+      const discount = Math.round(item.price * item.quantity * discountPercentage) / 100;
+      return {
+        ...item,
+        discount,
+        total: item.price * item.quantity - discount
+      };
+    });
 
     this.updateCart(updatedItems);
   }
@@ -222,8 +260,8 @@ export class CartService {
     
     const updatedItems = currentState.items.map(item => ({
       ...item,
-      price: item.product.price.selling,
-      total: item.product.price.selling * item.quantity
+      discount: 0,
+      total: item.price * item.quantity
     }));
 
     this.updateCart(updatedItems);
@@ -0,0 +1,134 @@
+import { Injectable } from '@angular/core';
+
+// Shared with sw.js, which reads the same store during background sync
+export const OFFLINE_DB_NAME = 'shop-inventory-offline';
+export const OFFLINE_DB_VERSION = 2;
+export const PENDING_SALES_STORE = 'pending-sales';
+// Holds the cashier's current Authorization header, read at replay time
+export const SESSION_STORE = 'session';
+export const AUTHORIZATION_KEY = 'authorization';
+export const POS_SYNC_TAG = 'sync-pos-sales';
+
+export interface QueuedSale {
+  // Client-generated key sent as the Idempotency-Key header, so a sale
+  // replayed after a lost response is only recorded once
+  idempotencyKey: string;
+  url: string;
+  body: any;
+  // Receipt handed to the cashier while the sale waits to be synced
+  receipt: any;
+  // Conflicts are kept until the cashier has seen them; sales the server
+  // refused for want of a valid session wait until the cashier signs in
+  status: 'pending' | 'conflict' | 'auth_required';
+  error?: string;
+  attempts: number;
+  queuedAt: string;
+}
+
+/**
+ * IndexedDB queue of POS sales made while offline. The service worker
+ * drains it through background sync once the network is back.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineSaleQueueService {
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * Add a sale to the queue
+   */
+  async enqueue(sale: QueuedSale): Promise<void> {
+    await this.request('readwrite', store => store.put(sale));
+  }
+
+  /**
+   * Get all queued sales, oldest first
+   */
+  async getAll(): Promise<QueuedSale[]> {
+    const sales = await this.request<QueuedSale[]>('readonly', store => store.getAll());
+    return sales.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+  }
+
+  /**
+   * Update a queued sale, e.g. after a failed sync attempt
+   */
+  async update(sale: QueuedSale): Promise<void> {
+    await this.request('readwrite', store => store.put(sale));
+  }
+
+  /**
+   * Remove a sale once it has been synced or dismissed
+   */
+  async remove(idempotencyKey: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(idempotencyKey));
+  }
+
+  /**
+   * Store the Authorization header the service worker replays sales with,
+   * or clear it when signed out
+   */
+  async saveAuthorization(authorization?: string): Promise<void> {
+    await this.request('readwrite', store => authorization
+      ? store.put({ key: AUTHORIZATION_KEY, value: authorization })
+      : store.delete(AUTHORIZATION_KEY), SESSION_STORE);
+  }
+
+  /**
+   * Put sales held for want of a session back in line for syncing
+   */
+  async resumeAuthRequired(): Promise<number> {
+    const held = (await this.getAll()).filter(sale => sale.status === 'auth_required');
+    for (const sale of held) {
+      await this.update({ ...sale, status: 'pending' });
+    }
+    return held.length;
+  }
+
+  /**
+   * Number of sales still waiting to be synced, including those held until
+   * the cashier signs in again
+   */
+  async count(): Promise<number> {
+    const sales = await this.getAll();
+    return sales.filter(sale => sale.status === 'pending' || sale.status === 'auth_required').length;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest,
+    storeName = PENDING_SALES_STORE
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(PENDING_SALES_STORE)) {
+            request.result.createObjectStore(PENDING_SALES_STORE, { keyPath: 'idempotencyKey' });
+          }
+          if (!request.result.objectStoreNames.contains(SESSION_STORE)) {
+            request.result.createObjectStore(SESSION_STORE, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.db;
+  }
+}
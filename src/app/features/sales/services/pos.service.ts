@@ -1,12 +1,28 @@
 import { Injectable } from '@angular/core';
-import { Observable, of, throwError } from 'rxjs';
-import { delay, map } from 'rxjs/operators';
-import { Product } from '@core/services/product.service';
+import { HttpClient, HttpErrorResponse, HttpHeaders } from '@angular/common/http';
+import { Observable, Subject, from, of, throwError } from 'rxjs';
+import { catchError, delay, map } from 'rxjs/operators';
+import { Product, ProductVariant } from '@core/services/product.service';
 import { CartItem } from '../pos/pos.component';
+import { OfflineSaleQueueService, QueuedSale, POS_SYNC_TAG } from './offline-sale-queue.service';
+import { environment } from '../../../../environments/environment';
+
+export interface PaymentTender {
+  method: string;
+  amount: number;
+  reference?: string;
+}
 
 export interface SaleData {
   items: CartItem[];
   total: number;
+  // Coupon entered at the till; validated and applied by the server
+  couponCode?: string;
+  // Loyalty points the customer spends, as a discount or towards the payment
+  redeemPoints?: number;
+  redeemAs?: 'discount' | 'payment';
+  // Tenders for a split payment; without them method/amount is the only tender
+  payments?: PaymentTender[];
   method: string;
   amount?: number;
   change?: number;
@@ -21,6 +37,7 @@ export interface SaleReceipt {
   total: number;
   tax: number;
   grandTotal: number;
+  payments?: PaymentTender[];
   method: string;
   amount?: number;
   change?: number;
@@ -29,6 +46,17 @@ export interface SaleReceipt {
   timestamp: Date;
   cashier?: string;
   customer?: string;
+  // Number given by the server once the sale is recorded
+  transactionNumber?: string;
+  // Sales made offline stay pending until background sync records them
+  syncStatus?: 'synced' | 'pending' | 'conflict';
+  syncError?: string;
+}
+
+export interface SyncConflict {
+  receiptId: string;
+  idempotencyKey: string;
+  message: string;
 }
 
 export interface PaymentMethod {
@@ -56,10 +84,26 @@ export interface PosStats {
 export class PosService {
   private readonly SALES_STORAGE_KEY = 'pos_sales';
   private readonly RECEIPTS_STORAGE_KEY = 'pos_receipts';
+  private readonly apiUrl = environment.apiUrl;
+  // Till payment method ids that differ from the API tender methods
+  private readonly API_PAYMENT_METHODS: { [key: string]: string } = {
+    mobile: 'digital',
+    bank: 'bank_transfer'
+  };
   private sales: SaleReceipt[] = [];
 
-  constructor() {
+  private conflictsSubject = new Subject<SyncConflict>();
+  public syncConflicts$: Observable<SyncConflict> = this.conflictsSubject.asObservable();
+  // Receipt ids of offline sales held until the cashier signs in again
+  private authRequiredSubject = new Subject<string>();
+  public syncAuthRequired$: Observable<string> = this.authRequiredSubject.asObservable();
+
+  constructor(
+    private http: HttpClient,
+    private offlineQueue: OfflineSaleQueueService
+  ) {
     this.loadSalesFromStorage();
+    this.listenForSyncResults();
   }
 
   /**
@@ -165,7 +209,9 @@ export class PosService {
   }
 
   /**
-   * Process a sale
+   * Process a sale. It is posted to /pos/sale when online; when the
+   * network is down it is queued and the cashier gets a pending receipt.
+   * Stock and payment problems reported by the server fail the sale.
    */
   processSale(saleData: SaleData): Observable<SaleReceipt> {
     // Validate sale data
@@ -177,32 +223,84 @@ export class PosService {
       return throwError(() => new Error('Sale total must be greater than zero'));
     }
 
-    // Create receipt
+    // Provisional receipt; totals are replaced by the server's once recorded
     const receipt: SaleReceipt = {
       id: this.generateSaleId(),
       items: saleData.items,
       total: saleData.total,
       tax: saleData.total * 0.085, // 8.5% tax
       grandTotal: saleData.total * 1.085,
-      method: saleData.method,
+      payments: saleData.payments,
+      method: saleData.payments?.length > 1 ? 'split' : saleData.method,
       amount: saleData.amount,
       change: saleData.change,
       reference: saleData.reference,
       notes: saleData.notes,
       timestamp: saleData.timestamp,
       cashier: this.getCurrentUser(),
-      customer: this.getCurrentCustomer()
+      customer: this.getCurrentCustomer(),
+      syncStatus: 'pending'
     };
 
-    // Save sale
-    this.sales.push(receipt);
-    this.saveSalesToStorage();
+    const queuedSale: QueuedSale = {
+      idempotencyKey: this.generateIdempotencyKey(),
+      url: `${this.apiUrl}/pos/sale`,
+      body: this.toSaleRequest(saleData),
+      receipt,
+      status: 'pending',
+      attempts: 0,
+      queuedAt: new Date().toISOString()
+    };
 
-    // Update inventory (in a real app, this would call the inventory service)
-    this.updateInventory(receipt);
+    if (!navigator.onLine) {
+      return from(this.queueSale(queuedSale));
+    }
+
+    return this.http.post<any>(queuedSale.url, queuedSale.body, {
+      headers: new HttpHeaders({ 'Idempotency-Key': queuedSale.idempotencyKey })
+    }).pipe(
+      map(sale => this.recordReceipt(this.applyServerSale(receipt, sale))),
+      catchError((error: HttpErrorResponse) => {
+        // Lost connections and server outages are retried in the background
+        if (error.status === 0 || error.status >= 500) {
+          return from(this.queueSale(queuedSale));
+        }
+        return throwError(() => new Error(this.getErrorMessage(error)));
+      })
+    );
+  }
 
-    // Return receipt with simulated delay
-    return of(receipt).pipe(delay(1000));
+  /**
+   * Offline sales the server rejected, e.g. because stock ran out before
+   * they were synced. They stay queued until the cashier dismisses them.
+   */
+  async getSyncConflicts(): Promise<SyncConflict[]> {
+    const queued = await this.offlineQueue.getAll();
+    return queued
+      .filter(sale => sale.status === 'conflict')
+      .map(sale => ({
+        receiptId: sale.receipt.id,
+        idempotencyKey: sale.idempotencyKey,
+        message: sale.error || 'Sale could not be recorded'
+      }));
+  }
+
+  /**
+   * Dismiss a sync conflict once the cashier has dealt with it
+   */
+  async dismissSyncConflict(idempotencyKey: string): Promise<void> {
+    await this.offlineQueue.remove(idempotencyKey);
+    this.notifyServiceWorker({ type: 'QUEUE_CHANGED' });
+  }
+
+  /**
+   * Ask the service worker to sync queued sales now. Browsers without
+   * background sync rely on this when the connection comes back.
+   */
+  syncPendingSales(): void {
+    this.shareSession()
+      .catch(error => console.error('Failed to share the session with the service worker:', error))
+      .then(() => this.notifyServiceWorker({ type: 'SYNC_POS_SALES' }));
   }
 
   /**
@@ -285,11 +383,17 @@ export class PosService {
     const paymentMethodBreakdown: { [key: string]: { count: number; amount: number } } = {};
     
     this.sales.forEach(sale => {
-      if (!paymentMethodBreakdown[sale.method]) {
-        paymentMethodBreakdown[sale.method] = { count: 0, amount: 0 };
-      }
-      paymentMethodBreakdown[sale.method].count++;
-      paymentMethodBreakdown[sale.method].amount += sale.grandTotal;
+      const tenders = sale.payments?.length
+        ? sale.payments
+        : [{ method: sale.method, amount: sale.grandTotal }];
+
+      tenders.forEach(tender => {
+        if (!paymentMethodBreakdown[tender.method]) {
+          paymentMethodBreakdown[tender.method] = { count: 0, amount: 0 };
+        }
+        paymentMethodBreakdown[tender.method].count++;
+        paymentMethodBreakdown[tender.method].amount += tender.amount;
+      });
     });
 
     const stats: PosStats = {
@@ -404,6 +508,32 @@ export class PosService {
     return of(methods);
   }
 
+  /**
+   * Look up a scanned barcode; variant barcodes resolve to the variant. A
+   * UPC-A matches its EAN-13 form with a leading zero.
+   */
+  getProductByBarcode(code: string): Observable<{ product: Product; variant?: ProductVariant }> {
+    const trimmed = code.trim();
+    const candidates = /^\d{12}$/.test(trimmed)
+      ? [trimmed, `0${trimmed}`]
+      : /^0\d{12}$/.test(trimmed) ? [trimmed, trimmed.slice(1)] : [trimmed];
+
+    return this.getProducts().pipe(
+      map(products => {
+        for (const product of products) {
+          if (product.barcode && candidates.includes(product.barcode)) {
+            return { product };
+          }
+          const variant = product.variants?.find(v => v.barcode && candidates.includes(v.barcode));
+          if (variant) {
+            return { product, variant };
+          }
+        }
+        throw new Error(`No product found for barcode ${trimmed}`);
+      })
+    );
+  }
+
   /**
    * Search products
    */
@@ -498,6 +628,166 @@ export class PosService {
     return `SALE-${timestamp}-${random}`.toUpperCase();
   }
 
+  /**
+   * Generate the idempotency key a sale is posted and replayed with
+   */
+  private generateIdempotencyKey(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+      return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 10)}`;
+  }
+
+  /**
+   * Map a sale to the /pos/sale request body
+   */
+  private toSaleRequest(saleData: SaleData): any {
+    // Cash handed over for a single cash payment is sent as the tender so
+    // the server works out the change
+    const tenders = saleData.payments?.length
+      ? saleData.payments
+      : saleData.method === 'cash' && saleData.amount
+        ? [{ method: 'cash', amount: saleData.amount }]
+        : undefined;
+
+    return {
+      items: saleData.items.map(item => ({
+        product: item.product._id,
+        variant: item.variant?._id,
+        quantity: item.quantity,
+        discount: item.discount
+      })),
+      payments: tenders?.map(tender => ({
+        method: this.API_PAYMENT_METHODS[tender.method] || tender.method,
+        amount: tender.amount,
+        reference: tender.reference
+      })),
+      paymentMethod: this.API_PAYMENT_METHODS[saleData.method] || saleData.method,
+      couponCode: saleData.couponCode,
+      redeemPoints: saleData.redeemPoints,
+      redeemAs: saleData.redeemAs,
+      notes: saleData.notes
+    };
+  }
+
+  /**
+   * Update a receipt with the sale as recorded by the server
+   */
+  private applyServerSale(receipt: SaleReceipt, sale: any): SaleReceipt {
+    return {
+      ...receipt,
+      transactionNumber: sale.transactionNumber,
+      tax: sale.totals?.tax ?? receipt.tax,
+      grandTotal: sale.totals?.total ?? receipt.grandTotal,
+      change: sale.payment?.change ?? receipt.change,
+      syncStatus: 'synced',
+      syncError: undefined
+    };
+  }
+
+  /**
+   * Keep a receipt in the local sales history
+   */
+  private recordReceipt(receipt: SaleReceipt): SaleReceipt {
+    this.sales.push(receipt);
+    this.saveSalesToStorage();
+    this.updateInventory(receipt);
+    return receipt;
+  }
+
+  /**
+   * Queue a sale for background sync and return its pending receipt
+   */
+  private async queueSale(queuedSale: QueuedSale): Promise<SaleReceipt> {
+    await this.offlineQueue.enqueue(queuedSale);
+    const receipt = this.recordReceipt(queuedSale.receipt);
+    await this.shareSession().catch(error => console.error('Failed to share the session with the service worker:', error));
+
+    this.notifyServiceWorker({ type: 'QUEUE_CHANGED' });
+    try {
+      const registration = 'serviceWorker' in navigator
+        ? await navigator.serviceWorker.getRegistration()
+        : undefined;
+      if (registration && 'sync' in registration) {
+        await (registration as any).sync.register(POS_SYNC_TAG);
+      }
+    } catch (error) {
+      console.error('Failed to register background sync:', error);
+    }
+
+    return receipt;
+  }
+
+  /**
+   * Apply sync results reported by the service worker
+   */
+  private listenForSyncResults(): void {
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', event => {
+        const message = event.data || {};
+
+        if (message.type === 'POS_SALE_SYNCED') {
+          this.updateReceipt(message.receiptId, receipt => this.applyServerSale(receipt, message.sale));
+        }
+
+        if (message.type === 'POS_SALE_AUTH_REQUIRED') {
+          this.authRequiredSubject.next(message.receiptId);
+        }
+
+        if (message.type === 'POS_SALE_CONFLICT') {
+          this.updateReceipt(message.receiptId, receipt => ({
+            ...receipt,
+            syncStatus: 'conflict',
+            syncError: message.message
+          }));
+          this.conflictsSubject.next({
+            receiptId: message.receiptId,
+            idempotencyKey: message.idempotencyKey,
+            message: message.message
+          });
+        }
+      });
+    }
+
+    window.addEventListener('online', () => this.syncPendingSales());
+  }
+
+  /**
+   * Hand the current session to the service worker, which replays queued
+   * sales with it. Sales held for want of a session are released once the
+   * cashier is signed in again.
+   */
+  private async shareSession(): Promise<void> {
+    const token = localStorage.getItem('auth_token');
+    await this.offlineQueue.saveAuthorization(token ? `Bearer ${token}` : undefined);
+
+    if (token && await this.offlineQueue.resumeAuthRequired() > 0) {
+      this.notifyServiceWorker({ type: 'QUEUE_CHANGED' });
+    }
+  }
+
+  private updateReceipt(receiptId: string, update: (receipt: SaleReceipt) => SaleReceipt): void {
+    const index = this.sales.findIndex(sale => sale.id === receiptId);
+    if (index !== -1) {
+      this.sales[index] = update(this.sales[index]);
+      this.saveSalesToStorage();
+    }
+  }
+
+  private notifyServiceWorker(message: any): void {
+    if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
+      navigator.serviceWorker.controller.postMessage(message);
+    }
+  }
+
+  private getErrorMessage(error: HttpErrorResponse): string {
+    const message = error.error?.message;
+    if (Array.isArray(message)) {
+      return message.join(', ');
+    }
+    return message || 'Sale could not be recorded';
+  }
+
   /**
    * Get current user (cashier)
    */
@@ -589,7 +879,9 @@ export class PosService {
             </div>
             
             <div class="footer">
-              <p>Payment Method: ${receipt.method}</p>
+              ${receipt.payments?.length ? receipt.payments.map(tender => `
+                <p>Paid by ${tender.method}: $${tender.amount.toFixed(2)}${tender.reference ? ` (${tender.reference})` : ''}</p>
+              `).join('') : `<p>Payment Method: ${receipt.method}</p>`}
               ${receipt.reference ? `<p>Reference: ${receipt.reference}</p>` : ''}
               ${receipt.notes ? `<p>Notes: ${receipt.notes}</p>` : ''}
               <p>Thank you for your purchase!</p>